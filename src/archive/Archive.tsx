@@ -451,7 +451,7 @@ export default function Archive() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf,.docx,.epub,.mobi,.azw,.azw3"
+        accept=".pdf,.docx,.epub,.mobi,.azw,.azw3,.fb2,.zip,.txt,.md,.markdown,.html,.htm,.rtf"
         multiple
         onChange={handleFileSelect}
         className="hidden"
@@ -619,9 +619,9 @@ export default function Archive() {
         <ArchiveNotesModal
           item={viewingNotesForItem}
           onClose={closeNotesView}
-          onOpenDocument={(item, annotationId) => {
+          onOpenDocument={(item, annotationId, passage) => {
             closeNotesView();
-            openItem(item, annotationId);
+            openItem(item, annotationId, passage);
           }}
         />
       )}
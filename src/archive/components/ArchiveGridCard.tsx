@@ -29,7 +29,10 @@ function getTypeGradient(type: ArchiveItem['type']) {
       return 'linear-gradient(135deg, #3b82f6 0%, #1e40af 100%)';
     case 'epub':
     case 'mobi':
+    case 'fb2':
       return 'linear-gradient(135deg, #8b5cf6 0%, #6d28d9 100%)';
+    case 'text':
+      return 'linear-gradient(135deg, #14b8a6 0%, #0f766e 100%)';
     case 'paste':
       return 'linear-gradient(135deg, #6b7280 0%, #374151 100%)';
     default:
@@ -52,6 +55,7 @@ function getTypeIcon(type: ArchiveItem['type']) {
         </svg>
       );
     case 'docx':
+    case 'text':
       return (
         <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -59,6 +63,7 @@ function getTypeIcon(type: ArchiveItem['type']) {
       );
     case 'epub':
     case 'mobi':
+    case 'fb2':
       return (
         <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
@@ -2,22 +2,24 @@
  * ArchiveNotesModal Component
  * 
  * Modal to view annotations for an archived item when not in the reader.
- * Shows all annotations with options to delete or open the document.
+ * Shows all annotations with options to delete or open the document, and the
+ * passages the reader struggled with.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import type { ArchiveItem, Annotation } from '@/types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ArchiveItem, Annotation, PassageLocation } from '@/types';
 import { 
   getDocumentKeyFromArchiveItem, 
   getAnnotations, 
   deleteAnnotation 
 } from '@/lib/annotations-service';
+import { getDifficultPassages } from '@/lib/reading-difficulty';
 import ExportDropdown from '@/components/ExportDropdown';
 
 interface ArchiveNotesModalProps {
   item: ArchiveItem;
   onClose: () => void;
-  onOpenDocument: (item: ArchiveItem, annotationId?: string) => void;
+  onOpenDocument: (item: ArchiveItem, annotationId?: string, passage?: PassageLocation) => void;
 }
 
 export default function ArchiveNotesModal({
@@ -86,6 +88,15 @@ export default function ArchiveNotesModal({
     onClose();
   }, [item, onOpenDocument, onClose]);
 
+  const handleOpenPassage = useCallback((passage: PassageLocation) => {
+    onOpenDocument(item, undefined, passage);
+    onClose();
+  }, [item, onOpenDocument, onClose]);
+
+  const difficultPassages = useMemo(() => getDifficultPassages(item.readingDifficulty), [item]);
+  // Only books have passages past the first chapter
+  const showPassageChapters = difficultPassages.some(passage => passage.chapterIndex > 0);
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString(undefined, {
@@ -147,7 +158,7 @@ export default function ArchiveNotesModal({
             </div>
           )}
 
-          {!loading && annotations.length === 0 && (
+          {!loading && annotations.length === 0 && difficultPassages.length === 0 && (
             <div className="text-center py-12 px-4">
               <svg 
                 className="w-12 h-12 mx-auto mb-4 opacity-30"
@@ -248,6 +259,41 @@ export default function ArchiveNotesModal({
               ))}
             </div>
           )}
+
+          {/* Passages with many rewinds or long dwell times */}
+          {!loading && difficultPassages.length > 0 && (
+            <div className="p-4 border-t border-reader-text/10">
+              <h3 className="text-sm font-medium">Passages you struggled with</h3>
+              <p className="text-xs opacity-50 mt-0.5 mb-2">
+                Where you went back or slowed down the most
+              </p>
+              <ul className="space-y-1">
+                {difficultPassages.map(passage => (
+                  <li
+                    key={`${passage.chapterIndex}:${passage.blockIndex}`}
+                    className="flex items-start gap-2 py-1 group"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm line-clamp-2">{passage.preview}</p>
+                      <p className="text-xs opacity-50">
+                        {showPassageChapters && `Chapter ${passage.chapterIndex + 1} · `}
+                        {passage.regressions} rewind{passage.regressions !== 1 ? 's' : ''}
+                        {passage.dwellMs > 0 && ` · ${Math.round(passage.dwellMs / 1000)}s read`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleOpenPassage(passage)}
+                      className="flex-shrink-0 px-2 py-1 text-xs rounded hover:bg-reader-text/10 transition-colors"
+                      style={{ color: 'var(--reader-link)' }}
+                      title="Open and go to this passage"
+                    >
+                      View
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
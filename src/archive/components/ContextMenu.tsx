@@ -7,6 +7,7 @@
 import { useEffect, useRef, useState } from 'react';
 import type { ArchiveItem, Collection } from '@/types';
 import { getDocumentKeyFromArchiveItem, getAnnotationCount } from '@/lib/annotations-service';
+import { getDifficultPassages } from '@/lib/reading-difficulty';
 
 interface ContextMenuProps {
   itemId: string;
@@ -87,6 +88,7 @@ export default function ContextMenu({
   const isItemInSelection = selectedItemIds.has(itemId);
   const showBulkMenu = isItemInSelection && selectedItemIds.size > 1;
   const selectedCount = selectedItemIds.size;
+  const hasDifficultPassages = getDifficultPassages(item.readingDifficulty, 1).length > 0;
   
   // Get active collection for "Remove from collection" option
   const activeCollection = activeCollectionId 
@@ -293,8 +295,8 @@ export default function ContextMenu({
             Rename
           </button>
           
-          {/* View Notes - only show if item has annotations */}
-          {annotationCount > 0 && onViewNotes && (
+          {/* View Notes - only show if item has annotations or struggled passages */}
+          {(annotationCount > 0 || hasDifficultPassages) && onViewNotes && (
             <button
               className="context-menu-item"
               onClick={() => {
@@ -305,7 +307,7 @@ export default function ContextMenu({
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
               </svg>
-              View Notes ({annotationCount})
+              View Notes{annotationCount > 0 && ` (${annotationCount})`}
             </button>
           )}
           
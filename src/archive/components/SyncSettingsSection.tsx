@@ -2,15 +2,18 @@
  * Sync Settings Section
  * 
  * Settings UI for configuring cross-device sync.
- * Allows connecting to Dropbox or a local folder (for iCloud).
+ * Allows connecting to Dropbox, a WebDAV server (e.g. Nextcloud), S3-compatible
+ * object storage (e.g. MinIO) or a local folder (for iCloud).
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { syncService } from '@/lib/sync/sync-service';
 import { dropboxAdapter } from '@/lib/sync/providers/dropbox-adapter';
 import { folderAdapter } from '@/lib/sync/providers/folder-adapter';
-import type { SyncProviderType, SyncStatus, SyncEvent } from '@/lib/sync/types';
-import { SyncStatusBadge, ApiKeyModal, PassphraseModal } from './sync';
+import { webdavAdapter } from '@/lib/sync/providers/webdav-adapter';
+import { s3Adapter } from '@/lib/sync/providers/s3-adapter';
+import type { SyncProviderType, SyncStatus, SyncEvent, WebDavCredentials } from '@/lib/sync/types';
+import { SyncStatusBadge, ApiKeyModal, PassphraseModal, WebDavModal, SyncConflictList, SyncHistoryModal, ChangePassphraseModal, SyncScopeSettings, ContentSyncSettings, type CredentialField } from './sync';
 
 // =============================================================================
 // TYPES
@@ -23,6 +26,7 @@ interface ProviderOption {
   icon: string;
   needsApiKey: boolean;
   apiKeyLabel?: string;
+  credentialFields?: CredentialField[];
 }
 
 const PROVIDER_OPTIONS: ProviderOption[] = [
@@ -41,6 +45,27 @@ const PROVIDER_OPTIONS: ProviderOption[] = [
     needsApiKey: true,
     apiKeyLabel: 'Dropbox App Key',
   },
+  {
+    type: 'webdav',
+    name: 'WebDAV',
+    description: 'Sync to Nextcloud, ownCloud, or any WebDAV server',
+    icon: 'M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01',
+    needsApiKey: false,
+  },
+  {
+    type: 's3',
+    name: 'S3 Storage',
+    description: 'Sync to MinIO, Backblaze B2, Cloudflare R2, or AWS S3',
+    icon: 'M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4',
+    needsApiKey: true,
+    apiKeyLabel: 'Access Key ID',
+    credentialFields: [
+      { name: 'secretAccessKey', label: 'Secret Access Key', secret: true },
+      { name: 'endpoint', label: 'Endpoint', placeholder: 'http://localhost:9000' },
+      { name: 'bucket', label: 'Bucket', placeholder: 'flowreader' },
+      { name: 'region', label: 'Region', placeholder: 'us-east-1', optional: true },
+    ],
+  },
 ];
 
 // Storage keys for API keys
@@ -86,6 +111,10 @@ export function SyncSettingsSection() {
   const [isConnecting, setIsConnecting] = useState(false);
   const [showPassphraseModal, setShowPassphraseModal] = useState(false);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [showWebDavModal, setShowWebDavModal] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showChangePassphraseModal, setShowChangePassphraseModal] = useState(false);
+  const [isEncrypted, setIsEncrypted] = useState(false);
   const [pendingProvider, setPendingProvider] = useState<ProviderOption | null>(null);
   const [isExistingEncryptedFile, setIsExistingEncryptedFile] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -96,6 +125,7 @@ export function SyncSettingsSection() {
       const config = await syncService.getConfig();
       if (config?.enabled && config.provider) {
         setConnectedProvider(config.provider);
+        setIsEncrypted(config.encryptionEnabled);
         setStatus({ state: 'idle', lastSyncTime: config.lastSyncTime ?? undefined });
         
         // Restore the provider adapter so sync can work after page reload
@@ -109,6 +139,16 @@ export function SyncSettingsSection() {
           if (connected) {
             syncService.setProvider(dropboxAdapter);
           }
+        } else if (config.provider === 'webdav') {
+          const connected = await webdavAdapter.isConnected();
+          if (connected) {
+            syncService.setProvider(webdavAdapter);
+          }
+        } else if (config.provider === 's3') {
+          const connected = await s3Adapter.isConnected();
+          if (connected) {
+            syncService.setProvider(s3Adapter);
+          }
         }
       }
     };
@@ -268,15 +308,82 @@ export function SyncSettingsSection() {
       return;
     }
 
+    if (option.type === 'webdav') {
+      setShowWebDavModal(true);
+      return;
+    }
+
     if (option.needsApiKey) {
       setShowApiKeyModal(true);
     }
   }, []);
 
-  const handleApiKeySubmit = useCallback(async (apiKey: string) => {
+  // Errors are rethrown so the modal can show them and let the user retry
+  const handleWebDavSubmit = useCallback(async (credentials: WebDavCredentials) => {
+    setIsConnecting(true);
+    setError(null);
+
+    try {
+      await webdavAdapter.connect(credentials);
+      setShowWebDavModal(false);
+
+      const remoteState = await syncService.checkRemoteState(webdavAdapter);
+      syncService.setProvider(webdavAdapter);
+
+      if (remoteState.exists && remoteState.encrypted) {
+        setIsExistingEncryptedFile(true);
+        setShowPassphraseModal(true);
+        return;
+      }
+
+      await syncService.configureWithoutEncryption(webdavAdapter);
+      await syncService.syncNow();
+      setPendingProvider(null);
+    } finally {
+      setIsConnecting(false);
+    }
+  }, []);
+
+  const connectS3 = async (accessKeyId: string, fields: Record<string, string>) => {
+    setIsConnecting(true);
+    setError(null);
+
+    try {
+      await s3Adapter.connect({
+        accessKeyId,
+        secretAccessKey: fields.secretAccessKey,
+        endpoint: fields.endpoint,
+        bucket: fields.bucket,
+        region: fields.region,
+      });
+
+      const remoteState = await syncService.checkRemoteState(s3Adapter);
+      syncService.setProvider(s3Adapter);
+
+      if (remoteState.exists && remoteState.encrypted) {
+        setIsExistingEncryptedFile(true);
+        setShowPassphraseModal(true);
+      } else {
+        await syncService.configureWithoutEncryption(s3Adapter);
+        await syncService.syncNow();
+        setPendingProvider(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect');
+      setPendingProvider(null);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleApiKeySubmit = useCallback(async (apiKey: string, fields: Record<string, string>) => {
     if (!pendingProvider) return;
     
     setShowApiKeyModal(false);
+    if (pendingProvider.type === 's3') {
+      await connectS3(apiKey, fields);
+      return;
+    }
     await storeApiKey(pendingProvider.type, apiKey);
     await startOAuthFlow(pendingProvider, apiKey);
   }, [pendingProvider]);
@@ -291,12 +398,17 @@ export function SyncSettingsSection() {
       let adapter;
       if (pendingProvider.type === 'folder') {
         adapter = folderAdapter;
+      } else if (pendingProvider.type === 'webdav') {
+        adapter = webdavAdapter;
+      } else if (pendingProvider.type === 's3') {
+        adapter = s3Adapter;
       } else {
         adapter = dropboxAdapter;
       }
       
       syncService.setProvider(adapter);
       await syncService.configure(adapter, passphrase);
+      setIsEncrypted(true);
       
       setShowPassphraseModal(false);
       setPendingProvider(null);
@@ -312,6 +424,7 @@ export function SyncSettingsSection() {
     try {
       await syncService.disconnect();
       setConnectedProvider(null);
+      setIsEncrypted(false);
       setStatus({ state: 'disabled' });
       setError(null);
     } catch (err) {
@@ -346,6 +459,22 @@ export function SyncSettingsSection() {
         setError('Dropbox session expired. Please reconnect.');
         return;
       }
+    } else if (connectedProvider === 'webdav') {
+      const connected = await webdavAdapter.isConnected();
+      if (connected) {
+        syncService.setProvider(webdavAdapter);
+      } else {
+        setError('WebDAV login not found. Please reconnect.');
+        return;
+      }
+    } else if (connectedProvider === 's3') {
+      const connected = await s3Adapter.isConnected();
+      if (connected) {
+        syncService.setProvider(s3Adapter);
+      } else {
+        setError('S3 access keys not found. Please reconnect.');
+        return;
+      }
     }
 
     const result = await syncService.syncNow();
@@ -404,6 +533,30 @@ export function SyncSettingsSection() {
               Last synced: {formatRelativeTime(status.lastSyncTime)}
             </p>
           )}
+
+          <button
+            onClick={() => setShowHistoryModal(true)}
+            disabled={status.state === 'syncing'}
+            className="w-full text-xs opacity-60 hover:opacity-100 disabled:opacity-30 transition-opacity"
+          >
+            Restore from history...
+          </button>
+
+          {isEncrypted && (
+            <button
+              onClick={() => setShowChangePassphraseModal(true)}
+              disabled={status.state === 'syncing'}
+              className="w-full text-xs opacity-60 hover:opacity-100 disabled:opacity-30 transition-opacity"
+            >
+              Change passphrase...
+            </button>
+          )}
+
+          <SyncScopeSettings />
+
+          <ContentSyncSettings />
+
+          <SyncConflictList />
         </div>
       ) : (
         <div className="mt-4 space-y-2">
@@ -446,6 +599,24 @@ export function SyncSettingsSection() {
         />
       )}
 
+      {showWebDavModal && (
+        <WebDavModal
+          onSubmit={handleWebDavSubmit}
+          onCancel={() => {
+            setShowWebDavModal(false);
+            setPendingProvider(null);
+          }}
+        />
+      )}
+
+      {showHistoryModal && (
+        <SyncHistoryModal onClose={() => setShowHistoryModal(false)} />
+      )}
+
+      {showChangePassphraseModal && (
+        <ChangePassphraseModal onClose={() => setShowChangePassphraseModal(false)} />
+      )}
+
       {showPassphraseModal && pendingProvider && (
         <PassphraseModal
           isNewSetup={!connectedProvider && !isExistingEncryptedFile}
@@ -27,7 +27,8 @@ const FILTERS: FilterConfig[] = [
   { id: 'web', label: 'Web', types: ['web'] },
   { id: 'pdf', label: 'PDF', types: ['pdf'] },
   { id: 'docx', label: 'Word', types: ['docx'] },
-  { id: 'books', label: 'Books', types: ['epub', 'mobi'] },
+  { id: 'books', label: 'Books', types: ['epub', 'mobi', 'fb2'] },
+  { id: 'text', label: 'Text', types: ['text'] },
   { id: 'paste', label: 'Paste', types: ['paste'] },
 ];
 
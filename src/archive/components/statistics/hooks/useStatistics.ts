@@ -27,6 +27,7 @@ import {
   calculateRollingAverages,
   calculatePatternInsights,
   calculateProjections,
+  getComprehensionPoints,
   type RollingAverages,
   type PatternInsights,
   type ReadingProjections,
@@ -101,6 +102,8 @@ interface UseStatisticsResult {
   // Chart data
   dailyChartData: Array<{ date: string; minutes: number; words: number }>;
   wpmChartData: Array<{ date: string; wpm: number }>;
+  /** Comprehension check scores against the speed each section was read at */
+  comprehensionChartData: Array<{ wpm: number; percent: number; date: string }>;
   
   // Refresh
   refresh: () => Promise<void>;
@@ -251,10 +254,11 @@ export function useStatistics({ archiveItems }: UseStatisticsOptions): UseStatis
         worstDay: { dayIndex: 0, dayName: 'Sunday', avgMinutes: 0 },
         dayOfWeekBreakdown: [],
         consistency: { activeDaysPercent: 0, streakStatus: 'inactive' as const },
+        rereading: { regressionsPerHour: 0, hardestDocuments: [] },
       };
     }
-    return calculatePatternInsights(stats);
-  }, [stats]);
+    return calculatePatternInsights(stats, archiveItems);
+  }, [stats, archiveItems]);
 
   // Sparkline data (last 7 days)
   const sparklines = useMemo(() => {
@@ -307,6 +311,15 @@ export function useStatistics({ archiveItems }: UseStatisticsOptions): UseStatis
     }));
   }, [stats]);
 
+  // Comprehension vs speed data
+  const comprehensionChartData = useMemo(() => {
+    if (!stats) return [];
+    return getComprehensionPoints(stats).map((point) => ({
+      ...point,
+      date: new Date(point.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    }));
+  }, [stats]);
+
   return {
     stats,
     loading,
@@ -331,6 +344,7 @@ export function useStatistics({ archiveItems }: UseStatisticsOptions): UseStatis
     projections,
     dailyChartData,
     wpmChartData,
+    comprehensionChartData,
     refresh: loadStats,
   };
 }
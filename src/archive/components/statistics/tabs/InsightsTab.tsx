@@ -17,6 +17,9 @@ import {
   PieChart,
   Pie,
   Cell,
+  ScatterChart,
+  Scatter,
+  YAxis,
 } from 'recharts';
 import { ChartContainer } from '../components/ChartContainer';
 import { formatReadingTime, formatLargeNumber } from '@/lib/stats-service';
@@ -28,7 +31,7 @@ interface InsightsTabProps {
 }
 
 export function InsightsTab({ stats, accentColor }: InsightsTabProps) {
-  const { hourlyActivity, personalBests, contentBreakdown, kpis, progressBreakdown, rollingAverages, patternInsights, projections } = stats;
+  const { hourlyActivity, personalBests, contentBreakdown, kpis, progressBreakdown, rollingAverages, patternInsights, projections, comprehensionChartData } = stats;
 
   // Find best hour to read
   const bestHour = [...hourlyActivity].sort((a, b) => b.totalReadingTimeMs - a.totalReadingTimeMs)[0];
@@ -84,6 +87,11 @@ export function InsightsTab({ stats, accentColor }: InsightsTabProps) {
     color: COLORS[index % COLORS.length],
   }));
 
+  // Average comprehension across all checks
+  const averageComprehension = comprehensionChartData.length > 0
+    ? Math.round(comprehensionChartData.reduce((sum, point) => sum + point.percent, 0) / comprehensionChartData.length)
+    : null;
+
   // Calculate cumulative words data (mock - would need to aggregate over time)
   const totalItems = progressBreakdown.completed + progressBreakdown.inProgress + progressBreakdown.notStarted;
 
@@ -372,6 +380,31 @@ export function InsightsTab({ stats, accentColor }: InsightsTabProps) {
             {patternInsights.consistency.streakStatus === 'inactive' && 'Getting Started'}
           </span>
         </div>
+
+        {/* Re-reading */}
+        {(patternInsights.rereading.regressionsPerHour > 0 || patternInsights.rereading.hardestDocuments.length > 0) && (
+          <div className="mt-4 p-4 rounded-lg bg-reader-text/5">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Re-reading</p>
+              <p className="text-sm opacity-70">{patternInsights.rereading.regressionsPerHour} rewinds/hour</p>
+            </div>
+            {patternInsights.rereading.hardestDocuments.length > 0 && (
+              <>
+                <p className="text-xs opacity-60 mt-3 mb-1">Hardest to read</p>
+                <ul className="space-y-1">
+                  {patternInsights.rereading.hardestDocuments.map(doc => (
+                    <li key={doc.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">{doc.title}</span>
+                      <span className="text-xs opacity-60 flex-shrink-0">
+                        {doc.passageCount} passage{doc.passageCount !== 1 ? 's' : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Best Time to Read */}
@@ -412,6 +445,54 @@ export function InsightsTab({ stats, accentColor }: InsightsTabProps) {
         </div>
       </div>
 
+      {/* Speed vs Comprehension */}
+      {comprehensionChartData.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium mb-3 opacity-80">Speed vs. Comprehension</h3>
+          <div className="p-4 rounded-lg bg-reader-text/5">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-sm">Average comprehension check score:</p>
+              <p className="font-semibold" style={{ color: accentColor }}>{averageComprehension}%</p>
+            </div>
+            <div className="h-40">
+              <ChartContainer minWidth={200} minHeight={160}>
+                <ScatterChart margin={{ top: 5, right: 5, bottom: 5, left: -20 }}>
+                  <XAxis
+                    type="number"
+                    dataKey="wpm"
+                    name="Speed"
+                    unit=" WPM"
+                    domain={['dataMin - 20', 'dataMax + 20']}
+                    tick={{ fontSize: 9, fill: 'currentColor', opacity: 0.5 }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="percent"
+                    name="Score"
+                    unit="%"
+                    domain={[0, 100]}
+                    tick={{ fontSize: 9, fill: 'currentColor', opacity: 0.5 }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'var(--reader-bg)',
+                      border: '1px solid rgba(128, 128, 128, 0.2)',
+                      borderRadius: '8px',
+                      fontSize: '12px',
+                    }}
+                  />
+                  <Scatter data={comprehensionChartData} fill={accentColor} />
+                </ScatterChart>
+              </ChartContainer>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reading Habits Radar */}
       <div>
         <h3 className="text-sm font-medium mb-3 opacity-80">Reading Habits Profile</h3>
@@ -633,7 +714,9 @@ function getTypeLabel(type: string): string {
     pdf: 'PDFs',
     epub: 'EPUBs',
     mobi: 'MOBI books',
+    fb2: 'FB2 books',
     docx: 'Word docs',
+    text: 'Text files',
     paste: 'Pasted text',
   };
   return labels[type] || type;
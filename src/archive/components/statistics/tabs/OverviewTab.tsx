@@ -249,7 +249,9 @@ function getTypeLabel(type: string): string {
     pdf: 'PDFs',
     epub: 'EPUBs',
     mobi: 'MOBI books',
+    fb2: 'FB2 books',
     docx: 'Word docs',
+    text: 'Text files',
     paste: 'Pasted text',
   };
   return labels[type] || type;
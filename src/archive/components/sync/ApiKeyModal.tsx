@@ -1,21 +1,34 @@
 /**
  * API Key Modal
  * 
- * Modal for entering OAuth API credentials (Dropbox App Key, OneDrive Client ID).
+ * Modal for entering API credentials: an OAuth app key (Dropbox App Key), or an
+ * access key plus the extra fields a provider declares (S3 endpoint, bucket, secret).
  */
 
 import { useState, useEffect } from 'react';
 import type { SyncProviderType } from '@/lib/sync/types';
 
+/** An extra credential input shown below the API key */
+export interface CredentialField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  /** Masked input, for secrets */
+  secret?: boolean;
+  optional?: boolean;
+}
+
 interface ProviderConfig {
   type: SyncProviderType;
   name: string;
   apiKeyLabel?: string;
+  credentialFields?: CredentialField[];
 }
 
 interface ApiKeyModalProps {
   provider: ProviderConfig;
-  onSubmit: (apiKey: string) => void;
+  /** `fields` holds the provider's credential field values, trimmed except for secrets */
+  onSubmit: (apiKey: string, fields: Record<string, string>) => void;
   onCancel: () => void;
 }
 
@@ -37,7 +50,9 @@ async function getStoredApiKey(provider: SyncProviderType): Promise<string | nul
 
 export function ApiKeyModal({ provider, onSubmit, onCancel }: ApiKeyModalProps) {
   const [apiKey, setApiKey] = useState('');
+  const [fields, setFields] = useState<Record<string, string>>({});
   const [error, setError] = useState('');
+  const credentialFields = provider.credentialFields ?? [];
 
   // Load existing API key if available
   useEffect(() => {
@@ -54,11 +69,21 @@ export function ApiKeyModal({ provider, onSubmit, onCancel }: ApiKeyModalProps)
     e.preventDefault();
     
     if (!apiKey.trim()) {
-      setError('API key is required');
+      setError(`${provider.apiKeyLabel ?? 'API key'} is required`);
       return;
     }
 
-    onSubmit(apiKey.trim());
+    const values: Record<string, string> = {};
+    for (const field of credentialFields) {
+      // Secrets are kept as entered; a space can be part of them
+      values[field.name] = field.secret ? fields[field.name] ?? '' : (fields[field.name] ?? '').trim();
+      if (!field.optional && !values[field.name]) {
+        setError(`${field.label} is required`);
+        return;
+      }
+    }
+
+    onSubmit(apiKey.trim(), values);
   };
 
   // Get the redirect URI to show user
@@ -93,12 +118,29 @@ export function ApiKeyModal({ provider, onSubmit, onCancel }: ApiKeyModalProps)
             />
           </div>
 
+          {credentialFields.map(field => (
+            <div key={field.name}>
+              <label className="block text-sm mb-1 opacity-70">
+                {field.label}{field.optional && ' (optional)'}
+              </label>
+              <input
+                type={field.secret ? 'password' : 'text'}
+                value={fields[field.name] ?? ''}
+                onChange={(e) => { setFields({ ...fields, [field.name]: e.target.value }); setError(''); }}
+                placeholder={field.placeholder}
+                className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent font-mono text-sm"
+              />
+            </div>
+          ))}
+
           {error && (
             <p className="text-red-500 text-sm">{error}</p>
           )}
 
           <div className="p-3 rounded-lg bg-current/5 text-xs space-y-2">
-            <p className="font-medium">How to set up your {provider.name} app:</p>
+            <p className="font-medium">
+              {provider.type === 's3' ? `How to set up your ${provider.name} bucket:` : `How to set up your ${provider.name} app:`}
+            </p>
             {provider.type === 'dropbox' && (
               <ol className="list-decimal list-inside space-y-1.5 opacity-70">
                 <li>Go to <a href="https://www.dropbox.com/developers/apps" target="_blank" rel="noopener noreferrer" className="underline hover:opacity-100">dropbox.com/developers/apps</a></li>
@@ -128,6 +170,20 @@ export function ApiKeyModal({ provider, onSubmit, onCancel }: ApiKeyModalProps)
                 </li>
               </ol>
             )}
+            {provider.type === 's3' && (
+              <ol className="list-decimal list-inside space-y-1.5 opacity-70">
+                <li>Create a bucket for FlowReader (e.g. <strong>flowreader</strong>)</li>
+                <li>Create an access key limited to that bucket, with read, write, list and delete permissions</li>
+                <li>
+                  Enter the endpoint without the bucket name:
+                  <ul className="list-disc list-inside ml-4 mt-1">
+                    <li>MinIO: <strong>http://localhost:9000</strong>, region <strong>us-east-1</strong></li>
+                    <li>Backblaze B2: <strong>https://s3.&lt;region&gt;.backblazeb2.com</strong>, region as in the endpoint</li>
+                    <li>Cloudflare R2: <strong>https://&lt;account-id&gt;.r2.cloudflarestorage.com</strong>, region <strong>auto</strong></li>
+                  </ul>
+                </li>
+              </ol>
+            )}
           </div>
 
           <div className="flex gap-2 pt-2">
@@ -0,0 +1,155 @@
+/**
+ * Change Passphrase Modal
+ *
+ * Changes the encryption passphrase of cloud sync. All remote data is
+ * re-encrypted, so other devices need the new passphrase afterwards.
+ */
+
+import { useState, useEffect } from 'react';
+import { syncService } from '@/lib/sync/sync-service';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+interface ChangePassphraseModalProps {
+  onClose: () => void;
+}
+
+export function ChangePassphraseModal({ onClose }: ChangePassphraseModalProps) {
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isUnfinished, setIsUnfinished] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    syncService.hasUnfinishedPassphraseChange()
+      .then(setIsUnfinished)
+      .catch(err => console.error('ChangePassphraseModal: Failed to check for an unfinished change:', err));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassphrase.length < 8) {
+      setError('Passphrase must be at least 8 characters');
+      return;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+    if (newPassphrase === currentPassphrase) {
+      setError('The new passphrase must be different');
+      return;
+    }
+
+    setIsBusy(true);
+    setError('');
+    try {
+      await syncService.changePassphrase(currentPassphrase, newPassphrase);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change passphrase');
+      setIsUnfinished(await syncService.hasUnfinishedPassphraseChange().catch(() => false));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await syncService.cancelPassphraseChange();
+      setIsUnfinished(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard the passphrase change');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        className="rounded-xl p-6 max-w-md w-full shadow-2xl border border-current/20"
+        style={{ backgroundColor: 'var(--bg-color, #1a1a2e)', color: 'var(--text-color, #eaeaea)' }}
+      >
+        <h3 className="text-lg font-semibold mb-2">Change Passphrase</h3>
+        <p className="text-sm opacity-70 mb-4">
+          Your synced data is re-encrypted with the new passphrase. Other devices will ask for it on their next sync.
+        </p>
+
+        {isUnfinished && (
+          <div className="text-sm p-2 rounded bg-current/5 mb-4">
+            <p>A previous passphrase change didn't finish. Enter the same passphrases again to complete it.</p>
+            <button
+              type="button"
+              onClick={handleDiscard}
+              disabled={isBusy}
+              className="mt-1 underline opacity-70 hover:opacity-100 disabled:opacity-50"
+            >
+              Discard it if nothing was re-encrypted yet
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm mb-1 opacity-70">Current passphrase</label>
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => { setCurrentPassphrase(e.target.value); setError(''); }}
+              autoFocus
+              className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm mb-1 opacity-70">New passphrase</label>
+            <input
+              type="password"
+              value={newPassphrase}
+              onChange={(e) => { setNewPassphrase(e.target.value); setError(''); }}
+              className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent"
+            />
+            <PasswordStrengthMeter password={newPassphrase} />
+          </div>
+
+          <div>
+            <label className="block text-sm mb-1 opacity-70">Confirm new passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => { setConfirmPassphrase(e.target.value); setError(''); }}
+              className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent"
+            />
+          </div>
+
+          {error && (
+            <p className="text-red-500 text-sm">{error}</p>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isBusy}
+              className="flex-1 px-4 py-2 rounded-lg border border-current/20 hover:border-current/40 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="flex-1 px-4 py-2 rounded-lg bg-current/10 hover:bg-current/20 font-medium disabled:opacity-50"
+            >
+              {isBusy ? 'Re-encrypting...' : 'Change Passphrase'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
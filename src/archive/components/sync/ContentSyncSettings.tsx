@@ -0,0 +1,234 @@
+/**
+ * Content Sync Settings
+ *
+ * Limits on the document content this device uploads (size per file, total
+ * quota, document types), and how much space each synced document takes,
+ * with an action to stop syncing it.
+ */
+
+import { useState, useEffect } from 'react';
+import { syncService } from '@/lib/sync/sync-service';
+import { getContentUsage, getContentUsageBreakdown } from '@/lib/sync/content-limits';
+import type { ContentManifest, ContentSyncLimits, SyncResult } from '@/lib/sync/types';
+import type { ArchiveItemType } from '@/types';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+const TYPE_LABELS: Record<ArchiveItemType, string> = {
+  web: 'Web pages',
+  pdf: 'PDF',
+  docx: 'DOCX',
+  epub: 'EPUB',
+  mobi: 'MOBI',
+  fb2: 'FB2',
+  text: 'Text files',
+  paste: 'Pasted text',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < BYTES_PER_MB) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / BYTES_PER_MB).toFixed(1)} MB`;
+}
+
+function SizeLimitInput({ label, value, onChange }: {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  const [text, setText] = useState(value === null ? '' : String(value / BYTES_PER_MB));
+
+  const commit = () => {
+    const megabytes = parseFloat(text);
+    onChange(text.trim() === '' || !(megabytes > 0) ? null : Math.round(megabytes * BYTES_PER_MB));
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span>{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={text}
+          placeholder="No limit"
+          onChange={(e) => setText(e.target.value)}
+          onBlur={commit}
+          className="w-24 px-2 py-1 rounded border border-current/20 bg-transparent text-right"
+        />
+        <span className="text-xs opacity-60">MB</span>
+      </span>
+    </label>
+  );
+}
+
+export function ContentSyncSettings() {
+  const [limits, setLimits] = useState<ContentSyncLimits | null>(null);
+  const [manifest, setManifest] = useState<ContentManifest | null>(null);
+  const [isLoadingUsage, setIsLoadingUsage] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    syncService.getContentSyncLimits()
+      .then(setLimits)
+      .catch(err => console.error('ContentSyncSettings: Failed to load limits:', err));
+  }, []);
+
+  if (!limits) return null;
+
+  const saveLimits = async (updated: ContentSyncLimits) => {
+    const previous = limits;
+    setLimits(updated);
+    setError('');
+    try {
+      await syncService.setContentSyncLimits(updated);
+    } catch (err) {
+      setLimits(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save limits');
+    }
+  };
+
+  const toggleType = (type: ArchiveItemType) => {
+    saveLimits({
+      ...limits,
+      excludedTypes: limits.excludedTypes.includes(type)
+        ? limits.excludedTypes.filter(excluded => excluded !== type)
+        : [...limits.excludedTypes, type],
+    });
+  };
+
+  const loadUsage = async () => {
+    setIsLoadingUsage(true);
+    setError('');
+    try {
+      setManifest(await syncService.getContentManifest() ?? { version: 1, items: {} });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load storage usage');
+    } finally {
+      setIsLoadingUsage(false);
+    }
+  };
+
+  const handleResult = async (result: SyncResult) => {
+    if (result.success) {
+      await loadUsage();
+    } else {
+      setError(result.error || 'Failed to update content sync');
+    }
+  };
+
+  const handleStop = async (itemId: string) => {
+    setBusyItemId(itemId);
+    setError('');
+    const result = await syncService.stopSyncingContent(itemId);
+    setBusyItemId(null);
+    await handleResult(result);
+  };
+
+  const handleResumeAll = async (itemIds: string[]) => {
+    setIsLoadingUsage(true);
+    setError('');
+    const result = await syncService.resumeSyncingContent(itemIds);
+    setIsLoadingUsage(false);
+    await handleResult(result);
+  };
+
+  const usage = getContentUsageBreakdown(manifest ?? undefined);
+  const excludedItemIds = manifest?.excludedItemIds ?? [];
+
+  return (
+    <details className="text-sm">
+      <summary className="text-xs opacity-60 hover:opacity-100 cursor-pointer transition-opacity">
+        Document content limits...
+      </summary>
+
+      <div className="mt-2 space-y-2">
+        <SizeLimitInput
+          label="Largest document"
+          value={limits.maxFileSize}
+          onChange={(maxFileSize) => saveLimits({ ...limits, maxFileSize })}
+        />
+        <SizeLimitInput
+          label="Total for documents"
+          value={limits.totalQuota}
+          onChange={(totalQuota) => saveLimits({ ...limits, totalQuota })}
+        />
+
+        <div>
+          <p className="text-xs opacity-60 mb-1">Sync content of</p>
+          <div className="grid grid-cols-2 gap-1">
+            {(Object.keys(TYPE_LABELS) as ArchiveItemType[]).map(type => (
+              <label key={type} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!limits.excludedTypes.includes(type)}
+                  onChange={() => toggleType(type)}
+                />
+                {TYPE_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs opacity-50">
+          When storage runs short, documents in progress sync first, then favorites, then recently opened ones.
+        </p>
+        <p className="text-xs opacity-50">
+          Limits cover document files only. Synced settings, progress and history snapshots are stored alongside them and aren't counted.
+        </p>
+      </div>
+
+      <div className="mt-3">
+        {manifest === null ? (
+          <button
+            onClick={loadUsage}
+            disabled={isLoadingUsage}
+            className="text-xs opacity-60 hover:opacity-100 disabled:opacity-30 transition-opacity"
+          >
+            {isLoadingUsage ? 'Loading...' : 'Show storage usage'}
+          </button>
+        ) : (
+          <div>
+            <p className="text-xs opacity-60 mb-1">
+              {formatSize(getContentUsage(manifest))} used by {usage.length} document file{usage.length === 1 ? '' : 's'}
+              {limits.totalQuota !== null && ` of ${formatSize(limits.totalQuota)}`}
+            </p>
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {usage.map(item => (
+                <li key={item.fileHash} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">{item.title}</span>
+                  <span className="text-xs opacity-60 shrink-0">{formatSize(item.compressedSize)}</span>
+                  <button
+                    onClick={() => handleStop(item.archiveItemId)}
+                    disabled={busyItemId !== null || isLoadingUsage}
+                    className="text-xs text-red-500 opacity-70 hover:opacity-100 disabled:opacity-30 shrink-0"
+                  >
+                    Stop syncing
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {excludedItemIds.length > 0 && (
+              <p className="text-xs opacity-50 mt-2">
+                {excludedItemIds.length} document{excludedItemIds.length === 1 ? ' is' : 's are'} no longer synced.{' '}
+                <button
+                  onClick={() => handleResumeAll(excludedItemIds)}
+                  disabled={busyItemId !== null || isLoadingUsage}
+                  className="underline hover:opacity-100 disabled:opacity-30"
+                >
+                  Sync them again
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-red-500 text-xs mt-1">{error}</p>
+      )}
+    </details>
+  );
+}
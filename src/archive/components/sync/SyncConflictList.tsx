@@ -0,0 +1,150 @@
+/**
+ * Sync Conflict List
+ *
+ * Shows the open conflicts from recent syncs with both sides side by side,
+ * and lets the user restore the side the merge discarded or dismiss the conflict.
+ */
+
+import { useState, useEffect } from 'react';
+import type { ConflictInfo } from '@/lib/sync/types';
+import {
+  CONFLICT_LOG_STORAGE_KEY,
+  getConflictLog,
+  getConflictDifferences,
+  isRestorable,
+  restoreOtherSide,
+  dismissConflict,
+  type ConflictLogEntry,
+} from '@/lib/sync/conflict-log';
+
+const MAX_VALUE_LENGTH = 60;
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+function getConflictTitle(conflict: ConflictInfo): string {
+  switch (conflict.type) {
+    case 'settings':
+      return 'Reader settings';
+    case 'archive-item': {
+      const local = conflict.localValue as { title?: string } | undefined;
+      return local?.title ? `"${local.title}"` : 'Library item';
+    }
+    case 'position':
+      return 'Reading position';
+    default:
+      return 'Synced data';
+  }
+}
+
+export function SyncConflictList() {
+  const [entries, setEntries] = useState<ConflictLogEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the log, and reload it whenever a sync records new conflicts
+  useEffect(() => {
+    const load = () => {
+      getConflictLog()
+        .then(log => setEntries(log.filter(entry => entry.status === 'open')))
+        .catch(err => console.error('SyncConflictList: Failed to load conflicts:', err));
+    };
+    load();
+
+    const handleStorageChange = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName === 'local' && CONFLICT_LOG_STORAGE_KEY in changes) {
+        load();
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
+
+  const handleAction = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action(id);
+      setEntries(current => current.filter(entry => entry.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-sm font-medium">Sync conflicts ({entries.length})</p>
+
+      {error && (
+        <div className="text-red-500 text-xs p-2 rounded bg-red-500/10">{error}</div>
+      )}
+
+      {entries.map(({ id, detectedAt, conflict }) => {
+        const keptLocal = conflict.resolution === 'local-wins';
+        const differences = getConflictDifferences(conflict);
+
+        return (
+          <div key={id} className="p-3 rounded-lg border border-current/20 text-xs space-y-2">
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="font-medium text-sm truncate">{getConflictTitle(conflict)}</p>
+              <p className="opacity-50 shrink-0">{new Date(detectedAt).toLocaleString()}</p>
+            </div>
+
+            <table className="w-full table-fixed">
+              <thead>
+                <tr className="opacity-60 text-left">
+                  <th className="font-normal w-1/3">Field</th>
+                  <th className="font-normal">This device{keptLocal && ' (kept)'}</th>
+                  <th className="font-normal">Other device{!keptLocal && ' (kept)'}</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {differences.map(({ field, localValue, remoteValue }) => (
+                  <tr key={field}>
+                    <td className="truncate pr-2 opacity-70">{field}</td>
+                    <td className="truncate pr-2" title={formatValue(localValue)}>{formatValue(localValue)}</td>
+                    <td className="truncate" title={formatValue(remoteValue)}>{formatValue(remoteValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {!isRestorable(conflict) && (
+              <p className="opacity-50">The furthest position is always kept across devices.</p>
+            )}
+
+            <div className="flex gap-2">
+              {isRestorable(conflict) && (
+                <button
+                  onClick={() => handleAction(id, restoreOtherSide)}
+                  disabled={busyId === id}
+                  className="flex-1 px-3 py-1.5 rounded-lg border border-current/20 hover:border-current/40 disabled:opacity-50 transition-colors"
+                >
+                  {keptLocal ? "Restore other device's version" : "Restore this device's version"}
+                </button>
+              )}
+              <button
+                onClick={() => handleAction(id, dismissConflict)}
+                disabled={busyId === id}
+                className="px-3 py-1.5 rounded-lg border border-current/20 hover:border-current/40 disabled:opacity-50 transition-colors"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
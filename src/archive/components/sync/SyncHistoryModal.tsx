@@ -0,0 +1,172 @@
+/**
+ * Sync History Modal
+ *
+ * Lists the saved snapshots of the sync state, previews what restoring one would
+ * change (library items, annotations, collections), and restores it.
+ */
+
+import { useState, useEffect } from 'react';
+import { syncService } from '@/lib/sync/sync-service';
+import type { SyncSnapshotSummary, SnapshotDiff } from '@/lib/sync/sync-history';
+
+interface SyncHistoryModalProps {
+  onClose: () => void;
+}
+
+/** Names shown per change list before collapsing into "and N more" */
+const MAX_LISTED_NAMES = 5;
+
+function ChangeList({ label, names }: { label: string; names: string[] }) {
+  if (names.length === 0) return null;
+
+  return (
+    <div>
+      <p className="font-medium">{label} ({names.length})</p>
+      <ul className="list-disc list-inside opacity-70">
+        {names.slice(0, MAX_LISTED_NAMES).map((name, index) => (
+          <li key={index} className="truncate">{name}</li>
+        ))}
+        {names.length > MAX_LISTED_NAMES && (
+          <li className="list-none">and {names.length - MAX_LISTED_NAMES} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function getChangeNames(diff: SnapshotDiff, kind: 'added' | 'removed') {
+  return {
+    items: diff.archiveItems[kind].map(item => item.title),
+    annotations: diff.annotations[kind].map(annotation => annotation.note || annotation.anchor.textContent),
+    collections: diff.collections[kind].map(collection => collection.name),
+  };
+}
+
+export function SyncHistoryModal({ onClose }: SyncHistoryModalProps) {
+  const [snapshots, setSnapshots] = useState<SyncSnapshotSummary[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    syncService.getSnapshots()
+      .then(setSnapshots)
+      .catch(err => {
+        setSnapshots([]);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      });
+  }, []);
+
+  const handleSelect = async (createdAt: number) => {
+    setSelected(createdAt);
+    setDiff(null);
+    setError('');
+    setIsBusy(true);
+    try {
+      setDiff(await syncService.previewSnapshot(createdAt));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshot');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (selected === null) return;
+
+    setIsBusy(true);
+    setError('');
+    const result = await syncService.restoreSnapshot(selected);
+    setIsBusy(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Restore failed');
+    }
+  };
+
+  const added = diff && getChangeNames(diff, 'added');
+  const removed = diff && getChangeNames(diff, 'removed');
+  const hasChanges = !!added && !!removed && [...Object.values(added), ...Object.values(removed)].some(names => names.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        className="rounded-xl p-6 max-w-md w-full shadow-2xl border border-current/20 max-h-[90vh] overflow-y-auto"
+        style={{ backgroundColor: 'var(--bg-color, #1a1a2e)', color: 'var(--text-color, #eaeaea)' }}
+      >
+        <h3 className="text-lg font-semibold mb-2">Sync History</h3>
+        <p className="text-sm opacity-70 mb-4">
+          Restore your library, annotations and settings as they were after an earlier sync.
+          The restored version is synced to your other devices.
+        </p>
+
+        {snapshots === null ? (
+          <p className="text-sm opacity-50">Loading...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm opacity-50">No snapshots yet. One is saved each time sync uploads changes.</p>
+        ) : (
+          <div className="space-y-1 mb-4">
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.createdAt}
+                onClick={() => handleSelect(snapshot.createdAt)}
+                disabled={isBusy}
+                className={`w-full flex justify-between gap-2 px-3 py-2 rounded-lg border text-sm text-left disabled:opacity-50 transition-colors ${
+                  selected === snapshot.createdAt ? 'border-current/60 bg-current/10' : 'border-current/20 hover:border-current/40'
+                }`}
+              >
+                <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                <span className="opacity-50 text-xs self-center">
+                  {snapshot.location === 'local' ? 'This device' : 'Sync storage'}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {diff && added && removed && (
+          <div className="p-3 rounded-lg bg-current/5 text-xs space-y-2 mb-4">
+            {hasChanges ? (
+              <>
+                <ChangeList label="Library items brought back" names={added.items} />
+                <ChangeList label="Annotations brought back" names={added.annotations} />
+                <ChangeList label="Collections brought back" names={added.collections} />
+                <ChangeList label="Library items removed" names={removed.items} />
+                <ChangeList label="Annotations removed" names={removed.annotations} />
+                <ChangeList label="Collections removed" names={removed.collections} />
+              </>
+            ) : (
+              <p className="opacity-70">No library items, annotations or collections would change. Settings and reading data may still differ.</p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-red-500 text-sm mb-4">{error}</p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isBusy}
+            className="flex-1 px-4 py-2 rounded-lg border border-current/20 hover:border-current/40 disabled:opacity-50"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={isBusy || !diff}
+            className="flex-1 px-4 py-2 rounded-lg bg-current/10 hover:bg-current/20 font-medium disabled:opacity-50"
+          >
+            {isBusy && diff ? 'Restoring...' : 'Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
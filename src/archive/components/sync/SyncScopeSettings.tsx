@@ -0,0 +1,117 @@
+/**
+ * Sync Scope Settings
+ *
+ * Chooses which data categories this device syncs, and which collections'
+ * documents are left out of content sync.
+ */
+
+import { useState, useEffect } from 'react';
+import { syncService } from '@/lib/sync/sync-service';
+import { getCollections } from '@/lib/collections-service';
+import { SYNC_CATEGORIES } from '@/lib/sync/sync-scope';
+import type { SyncScope, SyncCategory } from '@/lib/sync/types';
+import type { Collection } from '@/types';
+
+const CATEGORY_LABELS: Record<SyncCategory, string> = {
+  settings: 'Settings and presets',
+  themes: 'Custom themes',
+  archive: 'Library and collections',
+  positions: 'Reading positions',
+  annotations: 'Annotations',
+  stats: 'Reading stats',
+  content: 'Document content',
+};
+
+export function SyncScopeSettings() {
+  const [scope, setScope] = useState<SyncScope | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    syncService.getSyncScope()
+      .then(setScope)
+      .catch(err => console.error('SyncScopeSettings: Failed to load sync scope:', err));
+    getCollections()
+      .then(setCollections)
+      .catch(err => console.error('SyncScopeSettings: Failed to load collections:', err));
+  }, []);
+
+  if (!scope) return null;
+
+  const saveScope = async (updated: SyncScope) => {
+    const previous = scope;
+    setScope(updated);
+    setError('');
+    try {
+      await syncService.setSyncScope(updated);
+    } catch (err) {
+      setScope(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save sync options');
+    }
+  };
+
+  const toggleCategory = (category: SyncCategory) => {
+    saveScope({
+      ...scope,
+      categories: { ...scope.categories, [category]: !scope.categories[category] },
+    });
+  };
+
+  const toggleCollection = (collectionId: string) => {
+    const excluded = scope.excludedContentCollectionIds;
+    saveScope({
+      ...scope,
+      excludedContentCollectionIds: excluded.includes(collectionId)
+        ? excluded.filter(id => id !== collectionId)
+        : [...excluded, collectionId],
+    });
+  };
+
+  return (
+    <details className="text-sm">
+      <summary className="text-xs opacity-60 hover:opacity-100 cursor-pointer transition-opacity">
+        What to sync...
+      </summary>
+
+      <div className="mt-2 space-y-1">
+        {SYNC_CATEGORIES.map(category => (
+          <label key={category} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={scope.categories[category]}
+              onChange={() => toggleCategory(category)}
+            />
+            {CATEGORY_LABELS[category]}
+          </label>
+        ))}
+      </div>
+
+      {scope.categories.content && collections.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs opacity-60 mb-1">Sync document content from</p>
+          <div className="space-y-1">
+            {collections.map(collection => (
+              <label key={collection.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!scope.excludedContentCollectionIds.includes(collection.id)}
+                  onChange={() => toggleCollection(collection.id)}
+                />
+                {collection.icon && <span>{collection.icon}</span>}
+                {collection.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs opacity-50 mt-2">
+        Turning something off keeps it on this device and in the cloud; it just stops syncing here.
+      </p>
+
+      {error && (
+        <p className="text-red-500 text-xs mt-1">{error}</p>
+      )}
+    </details>
+  );
+}
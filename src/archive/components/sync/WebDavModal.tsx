@@ -0,0 +1,172 @@
+/**
+ * WebDAV Modal
+ *
+ * Modal for entering WebDAV server credentials (Nextcloud, ownCloud, or any WebDAV server).
+ */
+
+import { useState, useEffect } from 'react';
+import type { WebDavCredentials } from '@/lib/sync/types';
+import { webdavAdapter } from '@/lib/sync/providers/webdav-adapter';
+
+interface WebDavModalProps {
+  /** Verifies and stores the credentials; a rejection is shown in the modal */
+  onSubmit: (credentials: WebDavCredentials) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function WebDavModal({ onSubmit, onCancel }: WebDavModalProps) {
+  const [serverUrl, setServerUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [authType, setAuthType] = useState<WebDavCredentials['authType']>('app-password');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Prefill the last used server and username
+  useEffect(() => {
+    const loadExistingAccount = async () => {
+      const account = await webdavAdapter.getAccount();
+      if (account) {
+        setServerUrl(account.serverUrl);
+        setUsername(account.username);
+        setAuthType(account.authType);
+      }
+    };
+    loadExistingAccount();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let url: URL;
+    try {
+      url = new URL(serverUrl.trim());
+    } catch {
+      setError('Enter the full server URL, starting with https://');
+      return;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      setError('Server URL must start with https://');
+      return;
+    }
+    if (!username.trim() || !password) {
+      setError('Username and password are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ serverUrl: url.href, username: username.trim(), password, authType });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const passwordLabel = authType === 'app-password' ? 'App password' : 'Password';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        className="rounded-xl p-6 max-w-md w-full shadow-2xl border border-current/20 max-h-[90vh] overflow-y-auto"
+        style={{ backgroundColor: 'var(--bg-color, #1a1a2e)', color: 'var(--text-color, #eaeaea)' }}
+      >
+        <h3 className="text-lg font-semibold mb-2">
+          Connect to WebDAV
+        </h3>
+        <p className="text-sm opacity-70 mb-4">
+          Sync to your own Nextcloud, ownCloud, or other WebDAV server.
+          FlowReader stores its files in a FlowReader folder there.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm mb-1 opacity-70">Server URL</label>
+            <input
+              type="url"
+              value={serverUrl}
+              onChange={(e) => { setServerUrl(e.target.value); setError(''); }}
+              placeholder="https://cloud.example.com/remote.php/dav/files/alice/"
+              autoFocus
+              className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent font-mono text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm mb-1 opacity-70">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => { setUsername(e.target.value); setError(''); }}
+              autoComplete="username"
+              className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <div className="flex gap-4 mb-2 text-sm">
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="radio"
+                  checked={authType === 'app-password'}
+                  onChange={() => setAuthType('app-password')}
+                />
+                App password
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="radio"
+                  checked={authType === 'password'}
+                  onChange={() => setAuthType('password')}
+                />
+                Account password
+              </label>
+            </div>
+            <label className="block text-sm mb-1 opacity-70">{passwordLabel}</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => { setPassword(e.target.value); setError(''); }}
+              autoComplete="current-password"
+              className="w-full px-3 py-2 rounded-lg border border-current/20 bg-transparent text-sm"
+            />
+          </div>
+
+          {error && (
+            <p className="text-red-500 text-sm">{error}</p>
+          )}
+
+          <div className="p-3 rounded-lg bg-current/5 text-xs space-y-2">
+            <p className="font-medium">Finding your settings in Nextcloud:</p>
+            <ol className="list-decimal list-inside space-y-1.5 opacity-70">
+              <li>Open <strong>Files</strong> and click <strong>"Files settings"</strong> (bottom left)</li>
+              <li>Copy the <strong>WebDAV</strong> address as the server URL</li>
+              <li>
+                For an app password, go to <strong>Personal settings → Security</strong> and
+                click <strong>"Create new app password"</strong>. Required if you use two-factor login.
+              </li>
+            </ol>
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 rounded-lg border border-current/20 hover:border-current/40"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 rounded-lg bg-current/10 hover:bg-current/20 font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? 'Connecting...' : 'Connect'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -3,5 +3,11 @@
  */
 
 export { SyncStatusBadge } from './SyncStatusBadge';
-export { ApiKeyModal } from './ApiKeyModal';
+export { ApiKeyModal, type CredentialField } from './ApiKeyModal';
 export { PassphraseModal } from './PassphraseModal';
+export { ChangePassphraseModal } from './ChangePassphraseModal';
+export { WebDavModal } from './WebDavModal';
+export { SyncConflictList } from './SyncConflictList';
+export { SyncHistoryModal } from './SyncHistoryModal';
+export { SyncScopeSettings } from './SyncScopeSettings';
+export { ContentSyncSettings } from './ContentSyncSettings';
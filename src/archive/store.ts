@@ -1,7 +1,7 @@
 /** Zustand store for managing archive page state */
 
 import { create } from 'zustand';
-import type { ArchiveItem, ArchiveItemType, FlowDocument, Collection } from '@/types';
+import type { ArchiveItem, ArchiveItemType, FlowDocument, Collection, PassageLocation } from '@/types';
 import { DEFAULT_COLLECTIONS } from '@/types';
 import { 
   queryRecents, 
@@ -29,6 +29,8 @@ import { extractFromPdf } from '@/lib/pdf-handler';
 import { extractFromDocx } from '@/lib/docx-handler';
 import { extractFromEpub } from '@/lib/epub-handler';
 import { extractFromMobi } from '@/lib/mobi-handler';
+import { extractFromFb2 } from '@/lib/fb2-handler';
+import { extractFromTextFile } from '@/lib/text-handler';
 import { extractFromPaste } from '@/lib/extraction';
 import { countWords } from '@/lib/file-utils';
 import { isSupportedFile, getFileType } from '@/lib/file-utils';
@@ -134,7 +136,7 @@ export interface ArchiveState {
   setLongReadsFilter: (enabled: boolean) => void;
   clearAllFilters: () => void;
   
-  openItem: (item: ArchiveItem, annotationId?: string) => Promise<void>;
+  openItem: (item: ArchiveItem, annotationId?: string, passage?: PassageLocation) => Promise<void>;
   removeItem: (id: string) => Promise<void>;
   clearHistory: () => Promise<void>;
   importFile: (file: File) => Promise<void>;
@@ -329,7 +331,7 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
     });
   },
   
-  openItem: async (item: ArchiveItem, annotationId?: string) => {
+  openItem: async (item: ArchiveItem, annotationId?: string, passage?: PassageLocation) => {
     try {
       const freshItem = await getRecent(item.id) || item;
       
@@ -339,6 +341,7 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
           type: 'OPEN_READER', 
           document: freshItem.cachedDocument,
           navigateToAnnotationId: annotationId,
+          navigateToPassage: passage,
         });
       } else if (freshItem.type === 'web' && freshItem.url) {
         // Re-extract from URL (annotation navigation not supported for re-extracted content)
@@ -350,6 +353,7 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
           type: 'OPEN_READER', 
           document: doc,
           navigateToAnnotationId: annotationId,
+          navigateToPassage: passage,
         });
       } else {
         throw new Error('This item cannot be reopened. Please import it again.');
@@ -380,7 +384,7 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
   
   importFile: async (file: File) => {
     if (!isSupportedFile(file.name)) {
-      set({ error: `Unsupported file type: ${file.name}. Supported: PDF, DOCX, EPUB, MOBI.` });
+      set({ error: `Unsupported file type: ${file.name}. Supported: PDF, DOCX, EPUB, MOBI, FB2, TXT, MD, HTML, RTF.` });
       return;
     }
     
@@ -403,6 +407,12 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
         case 'mobi':
           doc = await extractFromMobi(file);
           break;
+        case 'fb2':
+          doc = await extractFromFb2(file);
+          break;
+        case 'text':
+          doc = await extractFromTextFile(file);
+          break;
         default:
           throw new Error('Unsupported file type');
       }
@@ -434,7 +444,7 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
     
     if (supportedFiles.length === 0) {
       if (unsupportedFiles.length > 0) {
-        set({ error: 'No supported files found. Supported: PDF, DOCX, EPUB, MOBI.' });
+        set({ error: 'No supported files found. Supported: PDF, DOCX, EPUB, MOBI, FB2, TXT, MD, HTML, RTF.' });
       }
       return;
     }
@@ -466,6 +476,12 @@ export const useArchiveStore = create<ArchiveState>((set, get) => ({
           case 'mobi':
             doc = await extractFromMobi(file);
             break;
+          case 'fb2':
+            doc = await extractFromFb2(file);
+            break;
+          case 'text':
+            doc = await extractFromTextFile(file);
+            break;
           default:
             throw new Error('Unsupported file type');
         }
@@ -925,7 +941,7 @@ export function selectFilteredItems(state: ArchiveState): ArchiveItem[] {
   // Then filter by type
   if (state.activeFilter !== 'all') {
     if (state.activeFilter === 'books') {
-      items = items.filter(item => item.type === 'epub' || item.type === 'mobi');
+      items = items.filter(item => item.type === 'epub' || item.type === 'mobi' || item.type === 'fb2');
     } else {
       items = items.filter(item => item.type === state.activeFilter);
     }
@@ -1101,7 +1117,7 @@ export type ItemSyncStatus = 'synced' | 'not-synced' | 'not-applicable';
 
 /**
  * Determine the sync status of an archive item:
- * - File types (PDF, EPUB, MOBI, DOCX): Synced if cachedDocument exists
+ * - File types (PDF, EPUB, MOBI, FB2, DOCX, text): Synced if cachedDocument exists
  * - Web types: Always synced (can re-extract from URL)
  * - Paste types: Synced if pasteContent exists (included in state sync)
  */
@@ -1110,7 +1126,9 @@ export function getItemSyncStatus(item: ArchiveItem): ItemSyncStatus {
     case 'pdf':
     case 'epub':
     case 'mobi':
+    case 'fb2':
     case 'docx':
+    case 'text':
       return item.cachedDocument ? 'synced' : 'not-synced';
     
     case 'web':
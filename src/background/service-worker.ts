@@ -1,4 +1,4 @@
-import type { FlowDocument, MessageType } from '@/types';
+import type { FlowDocument, MessageType, PassageLocation } from '@/types';
 import { runMigrations, initializeDefaultStorage } from '@/lib/migrations';
 import { syncScheduler, setupSyncAlarmListener } from '@/lib/sync/sync-scheduler';
 import { triggerPreload } from '@/lib/preload-service';
@@ -12,6 +12,8 @@ import { triggerPreload } from '@/lib/preload-service';
 let pendingDocument: FlowDocument | null = null;
 // Store annotation ID to navigate to when opening reader
 let pendingAnnotationId: string | null = null;
+// Store passage to navigate to when opening reader
+let pendingPassage: PassageLocation | null = null;
 
 // Set up sync alarm listener
 setupSyncAlarmListener();
@@ -81,11 +83,13 @@ chrome.runtime.onMessage.addListener((message: MessageType, sender, sendResponse
       if (message.document) {
         pendingDocument = message.document;
         pendingAnnotationId = message.navigateToAnnotationId || null;
+        pendingPassage = message.navigateToPassage || null;
         openReaderPage();
         sendResponse({ success: true });
       } else if (sender.tab?.id) {
         // If no document but sent from a content script, extract from that tab
         pendingAnnotationId = null; // No annotation navigation for extracted content
+        pendingPassage = null;
         extractAndOpenReader(sender.tab.id).then(() => {
           sendResponse({ success: true });
         }).catch(error => {
@@ -100,10 +104,12 @@ chrome.runtime.onMessage.addListener((message: MessageType, sender, sendResponse
     case 'GET_PENDING_DOCUMENT':
       sendResponse({ 
         document: pendingDocument, 
-        annotationId: pendingAnnotationId 
+        annotationId: pendingAnnotationId,
+        passage: pendingPassage,
       });
       pendingDocument = null; // Clear after retrieval
       pendingAnnotationId = null;
+      pendingPassage = null;
       return false; // Synchronous response
     
     case 'EXTRACT_FROM_URL':
@@ -1,4 +1,4 @@
-import type { ThemePreset, PacingGranularity, PacingHighlightStyle, ReadingMode } from '@/types';
+import type { ThemePreset, PacingGranularity, PacingHighlightStyle, ReadingMode, FigureBehavior } from '@/types';
 
 export const FONT_OPTIONS = [
   { value: 'Georgia, serif', label: 'Georgia' },
@@ -36,8 +36,14 @@ export const HIGHLIGHT_STYLE_OPTIONS: { value: PacingHighlightStyle; label: stri
   { value: 'box', label: 'Box' },
 ];
 
+export const FIGURE_BEHAVIOR_OPTIONS: { value: FigureBehavior; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'pause', label: 'Pause' },
+];
+
 export const MODE_OPTIONS: { value: ReadingMode; label: string }[] = [
   { value: 'pacing', label: 'Pacing' },
   { value: 'bionic', label: 'Bionic' },
   { value: 'rsvp', label: 'RSVP' },
+  { value: 'listen', label: 'Listen' },
 ];
@@ -0,0 +1,106 @@
+/**
+ * Adaptive Speed
+ *
+ * Adjusts the reading speed from how the reader behaves instead of ramping
+ * it linearly: several rewinds in a short time slow it down, and a stretch
+ * of reading without rewinds, pauses or manual changes pushes it up a step.
+ * The controller only moves within the user's bounds; manual changes are
+ * always respected.
+ */
+
+/** Rewinds within this window count towards a slow-down */
+export const REGRESSION_WINDOW_MS = 30_000;
+
+/** Rewinds within the window that trigger a slow-down */
+export const REGRESSION_THRESHOLD = 3;
+
+/** Each slow-down takes this share off the speed (at least one step) */
+const SLOW_DOWN_FACTOR = 0.1;
+
+/** Speeds are kept on the same grid as the WPM controls */
+const WPM_GRID = 10;
+
+export interface AdaptiveSpeedOptions {
+  minWPM: number;
+  maxWPM: number;
+  /** WPM added after each smooth stretch */
+  step: number;
+  /** Reading time a smooth stretch lasts, in milliseconds */
+  intervalMs: number;
+}
+
+export interface AdaptiveSpeedState {
+  /** Times of rewinds within the regression window */
+  regressions: number[];
+  /** Reading time since the last rewind, pause, manual change or speed change */
+  smoothMs: number;
+}
+
+/** Outcome of a signal: the new controller state and the speed to read at */
+export interface AdaptiveSpeedResult {
+  state: AdaptiveSpeedState;
+  wpm: number;
+}
+
+export const INITIAL_ADAPTIVE_SPEED_STATE: AdaptiveSpeedState = {
+  regressions: [],
+  smoothMs: 0,
+};
+
+/**
+ * The reader rewound (previous word, step back, replay sentence). Slows down
+ * once enough rewinds fall within the regression window.
+ */
+export function recordRegression(
+  state: AdaptiveSpeedState,
+  wpm: number,
+  options: AdaptiveSpeedOptions,
+  now: number
+): AdaptiveSpeedResult {
+  const regressions = [...state.regressions.filter(time => now - time < REGRESSION_WINDOW_MS), now];
+  if (regressions.length < REGRESSION_THRESHOLD) {
+    return { state: { regressions, smoothMs: 0 }, wpm };
+  }
+
+  const lowered = Math.min(wpm - WPM_GRID, Math.round((wpm * (1 - SLOW_DOWN_FACTOR)) / WPM_GRID) * WPM_GRID);
+  // Never below the lower bound, but a manual speed below it stays
+  return {
+    state: INITIAL_ADAPTIVE_SPEED_STATE,
+    wpm: Math.min(wpm, Math.max(options.minWPM, lowered)),
+  };
+}
+
+/**
+ * Playback was paused: the next smooth stretch starts over
+ */
+export function recordPause(state: AdaptiveSpeedState): AdaptiveSpeedState {
+  return { ...state, smoothMs: 0 };
+}
+
+/**
+ * The reader picked a speed themselves: it becomes the starting point and
+ * earlier rewinds no longer count
+ */
+export function recordManualChange(): AdaptiveSpeedState {
+  return INITIAL_ADAPTIVE_SPEED_STATE;
+}
+
+/**
+ * Count reading time without interruptions. Each full smooth stretch pushes
+ * the speed up one step, up to the upper bound.
+ */
+export function advanceSmoothReading(
+  state: AdaptiveSpeedState,
+  wpm: number,
+  elapsedMs: number,
+  options: AdaptiveSpeedOptions
+): AdaptiveSpeedResult {
+  const smoothMs = state.smoothMs + elapsedMs;
+  if (smoothMs < options.intervalMs) {
+    return { state: { ...state, smoothMs }, wpm };
+  }
+
+  // A manual speed above the upper bound stays
+  const raised = Math.max(wpm, Math.min(options.maxWPM, wpm + options.step));
+  return { state: { ...state, smoothMs: 0 }, wpm: raised };
+}
@@ -9,7 +9,7 @@
  * Used by both recents-service.ts and sync/merge.ts.
  */
 
-import type { ReadingPosition, ArchiveProgress, ArchiveItem } from '@/types';
+import type { ReadingPosition, ArchiveProgress, ArchiveItem, SpeedProfile, ReadingDifficulty } from '@/types';
 
 
 /**
@@ -154,6 +154,8 @@ interface MergeableItem {
   collectionIds?: string[];
   /** When collection membership was last modified (for sync conflict resolution) */
   collectionIdsUpdatedAt?: number;
+  speedProfile?: SpeedProfile;
+  readingDifficulty?: ReadingDifficulty;
 }
 
 /**
@@ -164,6 +166,7 @@ interface MergeableItem {
  * - Uses highest progress percentage
  * - Prefers newer metadata (title, lastOpenedAt, etc.)
  * - Keeps the ID from the item with furthest progress (for continuity)
+ * - Uses the most recently saved speed profile and reading difficulty
  * 
  * @param item1 - First item to merge
  * @param item2 - Second item to merge
@@ -224,6 +227,12 @@ export function mergeArchiveItemPair<T extends MergeableItem>(
     // Merged collection membership (with timestamp)
     collectionIds: mergedCollections.collectionIds,
     collectionIdsUpdatedAt: mergedCollections.collectionIdsUpdatedAt,
+    speedProfile: (secondary.speedProfile?.updatedAt ?? 0) > (primary.speedProfile?.updatedAt ?? 0)
+      ? secondary.speedProfile
+      : primary.speedProfile,
+    readingDifficulty: (secondary.readingDifficulty?.updatedAt ?? 0) > (primary.readingDifficulty?.updatedAt ?? 0)
+      ? secondary.readingDifficulty
+      : primary.readingDifficulty,
   };
 }
 
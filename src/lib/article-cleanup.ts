@@ -7,6 +7,7 @@
  */
 
 import { describeElement } from './dom-utils';
+import { findContentImage, isContentFigure } from './figure-utils';
 
 // Configurable thresholds (exported for testing)
 export const MIN_TEXT_CHARS = 80;
@@ -181,6 +182,7 @@ function removeSummarySection(heading: Element): void {
  * - Container elements (div, section, aside, span): All heuristics apply
  * - Paragraphs: Only applies if very short (< 20 chars) - likely UI labels
  * - List items: No text density check (they're often short by nature)
+ * - Table cells and table wrappers: No heuristics (handled by normalization)
  * - Headings: No heuristics (handled by summary heading patterns)
  */
 function shouldRemoveByHeuristics(element: Element): string | null {
@@ -203,6 +205,11 @@ function shouldRemoveByHeuristics(element: Element): string | null {
     return null;
   }
 
+  // Skip table cells and table wrappers - tables are judged during normalization
+  if (element.closest('td, th') || element.querySelector('table')) {
+    return null;
+  }
+
   // Define element categories
   const isContainerTag = ['div', 'section', 'article', 'aside', 'span'].includes(tagName);
   const isParagraph = tagName === 'p';
@@ -276,12 +283,28 @@ function buildPatternSelectors(patterns: string[]): string[] {
   return selectors;
 }
 
+/**
+ * Check whether an element is, sits inside, or wraps a content figure.
+ * Only consulted when cleanup runs with preserveFigures.
+ */
+function isPartOfContentFigure(element: Element): boolean {
+  const enclosing = element.closest('figure, picture');
+  if (enclosing && isContentFigure(enclosing)) return true;
+  return Array.from(element.querySelectorAll('figure')).some(isContentFigure);
+}
+
 /**
  * Safely remove elements matching a selector
  */
-function removeBySelector(root: HTMLElement, selector: string, reason: string): void {
+function removeBySelector(
+  root: HTMLElement,
+  selector: string,
+  reason: string,
+  keep?: (element: Element) => boolean
+): void {
   try {
     root.querySelectorAll(selector).forEach(el => {
+      if (keep?.(el)) return;
       logRemoval(el, reason);
       el.remove();
     });
@@ -295,10 +318,12 @@ function removeBySelector(root: HTMLElement, selector: string, reason: string):
  * 
  * @param root - The root element containing article HTML (usually document.body)
  * @param metadata - Optional article metadata (title, byline) for context
+ * @param options - preserveFigures keeps figures that wrap a content image
  */
 export function cleanArticleDocument(
   root: HTMLElement,
-  metadata?: { title?: string; byline?: string }
+  metadata?: { title?: string; byline?: string },
+  options: { preserveFigures?: boolean } = {}
 ): void {
   if (debugEnabled) {
     console.log('[FlowReader Cleanup] Starting cleanup', metadata);
@@ -311,8 +336,9 @@ export function cleanArticleDocument(
   });
 
   // 2. Remove media and caption elements
+  const keepFigure = options.preserveFigures ? isPartOfContentFigure : undefined;
   MEDIA_SELECTORS.forEach(selector => {
-    removeBySelector(root, selector, 'media-caption');
+    removeBySelector(root, selector, 'media-caption', keepFigure);
   });
 
   // 3. Remove promotional content by class/id patterns
@@ -354,6 +380,9 @@ export function cleanArticleDocument(
     // Skip if already removed
     if (!element.parentElement) continue;
 
+    // Image-only wrappers have no text to judge them by
+    if (options.preserveFigures && findContentImage(element)) continue;
+
     const reason = shouldRemoveByHeuristics(element);
     if (reason) {
       logRemoval(element, reason);
@@ -43,13 +43,14 @@ function logNormalization(element: Element, action: string, reason: string): voi
 
 // Allowed block-level tags (only these remain in output)
 export const ALLOWED_BLOCK_TAGS = new Set([
-  'h2', 'h3', 'p', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code'
+  'h2', 'h3', 'p', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+  'figure', 'figcaption'
 ]);
 
 // Allowed inline tags (semantic formatting)
 export const ALLOWED_INLINE_TAGS = new Set([
   'a', 'strong', 'em', 'code', 'b', 'i', 'sub', 'sup',
-  'mark', 'del', 'ins', 's', 'u', 'abbr'
+  'mark', 'del', 'ins', 's', 'u', 'abbr', 'img'
 ]);
 
 // Wrapper tags that should be unwrapped
@@ -177,10 +178,32 @@ function normalizeBrElements(root: HTMLElement): void {
 }
 
 /**
- * Handle tables - remove by default, or convert to paragraphs if text-heavy
+ * Check if a table holds data (at least two rows of two or more cells)
+ * rather than being used for layout.
+ */
+function isDataTable(table: Element): boolean {
+  if (table.getAttribute('role') === 'presentation' || table.querySelector('table')) {
+    return false;
+  }
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.querySelectorAll('th, td').length >= 2);
+  return rows.length >= 2;
+}
+
+/**
+ * Handle tables - keep data tables, convert text-heavy layout tables
+ * to paragraphs, and remove the rest
  */
 function handleTables(root: HTMLElement): void {
+  // Outer tables first; nested ones go with their parent
   root.querySelectorAll('table').forEach(table => {
+    if (!table.isConnected || table.parentElement?.closest('table')) return;
+
+    if (isDataTable(table)) {
+      logNormalization(table, 'keep', 'data table');
+      return;
+    }
+
     const text = (table.textContent || '').trim();
     const rows = table.querySelectorAll('tr');
     
@@ -224,6 +247,9 @@ function stripPresentationalAttributes(root: HTMLElement): void {
       // Keep href on anchors
       if (name === 'href' && tagName === 'a') continue;
       
+      // Keep source, alt text and declared size on images (for figure blocks)
+      if (tagName === 'img' && (name === 'src' || name === 'alt' || name === 'width' || name === 'height')) continue;
+      
       // Keep class on code elements (for language detection)
       if (name === 'class' && tagName === 'code') {
         // Only keep language-* classes
@@ -505,7 +531,7 @@ export function normalizeArticleMarkup(root: HTMLElement): void {
   // 5. Clean anchors without valid href
   cleanAnchors(root);
 
-  // 6. Handle tables (remove or convert to paragraphs)
+  // 6. Handle tables (keep data tables, convert or remove layout tables)
   handleTables(root);
 
   // 7. Normalize br elements
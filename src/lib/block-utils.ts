@@ -1,6 +1,18 @@
-import type { Block, FlowDocument, DocumentMetadata } from '@/types';
+import type { Block, FlowDocument, DocumentMetadata, TableBlock } from '@/types';
+
+/** All table rows in reading order: header rows first, then body rows */
+export function getTableRows(block: TableBlock): string[][] {
+  return [...block.headerRows, ...block.rows];
+}
+
+/** All table cells in reading order (row by row, left to right) */
+export function getTableCells(block: TableBlock): string[] {
+  return getTableRows(block).flat();
+}
 
 export function getBlockText(block: Block): string {
+  if (block.type === 'figure') return '';
+  if (block.type === 'table') return getTableCells(block).join(' ');
   return block.type === 'list' ? block.items.join(' ') : block.content;
 }
 
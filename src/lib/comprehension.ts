@@ -0,0 +1,248 @@
+/**
+ * Comprehension Checks
+ *
+ * Builds short quizzes from the text of a finished section, offline and
+ * extractively: key sentences are chosen by word difficulty and readability,
+ * then asked back either as a cloze (fill in the missing word) or as "which
+ * of these sentences appeared", where the wrong options swap the key word
+ * for another one from the same section.
+ */
+
+import type { Block } from '@/types';
+import { splitIntoSentences, calculateReadability } from './readability';
+import { getWordDifficulty } from './word-frequency';
+import { detectLanguage } from './syllables';
+
+export type QuizQuestionType = 'cloze' | 'appeared';
+
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  /** Sentence with a blank (cloze) or the question text (appeared) */
+  prompt: string;
+  options: string[];
+  answerIndex: number;
+}
+
+/** Quiz for a section the reader just finished */
+export interface ComprehensionQuiz {
+  /** Chapter (or document) title the quiz covers */
+  title: string;
+  /** Chapter the quiz covers; 0 for documents without chapters */
+  chapterIndex: number;
+  /** Reading speed the section was read at */
+  wpm: number;
+  questions: QuizQuestion[];
+}
+
+/** Sections shorter than this don't get a quiz */
+export const MIN_QUIZ_WORDS = 150;
+
+/** Roughly one question per this many words */
+const WORDS_PER_QUESTION = 200;
+const MIN_QUESTIONS = 2;
+const MAX_QUESTIONS = 5;
+
+/** Sentences outside this length make poor questions */
+const MIN_SENTENCE_WORDS = 8;
+const MAX_SENTENCE_WORDS = 35;
+
+/** Key words must be at least this long, and this difficult (0-1) */
+const MIN_KEY_WORD_LENGTH = 5;
+const MIN_KEY_WORD_DIFFICULTY = 0.5;
+
+const OPTION_COUNT = 4;
+const BLANK = '_____';
+
+/** Letters (any script), with inner apostrophes and hyphens */
+const WORD_PATTERN = /\p{L}[\p{L}'’-]*\p{L}/u;
+
+interface Candidate {
+  sentence: string;
+  keyWord: string;
+  score: number;
+}
+
+function getQuizText(block: Block): string[] {
+  switch (block.type) {
+    case 'paragraph':
+      return block.isFootnote ? [] : [block.content];
+    case 'quote':
+      return [block.content];
+    case 'list':
+      return block.items;
+    default:
+      // Headings, code, tables and figures don't make good sentences
+      return [];
+  }
+}
+
+function getCoreWord(token: string): string | undefined {
+  return token.match(WORD_PATTERN)?.[0];
+}
+
+/**
+ * Pick the sentences worth asking about: mid-length sentences whose hardest
+ * word is rare enough to test recall, favouring information-dense sentences
+ * that are still readable on their own.
+ */
+function findCandidates(texts: string[], language: 'en' | 'no'): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const text of texts) {
+    for (const sentence of splitIntoSentences(text)) {
+      const tokens = sentence.split(/\s+/).filter(Boolean);
+      if (tokens.length < MIN_SENTENCE_WORDS || tokens.length > MAX_SENTENCE_WORDS) continue;
+
+      // The first word is skipped: its capital doesn't tell names from other words
+      const words = tokens.slice(1)
+        .map(getCoreWord)
+        .filter((word): word is string => !!word && word.length >= MIN_KEY_WORD_LENGTH);
+      if (words.length === 0) continue;
+
+      const difficulties = words.map(word => getWordDifficulty(word, language));
+      let keyIndex = 0;
+      for (let i = 1; i < words.length; i++) {
+        const harder = difficulties[i] > difficulties[keyIndex];
+        const longer = difficulties[i] === difficulties[keyIndex] && words[i].length > words[keyIndex].length;
+        if (harder || longer) keyIndex = i;
+      }
+      if (difficulties[keyIndex] < MIN_KEY_WORD_DIFFICULTY) continue;
+
+      const density = difficulties.reduce((sum, d) => sum + d, 0) / tokens.length;
+      const { difficultyLevel } = calculateReadability(sentence, language);
+      const readabilityPenalty = difficultyLevel === 'very-hard' ? 0.5 : difficultyLevel === 'hard' ? 0.2 : 0;
+
+      candidates.push({
+        sentence,
+        keyWord: words[keyIndex],
+        score: difficulties[keyIndex] + density - readabilityPenalty,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/** Words of the section that can stand in for a key word */
+function getDistractorPool(texts: string[], language: 'en' | 'no'): string[] {
+  const seen = new Set<string>();
+  const pool: string[] = [];
+  for (const text of texts) {
+    for (const token of text.split(/\s+/)) {
+      const word = getCoreWord(token);
+      if (!word || word.length < MIN_KEY_WORD_LENGTH) continue;
+      const key = word.toLowerCase();
+      if (seen.has(key) || getWordDifficulty(word, language) < MIN_KEY_WORD_DIFFICULTY) continue;
+      seen.add(key);
+      pool.push(word);
+    }
+  }
+  return pool;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Up to `count` words from the pool, closest in length to the key word,
+ * none of which appear in the sentence
+ */
+function pickDistractors(pool: string[], candidate: Candidate, count: number, random: () => number): string[] {
+  const sentence = candidate.sentence.toLowerCase();
+  const options = shuffle(
+    pool.filter(word => !sentence.includes(word.toLowerCase())),
+    random
+  );
+  return options
+    .sort((a, b) => Math.abs(a.length - candidate.keyWord.length) - Math.abs(b.length - candidate.keyWord.length))
+    .slice(0, count);
+}
+
+function replaceKeyWord(sentence: string, keyWord: string, replacement: string): string {
+  // Only the occurrence after the first word, matching how the key word was found
+  const firstSpace = sentence.search(/\s/);
+  const head = sentence.slice(0, firstSpace + 1);
+  const escaped = keyWord.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const whole = new RegExp(`(?<!\\p{L})${escaped}(?!\\p{L})`, 'u');
+  return head + sentence.slice(firstSpace + 1).replace(whole, () => replacement);
+}
+
+function createQuestion(
+  type: QuizQuestionType,
+  candidate: Candidate,
+  distractors: string[],
+  random: () => number
+): QuizQuestion {
+  const answer = type === 'cloze'
+    ? candidate.keyWord
+    : candidate.sentence;
+  const wrong = type === 'cloze'
+    ? distractors
+    : distractors.map(word => replaceKeyWord(candidate.sentence, candidate.keyWord, word));
+  const options = shuffle([answer, ...wrong], random);
+
+  return {
+    type,
+    prompt: type === 'cloze'
+      ? replaceKeyWord(candidate.sentence, candidate.keyWord, BLANK)
+      : 'Which of these sentences appeared in the text?',
+    options,
+    answerIndex: options.indexOf(answer),
+  };
+}
+
+/**
+ * Generate comprehension questions for a section. Returns no questions for
+ * sections too short to quiz on. Questions follow the order of the text,
+ * alternating between cloze and "which appeared".
+ */
+export function generateQuizQuestions(blocks: Block[], random: () => number = Math.random): QuizQuestion[] {
+  const texts = blocks.flatMap(getQuizText);
+  const fullText = texts.join(' ');
+  const wordCount = fullText.split(/\s+/).filter(Boolean).length;
+  if (wordCount < MIN_QUIZ_WORDS) return [];
+
+  const language = detectLanguage(fullText);
+  const candidates = findCandidates(texts, language);
+  const pool = getDistractorPool(texts, language);
+  const questionCount = Math.max(MIN_QUESTIONS, Math.min(MAX_QUESTIONS, Math.round(wordCount / WORDS_PER_QUESTION)));
+
+  // Best sentences, one per key word, asked in reading order
+  const usedKeyWords = new Set<string>();
+  const chosen = [...candidates]
+    .sort((a, b) => b.score - a.score)
+    .filter(candidate => {
+      const key = candidate.keyWord.toLowerCase();
+      if (usedKeyWords.has(key)) return false;
+      usedKeyWords.add(key);
+      return true;
+    })
+    .slice(0, questionCount)
+    .sort((a, b) => candidates.indexOf(a) - candidates.indexOf(b));
+
+  const questions: QuizQuestion[] = [];
+  for (const candidate of chosen) {
+    const distractors = pickDistractors(pool, candidate, OPTION_COUNT - 1, random);
+    // A question needs at least two wrong answers to be worth asking
+    if (distractors.length < 2) continue;
+    const type: QuizQuestionType = questions.length % 2 === 0 ? 'cloze' : 'appeared';
+    questions.push(createQuestion(type, candidate, distractors, random));
+  }
+
+  return questions;
+}
+
+/**
+ * Count the correct answers. `answers` holds the chosen option index per
+ * question (or null when skipped).
+ */
+export function scoreQuiz(questions: QuizQuestion[], answers: (number | null)[]): { correct: number; total: number } {
+  const correct = questions.filter((question, i) => answers[i] === question.answerIndex).length;
+  return { correct, total: questions.length };
+}
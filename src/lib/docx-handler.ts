@@ -2,6 +2,7 @@ import type { FlowDocument } from '@/types';
 import { parseHtmlToBlocks } from './html-parser';
 import { createDocument } from './block-utils';
 import { computeFileHash } from './file-utils';
+import { limitInlineSource, resolveFigureSources } from './figure-utils';
 
 async function getMammoth() {
   const mammoth = await import('mammoth');
@@ -13,7 +14,11 @@ export async function extractFromDocx(file: File): Promise<FlowDocument> {
   const arrayBuffer = await file.arrayBuffer();
 
   const result = await mammoth.convertToHtml({ arrayBuffer });
-  const blocks = parseHtmlToBlocks(result.value, { handleTables: true });
+  // Mammoth inlines images as data URLs; oversized ones are dropped
+  const blocks = await resolveFigureSources(
+    parseHtmlToBlocks(result.value, { handleTables: true }),
+    limitInlineSource
+  );
   
   const fileHash = await computeFileHash(file);
 
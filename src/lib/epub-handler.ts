@@ -10,6 +10,8 @@ import { createZipLoader, type ZipLoader } from './zip-adapter';
 import { parseEbookHtml } from './html-parser';
 import { getPlainText } from './block-utils';
 import { computeFileHash, countWords } from './file-utils';
+import { MAX_INLINE_IMAGE_BYTES, blobToDataUrl, limitInlineSource, resolveFigureSources } from './figure-utils';
+import { createFootnoteRegistry, extractFootnotes, getReferencedFootnotes, type FootnoteRegistry } from './footnote-utils';
 
 
 export type EpubErrorType = 
@@ -76,7 +78,8 @@ export async function extractFromEpub(file: File): Promise<FlowDocument> {
     
     const toc = await parseToc(loader, manifest, opfDir);
     
-    const chapters = await extractChapters(loader, spine, manifest, opfDir, toc);
+    const footnotes = createFootnoteRegistry();
+    const chapters = await extractChapters(loader, spine, manifest, opfDir, toc, footnotes);
     
     if (chapters.length === 0) {
       throw new EpubExtractionError(
@@ -116,6 +119,7 @@ export async function extractFromEpub(file: File): Promise<FlowDocument> {
       blocks: firstChapter.blocks,
       plainText: firstChapter.plainText,
       book,
+      footnotes: getReferencedFootnotes(chapters.flatMap(chapter => chapter.blocks), footnotes.footnotes),
     };
   } catch (error) {
     if (error instanceof EpubExtractionError) {
@@ -401,18 +405,32 @@ function parseNav(navContent: string): NavPoint[] {
 }
 
 /**
- * Extract chapters from spine items
+ * Extract chapters from spine items.
+ * Footnotes referenced from chapters are moved into the registry.
  */
 async function extractChapters(
   loader: ZipLoader,
   spine: SpineItem[],
   _manifest: Map<string, { href: string; mediaType: string }>,
   opfDir: string,
-  toc: NavPoint[]
+  toc: NavPoint[],
+  footnotes: FootnoteRegistry
 ): Promise<Chapter[]> {
   const chapters: Chapter[] = [];
   const tocMap = buildTocMap(toc);
   
+  // Endnotes often live in a separate (sometimes non-linear) spine item,
+  // so every content document is loaded before any chapter is parsed
+  const documents = new Map<string, Document>();
+  for (const spineItem of spine) {
+    const itemPath = resolvePath(opfDir, spineItem.href);
+    try {
+      documents.set(itemPath, parseChapterDocument(await loader.loadText(itemPath)));
+    } catch (error) {
+      console.warn(`[EPUB] Failed to load chapter ${spineItem.href}:`, error);
+    }
+  }
+  
   for (let i = 0; i < spine.length; i++) {
     const spineItem = spine[i];
     
@@ -422,10 +440,26 @@ async function extractChapters(
     
     try {
       const itemPath = resolvePath(opfDir, spineItem.href);
-      const html = await loader.loadText(itemPath);
+      const doc = documents.get(itemPath);
+      if (!doc) {
+        continue;
+      }
       
-      // Parse HTML using ebook-specific parser
-      const blocks = parseChapterHtml(html);
+      const chapterDir = itemPath.substring(0, itemPath.lastIndexOf('/') + 1);
+      extractFootnotes(doc, footnotes, {
+        documentKey: itemPath,
+        resolveDocument: (path) => {
+          const key = resolvePath(chapterDir, path);
+          const target = documents.get(key);
+          return target ? { key, document: target } : null;
+        },
+      });
+      
+      // Parse HTML using ebook-specific parser, inlining chapter images
+      const blocks = await resolveFigureSources(
+        parseChapterHtml(new XMLSerializer().serializeToString(doc)),
+        src => loadChapterImage(loader, chapterDir, src)
+      );
       
       if (blocks.length === 0) {
         continue;
@@ -460,6 +494,16 @@ async function extractChapters(
   return chapters;
 }
 
+/**
+ * Parse chapter markup into a DOM for footnote detection.
+ * Chapters are usually XHTML; fall back to HTML parsing for malformed ones.
+ */
+function parseChapterDocument(html: string): Document {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html, 'application/xhtml+xml');
+  return doc.querySelector('parsererror') ? parser.parseFromString(html, 'text/html') : doc;
+}
+
 /**
  * Parse chapter HTML and convert to blocks
  */
@@ -606,6 +650,30 @@ function resolvePath(basePath: string, relativePath: string): string {
   return resolved.join('/');
 }
 
+/**
+ * Load an image referenced from a chapter and inline it as a data URL.
+ * External references are dropped so opening a book never touches the network.
+ */
+async function loadChapterImage(
+  loader: ZipLoader,
+  chapterDir: string,
+  src: string
+): Promise<string | undefined> {
+  if (src.startsWith('data:')) {
+    return limitInlineSource(src);
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(src)) {
+    return undefined;
+  }
+  
+  const imagePath = resolvePath(chapterDir, src.split('#')[0]);
+  if (loader.getSize(imagePath) > MAX_INLINE_IMAGE_BYTES) {
+    return undefined;
+  }
+  
+  return blobToDataUrl(await loader.loadBlob(imagePath));
+}
+
 /**
  * Maximum thumbnail dimensions (pixels)
  */
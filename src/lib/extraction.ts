@@ -1,15 +1,14 @@
 import { Readability } from '@mozilla/readability';
-import { marked } from 'marked';
-import type { FlowDocument, Block, HeadingBlock, ParagraphBlock, ListBlock, QuoteBlock, CodeBlock } from '@/types';
+import type { FlowDocument, Block } from '@/types';
 import { parseHtmlToBlocks } from './html-parser';
+import { parseMarkdownToBlocks } from './paste-utils';
 import { getBlockText, createDocument } from './block-utils';
 import { cleanArticleDocument, setCleanupDebug } from './article-cleanup';
 import { normalizeArticleMarkup, setNormalizeDebug } from './article-normalize';
 import { isFlowCasePage, extractFlowCaseContent } from './site-extractors/flowcase';
 import { computeTextHash } from './file-utils';
-
-// Type for marked tokens
-type MarkedToken = ReturnType<typeof marked.lexer>[number];
+import { isContentFigure, resolveWebImageSource } from './figure-utils';
+import { createFootnoteRegistry, extractFootnotes, getReferencedFootnotes } from './footnote-utils';
 
 /**
  * Enable debug logging for extraction pipeline.
@@ -74,7 +73,7 @@ const STRUCTURAL_PRE_SELECTORS = [
   'header:not(article header)', 
   'footer:not(article footer)',
   '[role="complementary"]', '[role="banner"]', '[role="contentinfo"]',
-  // Media elements that Readability might keep
+  // Media elements that Readability might keep (content figures are spared)
   'figure', 'picture', 'video', 'audio', 'canvas', 'embed', 'object',
 ];
 
@@ -168,7 +167,9 @@ function cleanupDomPre(doc: Document): void {
   // Remove structural elements that shouldn't contain article content
   STRUCTURAL_PRE_SELECTORS.forEach(selector => {
     try {
-      doc.querySelectorAll(selector).forEach(el => safeRemove(el));
+      doc.querySelectorAll(selector).forEach(el => {
+        if (!isContentFigure(el)) safeRemove(el);
+      });
     } catch {
       // Ignore invalid selectors
     }
@@ -225,6 +226,9 @@ function isUIText(text: string, strict: boolean = true): boolean {
 
 function filterUIBlocks(blocks: Block[], strict: boolean = true): Block[] {
   return blocks.filter(block => {
+    // Figures and data tables survived cleanup as content; their text isn't prose to judge
+    if (block.type === 'figure' || block.type === 'table') return true;
+
     const text = getBlockText(block);
     
     // Filter out non-article content (AI summaries, etc.)
@@ -260,12 +264,14 @@ function textToParagraphBlocks(text: string): Block[] {
  * Pipeline:
  * 1. Check for site-specific extractors (FlowCase, etc.)
  * 2. Clone document
- * 3. Pre-Readability cleanup (remove obvious non-content)
- * 4. Readability extraction
- * 5. Post-extraction cleanup (remove summary boxes, sidebars, captions)
- * 6. Markup normalization (strip formatting, unwrap containers/spans)
- * 7. Parse to blocks
- * 8. Filter UI text patterns
+ * 3. Move footnotes out of the text (references become markers on their blocks)
+ * 4. Pre-Readability cleanup (remove obvious non-content)
+ * 5. Readability extraction
+ * 6. Post-extraction cleanup (remove summary boxes, sidebars, stray captions)
+ * 7. Markup normalization (strip formatting, unwrap containers/spans)
+ * 8. Parse to blocks (content images become figures, data tables become tables)
+ * 9. Filter UI text patterns
+ * 10. Resolve figure sources against the page URL
  */
 export function extractContent(doc: Document, url: string): FlowDocument | null {
   // Enable debug logging if configured
@@ -320,7 +326,18 @@ export function extractContent(doc: Document, url: string): FlowDocument | null
   if (!documentClone || !documentClone.documentElement) {
     return null;
   }
-  
+
+  // Readability resolves relative image/link URLs against baseURI; make that the page URL
+  if (documentClone.head && !documentClone.querySelector('base[href]')) {
+    const base = documentClone.createElement('base');
+    base.setAttribute('href', url);
+    documentClone.head.prepend(base);
+  }
+
+  // Move footnotes out of the text first; detection relies on ids and roles that later steps strip
+  const footnotes = createFootnoteRegistry();
+  extractFootnotes(documentClone, footnotes, { documentKey: url.split('#')[0] });
+
   // Step 1: Pre-Readability cleanup
   cleanupDomPre(documentClone);
   
@@ -350,7 +367,7 @@ export function extractContent(doc: Document, url: string): FlowDocument | null
   cleanArticleDocument(articleDoc.body, {
     title: article.title || undefined,
     byline: article.byline || undefined,
-  });
+  }, { preserveFigures: true });
   
   // Step 5: Markup normalization (strips formatting, unwraps containers)
   normalizeArticleMarkup(articleDoc.body);
@@ -363,12 +380,19 @@ export function extractContent(doc: Document, url: string): FlowDocument | null
   }
   
   // Step 6: Parse to blocks
-  const blocks = parseHtmlToBlocks(cleanedHtml);
+  const blocks = parseHtmlToBlocks(cleanedHtml, { handleTables: true });
   
   // Step 7: Filter UI text patterns
   const filteredBlocks = filterUIBlocks(blocks, true);
 
-  return createDocument(filteredBlocks, {
+  // Step 8: Resolve figure sources against the page URL
+  const resolvedBlocks = filteredBlocks.flatMap((block): Block[] => {
+    if (block.type !== 'figure' || !block.src) return [block];
+    const src = resolveWebImageSource(block.src, url);
+    return src || block.alt || block.caption ? [{ ...block, src }] : [];
+  });
+
+  const flowDocument = createDocument(resolvedBlocks, {
     title: article.title || 'Untitled',
     author: article.byline || undefined,
     publishedAt: article.publishedTime || undefined,
@@ -376,6 +400,9 @@ export function extractContent(doc: Document, url: string): FlowDocument | null
     url,
     thumbnail: ogImage || undefined,
   });
+  flowDocument.footnotes = getReferencedFootnotes(resolvedBlocks, footnotes.footnotes);
+
+  return flowDocument;
 }
 
 export function extractFromSelection(selection: string, url: string): FlowDocument {
@@ -453,145 +480,6 @@ function detectMarkdown(text: string): boolean {
   return false;
 }
 
-/**
- * Parse markdown text into FlowReader blocks.
- * Uses the marked library for parsing, then converts tokens to blocks.
- */
-function parseMarkdownToBlocks(text: string): { blocks: Block[]; title: string | null } {
-  // Configure marked for lexer-only use (we convert to our own block format)
-  const tokens = marked.lexer(text);
-  
-  const blocks: Block[] = [];
-  let blockIndex = 0;
-  let title: string | null = null;
-  
-  for (const token of tokens) {
-    switch (token.type) {
-      case 'heading': {
-        const headingBlock: HeadingBlock = {
-          type: 'heading',
-          level: token.depth as 1 | 2 | 3 | 4 | 5 | 6,
-          content: stripInlineMarkdown(token.text),
-          id: `block-${blockIndex++}`,
-        };
-        blocks.push(headingBlock);
-        // Use first h1 as document title
-        if (token.depth === 1 && !title) {
-          title = stripInlineMarkdown(token.text);
-        }
-        break;
-      }
-      
-      case 'paragraph': {
-        const paragraphBlock: ParagraphBlock = {
-          type: 'paragraph',
-          content: stripInlineMarkdown(token.text),
-          id: `block-${blockIndex++}`,
-        };
-        blocks.push(paragraphBlock);
-        break;
-      }
-      
-      case 'list': {
-        const items = token.items.map((item: { text: string }) => stripInlineMarkdown(item.text));
-        const listBlock: ListBlock = {
-          type: 'list',
-          ordered: token.ordered,
-          items,
-          id: `block-${blockIndex++}`,
-        };
-        blocks.push(listBlock);
-        break;
-      }
-      
-      case 'blockquote': {
-        // Blockquote may contain nested tokens - extract text
-        const quoteText = extractTextFromTokens(token.tokens || []);
-        const quoteBlock: QuoteBlock = {
-          type: 'quote',
-          content: quoteText,
-          id: `block-${blockIndex++}`,
-        };
-        blocks.push(quoteBlock);
-        break;
-      }
-      
-      case 'code': {
-        const codeBlock: CodeBlock = {
-          type: 'code',
-          content: token.text,
-          language: token.lang || undefined,
-          id: `block-${blockIndex++}`,
-        };
-        blocks.push(codeBlock);
-        break;
-      }
-      
-      case 'hr':
-        // Skip horizontal rules - they're visual separators
-        break;
-        
-      case 'space':
-        // Skip empty space
-        break;
-        
-      default:
-        // For any unhandled token types, try to extract text content
-        if ('text' in token && typeof token.text === 'string' && token.text.trim()) {
-          const fallbackBlock: ParagraphBlock = {
-            type: 'paragraph',
-            content: stripInlineMarkdown(token.text),
-            id: `block-${blockIndex++}`,
-          };
-          blocks.push(fallbackBlock);
-        }
-    }
-  }
-  
-  return { blocks, title };
-}
-
-/**
- * Strip inline markdown formatting from text.
- * Converts **bold**, *italic*, `code`, [links](url), etc. to plain text.
- */
-function stripInlineMarkdown(text: string): string {
-  return text
-    // Remove bold: **text** or __text__
-    .replace(/\*\*(.+?)\*\*/g, '$1')
-    .replace(/__(.+?)__/g, '$1')
-    // Remove italic: *text* or _text_
-    .replace(/\*(.+?)\*/g, '$1')
-    .replace(/_(.+?)_/g, '$1')
-    // Remove strikethrough: ~~text~~
-    .replace(/~~(.+?)~~/g, '$1')
-    // Remove inline code: `code`
-    .replace(/`(.+?)`/g, '$1')
-    // Convert links: [text](url) -> text
-    .replace(/\[(.+?)\]\(.+?\)/g, '$1')
-    // Convert images: ![alt](url) -> alt
-    .replace(/!\[(.+?)\]\(.+?\)/g, '$1')
-    // Clean up any remaining markdown artifacts
-    .trim();
-}
-
-/**
- * Extract plain text from nested marked tokens.
- */
-function extractTextFromTokens(tokens: MarkedToken[]): string {
-  const parts: string[] = [];
-  
-  for (const token of tokens) {
-    if ('text' in token && typeof token.text === 'string') {
-      parts.push(stripInlineMarkdown(token.text));
-    } else if ('tokens' in token && Array.isArray(token.tokens)) {
-      parts.push(extractTextFromTokens(token.tokens as MarkedToken[]));
-    }
-  }
-  
-  return parts.join(' ').trim();
-}
-
 /**
  * Enable or disable debug logging for the extraction pipeline.
  * When enabled, logs which nodes are removed and why.
@@ -0,0 +1,666 @@
+/**
+ * FB2 Handler
+ *
+ * Parses FictionBook 2 files (.fb2 and zipped .fb2.zip) and converts them to
+ * FlowReader's internal document model. FB2 is a single XML document: the
+ * main <body> holds nested <section>s, a second body holds the notes, and
+ * images (including the cover) are embedded as base64 <binary> elements.
+ *
+ * Sections are converted to HTML so chapters go through the same footnote
+ * extraction and ebook parser as EPUB chapters.
+ */
+
+import type { FlowDocument, BookStructure, Chapter, TocItem } from '@/types';
+import { createZipLoader } from './zip-adapter';
+import { base64ToUint8Array, toArrayBuffer } from './encoding';
+import { parseEbookHtml } from './html-parser';
+import { getPlainText } from './block-utils';
+import { computeFileHash, countWords } from './file-utils';
+import { limitInlineSource, resolveFigureSources } from './figure-utils';
+import { createFootnoteRegistry, extractFootnotes, getReferencedFootnotes } from './footnote-utils';
+
+
+export type Fb2ErrorType =
+  | 'invalid-fb2'
+  | 'corrupted'
+  | 'no-content'
+  | 'unknown';
+
+export class Fb2ExtractionError extends Error {
+  constructor(
+    message: string,
+    public readonly errorType: Fb2ErrorType
+  ) {
+    super(message);
+    this.name = 'Fb2ExtractionError';
+  }
+}
+
+
+interface Fb2Metadata {
+  title?: string;
+  author?: string;
+  language?: string;
+  publisher?: string;
+  date?: string;
+  coverId?: string;
+}
+
+/** A chapter while sections are being converted, before parsing to blocks */
+interface ChapterDraft {
+  id: string;
+  title?: string;
+  container: HTMLElement;
+}
+
+/** A TOC entry pointing at a chapter draft */
+interface TocDraft {
+  label: string;
+  chapterIndex: number;
+  depth: number;
+}
+
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+// Bodies holding notes rather than the main text
+const NOTES_BODY_NAMES = ['notes', 'comments', 'footnotes'];
+
+// FB2 inline elements and their HTML equivalents
+const INLINE_TAGS: Record<string, string> = {
+  strong: 'strong',
+  emphasis: 'em',
+  strikethrough: 's',
+  sub: 'sub',
+  sup: 'sup',
+  code: 'code',
+  style: 'span',
+};
+
+// FB2 block elements, as opposed to inline markup
+const BLOCK_TAGS = new Set([
+  'title', 'subtitle', 'p', 'text-author', 'epigraph', 'cite', 'annotation',
+  'poem', 'stanza', 'section', 'table', 'tr', 'image', 'empty-line',
+]);
+
+// The XML declaration names the encoding; older Russian books are often windows-1251
+const XML_ENCODING_PATTERN = /^<\?xml[^>]*encoding=["']([\w.:-]+)["']/;
+
+// ZIP local file header signature ("PK\x03\x04")
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+
+/**
+ * Extract a FlowDocument from an FB2 or zipped FB2 file
+ */
+export async function extractFromFb2(file: File): Promise<FlowDocument> {
+  try {
+    const bytes = await readFb2Bytes(file);
+    const xml = parseFb2Xml(decodeFb2(bytes));
+
+    const metadata = parseMetadata(xml);
+    const binaries = getBinaries(xml);
+
+    const bodies = Array.from(xml.getElementsByTagName('body'));
+    const mainBody = bodies.find(body => !isNotesBody(body));
+    if (!mainBody) {
+      throw new Fb2ExtractionError(
+        'No readable content found in this FB2 file.',
+        'no-content'
+      );
+    }
+
+    // Main text and notes share one document so note links resolve
+    const html = document.implementation.createHTMLDocument('');
+    const converter = new Fb2Converter(html, binaries);
+    const { chapters: drafts, toc: tocDrafts } = converter.convertBody(mainBody);
+
+    const notesContainer = html.createElement('div');
+    for (const body of bodies.filter(isNotesBody)) {
+      converter.appendChildren(notesContainer, body, 1);
+    }
+    html.body.append(...drafts.map(draft => draft.container), notesContainer);
+
+    const footnotes = createFootnoteRegistry();
+    extractFootnotes(html, footnotes);
+    notesContainer.remove();
+
+    const { chapters, chapterIndexes } = await parseChapters(drafts);
+
+    if (chapters.length === 0) {
+      throw new Fb2ExtractionError(
+        'No readable content found in this FB2 file.',
+        'no-content'
+      );
+    }
+
+    const fileHash = await computeFileHash(file);
+
+    const thumbnail = metadata.coverId
+      ? await extractCoverThumbnail(binaries.get(metadata.coverId))
+      : undefined;
+
+    const book: BookStructure = {
+      toc: buildToc(tocDrafts, chapterIndexes, chapters),
+      chapters,
+    };
+
+    // The main blocks are the first chapter's blocks (will be updated when navigating)
+    const firstChapter = chapters[0];
+
+    return {
+      metadata: {
+        title: metadata.title || file.name.replace(/\.fb2(\.zip)?$/i, ''),
+        author: metadata.author,
+        publishedAt: metadata.date,
+        source: 'fb2',
+        createdAt: Date.now(),
+        language: metadata.language,
+        publisher: metadata.publisher,
+        fileName: file.name,
+        fileSize: file.size,
+        fileHash,
+        thumbnail,
+      },
+      blocks: firstChapter.blocks,
+      plainText: firstChapter.plainText,
+      book,
+      footnotes: getReferencedFootnotes(chapters.flatMap(chapter => chapter.blocks), footnotes.footnotes),
+    };
+  } catch (error) {
+    if (error instanceof Fb2ExtractionError) {
+      throw error;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[FB2] Extraction failed:', error);
+
+    if (message.includes('Invalid ZIP') || message.includes('invalid zip')) {
+      throw new Fb2ExtractionError(
+        'This file does not appear to be a valid zipped FB2.',
+        'corrupted'
+      );
+    }
+
+    throw new Fb2ExtractionError(
+      `Failed to parse FB2: ${message}`,
+      'unknown'
+    );
+  }
+}
+
+
+/**
+ * Read the FB2 document's bytes, unpacking it first if the file is zipped
+ */
+async function readFb2Bytes(file: File): Promise<Uint8Array> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  if (!ZIP_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return bytes;
+  }
+
+  const loader = await createZipLoader(buffer);
+  const entry = loader.entries.find(e => e.filename.toLowerCase().endsWith('.fb2'));
+  if (!entry) {
+    throw new Fb2ExtractionError(
+      'This archive does not contain an FB2 book.',
+      'invalid-fb2'
+    );
+  }
+  return entry.data;
+}
+
+/**
+ * Decode the document using the encoding from its XML declaration
+ */
+function decodeFb2(bytes: Uint8Array): string {
+  // The declaration is ASCII, so the first bytes can be read with any encoding
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 200));
+  const encoding = head.match(XML_ENCODING_PATTERN)?.[1] ?? 'utf-8';
+
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch {
+    // Unknown encoding label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function parseFb2Xml(text: string): Document {
+  // The declaration no longer matches the decoded string
+  const xml = new DOMParser().parseFromString(text.replace(/^\uFEFF?<\?xml[^>]*\?>/, ''), 'application/xml');
+
+  if (xml.getElementsByTagName('parsererror').length > 0 || xml.documentElement.localName !== 'FictionBook') {
+    throw new Fb2ExtractionError(
+      'This file does not appear to be a valid FB2 book.',
+      'invalid-fb2'
+    );
+  }
+  return xml;
+}
+
+function isNotesBody(body: Element): boolean {
+  return NOTES_BODY_NAMES.includes((body.getAttribute('name') || '').toLowerCase());
+}
+
+/**
+ * Parse book metadata from <description>
+ */
+function parseMetadata(xml: Document): Fb2Metadata {
+  const titleInfo = xml.getElementsByTagName('title-info')[0];
+  const publishInfo = xml.getElementsByTagName('publish-info')[0];
+
+  const authors = titleInfo
+    ? getChildren(titleInfo, 'author').map(formatAuthor).filter(Boolean)
+    : [];
+  const coverImage = titleInfo?.getElementsByTagName('coverpage')[0]?.getElementsByTagName('image')[0];
+  const coverHref = coverImage ? getHref(coverImage) : '';
+
+  return {
+    title: getChildText(titleInfo, 'book-title'),
+    author: authors.length > 0 ? authors.join(', ') : undefined,
+    language: getChildText(titleInfo, 'lang'),
+    publisher: getChildText(publishInfo, 'publisher'),
+    date: getChildText(publishInfo, 'year') || getChildText(titleInfo, 'date'),
+    coverId: coverHref.startsWith('#') ? coverHref.slice(1) : undefined,
+  };
+}
+
+function formatAuthor(author: Element): string {
+  const name = ['first-name', 'middle-name', 'last-name']
+    .map(tag => getChildText(author, tag))
+    .filter(Boolean)
+    .join(' ');
+  return name || getChildText(author, 'nickname') || '';
+}
+
+/**
+ * Map binary ids to data URLs
+ */
+function getBinaries(xml: Document): Map<string, string> {
+  const binaries = new Map<string, string>();
+  for (const binary of Array.from(xml.getElementsByTagName('binary'))) {
+    const id = binary.getAttribute('id');
+    const contentType = binary.getAttribute('content-type') || 'image/jpeg';
+    const data = (binary.textContent || '').replace(/\s+/g, '');
+    if (id && data) {
+      binaries.set(id, `data:${contentType};base64,${data}`);
+    }
+  }
+  return binaries;
+}
+
+/**
+ * Converts FB2 sections to HTML and splits them into chapters.
+ *
+ * Every section with text of its own becomes a chapter. A section that only
+ * wraps other sections (a part with a title and maybe an epigraph) has its
+ * heading carried into the first chapter inside it, as is the front matter
+ * before the first section.
+ */
+class Fb2Converter {
+  private chapters: ChapterDraft[] = [];
+  private toc: TocDraft[] = [];
+  private pending: Node[] = [];
+
+  constructor(
+    private readonly html: Document,
+    private readonly binaries: Map<string, string>
+  ) {}
+
+  convertBody(body: Element): { chapters: ChapterDraft[]; toc: TocDraft[] } {
+    const sections = getChildren(body, 'section');
+
+    if (sections.length === 0) {
+      this.pending.push(...this.convertChildren(body, 1));
+      this.flushChapter(getTitleText(body));
+    } else {
+      for (const child of getElementChildren(body)) {
+        if (child.localName === 'section') {
+          this.convertSection(child, 0);
+        } else {
+          this.pending.push(...this.convertElement(child, 1));
+        }
+      }
+      // Nothing should follow the last section, but keep it if it does
+      if (this.pending.length > 0 && this.chapters.length > 0) {
+        this.chapters[this.chapters.length - 1].container.append(...this.pending);
+        this.pending = [];
+      }
+    }
+
+    return { chapters: this.chapters, toc: this.toc };
+  }
+
+  /** Convert an element's children and append them to a container */
+  appendChildren(container: HTMLElement, element: Element, depth: number): void {
+    container.append(...this.convertChildren(element, depth));
+  }
+
+  private convertSection(section: Element, depth: number): void {
+    const title = getTitleText(section);
+    if (title) {
+      // The section's content starts the next chapter created
+      this.toc.push({ label: title, chapterIndex: this.chapters.length, depth });
+    }
+
+    const children = getElementChildren(section);
+    const hasSubsections = children.some(child => child.localName === 'section');
+
+    for (const child of children) {
+      if (child.localName === 'section') {
+        this.convertSection(child, depth + 1);
+      } else {
+        this.pending.push(...this.convertElement(child, depth + 2));
+      }
+    }
+
+    if (!hasSubsections) {
+      this.flushChapter(title);
+    }
+  }
+
+  private flushChapter(title: string | undefined): void {
+    const container = this.html.createElement('div');
+    container.append(...this.pending);
+    this.pending = [];
+    this.chapters.push({ id: `chapter-${this.chapters.length}`, title, container });
+  }
+
+  private convertChildren(element: Element, depth: number): Node[] {
+    return Array.from(element.childNodes).flatMap(child => {
+      const converted = this.convertNode(child, depth);
+      // FB2 often has no whitespace between blocks; keep their text apart
+      return child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).localName)
+        ? [...converted, this.html.createTextNode('\n')]
+        : converted;
+    });
+  }
+
+  private convertNode(node: Node, depth: number): Node[] {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return [this.html.createTextNode(node.textContent || '')];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return [];
+    }
+    return this.convertElement(node as Element, depth);
+  }
+
+  /**
+   * Convert one FB2 element. Depth sets heading levels for titles; ids are
+   * kept so note links have a target.
+   */
+  private convertElement(element: Element, depth: number): Node[] {
+    const tag = element.localName;
+    let converted: HTMLElement | null;
+
+    switch (tag) {
+      case 'title': {
+        const heading = this.html.createElement(`h${Math.min(depth, 6)}`);
+        getChildren(element, 'p').forEach((line, i) => {
+          if (i > 0) heading.append(' ');
+          heading.append(...this.convertChildren(line, depth));
+        });
+        converted = heading;
+        break;
+      }
+      case 'subtitle':
+        converted = this.create(`h${Math.min(depth + 1, 6)}`, element, depth);
+        break;
+      case 'p':
+      case 'text-author':
+        converted = this.create('p', element, depth);
+        break;
+      case 'epigraph':
+      case 'cite':
+      case 'annotation':
+        converted = this.create('blockquote', element, depth);
+        break;
+      case 'poem':
+      case 'section':
+        converted = this.create('div', element, depth + 1);
+        break;
+      case 'stanza': {
+        // Verse lines stay together as one paragraph per stanza
+        const stanza = this.html.createElement('p');
+        getChildren(element, 'v').forEach((line, i) => {
+          if (i > 0) stanza.append(this.html.createElement('br'));
+          stanza.append(...this.convertChildren(line, depth));
+        });
+        const stanzaTitle = getChildren(element, 'title')[0];
+        return stanzaTitle ? [...this.convertElement(stanzaTitle, depth), stanza] : [stanza];
+      }
+      case 'table':
+      case 'tr':
+      case 'td':
+      case 'th':
+        converted = this.create(tag, element, depth);
+        break;
+      case 'image':
+        converted = this.createImage(element);
+        break;
+      case 'a':
+        converted = this.createLink(element, depth);
+        break;
+      case 'empty-line':
+        return [];
+      default:
+        if (INLINE_TAGS[tag]) {
+          converted = this.create(INLINE_TAGS[tag], element, depth);
+        } else {
+          // Unknown elements keep their text
+          return this.convertChildren(element, depth);
+        }
+    }
+
+    if (!converted) return [];
+
+    const id = element.getAttribute('id');
+    if (id) {
+      converted.id = id;
+    }
+    return [converted];
+  }
+
+  private create(tag: string, element: Element, depth: number): HTMLElement {
+    const converted = this.html.createElement(tag);
+    converted.append(...this.convertChildren(element, depth));
+    return converted;
+  }
+
+  private createImage(element: Element): HTMLElement | null {
+    const href = getHref(element);
+    const src = href.startsWith('#') ? this.binaries.get(href.slice(1)) : undefined;
+    if (!src) return null;
+
+    const img = this.html.createElement('img');
+    img.setAttribute('src', src);
+    img.setAttribute('alt', element.getAttribute('alt') || element.getAttribute('title') || '');
+
+    const figure = this.html.createElement('figure');
+    figure.append(img);
+    return figure;
+  }
+
+  private createLink(element: Element, depth: number): HTMLElement {
+    const link = this.create('a', element, depth);
+    link.setAttribute('href', getHref(element));
+    if (element.getAttribute('type') === 'note') {
+      link.setAttribute('epub:type', 'noteref');
+    }
+    return link;
+  }
+}
+
+/**
+ * Parse chapter drafts to blocks, dropping empty ones.
+ * Returns the index each draft ended up at, for TOC entries pointing at drafts.
+ */
+async function parseChapters(drafts: ChapterDraft[]): Promise<{ chapters: Chapter[]; chapterIndexes: number[] }> {
+  const chapters: Chapter[] = [];
+  const chapterIndexes: number[] = [];
+
+  for (const draft of drafts) {
+    // Images are already inlined; oversized ones are dropped
+    const blocks = await resolveFigureSources(parseEbookHtml(draft.container.outerHTML), limitInlineSource);
+
+    // An empty chapter's entries point at the chapter after it
+    chapterIndexes.push(chapters.length);
+    if (blocks.length === 0) continue;
+
+    const plainText = getPlainText(blocks);
+    chapters.push({
+      id: draft.id,
+      title: draft.title || findFirstHeading(blocks) || `Chapter ${chapters.length + 1}`,
+      blocks,
+      plainText,
+      wordCount: countWords(plainText),
+    });
+  }
+
+  return { chapters, chapterIndexes };
+}
+
+/**
+ * Build the TOC from section titles, or from chapter titles if no section has one
+ */
+function buildToc(drafts: TocDraft[], chapterIndexes: number[], chapters: Chapter[]): TocItem[] {
+  const items: TocItem[] = [];
+
+  for (const [i, draft] of drafts.entries()) {
+    const chapterIndex = chapterIndexes[draft.chapterIndex] ?? chapters.length - 1;
+    items.push({
+      id: `toc-${i}`,
+      label: draft.label,
+      chapterIndex: Math.min(chapterIndex, chapters.length - 1),
+      depth: draft.depth,
+    });
+  }
+
+  if (items.length === 0) {
+    return chapters.map((chapter, index) => ({
+      id: chapter.id,
+      label: chapter.title,
+      chapterIndex: index,
+      depth: 0,
+    }));
+  }
+
+  return items;
+}
+
+function findFirstHeading(blocks: Chapter['blocks']): string | undefined {
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      return block.content;
+    }
+  }
+  return undefined;
+}
+
+
+function getElementChildren(element: Element): Element[] {
+  return Array.from(element.children);
+}
+
+function getChildren(element: Element, localName: string): Element[] {
+  return getElementChildren(element).filter(child => child.localName === localName);
+}
+
+function getChildText(element: Element | undefined, localName: string): string | undefined {
+  if (!element) return undefined;
+  const child = getChildren(element, localName)[0];
+  return child?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/**
+ * Title of a section or body, with its lines joined
+ */
+function getTitleText(element: Element): string | undefined {
+  const title = getChildren(element, 'title')[0];
+  if (!title) return undefined;
+
+  const lines = Array.from(title.children).map(p => (p.textContent || '').replace(/\s+/g, ' ').trim());
+  return lines.filter(Boolean).join(' ') || undefined;
+}
+
+/** xlink:href, whatever prefix the document binds to the XLink namespace */
+function getHref(element: Element): string {
+  return element.getAttributeNS(XLINK_NAMESPACE, 'href') || element.getAttribute('href') || '';
+}
+
+
+/**
+ * Maximum thumbnail dimensions (pixels)
+ */
+const THUMBNAIL_MAX_WIDTH = 200;
+const THUMBNAIL_MAX_HEIGHT = 300;
+
+/**
+ * Resize the embedded cover image to a thumbnail
+ */
+async function extractCoverThumbnail(dataUrl: string | undefined): Promise<string | undefined> {
+  if (!dataUrl) return undefined;
+
+  try {
+    const [, type, data] = dataUrl.match(/^data:([^;]+);base64,(.*)$/) ?? [];
+    const blob = new Blob([toArrayBuffer(base64ToUint8Array(data ?? ''))], { type });
+    return await resizeImageToThumbnail(blob);
+  } catch (error) {
+    // Non-fatal: just log and return undefined
+    if (import.meta.env.DEV) {
+      console.warn('[FB2] Failed to extract cover thumbnail:', error);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Resize an image blob to a thumbnail and return as base64 data URL
+ */
+async function resizeImageToThumbnail(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+
+      // Calculate new dimensions maintaining aspect ratio
+      let width = img.width;
+      let height = img.height;
+
+      if (width > THUMBNAIL_MAX_WIDTH) {
+        height = (height * THUMBNAIL_MAX_WIDTH) / width;
+        width = THUMBNAIL_MAX_WIDTH;
+      }
+
+      if (height > THUMBNAIL_MAX_HEIGHT) {
+        width = (width * THUMBNAIL_MAX_HEIGHT) / height;
+        height = THUMBNAIL_MAX_HEIGHT;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width);
+      canvas.height = Math.round(height);
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = url;
+  });
+}
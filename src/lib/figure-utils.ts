@@ -0,0 +1,156 @@
+/**
+ * Figure Utilities
+ *
+ * Shared helpers for turning <figure>/<img> markup into FigureBlocks and for
+ * resolving image sources in the web, EPUB, MOBI and DOCX pipelines.
+ */
+
+import type { Block, FigureBlock } from '@/types';
+
+/** Largest image (in bytes) that is inlined into a document as a data URL */
+export const MAX_INLINE_IMAGE_BYTES = 512 * 1024;
+
+/** Images declared smaller than this (px) are icons, spacers or tracking pixels */
+const MIN_IMAGE_DIMENSION = 48;
+
+/** Resolves an image source to a usable URL, or undefined to drop it */
+export type FigureSourceResolver = (src: string) => Promise<string | undefined> | string | undefined;
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check whether an <img> looks like content rather than decoration.
+ */
+export function isContentImage(img: Element): boolean {
+  const src = img.getAttribute('src')?.trim();
+  if (!src) return false;
+
+  const width = parseInt(img.getAttribute('width') || '', 10);
+  const height = parseInt(img.getAttribute('height') || '', 10);
+  if ((width && width < MIN_IMAGE_DIMENSION) || (height && height < MIN_IMAGE_DIMENSION)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the first content image in (or equal to) an element.
+ */
+export function findContentImage(element: Element): Element | null {
+  if (element.tagName.toLowerCase() === 'img') {
+    return isContentImage(element) ? element : null;
+  }
+  for (const img of Array.from(element.querySelectorAll('img'))) {
+    if (isContentImage(img)) return img;
+  }
+  return null;
+}
+
+/**
+ * Check whether a <figure> or <picture> wraps a content image.
+ * Used by cleanup passes to keep real figures while removing decorative media.
+ */
+export function isContentFigure(element: Element): boolean {
+  const tag = element.tagName.toLowerCase();
+  if (tag !== 'figure' && tag !== 'picture') return false;
+  return findContentImage(element) !== null;
+}
+
+/**
+ * Build a FigureBlock from a <figure>, <img> or image-only container.
+ * Returns null when the element holds no content image.
+ */
+export function createFigureBlock(element: Element, id: string): FigureBlock | null {
+  const img = findContentImage(element);
+  if (!img) return null;
+
+  const figcaption = element.tagName.toLowerCase() === 'img' ? null : element.querySelector('figcaption');
+  const caption = figcaption ? collapseWhitespace(figcaption.textContent || '') : '';
+
+  return {
+    type: 'figure',
+    src: img.getAttribute('src')?.trim(),
+    alt: collapseWhitespace(img.getAttribute('alt') || ''),
+    caption: caption || undefined,
+    id,
+  };
+}
+
+/**
+ * Drop inlined data URLs that exceed MAX_INLINE_IMAGE_BYTES.
+ * Non-data sources are returned unchanged.
+ */
+export function limitInlineSource(src: string): string | undefined {
+  if (!src.startsWith('data:')) return src;
+
+  const commaIndex = src.indexOf(',');
+  const payloadLength = commaIndex === -1 ? src.length : src.length - commaIndex - 1;
+  const isBase64 = src.slice(0, commaIndex).includes(';base64');
+  const bytes = isBase64 ? Math.floor(payloadLength * 3 / 4) : payloadLength;
+
+  return bytes > MAX_INLINE_IMAGE_BYTES ? undefined : src;
+}
+
+/**
+ * Read an image blob into a data URL, or undefined if it is too large to inline.
+ */
+export async function blobToDataUrl(blob: Blob): Promise<string | undefined> {
+  if (blob.size > MAX_INLINE_IMAGE_BYTES) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Resolve a (possibly relative) web image URL against the page URL.
+ * Only http(s) and data URLs are kept.
+ */
+export function resolveWebImageSource(src: string, pageUrl: string): string | undefined {
+  if (src.startsWith('data:')) return limitInlineSource(src);
+
+  try {
+    const resolved = new URL(src, pageUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run every figure's source through a resolver.
+ * Figures left with no source, alt text or caption carry nothing to show and are dropped.
+ */
+export async function resolveFigureSources(
+  blocks: Block[],
+  resolver: FigureSourceResolver
+): Promise<Block[]> {
+  const resolved: Block[] = [];
+
+  for (const block of blocks) {
+    if (block.type !== 'figure') {
+      resolved.push(block);
+      continue;
+    }
+
+    let src: string | undefined;
+    if (block.src) {
+      try {
+        src = await resolver(block.src);
+      } catch {
+        src = undefined;
+      }
+    }
+
+    if (!src && !block.alt && !block.caption) continue;
+    resolved.push({ ...block, src });
+  }
+
+  return resolved;
+}
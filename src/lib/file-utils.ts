@@ -69,9 +69,12 @@ export function getFileExtension(filename: string): string {
 /**
  * Supported document file extensions for import.
  */
-export const SUPPORTED_EXTENSIONS = ['.pdf', '.docx', '.epub', '.mobi', '.azw', '.azw3'] as const;
+export const SUPPORTED_EXTENSIONS = [
+  '.pdf', '.docx', '.epub', '.mobi', '.azw', '.azw3', '.fb2',
+  '.txt', '.md', '.markdown', '.html', '.htm', '.rtf',
+] as const;
 
-export type DocumentFileType = 'pdf' | 'docx' | 'epub' | 'mobi';
+export type DocumentFileType = 'pdf' | 'docx' | 'epub' | 'mobi' | 'fb2' | 'text';
 
 /**
  * Check if a filename has a supported document extension.
@@ -90,12 +93,15 @@ export function isSupportedFile(filename: string): boolean {
  */
 export function getFileType(filename: string): DocumentFileType | null {
   const lower = filename.toLowerCase();
-  // Handle case where browser appends .zip to epub files
+  // Handle case where browser appends .zip to epub files (FB2 books are
+  // commonly distributed zipped as .fb2.zip)
   const normalized = lower.replace(/\.zip$/, '');
   if (normalized.endsWith('.pdf')) return 'pdf';
   if (normalized.endsWith('.docx')) return 'docx';
   if (normalized.endsWith('.epub')) return 'epub';
   if (normalized.endsWith('.mobi') || normalized.endsWith('.azw') || normalized.endsWith('.azw3')) return 'mobi';
+  if (normalized.endsWith('.fb2')) return 'fb2';
+  if (/\.(txt|md|markdown|html?|rtf)$/.test(normalized)) return 'text';
   return null;
 }
 
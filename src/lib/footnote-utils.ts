@@ -0,0 +1,335 @@
+/**
+ * Footnote Utilities
+ *
+ * Detects note references (noteref links, <sup><a href="#fn1">) and the note
+ * bodies they point to, moves the bodies into Footnote records and leaves a
+ * marker link in place of each reference.
+ *
+ * Detection must run on the source HTML, before sanitization strips the id,
+ * role and epub:type attributes it relies on. The marker is an ordinary
+ * fragment link, so it survives Readability, cleanup and sanitization; the
+ * HTML parsers turn it into a footnote reference on the enclosing block.
+ */
+
+import type { Block, FlowDocument, Footnote } from '@/types';
+import { getPlainText } from './block-utils';
+import { countWords } from './file-utils';
+
+/** Fragment prefix of the marker links left in place of note references */
+const FOOTNOTE_MARKER_PREFIX = 'flow-note-';
+
+/** Matches marker links (href may have been made absolute along the way) */
+export const FOOTNOTE_MARKER_SELECTOR = `a[href*="#${FOOTNOTE_MARKER_PREFIX}"]`;
+
+/** Reference text is short: "1", "[12]", "*", "iv", "a." */
+const NOTE_LABEL_PATTERN = /^[[(]?(\d{1,4}|[*†‡§¶]{1,3}|[ivxlc]{1,6}|[a-z])[\]).:]?$/i;
+
+/** Class names and fragment ids commonly used for note references and bodies */
+const NOTE_CLASS_PATTERN = /(^|[\s_-])(footnote|fnref|noteref|endnote)/i;
+const NOTE_FRAGMENT_PATTERN = /^(fn|footnote|note|endnote|en|ftn)[\W_]?\d/i;
+
+/** Back-links from a note to its reference ("↩", "^", "back") */
+const BACKLINK_TEXT_PATTERN = /^([↩↑⤴^]|back)/i;
+
+const INLINE_TAG_PATTERN = /^(a|span|sup|sub|b|i|em|strong|small)$/i;
+const NOTE_CONTAINER_TAG_PATTERN = /^(p|li|dd|dt|aside|blockquote|div|section|td)$/i;
+const BLOCK_CHILD_SELECTOR = 'p, li, div, section, aside, blockquote, ul, ol, table, h1, h2, h3, h4, h5, h6';
+
+/** Note bodies longer than this are more likely a misdetected section */
+const MAX_NOTE_LENGTH = 3000;
+
+/**
+ * Footnotes collected across the documents of one book or page.
+ * Bodies referenced more than once share a single footnote.
+ */
+export interface FootnoteRegistry {
+  footnotes: Footnote[];
+  /** Footnote id per note body, keyed by "<document key>#<element id>" */
+  noteIds: Map<string, string>;
+}
+
+/** A document that note links can point into */
+export interface FootnoteSource {
+  /** Key identifying the document (an EPUB file path, a page URL) */
+  key: string;
+  document: Document;
+}
+
+export interface ExtractFootnotesOptions {
+  /** Key of the document being processed; same-document links may repeat it before the "#" */
+  documentKey?: string;
+  /** Load another document for links like "notes.xhtml#n1" (EPUB endnote files) */
+  resolveDocument?: (path: string) => FootnoteSource | null;
+}
+
+export function createFootnoteRegistry(): FootnoteRegistry {
+  return { footnotes: [], noteIds: new Map() };
+}
+
+function getSemanticTypes(element: Element): string {
+  return `${element.getAttribute('epub:type') || ''} ${element.getAttribute('role') || ''}`.toLowerCase();
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function splitHref(href: string): { path: string; fragment: string } {
+  const hashIndex = href.indexOf('#');
+  return hashIndex === -1
+    ? { path: href, fragment: '' }
+    : { path: href.slice(0, hashIndex), fragment: safeDecode(href.slice(hashIndex + 1)) };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Check whether a link is a note reference rather than an ordinary link.
+ */
+export function isNoteReference(link: Element): boolean {
+  const { fragment } = splitHref(link.getAttribute('href') || '');
+  if (!fragment) return false;
+
+  const types = getSemanticTypes(link);
+  if (types.includes('noteref')) return true;
+  if (types.includes('backlink')) return false;
+
+  const label = collapseWhitespace(link.textContent || '');
+  if (!NOTE_LABEL_PATTERN.test(label)) return false;
+
+  return (
+    /^\[\d+\]$/.test(label) ||
+    link.closest('sup') !== null ||
+    NOTE_CLASS_PATTERN.test(link.getAttribute('class') || '') ||
+    NOTE_FRAGMENT_PATTERN.test(fragment)
+  );
+}
+
+/**
+ * Find the element holding a note's text, given the element a reference points at.
+ * Targets are often an anchor inside the note's paragraph or list item, or an
+ * empty anchor placed just before it.
+ */
+function getNoteBody(target: Element): Element | null {
+  if (!INLINE_TAG_PATTERN.test(target.tagName)) return target;
+
+  const parent = target.parentElement;
+  if (parent && NOTE_CONTAINER_TAG_PATTERN.test(parent.tagName) && !parent.querySelector(BLOCK_CHILD_SELECTOR)) {
+    return parent;
+  }
+  if (!collapseWhitespace(target.textContent || '')) {
+    return target.nextElementSibling;
+  }
+  return target;
+}
+
+/**
+ * Note text without its leading label and back-links.
+ */
+function getNoteText(body: Element, label: string): string {
+  const clone = body.cloneNode(true) as Element;
+
+  clone.querySelectorAll('a').forEach(link => {
+    const text = collapseWhitespace(link.textContent || '');
+    if (getSemanticTypes(link).includes('backlink') || BACKLINK_TEXT_PATTERN.test(text)) {
+      link.remove();
+    } else if (link.getAttribute('href')?.includes('#') && NOTE_LABEL_PATTERN.test(text)) {
+      // "<a href="#ref1">1.</a> Note text" - the label links back to the reference
+      link.remove();
+    }
+  });
+
+  // "<sup>1</sup> Note text"
+  const first = clone.firstElementChild;
+  const firstText = collapseWhitespace(first?.textContent || '');
+  if (
+    first?.tagName.toLowerCase() === 'sup' &&
+    NOTE_LABEL_PATTERN.test(firstText) &&
+    collapseWhitespace(clone.textContent || '').startsWith(firstText)
+  ) {
+    first.remove();
+  }
+
+  const escapedLabel = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return collapseWhitespace(clone.textContent || '')
+    .replace(new RegExp(`^[[(]?${escapedLabel}[\\]).:]?\\s+`), '');
+}
+
+/** Remove an element, then any ancestors it leaves without text or images */
+function removeWithEmptyAncestors(element: Element): void {
+  let parent = element.parentElement;
+  element.remove();
+
+  while (parent && !/^(body|html)$/i.test(parent.tagName)) {
+    if (collapseWhitespace(parent.textContent || '') || parent.querySelector('img')) break;
+    const next = parent.parentElement;
+    parent.remove();
+    parent = next;
+  }
+}
+
+/** A link into another document; unresolvable links are treated as ordinary links */
+function resolveSource(options: ExtractFootnotesOptions, path: string): FootnoteSource | null {
+  try {
+    return options.resolveDocument?.(path) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move the notes referenced from a document into the registry.
+ *
+ * Each reference is replaced with a marker link (see FOOTNOTE_MARKER_SELECTOR);
+ * each note body is removed from the document it lives in, so it no longer
+ * shows up as a stray paragraph. References whose target can't be found, and
+ * note bodies nothing links to, are left as they are.
+ */
+export function extractFootnotes(
+  doc: Document,
+  registry: FootnoteRegistry,
+  options: ExtractFootnotesOptions = {}
+): void {
+  const documentKey = options.documentKey ?? '';
+
+  for (const link of Array.from(doc.querySelectorAll('a[href]'))) {
+    if (!link.isConnected || !isNoteReference(link)) continue;
+
+    const { path, fragment } = splitHref(link.getAttribute('href') || '');
+    const source = !path || path === documentKey
+      ? { key: documentKey, document: doc }
+      : resolveSource(options, path);
+    if (!source) continue;
+
+    const noteKey = `${source.key}#${fragment}`;
+    let footnoteId = registry.noteIds.get(noteKey);
+    const label = collapseWhitespace(link.textContent || '').replace(/^[[(]|[\]).:]$/g, '');
+
+    if (!footnoteId) {
+      const target = source.document.getElementById(fragment);
+      const body = target ? getNoteBody(target) : null;
+      if (!body || body.contains(link) || /^(body|html)$/i.test(body.tagName)) continue;
+
+      const content = getNoteText(body, label);
+      if (!content || content.length > MAX_NOTE_LENGTH) continue;
+
+      footnoteId = `fn-${registry.footnotes.length + 1}`;
+      registry.noteIds.set(noteKey, footnoteId);
+      registry.footnotes.push({ id: footnoteId, label, content });
+      removeWithEmptyAncestors(body);
+    }
+
+    const marker = doc.createElement('a');
+    marker.setAttribute('href', `#${FOOTNOTE_MARKER_PREFIX}${footnoteId}`);
+    marker.textContent = label;
+
+    // Replace the whole <sup> when it holds nothing but the reference
+    const sup = link.parentElement?.tagName.toLowerCase() === 'sup' ? link.parentElement : null;
+    const replaced = sup && collapseWhitespace(sup.textContent || '') === collapseWhitespace(link.textContent || '')
+      ? sup
+      : link;
+    replaced.replaceWith(marker);
+  }
+}
+
+/**
+ * Footnote ids of the marker links inside an element, in reading order.
+ */
+export function getFootnoteRefs(element: Element): string[] {
+  const ids: string[] = [];
+  element.querySelectorAll(FOOTNOTE_MARKER_SELECTOR).forEach(marker => {
+    const href = marker.getAttribute('href') || '';
+    const id = href.slice(href.lastIndexOf(`#${FOOTNOTE_MARKER_PREFIX}`) + FOOTNOTE_MARKER_PREFIX.length + 1);
+    if (id && !ids.includes(id)) ids.push(id);
+  });
+  return ids;
+}
+
+/**
+ * The element itself if it holds no marker links, otherwise a copy without them,
+ * so reference labels don't end up in block text.
+ */
+export function withoutFootnoteMarkers(element: Element): Element {
+  if (!element.querySelector(FOOTNOTE_MARKER_SELECTOR)) return element;
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll(FOOTNOTE_MARKER_SELECTOR).forEach(marker => marker.remove());
+  return clone;
+}
+
+/**
+ * The footnotes still referenced from a document's blocks, or undefined if none.
+ * References can be lost with the content around them (e.g. a sidebar removed
+ * by article cleanup), leaving notes nothing points to.
+ */
+export function getReferencedFootnotes(blocks: Block[], footnotes: Footnote[]): Footnote[] | undefined {
+  const referenced = new Set(blocks.flatMap(block => ('footnoteRefs' in block && block.footnoteRefs) || []));
+  const result = footnotes.filter(note => referenced.has(note.id));
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Blocks with each referenced note read as a paragraph after the block that
+ * references it. Footnote paragraphs from an earlier call are dropped first,
+ * so passing include=false restores the original blocks.
+ */
+export function insertFootnoteBlocks(blocks: Block[], footnotes: Footnote[], include = true): Block[] {
+  const contentBlocks = blocks.filter(block => block.type !== 'paragraph' || !block.isFootnote);
+  if (!include || footnotes.length === 0) return contentBlocks;
+
+  const byId = new Map(footnotes.map(note => [note.id, note]));
+  const inserted = new Set<string>();
+  const result: Block[] = [];
+
+  for (const block of contentBlocks) {
+    result.push(block);
+    if (!('footnoteRefs' in block) || !block.footnoteRefs) continue;
+
+    for (const refId of block.footnoteRefs) {
+      const note = byId.get(refId);
+      if (!note || inserted.has(refId)) continue;
+      inserted.add(refId);
+      result.push({
+        type: 'paragraph',
+        content: `${note.label} ${note.content}`,
+        id: `${block.id}-${refId}`,
+        isFootnote: true,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Include or exclude a document's footnotes from the reading flow.
+ * Notes are left out of blocks, plainText and word counts unless the reader
+ * opts in; then they're read right after the block that references them.
+ */
+export function applyFootnoteFlow(doc: FlowDocument, include: boolean): FlowDocument {
+  if (!doc.footnotes) return doc;
+  const footnotes = doc.footnotes;
+
+  const withFlow = (blocks: Block[]) => {
+    const flowBlocks = insertFootnoteBlocks(blocks, footnotes, include);
+    const plainText = getPlainText(flowBlocks);
+    return { blocks: flowBlocks, plainText };
+  };
+
+  return {
+    ...doc,
+    ...withFlow(doc.blocks),
+    book: doc.book && {
+      ...doc.book,
+      chapters: doc.book.chapters.map(chapter => {
+        const { blocks, plainText } = withFlow(chapter.blocks);
+        return { ...chapter, blocks, plainText, wordCount: countWords(plainText) };
+      }),
+    },
+  };
+}
@@ -1,14 +1,113 @@
-import type { Block } from '@/types';
+import type { Block, FigureBlock, InlineSpan } from '@/types';
 import { sanitizeArticleHtml } from './sanitize';
+import { getInlineSpans, toBlockSpans, type BlockText } from './inline-spans';
+import { createFigureBlock, isContentImage } from './figure-utils';
+import { FOOTNOTE_MARKER_SELECTOR, getFootnoteRefs, withoutFootnoteMarkers } from './footnote-utils';
 
 export interface ParseHtmlOptions {
+  /** Parse <table> elements into table blocks (tables are skipped otherwise) */
   handleTables?: boolean;
-  /** Preserve inline formatting as HTML in content */
-  preserveFormatting?: boolean;
   /** Skip sanitization (only use for trusted HTML, e.g., already-sanitized internal content) */
   skipSanitization?: boolean;
 }
 
+/**
+ * Build figure blocks for an element that carries images but no text.
+ * A <figure> yields a single block with its caption; any other element
+ * yields one block per content image it contains.
+ */
+function collectFigures(element: Element, generateId: () => string): FigureBlock[] {
+  if (element.tagName.toLowerCase() === 'figure') {
+    const figure = createFigureBlock(element, generateId());
+    return figure ? [figure] : [];
+  }
+
+  const images = element.tagName.toLowerCase() === 'img'
+    ? [element]
+    : Array.from(element.querySelectorAll('img'));
+
+  return images
+    .filter(isContentImage)
+    .map(img => createFigureBlock(img, generateId()))
+    .filter((figure): figure is FigureBlock => figure !== null);
+}
+
+/**
+ * Trimmed text of an element, with spans if it has inline formatting
+ */
+function readBlockText(element: Element): BlockText {
+  const content = element.textContent?.trim() || '';
+  const spans = toBlockSpans(getInlineSpans(element), content);
+  return spans ? { content, spans } : { content };
+}
+
+/**
+ * List items and their formatting; spans are only kept if some item has them
+ */
+function toListItems(texts: BlockText[]): { items: string[]; itemSpans?: InlineSpan[][] } {
+  const items = texts.map(text => text.content);
+  if (!texts.some(text => text.spans)) return { items };
+  return { items, itemSpans: texts.map(text => text.spans ?? [{ text: text.content }]) };
+}
+
+/**
+ * Attach the footnotes referenced inside an element to the block built from it.
+ */
+function withFootnoteRefs<T extends Block>(block: T, element: Element): T {
+  const footnoteRefs = getFootnoteRefs(element);
+  return footnoteRefs.length > 0 ? { ...block, footnoteRefs } : block;
+}
+
+/**
+ * Parse a <table> into a table block.
+ * Single-column tables are layout rather than data, so their cells become paragraphs.
+ */
+function parseTable(table: Element, generateId: () => string): Block[] {
+  const cellText = (cell: Element) => (withoutFootnoteMarkers(cell).textContent || '').replace(/\s+/g, ' ').trim();
+  const headerRows: string[][] = [];
+  const rows: string[][] = [];
+
+  // Only this table's rows - nested tables are read as cell text
+  const ownRows = Array.from(table.querySelectorAll('tr')).filter(tr => tr.closest('table') === table);
+
+  for (const tr of ownRows) {
+    const cells = Array.from(tr.children).filter(cell => /^t[hd]$/i.test(cell.tagName));
+    const values = cells.map(cellText);
+    if (values.every(value => !value)) continue;
+
+    const inHead = tr.parentElement?.tagName.toLowerCase() === 'thead';
+    const allHeaderCells = cells.every(cell => cell.tagName.toLowerCase() === 'th');
+    if (inHead || (rows.length === 0 && allHeaderCells)) {
+      headerRows.push(values);
+    } else {
+      rows.push(values);
+    }
+  }
+
+  const allRows = [...headerRows, ...rows];
+  const columnCount = Math.max(0, ...allRows.map(row => row.length));
+
+  if (columnCount < 2) {
+    return allRows
+      .flat()
+      .filter(Boolean)
+      .map(content => ({ type: 'paragraph' as const, content, id: generateId() }));
+  }
+
+  // A table of only header cells is still data; read it as body rows
+  if (rows.length === 0) {
+    rows.push(...headerRows.splice(0));
+  }
+
+  const captionElement = Array.from(table.children).find(child => child.tagName.toLowerCase() === 'caption');
+  const caption = captionElement ? cellText(captionElement) : '';
+
+  return [withFootnoteRefs<Block>(
+    { type: 'table', headerRows, rows, caption: caption || undefined, id: generateId() },
+    table
+  )];
+}
+
 /**
  * Parse HTML content into FlowReader blocks.
  * 
@@ -30,34 +129,11 @@ export function parseHtmlToBlocks(html: string, options: ParseHtmlOptions = {}):
   const generateId = (): string => `block-${blockId++}`;
 
   /**
-   * Get text content, optionally preserving inline formatting
-   */
-  function getContent(element: Element): string {
-    if (options.preserveFormatting) {
-      // Preserve inline formatting tags
-      return getFormattedContent(element);
-    }
-    return element.textContent?.trim() || '';
-  }
-
-  /**
-   * Get content with inline formatting preserved as HTML
+   * Get text content and inline formatting
    */
-  function getFormattedContent(element: Element): string {
-    // Clone to avoid modifying original
-    const clone = element.cloneNode(true) as Element;
-    
-    // Remove any remaining block elements from inline content
-    clone.querySelectorAll('div, p, br, hr').forEach(el => {
-      // Replace with space to preserve word boundaries
-      const space = document.createTextNode(' ');
-      el.replaceWith(space);
-    });
-    
-    // Get inner HTML and normalize whitespace
-    return clone.innerHTML
-      .replace(/\s+/g, ' ')
-      .trim();
+  function getContent(element: Element): BlockText {
+    // Footnote references become block refs, not text
+    return readBlockText(withoutFootnoteMarkers(element));
   }
 
   /**
@@ -72,7 +148,8 @@ export function parseHtmlToBlocks(html: string, options: ParseHtmlOptions = {}):
    */
   function hasOnlyInlineContent(element: Element): boolean {
     for (const child of Array.from(element.children)) {
-      if (isBlockElement(child.tagName.toLowerCase())) {
+      const childTag = child.tagName.toLowerCase();
+      if (isBlockElement(childTag) || (options.handleTables && childTag === 'table')) {
         return false;
       }
     }
@@ -85,46 +162,57 @@ export function parseHtmlToBlocks(html: string, options: ParseHtmlOptions = {}):
   function processElement(element: Element): void {
     const tagName = element.tagName.toLowerCase();
 
+    // Figures and standalone images (a figure without an image falls through to text handling)
+    if (tagName === 'figure' || tagName === 'img') {
+      const figures = collectFigures(element, generateId);
+      if (figures.length > 0 || tagName === 'img') {
+        blocks.push(...figures);
+        return;
+      }
+    }
+
     // Headings
     if (/^h[1-6]$/.test(tagName)) {
       const level = parseInt(tagName[1]) as 1 | 2 | 3 | 4 | 5 | 6;
-      const content = getContent(element);
-      if (content) {
-        blocks.push({ type: 'heading', level, content, id: generateId() });
+      const text = getContent(element);
+      if (text.content) {
+        blocks.push(withFootnoteRefs({ type: 'heading', level, ...text, id: generateId() }, element));
       }
       return;
     }
 
     // Paragraphs
     if (tagName === 'p') {
-      const content = getContent(element);
-      if (content) {
-        blocks.push({ type: 'paragraph', content, id: generateId() });
+      const text = getContent(element);
+      if (text.content) {
+        blocks.push(withFootnoteRefs({ type: 'paragraph', ...text, id: generateId() }, element));
+      } else {
+        blocks.push(...collectFigures(element, generateId));
       }
       return;
     }
 
     // Lists
     if (tagName === 'ul' || tagName === 'ol') {
-      const items: string[] = [];
+      const texts: BlockText[] = [];
       // Only get direct li children to avoid nested list issues
       for (const child of Array.from(element.children)) {
         if (child.tagName.toLowerCase() === 'li') {
           const text = getContent(child);
-          if (text) items.push(text);
+          if (text.content) texts.push(text);
         }
       }
-      if (items.length > 0) {
-        blocks.push({ type: 'list', ordered: tagName === 'ol', items, id: generateId() });
+      if (texts.length > 0) {
+        blocks.push(withFootnoteRefs({ type: 'list', ordered: tagName === 'ol', ...toListItems(texts), id: generateId() }, element));
       }
       return;
     }
 
     // Blockquotes
     if (tagName === 'blockquote') {
-      const content = getContent(element);
-      if (content) {
-        blocks.push({ type: 'quote', content, id: generateId() });
+      const text = getContent(element);
+      if (text.content) {
+        blocks.push(withFootnoteRefs({ type: 'quote', ...text, id: generateId() }, element));
       }
       return;
     }
@@ -142,27 +230,18 @@ export function parseHtmlToBlocks(html: string, options: ParseHtmlOptions = {}):
 
     // Tables
     if (options.handleTables && tagName === 'table') {
-      element.querySelectorAll('tr').forEach((row) => {
-        const cells = row.querySelectorAll('th, td');
-        if (cells.length > 0) {
-          const rowText = Array.from(cells)
-            .map((cell) => cell.textContent?.trim())
-            .filter(Boolean)
-            .join(' | ');
-          if (rowText) {
-            blocks.push({ type: 'paragraph', content: rowText, id: generateId() });
-          }
-        }
-      });
+      blocks.push(...parseTable(element, generateId));
       return;
     }
 
     // Container elements (div, section, article, etc.)
     // Check if it contains only inline content - treat as paragraph
     if (isBlockElement(tagName) && hasOnlyInlineContent(element)) {
-      const content = getContent(element);
-      if (content) {
-        blocks.push({ type: 'paragraph', content, id: generateId() });
+      const text = getContent(element);
+      if (text.content) {
+        blocks.push(withFootnoteRefs({ type: 'paragraph', ...text, id: generateId() }, element));
+      } else {
+        blocks.push(...collectFigures(element, generateId));
       }
       return;
     }
@@ -234,21 +313,22 @@ export function parseEbookHtml(html: string): Block[] {
   const generateId = (): string => `block-${blockId++}`;
 
   /**
-   * Extract clean text from an element, preserving word boundaries
+   * Extract clean text and inline formatting from an element, preserving word boundaries
    */
-  function extractText(element: Element): string {
+  function extractText(element: Element): BlockText {
     // Clone to avoid modifying original
     const clone = element.cloneNode(true) as Element;
     
-    // Remove script/style
+    // Remove script/style, and footnote markers (they become block refs)
     clone.querySelectorAll('script, style').forEach(el => el.remove());
+    clone.querySelectorAll(FOOTNOTE_MARKER_SELECTOR).forEach(el => el.remove());
     
     // Replace br with newline
     clone.querySelectorAll('br').forEach(el => {
       el.replaceWith(document.createTextNode('\n'));
     });
     
-    return (clone.textContent || '').trim();
+    return readBlockText(clone);
   }
 
   /**
@@ -256,7 +336,11 @@ export function parseEbookHtml(html: string): Block[] {
    */
   function isBlock(el: Element): boolean {
     const tag = el.tagName.toLowerCase();
-    return /^(h[1-6]|p|div|section|article|blockquote|pre|ul|ol|li|figure|figcaption|header|footer|aside|main|address|details|summary)$/.test(tag);
+    return /^(h[1-6]|p|div|section|article|blockquote|pre|ul|ol|li|table|figure|figcaption|header|footer|aside|main|address|details|summary)$/.test(tag);
+  }
+
+  function isImage(el: Element): boolean {
+    return el.tagName.toLowerCase() === 'img';
   }
 
   /**
@@ -265,33 +349,50 @@ export function parseEbookHtml(html: string): Block[] {
   function processBlock(element: Element): void {
     const tagName = element.tagName.toLowerCase();
     
-    // Skip empty elements
+    if (tagName === 'figure' || tagName === 'img') {
+      const figures = collectFigures(element, generateId);
+      if (figures.length > 0 || tagName === 'img') {
+        blocks.push(...figures);
+        return;
+      }
+    }
+
+    // Image-only elements become figures; other empty elements are skipped
     const text = extractText(element);
-    if (!text) return;
+    if (!text.content) {
+      blocks.push(...collectFigures(element, generateId));
+      return;
+    }
 
     // Headings
     if (/^h[1-6]$/.test(tagName)) {
       const level = parseInt(tagName[1]) as 1 | 2 | 3 | 4 | 5 | 6;
-      blocks.push({ type: 'heading', level, content: text, id: generateId() });
+      blocks.push(withFootnoteRefs({ type: 'heading', level, ...text, id: generateId() }, element));
       return;
     }
 
     // Lists - handle specially to preserve structure
     if (tagName === 'ul' || tagName === 'ol') {
-      const items: string[] = [];
+      const texts: BlockText[] = [];
       element.querySelectorAll(':scope > li').forEach(li => {
         const itemText = extractText(li);
-        if (itemText) items.push(itemText);
+        if (itemText.content) texts.push(itemText);
       });
-      if (items.length > 0) {
-        blocks.push({ type: 'list', ordered: tagName === 'ol', items, id: generateId() });
+      if (texts.length > 0) {
+        blocks.push(withFootnoteRefs({ type: 'list', ordered: tagName === 'ol', ...toListItems(texts), id: generateId() }, element));
       }
       return;
     }
 
     // Blockquotes
     if (tagName === 'blockquote') {
-      blocks.push({ type: 'quote', content: text, id: generateId() });
+      blocks.push(withFootnoteRefs({ type: 'quote', ...text, id: generateId() }, element));
+      return;
+    }
+
+    // Tables
+    if (tagName === 'table') {
+      blocks.push(...parseTable(element, generateId));
       return;
     }
 
@@ -299,7 +400,7 @@ export function parseEbookHtml(html: string): Block[] {
     if (tagName === 'pre') {
       const codeEl = element.querySelector('code');
       const lang = codeEl?.className.match(/language-(\w+)/)?.[1];
-      blocks.push({ type: 'code', content: text, language: lang, id: generateId() });
+      blocks.push({ type: 'code', content: text.content, language: lang, id: generateId() });
       return;
     }
 
@@ -308,27 +409,29 @@ export function parseEbookHtml(html: string): Block[] {
     
     if (!hasBlockChildren) {
       // This is a leaf block - add as paragraph
-      blocks.push({ type: 'paragraph', content: text, id: generateId() });
+      blocks.push(withFootnoteRefs({ type: 'paragraph', ...text, id: generateId() }, element));
     } else {
       // Has block children - recurse
       for (const child of Array.from(element.children)) {
-        if (isBlock(child)) {
+        if (isBlock(child) || isImage(child)) {
           processBlock(child);
         }
       }
     }
   }
 
-  // Process all top-level block elements
-  for (const child of Array.from(body.children)) {
-    if (isBlock(child)) {
+  // Process all top-level block elements (sanitized markup with a single
+  // root parses as XML without a body; that root is then the only top-level element)
+  const topLevel = body.tagName.toLowerCase() === 'body' ? Array.from(body.children) : [body];
+  for (const child of topLevel) {
+    if (isBlock(child) || isImage(child)) {
       processBlock(child);
     }
   }
 
   // Fallback: if nothing extracted, get all text as paragraphs
   if (blocks.length === 0) {
-    const fullText = extractText(body);
+    const fullText = extractText(body).content;
     if (fullText) {
       // Split by paragraph-like boundaries
       const paras = fullText.split(/\n\s*\n/).filter(p => p.trim());
@@ -342,7 +445,8 @@ export function parseEbookHtml(html: string): Block[] {
   if (blocks.length === 1) {
     const firstBlock = blocks[0];
     if (firstBlock.type === 'paragraph' && firstBlock.content.length > 1000) {
-      const content = firstBlock.content;
+      // Pieces are re-joined with single spaces, so inline formatting is dropped
+      const { content, footnoteRefs } = firstBlock;
       blocks.length = 0;
       // Split on sentence boundaries (period followed by space and capital)
       const sentences = content.split(/(?<=[.!?])\s+(?=[A-Z])/);
@@ -358,6 +462,10 @@ export function parseEbookHtml(html: string): Block[] {
       if (currentPara.trim()) {
         blocks.push({ type: 'paragraph', content: currentPara.trim(), id: generateId() });
       }
+      // Exact positions are lost in the split; keep the references on the first piece
+      if (footnoteRefs && blocks[0].type === 'paragraph') {
+        blocks[0] = { ...blocks[0], footnoteRefs };
+      }
     }
   }
 
@@ -0,0 +1,191 @@
+/**
+ * Inline formatting inside blocks
+ *
+ * Blocks keep their plain `content` for word indexing, positions and
+ * annotations; `spans` add emphasis, code and links on top. Joined span text
+ * always equals the content, so formatting can be dropped at any point
+ * without shifting a single word.
+ *
+ * NOTE: Keep this module free of imports from other src/ modules; the popup
+ * pulls it in through paste-utils.
+ */
+
+import type { Block, InlineMark, InlineSpan } from '@/types';
+
+const MARK_ORDER: InlineMark[] = ['em', 'strong', 'code'];
+
+const TAG_MARKS: Record<string, InlineMark> = {
+  em: 'em',
+  i: 'em',
+  cite: 'em',
+  dfn: 'em',
+  strong: 'strong',
+  b: 'strong',
+  code: 'code',
+  kbd: 'code',
+  samp: 'code',
+  tt: 'code',
+};
+
+
+/** Block text, with its inline formatting when it has any */
+export interface BlockText {
+  content: string;
+  spans?: InlineSpan[];
+}
+
+/**
+ * Whether a link target is safe to render (absolute http(s) or mailto).
+ * Relative links (e.g. between ebook chapters) have no meaning in the reader.
+ */
+export function isSafeHref(href: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(href.trim());
+}
+
+function sameFormatting(a: InlineSpan, b: InlineSpan): boolean {
+  return a.href === b.href && (a.marks ?? []).join() === (b.marks ?? []).join();
+}
+
+/**
+ * A run with its marks in canonical order (so equal formatting compares equal)
+ */
+export function createSpan(text: string, marks: Iterable<InlineMark>, href?: string): InlineSpan {
+  const markSet = new Set(marks);
+  const sorted = MARK_ORDER.filter(mark => markSet.has(mark));
+  return {
+    text,
+    ...(sorted.length > 0 && { marks: sorted }),
+    ...(href && { href }),
+  };
+}
+
+/**
+ * Append a run, merging it into the previous one when the formatting matches
+ */
+export function appendSpan(spans: InlineSpan[], span: InlineSpan): void {
+  if (!span.text) return;
+  const last = spans[spans.length - 1];
+  if (last && sameFormatting(last, span)) {
+    spans[spans.length - 1] = { ...last, text: last.text + span.text };
+  } else {
+    spans.push(span);
+  }
+}
+
+/**
+ * Collect the text runs of an element, in textContent order.
+ * The spans join to exactly `element.textContent`.
+ */
+export function getInlineSpans(element: Element): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  const doc = element.ownerDocument;
+  // SHOW_TEXT | SHOW_CDATA_SECTION, matching what textContent includes
+  const walker = doc.createTreeWalker(element, 0x4 | 0x8);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.nodeValue ?? '';
+    if (!text) continue;
+
+    const marks: InlineMark[] = [];
+    let href: string | undefined;
+    for (let el = node.parentElement; el && el !== element.parentElement; el = el.parentElement) {
+      const tag = el.localName.toLowerCase();
+      const mark = TAG_MARKS[tag];
+      if (mark) marks.push(mark);
+      if (tag === 'a' && href === undefined) {
+        const target = el.getAttribute('href');
+        if (target && isSafeHref(target)) href = target.trim();
+      }
+    }
+
+    appendSpan(spans, createSpan(text, marks, href));
+  }
+
+  return spans;
+}
+
+/**
+ * Trim leading and trailing whitespace across runs (same result as String.trim on the joined text)
+ */
+export function trimSpans(spans: InlineSpan[]): InlineSpan[] {
+  const result = spans.map(span => ({ ...span }));
+
+  while (result.length > 0) {
+    const text = result[0].text.replace(/^\s+/, '');
+    if (text) {
+      result[0].text = text;
+      break;
+    }
+    result.shift();
+  }
+
+  while (result.length > 0) {
+    const last = result[result.length - 1];
+    const text = last.text.replace(/\s+$/, '');
+    if (text) {
+      last.text = text;
+      break;
+    }
+    result.pop();
+  }
+
+  return result;
+}
+
+/**
+ * Whether any run carries formatting; plain runs aren't worth storing
+ */
+export function hasFormatting(spans: InlineSpan[]): boolean {
+  return spans.some(span => (span.marks && span.marks.length > 0) || span.href);
+}
+
+/**
+ * Formatted runs for `content`, or undefined if there's no formatting to keep
+ */
+export function toBlockSpans(spans: InlineSpan[], content: string): InlineSpan[] | undefined {
+  const trimmed = trimSpans(spans);
+  if (!hasFormatting(trimmed)) return undefined;
+  return trimmed.map(span => span.text).join('') === content ? trimmed : undefined;
+}
+
+/**
+ * The runs covering the character range [start, end) of the joined text
+ */
+export function sliceSpans(spans: InlineSpan[], start: number, end: number): InlineSpan[] {
+  const result: InlineSpan[] = [];
+  let offset = 0;
+
+  for (const span of spans) {
+    const spanEnd = offset + span.text.length;
+    if (spanEnd > start && offset < end) {
+      const text = span.text.slice(Math.max(0, start - offset), Math.min(span.text.length, end - offset));
+      if (text) result.push({ ...span, text });
+    }
+    offset = spanEnd;
+    if (offset >= end) break;
+  }
+
+  return result;
+}
+
+/**
+ * Spans of a text block, dropped if they no longer match its content
+ * (e.g. after the content was rewritten by later processing)
+ */
+export function getBlockSpans(block: Block): InlineSpan[] | undefined {
+  if (block.type !== 'heading' && block.type !== 'paragraph' && block.type !== 'quote') return undefined;
+  return getMatchingSpans(block.spans, block.content);
+}
+
+/**
+ * Spans of a list item, dropped if they no longer match its text
+ */
+export function getListItemSpans(block: Block, index: number): InlineSpan[] | undefined {
+  if (block.type !== 'list') return undefined;
+  return getMatchingSpans(block.itemSpans?.[index], block.items[index]);
+}
+
+function getMatchingSpans(spans: InlineSpan[] | undefined, text: string | undefined): InlineSpan[] | undefined {
+  if (!spans || text === undefined) return undefined;
+  return spans.map(span => span.text).join('') === text ? spans : undefined;
+}
@@ -5,11 +5,11 @@
  * Migrations are run on extension update to ensure data compatibility.
  */
 
-import type { StorageSchema, ArchiveItem, RecentDocument } from '@/types';
+import type { StorageSchema, ArchiveItem, RecentDocument, CustomTheme, FieldTimestamps } from '@/types';
 import { DEFAULT_SETTINGS } from '@/types';
 
 /** Current storage schema version */
-export const CURRENT_STORAGE_VERSION = 3;
+export const CURRENT_STORAGE_VERSION = 4;
 
 /** Migration function type */
 type MigrationFn = (data: Record<string, unknown>) => Record<string, unknown>;
@@ -20,6 +20,8 @@ const migrations: Record<number, MigrationFn> = {
   2: migrateV1ToV2,
   // v2 → v3: Add syncSettings field
   3: migrateV2ToV3,
+  // v3 → v4: Add per-key timestamps for settings, presets and themes
+  4: migrateV3ToV4,
 };
 
 /**
@@ -202,6 +204,30 @@ function migrateV2ToV3(data: Record<string, unknown>): Record<string, unknown> {
   };
 }
 
+/**
+ * v3 → v4: Stamp existing settings, presets and themes with the last data change,
+ * so per-key merging treats them as they were treated as a whole before
+ */
+function migrateV3ToV4(data: Record<string, unknown>): Record<string, unknown> {
+  if (data.fieldUpdatedAt) {
+    return data;
+  }
+
+  const updatedAt = (data.dataUpdatedAt as number | undefined) ?? 0;
+  const stampAll = (keys: string[]) => Object.fromEntries(keys.map(key => [key, updatedAt]));
+
+  const fieldUpdatedAt: FieldTimestamps = {
+    settings: stampAll(Object.keys((data.settings as object | undefined) ?? {})),
+    presets: stampAll(Object.keys((data.presets as object | undefined) ?? {})),
+    customThemes: stampAll(((data.customThemes as CustomTheme[] | undefined) ?? []).map(theme => theme.name)),
+  };
+
+  return {
+    ...data,
+    fieldUpdatedAt,
+  };
+}
+
 
 function mapSourceToType(source: string): ArchiveItem['type'] {
   switch (source) {
@@ -216,6 +242,10 @@ function mapSourceToType(source: string): ArchiveItem['type'] {
       return 'epub';
     case 'mobi':
       return 'mobi';
+    case 'fb2':
+      return 'fb2';
+    case 'text':
+      return 'text';
     case 'paste':
       return 'paste';
     default:
@@ -253,6 +283,7 @@ function generateDeviceId(): string {
 export const _testing = {
   migrateV1ToV2,
   migrateV2ToV3,
+  migrateV3ToV4,
   mapSourceToType,
   extractSourceLabel,
 };
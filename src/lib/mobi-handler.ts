@@ -8,7 +8,9 @@
  * with various compression schemes. This implementation supports:
  * - Uncompressed MOBI
  * - PalmDOC compression
- * - Basic HUFF/CDIC (for older MOBIs)
+ * - HUFF/CDIC compression
+ * - KF8 (AZW3) books, standalone or inside a combined MOBI/KF8 file,
+ *   rebuilt from their skeleton and fragment indexes with the NCX as TOC
  * 
  * DRM-protected files (Kindle DRM) are NOT supported.
  */
@@ -17,6 +19,21 @@ import type { FlowDocument, Block, BookStructure, Chapter, TocItem } from '@/typ
 import { parseEbookHtml } from './html-parser';
 import { getPlainText } from './block-utils';
 import { computeFileHash, countWords } from './file-utils';
+import { blobToDataUrl, limitInlineSource, resolveFigureSources } from './figure-utils';
+import { createFootnoteRegistry, extractFootnotes, getReferencedFootnotes, type FootnoteRegistry } from './footnote-utils';
+import { arrayBufferToBase64 } from './encoding';
+import { concatBytes, createHuffCdicDecompressor } from './mobi-huffcdic';
+import {
+  assembleParts,
+  decodeParts,
+  readIndex,
+  readNcx,
+  splitFlows,
+  KF8_NO_INDEX,
+  KF8_PART_PREFIX,
+  type Kf8TocEntry,
+  type RecordLoader,
+} from './mobi-kf8';
 
 
 export type MobiErrorType = 
@@ -57,8 +74,15 @@ const EXTH_PUBLISHER = 101;
 const EXTH_DESCRIPTION = 103;
 // const EXTH_SUBJECT = 105;  // Reserved for future use
 const EXTH_PUBLISHED_DATE = 106;
+const EXTH_KF8_BOUNDARY = 121;
 const EXTH_LANGUAGE = 524;
 
+/** Placeholder src prefix for images referenced by recindex */
+const MOBI_IMAGE_PREFIX = 'mobi-image-';
+
+/** Id prefix for anchors inserted at filepos link targets */
+const MOBI_FILEPOS_PREFIX = 'filepos';
+
 
 /**
  * Extract a FlowDocument from a MOBI file
@@ -88,9 +112,10 @@ export async function extractFromMobi(file: File): Promise<FlowDocument> {
     const mobiHeader = parseMobiHeader(new DataView(record0.buffer, record0.byteOffset));
     
     // Parse EXTH header if present
-    const exthData = mobiHeader.exthFlags & 0x40 
+    const exthRecords = mobiHeader.exthFlags & 0x40 
       ? parseExthHeader(record0, mobiHeader.headerLength + 16)
-      : {};
+      : new Map<number, Uint8Array>();
+    const exthData = decodeExthStrings(exthRecords);
     
     const metadata = {
       title: mobiHeader.fullName || pdbHeader.name || file.name.replace(/\.(mobi|azw3?|prc)$/i, ''),
@@ -101,14 +126,31 @@ export async function extractFromMobi(file: File): Promise<FlowDocument> {
       date: exthData[EXTH_PUBLISHED_DATE],
     };
     
-    const textContent = extractTextContent(
-      bytes,
-      records,
-      palmDocHeader,
-      mobiHeader
-    );
+    const footnotes = createFootnoteRegistry();
+    let content: { chapters: Chapter[]; toc: TocItem[] | null } | null = null;
     
-    const chapters = parseContentIntoChapters(textContent);
+    // KF8 files keep real chapter files and a TOC; older MOBI text is one stream
+    const kf8 = findKf8Section(bytes, records, palmDocHeader, mobiHeader, exthRecords);
+    if (kf8) {
+      try {
+        content = extractKf8Content(bytes, records, kf8, footnotes);
+      } catch (error) {
+        if (error instanceof MobiExtractionError) {
+          throw error;
+        }
+        console.warn('[MOBI] Failed to read KF8 structure, falling back to MOBI text:', error);
+      }
+    }
+    
+    if (!content) {
+      const textContent = anchorFileposTargets(
+        extractTextContent(bytes, records, palmDocHeader, mobiHeader),
+        mobiHeader.encoding === 65001
+      );
+      content = { chapters: parseContentIntoChapters(textContent, footnotes), toc: null };
+    }
+    
+    const { chapters } = content;
     
     if (chapters.length === 0) {
       throw new MobiExtractionError(
@@ -117,13 +159,21 @@ export async function extractFromMobi(file: File): Promise<FlowDocument> {
       );
     }
     
+    // Inline images referenced by record index
+    for (const chapter of chapters) {
+      chapter.blocks = await resolveFigureSources(
+        chapter.blocks,
+        src => loadMobiImage(bytes, records, mobiHeader, src)
+      );
+    }
+    
     const fileHash = await computeFileHash(file);
     
     // Try to extract cover thumbnail
     const thumbnail = await extractMobiCoverThumbnail(bytes, records, mobiHeader);
     
-    // Build TOC from chapters
-    const toc: TocItem[] = chapters.map((chapter, index) => ({
+    // Build TOC from chapters when the book has no NCX
+    const toc: TocItem[] = content.toc ?? chapters.map((chapter, index) => ({
       id: chapter.id,
       label: chapter.title,
       chapterIndex: index,
@@ -156,6 +206,7 @@ export async function extractFromMobi(file: File): Promise<FlowDocument> {
       blocks: firstChapter.blocks,
       plainText: firstChapter.plainText,
       book,
+      footnotes: getReferencedFootnotes(chapters.flatMap(chapter => chapter.blocks), footnotes.footnotes),
     };
   } catch (error) {
     if (error instanceof MobiExtractionError) {
@@ -245,8 +296,18 @@ interface MobiHeader {
   headerLength: number;
   mobiType: number;
   encoding: number;
+  /** Format version; 8 and above is KF8 */
+  version: number;
   firstImageIndex: number;
+  huffRecordIndex: number;
+  huffRecordCount: number;
   exthFlags: number;
+  /** Which trailing entries are appended to each text record */
+  trailingFlags: number;
+  fdstIndex: number;
+  ncxIndex: number;
+  fragmentIndex: number;
+  skeletonIndex: number;
   fullName: string;
 }
 
@@ -269,16 +330,41 @@ function parseMobiHeader(data: DataView): MobiHeader {
   const encoding = data.getUint32(28, false);
   
   // These might not exist in older MOBI files
+  let version = 0;
   let firstImageIndex = 0;
+  let huffRecordIndex = 0;
+  let huffRecordCount = 0;
   let exthFlags = 0;
+  let trailingFlags = 0;
+  let fdstIndex = KF8_NO_INDEX;
+  let ncxIndex = KF8_NO_INDEX;
+  let fragmentIndex = KF8_NO_INDEX;
+  let skeletonIndex = KF8_NO_INDEX;
   
   try {
+    version = data.getUint32(36, false);
     if (headerLength >= 108) {
       firstImageIndex = data.getUint32(108, false);
     }
+    if (headerLength >= 116) {
+      huffRecordIndex = data.getUint32(112, false);
+      huffRecordCount = data.getUint32(116, false);
+    }
     if (headerLength >= 128) {
       exthFlags = data.getUint32(128, false);
     }
+    if (headerLength >= 228) {
+      trailingFlags = data.getUint16(242, false);
+    }
+    if (headerLength >= 232) {
+      ncxIndex = data.getUint32(244, false);
+    }
+    // KF8 headers reuse these fields for the flow and fragment indexes
+    if (version >= 8 && headerLength >= 240) {
+      fdstIndex = data.getUint32(192, false);
+      fragmentIndex = data.getUint32(248, false);
+      skeletonIndex = data.getUint32(252, false);
+    }
   } catch {
     // Ignore - older MOBI format
   }
@@ -297,12 +383,31 @@ function parseMobiHeader(data: DataView): MobiHeader {
     // Ignore errors reading full name
   }
   
-  return { headerLength, mobiType, encoding, firstImageIndex, exthFlags, fullName };
+  return {
+    headerLength,
+    mobiType,
+    encoding,
+    version,
+    firstImageIndex,
+    huffRecordIndex,
+    huffRecordCount,
+    exthFlags,
+    trailingFlags,
+    fdstIndex,
+    ncxIndex,
+    fragmentIndex,
+    skeletonIndex,
+    fullName,
+  };
 }
 
 
-function parseExthHeader(record0: Uint8Array, offset: number): Record<number, string> {
-  const exthData: Record<number, string> = {};
+/**
+ * Read the raw EXTH record values by type. Most are text; some
+ * (like the KF8 boundary) are big-endian numbers.
+ */
+function parseExthHeader(record0: Uint8Array, offset: number): Map<number, Uint8Array> {
+  const exthData = new Map<number, Uint8Array>();
   
   try {
     if (offset + 12 > record0.length) return exthData;
@@ -327,9 +432,7 @@ function parseExthHeader(record0: Uint8Array, offset: number): Record<number, st
       const length = data.getUint32(pos + 4, false);
       
       if (length > 8 && pos + length <= data.byteLength) {
-        const valueBytes = new Uint8Array(record0.buffer, record0.byteOffset + offset + pos + 8, length - 8);
-        const value = new TextDecoder('utf-8').decode(valueBytes);
-        exthData[type] = value;
+        exthData.set(type, new Uint8Array(record0.buffer, record0.byteOffset + offset + pos + 8, length - 8));
       }
       
       pos += length;
@@ -341,6 +444,15 @@ function parseExthHeader(record0: Uint8Array, offset: number): Record<number, st
   return exthData;
 }
 
+function decodeExthStrings(exthRecords: Map<number, Uint8Array>): Record<number, string> {
+  const decoder = new TextDecoder('utf-8');
+  const strings: Record<number, string> = {};
+  for (const [type, value] of exthRecords) {
+    strings[type] = decoder.decode(value);
+  }
+  return strings;
+}
+
 
 function extractTextContent(
   bytes: Uint8Array,
@@ -348,7 +460,6 @@ function extractTextContent(
   palmDocHeader: PalmDocHeader,
   mobiHeader: MobiHeader
 ): string {
-  const textParts: string[] = [];
   const decoder = mobiHeader.encoding === 65001 
     ? new TextDecoder('utf-8') 
     : new TextDecoder('latin1');
@@ -356,8 +467,7 @@ function extractTextContent(
   // Determine which records contain text
   // Text records start at record 1 and continue until we hit the first image
   // or until we've read all text records
-  const startRecord = 1;
-  let endRecord = startRecord + palmDocHeader.recordCount;
+  let endRecord = 1 + palmDocHeader.recordCount;
   
   // If firstImageIndex is set, use it as upper bound
   if (mobiHeader.firstImageIndex > 0 && mobiHeader.firstImageIndex < endRecord) {
@@ -367,51 +477,95 @@ function extractTextContent(
   // Don't go beyond available records
   endRecord = Math.min(endRecord, records.length);
   
-  for (let i = startRecord; i < endRecord; i++) {
+  const loadRecord: RecordLoader = index => getRecord(bytes, records, index);
+  return decoder.decode(readTextRecords(loadRecord, palmDocHeader, mobiHeader, endRecord));
+}
+
+/**
+ * Decompress the text records before endRecord into one byte stream.
+ * Records are joined before decoding, as multibyte characters can span them.
+ */
+function readTextRecords(
+  loadRecord: RecordLoader,
+  palmDocHeader: PalmDocHeader,
+  mobiHeader: MobiHeader,
+  endRecord: number
+): Uint8Array {
+  const textParts: Uint8Array[] = [];
+  const decompress = getTextDecompressor(loadRecord, palmDocHeader.compression, mobiHeader);
+  
+  for (let i = 1; i < endRecord; i++) {
     try {
-      const record = getRecord(bytes, records, i);
-      let text: Uint8Array;
-      
-      switch (palmDocHeader.compression) {
-        case COMPRESSION_NONE:
-          text = record;
-          break;
-        case COMPRESSION_PALMDOC:
-          text = decompressPalmDoc(record);
-          break;
-        case COMPRESSION_HUFF:
-          throw new MobiExtractionError(
-            'This MOBI uses HUFF/CDIC compression which is not fully supported.',
-            'unsupported-compression'
-          );
-        default:
-          // Try to read anyway - might be uncompressed
-          console.warn(`[MOBI] Unknown compression ${palmDocHeader.compression}, trying uncompressed`);
-          text = record;
-      }
-      
-      // Remove trailing multibyte overlap bytes
-      // MOBI records may have extra bytes at the end for multibyte character handling
-      let textLength = text.length;
-      if (textLength > 0 && mobiHeader.encoding === 65001) {
-        // Check for trailing size indicator
-        const trailingByte = text[textLength - 1];
-        if (trailingByte < 4 && trailingByte > 0) {
-          textLength -= trailingByte + 1;
-        }
-      }
-      
-      textParts.push(decoder.decode(text.slice(0, textLength)));
+      textParts.push(decompress(removeTrailingEntries(loadRecord(i), mobiHeader.trailingFlags)));
     } catch (error) {
-      if (error instanceof MobiExtractionError) {
-        throw error;
-      }
       // Skip records that fail to decompress
       console.warn(`[MOBI] Failed to decompress record ${i}:`, error);
     }
   }
   
-  return textParts.join('');
+  return concatBytes(textParts);
+}
+
+function getTextDecompressor(
+  loadRecord: RecordLoader,
+  compression: number,
+  mobiHeader: MobiHeader
+): (record: Uint8Array) => Uint8Array {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return record => record;
+    case COMPRESSION_PALMDOC:
+      return decompressPalmDoc;
+    case COMPRESSION_HUFF:
+      return loadHuffCdic(loadRecord, mobiHeader);
+    default:
+      // Try to read anyway - might be uncompressed
+      console.warn(`[MOBI] Unknown compression ${compression}, trying uncompressed`);
+      return record => record;
+  }
+}
+
+function loadHuffCdic(loadRecord: RecordLoader, mobiHeader: MobiHeader): (data: Uint8Array) => Uint8Array {
+  try {
+    const { huffRecordIndex, huffRecordCount } = mobiHeader;
+    const cdicRecords: Uint8Array[] = [];
+    for (let i = 1; i < huffRecordCount; i++) {
+      cdicRecords.push(loadRecord(huffRecordIndex + i));
+    }
+    return createHuffCdicDecompressor(loadRecord(huffRecordIndex), cdicRecords);
+  } catch (error) {
+    throw new MobiExtractionError(
+      `This file's HUFF/CDIC dictionary could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'corrupted'
+    );
+  }
+}
+
+/**
+ * Strip the entries appended after the text of each record.
+ * Each set flag bit above bit 0 adds an entry whose size is stored at its
+ * end, 7 bits per byte; bit 0 adds the bytes of a multibyte character
+ * that continues into the next record.
+ */
+function removeTrailingEntries(record: Uint8Array, flags: number): Uint8Array {
+  let end = record.length;
+  
+  for (let flag = flags >> 1; flag > 0 && end > 0; flag >>= 1) {
+    if (!(flag & 1)) continue;
+    let size = 0;
+    for (let i = Math.max(0, end - 4); i < end; i++) {
+      // A set high bit marks the first byte of the size
+      if (record[i] & 0x80) size = 0;
+      size = (size << 7) | (record[i] & 0x7f);
+    }
+    end -= size;
+  }
+  
+  if (flags & 1 && end > 0) {
+    end -= (record[end - 1] & 0x03) + 1;
+  }
+  
+  return record.subarray(0, Math.max(0, end));
 }
 
 /**
@@ -457,11 +611,67 @@ function decompressPalmDoc(input: Uint8Array): Uint8Array {
 }
 
 
+/**
+ * Turn filepos links into fragment links.
+ * MOBI links point at byte offsets in the text ("<a filepos=0001234>");
+ * an anchor is inserted at each target so footnote detection can follow them.
+ */
+function anchorFileposTargets(html: string, isUtf8: boolean): string {
+  const fileposPattern = /\sfilepos=["']?(\d+)["']?/gi;
+  const offsets = new Set<number>();
+  for (const match of html.matchAll(fileposPattern)) {
+    offsets.add(parseInt(match[1], 10));
+  }
+  if (offsets.size === 0) return html;
+
+  // Map byte offsets to string indices, walking the text once
+  const sorted = Array.from(offsets).sort((a, b) => a - b);
+  const positions = new Map<number, number>();
+  let byteOffset = 0;
+  let index = 0;
+  for (const target of sorted) {
+    while (index < html.length && byteOffset < target) {
+      const codePoint = html.codePointAt(index)!;
+      byteOffset += !isUtf8 || codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+      index += codePoint > 0xffff ? 2 : 1;
+    }
+    if (index >= html.length) break;
+    // Targets inside a tag move to the start of the tag
+    const tagStart = html.lastIndexOf('<', index);
+    positions.set(target, tagStart > html.lastIndexOf('>', index - 1) ? tagStart : index);
+  }
+
+  // Insert anchors from the end so earlier positions stay valid
+  let result = html;
+  for (const [target, position] of Array.from(positions).sort((a, b) => b[1] - a[1])) {
+    result = `${result.slice(0, position)}<a id="${MOBI_FILEPOS_PREFIX}${target}"></a>${result.slice(position)}`;
+  }
+
+  return result.replace(fileposPattern, (_, target) => ` href="#${MOBI_FILEPOS_PREFIX}${parseInt(target, 10)}"`);
+}
+
+/**
+ * Move footnotes into the registry before the content is split into chapters,
+ * since a note and its reference usually end up in different sections.
+ */
+function extractMobiFootnotes(html: string, footnotes: FootnoteRegistry): string {
+  if (!html.includes(`#${MOBI_FILEPOS_PREFIX}`)) return html;
+
+  // Page breaks would swallow the content after them in an HTML parse; keep them as comments
+  const doc = new DOMParser().parseFromString(
+    html.replace(/<mbp:pagebreak\s*\/?>/gi, '<!--mbp:pagebreak-->'),
+    'text/html'
+  );
+  extractFootnotes(doc, footnotes);
+
+  return doc.body.innerHTML.replace(/<!--mbp:pagebreak-->/g, '<mbp:pagebreak/>');
+}
+
 /**
  * Parse HTML content into chapters
  * MOBI files often use <mbp:pagebreak> for chapter breaks
  */
-function parseContentIntoChapters(html: string): Chapter[] {
+function parseContentIntoChapters(html: string, footnotes: FootnoteRegistry): Chapter[] {
   // Clean up the HTML: remove null bytes and MOBI-specific tags
   // Use String.prototype.split with charCode to avoid control regex warning
   const nullByte = String.fromCharCode(0);
@@ -470,11 +680,14 @@ function parseContentIntoChapters(html: string): Chapter[] {
     // Remove MOBI-specific tags (but preserve their content)
     .replace(/<mbp:nu>|<\/mbp:nu>/gi, '')
     .replace(/<mbp:section[^>]*>/gi, '<div>')
-    .replace(/<\/mbp:section>/gi, '</div>');
+    .replace(/<\/mbp:section>/gi, '</div>')
+    // Images reference records by index; give them a src the parser keeps
+    .replace(/<img([^>]*?)\srecindex=["']?(\d+)["']?/gi, `<img$1 src="${MOBI_IMAGE_PREFIX}$2"`);
+  const contentHtml = extractMobiFootnotes(cleanHtml, footnotes);
   
   // Split on page breaks
   const pageBreakPattern = /<mbp:pagebreak\s*\/?>/gi;
-  const sections = cleanHtml.split(pageBreakPattern);
+  const sections = contentHtml.split(pageBreakPattern);
   
   const chapters: Chapter[] = [];
   
@@ -515,8 +728,8 @@ function parseContentIntoChapters(html: string): Chapter[] {
   }
   
   // If no chapters were created from pagebreaks, try splitting by headings
-  if (chapters.length <= 1 && cleanHtml.length > 1000) {
-    return createChaptersFromHeadings(cleanHtml);
+  if (chapters.length <= 1 && contentHtml.length > 1000) {
+    return createChaptersFromHeadings(contentHtml);
   }
   
   return chapters;
@@ -581,6 +794,176 @@ function createChaptersFromHeadings(html: string): Chapter[] {
   return chapters;
 }
 
+interface Kf8Section {
+  /** Index of the KF8 section's first record */
+  start: number;
+  palmDocHeader: PalmDocHeader;
+  mobiHeader: MobiHeader;
+}
+
+/**
+ * Find the KF8 section: the whole file for a standalone AZW3, or the part
+ * after the boundary recorded in EXTH 121 for a combined MOBI/KF8 file
+ */
+function findKf8Section(
+  bytes: Uint8Array,
+  records: RecordInfo[],
+  palmDocHeader: PalmDocHeader,
+  mobiHeader: MobiHeader,
+  exthRecords: Map<number, Uint8Array>
+): Kf8Section | null {
+  if (mobiHeader.version >= 8) {
+    return { start: 0, palmDocHeader, mobiHeader };
+  }
+  
+  const boundary = exthRecords.get(EXTH_KF8_BOUNDARY);
+  if (!boundary || boundary.length < 4) return null;
+  
+  const start = new DataView(boundary.buffer, boundary.byteOffset, 4).getUint32(0, false);
+  if (start === KF8_NO_INDEX || start === 0 || start >= records.length) return null;
+  
+  try {
+    const record0 = getRecord(bytes, records, start);
+    const view = new DataView(record0.buffer, record0.byteOffset);
+    const kf8Header = parseMobiHeader(view);
+    return kf8Header.version >= 8
+      ? { start, palmDocHeader: parsePalmDocHeader(view), mobiHeader: kf8Header }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rebuild a KF8 book's files and turn each into a chapter, with the NCX as TOC.
+ * Short files without a TOC entry (title pages, copyright) are merged into the
+ * chapter before them.
+ */
+function extractKf8Content(
+  bytes: Uint8Array,
+  records: RecordInfo[],
+  kf8: Kf8Section,
+  footnotes: FootnoteRegistry
+): { chapters: Chapter[]; toc: TocItem[] | null } {
+  const { mobiHeader, palmDocHeader } = kf8;
+  if (mobiHeader.skeletonIndex === KF8_NO_INDEX || mobiHeader.fragmentIndex === KF8_NO_INDEX) {
+    throw new Error('KF8 header has no skeleton or fragment index');
+  }
+  
+  const loadRecord: RecordLoader = index => {
+    if (kf8.start + index >= records.length) {
+      throw new Error(`Record ${kf8.start + index} is missing`);
+    }
+    return getRecord(bytes, records, kf8.start + index);
+  };
+  
+  const text = readTextRecords(loadRecord, palmDocHeader, mobiHeader, palmDocHeader.recordCount + 1);
+  const flows = splitFlows(
+    text,
+    mobiHeader.fdstIndex !== KF8_NO_INDEX ? loadRecord(mobiHeader.fdstIndex) : null
+  );
+  const kf8Text = assembleParts(
+    flows[0],
+    readIndex(loadRecord, mobiHeader.skeletonIndex),
+    readIndex(loadRecord, mobiHeader.fragmentIndex)
+  );
+  
+  const decoder = mobiHeader.encoding === 65001 ? new TextDecoder('utf-8') : new TextDecoder('latin1');
+  const documents = new Map<string, Document>();
+  decodeParts(kf8Text, decoder).forEach((html, index) => {
+    documents.set(`${KF8_PART_PREFIX}${index}`, parsePartDocument(resolveKf8Resources(html, flows)));
+  });
+  
+  let tocEntries: Kf8TocEntry[] = [];
+  if (mobiHeader.ncxIndex !== KF8_NO_INDEX) {
+    try {
+      tocEntries = readNcx(readIndex(loadRecord, mobiHeader.ncxIndex), kf8Text);
+    } catch (error) {
+      console.warn('[MOBI] Failed to read NCX, building TOC from chapters:', error);
+    }
+  }
+  
+  // Footnotes are extracted from every file before any is parsed into blocks,
+  // since notes usually live in a file of their own
+  for (const [key, doc] of documents) {
+    extractFootnotes(doc, footnotes, {
+      documentKey: key,
+      resolveDocument: (path) => {
+        const target = documents.get(path);
+        return target ? { key: path, document: target } : null;
+      },
+    });
+  }
+  
+  const chapters: Chapter[] = [];
+  const partChapters: (number | undefined)[] = [];
+  Array.from(documents.values()).forEach((doc, partIndex) => {
+    const blocks = parseEbookHtml(new XMLSerializer().serializeToString(doc));
+    if (blocks.length === 0) return;
+    
+    const plainText = getPlainText(blocks);
+    const wordCount = countWords(plainText);
+    const tocEntry = tocEntries.find(entry => entry.partIndex === partIndex);
+    
+    if (!tocEntry && wordCount < 50 && chapters.length > 0) {
+      const prevChapter = chapters[chapters.length - 1];
+      prevChapter.blocks = [...prevChapter.blocks, ...blocks];
+      prevChapter.plainText = getPlainText(prevChapter.blocks);
+      prevChapter.wordCount = countWords(prevChapter.plainText);
+      partChapters[partIndex] = chapters.length - 1;
+      return;
+    }
+    
+    partChapters[partIndex] = chapters.length;
+    chapters.push({
+      id: `chapter-${chapters.length}`,
+      title: tocEntry?.label || findFirstHeading(blocks) || `Section ${chapters.length + 1}`,
+      blocks,
+      plainText,
+      wordCount,
+    });
+  });
+  
+  if (chapters.length === 0 || tocEntries.length === 0) {
+    return { chapters, toc: null };
+  }
+  
+  // Entries pointing at files without content go to the next chapter
+  const toc = tocEntries.map((entry, index): TocItem => {
+    const nextChapter = partChapters.slice(entry.partIndex).find(chapter => chapter !== undefined);
+    return {
+      id: `toc-${index}`,
+      label: entry.label,
+      chapterIndex: nextChapter ?? chapters.length - 1,
+      depth: entry.depth,
+    };
+  });
+  
+  return { chapters, toc };
+}
+
+/**
+ * Parse a rebuilt KF8 file. Files are XHTML; fall back to HTML parsing for malformed ones.
+ */
+function parsePartDocument(html: string): Document {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html, 'application/xhtml+xml');
+  return doc.querySelector('parsererror') ? parser.parseFromString(html, 'text/html') : doc;
+}
+
+/**
+ * Point kindle:embed images at their records, and inline SVG images kept in
+ * their own flow. kindle:embed indexes are base-32, 1-based like recindex.
+ */
+function resolveKf8Resources(html: string, flows: Uint8Array[]): string {
+  return html
+    .replace(/kindle:embed:([0-9a-v]+)(\?mime=[^"'\s)]*)?/gi, (_, index: string) => `${MOBI_IMAGE_PREFIX}${parseInt(index, 32)}`)
+    .replace(/kindle:flow:([0-9a-v]+)\?mime=image\/svg\+xml/gi, (link, index: string) => {
+      const flow = flows[parseInt(index, 32)];
+      return flow ? `data:image/svg+xml;base64,${arrayBufferToBase64(flow)}` : link;
+    });
+}
+
 /**
  * Find the first heading in blocks
  */
@@ -593,6 +976,40 @@ function findFirstHeading(blocks: Block[]): string | undefined {
   return undefined;
 }
 
+/**
+ * Load an image referenced by recindex and inline it as a data URL.
+ * recindex is 1-based, relative to the first image record.
+ */
+async function loadMobiImage(
+  bytes: Uint8Array,
+  records: RecordInfo[],
+  mobiHeader: MobiHeader,
+  src: string
+): Promise<string | undefined> {
+  if (src.startsWith('data:')) {
+    return limitInlineSource(src);
+  }
+  if (!src.startsWith(MOBI_IMAGE_PREFIX)) {
+    return undefined;
+  }
+  
+  const recordIndex = mobiHeader.firstImageIndex + parseInt(src.slice(MOBI_IMAGE_PREFIX.length), 10) - 1;
+  if (mobiHeader.firstImageIndex <= 0 || recordIndex < mobiHeader.firstImageIndex || recordIndex >= records.length) {
+    return undefined;
+  }
+  
+  const imageRecord = getRecord(bytes, records, recordIndex);
+  const mimeType = detectImageMimeType(imageRecord);
+  if (!mimeType) {
+    return undefined;
+  }
+  
+  // Copy into a fresh ArrayBuffer to avoid SharedArrayBuffer type issues
+  const buffer = new ArrayBuffer(imageRecord.byteLength);
+  new Uint8Array(buffer).set(imageRecord);
+  return blobToDataUrl(new Blob([buffer], { type: mimeType }));
+}
+
 /**
  * Maximum thumbnail dimensions (pixels)
  */
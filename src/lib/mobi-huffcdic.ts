@@ -0,0 +1,142 @@
+/**
+ * HUFF/CDIC decompression for MOBI and KF8 text records
+ *
+ * Text is a stream of variable-length Huffman codes. The HUFF record holds
+ * the code tables; the CDIC records hold the phrase dictionary the codes
+ * index into. Phrases may themselves be compressed, in which case they're
+ * expanded on first use and cached.
+ */
+
+const HUFF_MAGIC = 'HUFF';
+const CDIC_MAGIC = 'CDIC';
+
+interface CodeEntry {
+  codeLength: number;
+  isTerminal: boolean;
+  maxCode: number;
+}
+
+interface Phrase {
+  data: Uint8Array;
+  isExpanded: boolean;
+}
+
+function readMagic(record: Uint8Array): string {
+  return String.fromCharCode(...record.subarray(0, 4));
+}
+
+/**
+ * Create a decompressor from the HUFF record and the CDIC records that follow it
+ */
+export function createHuffCdicDecompressor(
+  huffRecord: Uint8Array,
+  cdicRecords: Uint8Array[]
+): (data: Uint8Array) => Uint8Array {
+  if (readMagic(huffRecord) !== HUFF_MAGIC) {
+    throw new Error('Invalid HUFF record');
+  }
+
+  const huff = new DataView(huffRecord.buffer, huffRecord.byteOffset, huffRecord.byteLength);
+  const cacheOffset = huff.getUint32(8, false);
+  const baseOffset = huff.getUint32(12, false);
+
+  // Lookup by the first byte of a code; short codes resolve directly
+  const codeTable: CodeEntry[] = [];
+  for (let i = 0; i < 256; i++) {
+    const value = huff.getUint32(cacheOffset + i * 4, false);
+    const codeLength = value & 0x1f;
+    const isTerminal = (value & 0x80) !== 0;
+    codeTable.push({
+      codeLength,
+      isTerminal,
+      maxCode: ((value >>> 8) + 1) * 2 ** (32 - codeLength) - 1,
+    });
+  }
+
+  // Longer codes are found by comparing against the smallest code of each length
+  const minCodes: number[] = [0];
+  const maxCodes: number[] = [0];
+  for (let codeLength = 1; codeLength <= 32; codeLength++) {
+    const offset = baseOffset + (codeLength - 1) * 8;
+    minCodes.push(huff.getUint32(offset, false) * 2 ** (32 - codeLength));
+    maxCodes.push((huff.getUint32(offset + 4, false) + 1) * 2 ** (32 - codeLength) - 1);
+  }
+
+  const phrases: Phrase[] = [];
+  for (const record of cdicRecords) {
+    if (readMagic(record) !== CDIC_MAGIC) {
+      throw new Error('Invalid CDIC record');
+    }
+    const cdic = new DataView(record.buffer, record.byteOffset, record.byteLength);
+    const phraseCount = cdic.getUint32(8, false);
+    const codeBits = cdic.getUint32(12, false);
+    const count = Math.min(2 ** codeBits, phraseCount - phrases.length);
+
+    for (let i = 0; i < count; i++) {
+      const offset = 16 + cdic.getUint16(16 + i * 2, false);
+      const header = cdic.getUint16(offset, false);
+      phrases.push({
+        data: record.subarray(offset + 2, offset + 2 + (header & 0x7fff)),
+        isExpanded: (header & 0x8000) !== 0,
+      });
+    }
+  }
+
+  const decompress = (data: Uint8Array): Uint8Array => {
+    const output: Uint8Array[] = [];
+    let bitsLeft = data.length * 8;
+    let bitPos = 0;
+
+    while (bitsLeft > 0) {
+      const code = peek32(data, bitPos);
+      const entry = codeTable[code >>> 24];
+      let { codeLength, maxCode } = entry;
+
+      if (!entry.isTerminal) {
+        while (codeLength < 32 && code < minCodes[codeLength]) codeLength++;
+        maxCode = maxCodes[codeLength];
+      }
+
+      bitPos += codeLength;
+      bitsLeft -= codeLength;
+      if (bitsLeft < 0 || codeLength === 0) break;
+
+      const index = Math.floor((maxCode - code) / 2 ** (32 - codeLength));
+      const phrase = phrases[index];
+      if (!phrase) {
+        throw new Error(`Invalid HUFF/CDIC phrase index ${index}`);
+      }
+      if (!phrase.isExpanded) {
+        phrase.data = decompress(phrase.data);
+        phrase.isExpanded = true;
+      }
+      output.push(phrase.data);
+    }
+
+    return concatBytes(output);
+  };
+
+  return decompress;
+}
+
+/**
+ * Read 32 bits starting at any bit position, padding past the end with zeros
+ */
+function peek32(data: Uint8Array, bitPos: number): number {
+  const byteIndex = bitPos >>> 3;
+  const shift = bitPos & 7;
+  const byteAt = (i: number) => data[byteIndex + i] ?? 0;
+
+  const word = ((byteAt(0) << 24) | (byteAt(1) << 16) | (byteAt(2) << 8) | byteAt(3)) >>> 0;
+  return shift === 0 ? word : ((word << shift) | (byteAt(4) >>> (8 - shift))) >>> 0;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
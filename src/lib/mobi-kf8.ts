@@ -0,0 +1,382 @@
+/**
+ * KF8 (AZW3) book structure
+ *
+ * KF8 keeps the book's XHTML files as one text stream with each file split in
+ * two: a skeleton holding the outer markup, and fragments that are inserted
+ * into it at recorded offsets. Where each skeleton and fragment lives, and the
+ * table of contents (NCX), are described by INDX index records. Extra flows
+ * such as stylesheets and SVG images follow the main text, delimited by the
+ * FDST record.
+ */
+
+import { concatBytes } from './mobi-huffcdic';
+
+/** Loads a record by index, relative to the start of the KF8 section */
+export type RecordLoader = (index: number) => Uint8Array;
+
+/** Header value for an index that isn't present */
+export const KF8_NO_INDEX = 0xffffffff;
+
+/** Document key prefix for parts, used by rewritten kindle:pos links */
+export const KF8_PART_PREFIX = 'part';
+
+/** Id prefix for anchors inserted at kindle:pos link targets */
+const KF8_POS_PREFIX = 'kf8pos';
+
+// Skeleton, fragment and NCX index tags
+const TAG_FRAGMENT_COUNT = 1;
+const TAG_POSITION = 6;
+const TAG_NCX_OFFSET = 1;
+const TAG_NCX_LABEL = 3;
+const TAG_NCX_DEPTH = 4;
+
+export interface IndexEntry {
+  name: string;
+  tags: Map<number, number[]>;
+}
+
+export interface IndexTable {
+  entries: IndexEntry[];
+  /** Strings from the CNCX records, keyed by their offset */
+  strings: Map<number, string>;
+}
+
+interface TagDefinition {
+  tag: number;
+  valuesPerEntry: number;
+  mask: number;
+  endsControlByte: boolean;
+}
+
+interface Fragment {
+  /** Offset in the text at which the fragment is inserted */
+  insertOffset: number;
+  partIndex: number;
+}
+
+/** One reassembled XHTML file */
+export interface Kf8Part {
+  /** Offset of the part in the text */
+  start: number;
+  content: Uint8Array;
+}
+
+export interface Kf8Text {
+  parts: Kf8Part[];
+  fragments: Fragment[];
+}
+
+export interface Kf8TocEntry {
+  label: string;
+  depth: number;
+  partIndex: number;
+}
+
+function readMagic(record: Uint8Array, offset = 0): string {
+  return String.fromCharCode(...record.subarray(offset, offset + 4));
+}
+
+function toDataView(record: Uint8Array): DataView {
+  return new DataView(record.buffer, record.byteOffset, record.byteLength);
+}
+
+/**
+ * Read a forward-encoded variable-length number: 7 bits per byte,
+ * with the high bit set on the last byte
+ */
+function readVarLen(bytes: Uint8Array, offset: number): { value: number; size: number } {
+  let value = 0;
+  let size = 0;
+  while (size < 4 && offset + size < bytes.length) {
+    const byte = bytes[offset + size++];
+    value = value * 128 + (byte & 0x7f);
+    if (byte & 0x80) break;
+  }
+  return { value, size };
+}
+
+function countTrailingZeros(mask: number): number {
+  let count = 0;
+  while (count < 8 && !(mask & (1 << count))) count++;
+  return count;
+}
+
+function countBits(mask: number): number {
+  let count = 0;
+  for (let value = mask; value; value >>= 1) count += value & 1;
+  return count;
+}
+
+/**
+ * Read an INDX index: the header record, its data records and CNCX string records
+ */
+export function readIndex(loadRecord: RecordLoader, indexRecord: number): IndexTable {
+  const header = loadRecord(indexRecord);
+  if (readMagic(header) !== 'INDX') {
+    throw new Error('Invalid INDX record');
+  }
+
+  const view = toDataView(header);
+  const headerLength = view.getUint32(4, false);
+  const recordCount = view.getUint32(24, false);
+  const stringRecordCount = view.getUint32(52, false);
+  const decoder = new TextDecoder(view.getUint32(28, false) === 65001 ? 'utf-8' : 'windows-1252');
+
+  // TAGX lists the tags entries may carry and how the control bytes flag them
+  if (readMagic(header, headerLength) !== 'TAGX') {
+    throw new Error('Invalid TAGX section');
+  }
+  const tagxLength = view.getUint32(headerLength + 4, false);
+  const controlByteCount = view.getUint32(headerLength + 8, false);
+  const tagTable: TagDefinition[] = [];
+  for (let pos = headerLength + 12; pos + 4 <= headerLength + tagxLength; pos += 4) {
+    tagTable.push({
+      tag: header[pos],
+      valuesPerEntry: header[pos + 1],
+      mask: header[pos + 2],
+      endsControlByte: (header[pos + 3] & 1) !== 0,
+    });
+  }
+
+  const strings = new Map<number, string>();
+  for (let i = 0; i < stringRecordCount; i++) {
+    const record = loadRecord(indexRecord + recordCount + 1 + i);
+    for (let pos = 0; pos < record.length;) {
+      const { value: length, size } = readVarLen(record, pos);
+      strings.set(i * 0x10000 + pos, decoder.decode(record.subarray(pos + size, pos + size + length)));
+      pos += size + length;
+    }
+  }
+
+  const entries: IndexEntry[] = [];
+  for (let i = 1; i <= recordCount; i++) {
+    const record = loadRecord(indexRecord + i);
+    if (readMagic(record) !== 'INDX') {
+      throw new Error('Invalid INDX record');
+    }
+    const recordView = toDataView(record);
+    const idxtOffset = recordView.getUint32(20, false);
+    const entryCount = recordView.getUint32(24, false);
+
+    for (let j = 0; j < entryCount; j++) {
+      const offset = recordView.getUint16(idxtOffset + 4 + j * 2, false);
+      entries.push(readIndexEntry(record, offset, tagTable, controlByteCount));
+    }
+  }
+
+  return { entries, strings };
+}
+
+function readIndexEntry(
+  record: Uint8Array,
+  offset: number,
+  tagTable: TagDefinition[],
+  controlByteCount: number
+): IndexEntry {
+  const nameLength = record[offset];
+  const name = String.fromCharCode(...record.subarray(offset + 1, offset + 1 + nameLength));
+  const controlStart = offset + 1 + nameLength;
+
+  // The control bytes say how many values (or value bytes) each tag has
+  const counts: { definition: TagDefinition; valueCount: number | null; byteCount: number | null }[] = [];
+  let controlIndex = 0;
+  let pos = controlStart + controlByteCount;
+  for (const definition of tagTable) {
+    if (definition.endsControlByte) {
+      controlIndex++;
+      continue;
+    }
+    const value = record[controlStart + controlIndex] & definition.mask;
+    if (value === 0) continue;
+
+    if (value === definition.mask && countBits(definition.mask) > 1) {
+      const { value: byteCount, size } = readVarLen(record, pos);
+      pos += size;
+      counts.push({ definition, valueCount: null, byteCount });
+    } else {
+      counts.push({ definition, valueCount: value >> countTrailingZeros(definition.mask), byteCount: null });
+    }
+  }
+
+  const tags = new Map<number, number[]>();
+  for (const { definition, valueCount, byteCount } of counts) {
+    const values: number[] = [];
+    if (valueCount !== null) {
+      for (let i = 0; i < valueCount * definition.valuesPerEntry; i++) {
+        const { value, size } = readVarLen(record, pos);
+        values.push(value);
+        pos += size;
+      }
+    } else if (byteCount !== null) {
+      for (let consumed = 0; consumed < byteCount;) {
+        const { value, size } = readVarLen(record, pos);
+        values.push(value);
+        pos += size;
+        consumed += size;
+      }
+    }
+    tags.set(definition.tag, values);
+  }
+
+  return { name, tags };
+}
+
+/**
+ * Split the decompressed text into flows using the FDST record.
+ * Flow 0 is the book's markup; without an FDST the whole text is one flow.
+ */
+export function splitFlows(text: Uint8Array, fdstRecord: Uint8Array | null): Uint8Array[] {
+  if (!fdstRecord || readMagic(fdstRecord) !== 'FDST') {
+    return [text];
+  }
+
+  const view = toDataView(fdstRecord);
+  const tableOffset = view.getUint32(4, false);
+  const flowCount = view.getUint32(8, false);
+  const flows: Uint8Array[] = [];
+  for (let i = 0; i < flowCount; i++) {
+    const start = view.getUint32(tableOffset + i * 8, false);
+    const end = view.getUint32(tableOffset + i * 8 + 4, false);
+    flows.push(text.subarray(start, Math.min(end, text.length)));
+  }
+  return flows.length > 0 ? flows : [text];
+}
+
+/**
+ * Reassemble the XHTML files from the skeleton and fragment indexes.
+ * Each skeleton is stored followed by its fragments; fragments are inserted
+ * in order, each at an offset that accounts for the ones before it.
+ */
+export function assembleParts(text: Uint8Array, skeletons: IndexTable, fragments: IndexTable): Kf8Text {
+  const fragmentTable = fragments.entries.map(entry => {
+    const [offset = 0, length = 0] = entry.tags.get(TAG_POSITION) ?? [];
+    return { insertOffset: parseInt(entry.name, 10), offset, length };
+  });
+
+  const parts: Kf8Part[] = [];
+  const fragmentParts: Fragment[] = [];
+  let nextFragment = 0;
+
+  for (const skeleton of skeletons.entries) {
+    const fragmentCount = skeleton.tags.get(TAG_FRAGMENT_COUNT)?.[0] ?? 0;
+    const [start = 0, skeletonLength = 0] = skeleton.tags.get(TAG_POSITION) ?? [];
+    const partFragments = fragmentTable.slice(nextFragment, nextFragment + fragmentCount);
+    nextFragment += fragmentCount;
+
+    let content = text.subarray(start, start + skeletonLength);
+    for (const fragment of partFragments) {
+      const insertAt = Math.max(0, Math.min(fragment.insertOffset - start, content.length));
+      const fragmentStart = start + skeletonLength + fragment.offset;
+      content = concatBytes([
+        content.subarray(0, insertAt),
+        text.subarray(fragmentStart, fragmentStart + fragment.length),
+        content.subarray(insertAt),
+      ]);
+      fragmentParts.push({ insertOffset: fragment.insertOffset, partIndex: parts.length });
+    }
+
+    parts.push({ start, content });
+  }
+
+  return { parts, fragments: fragmentParts };
+}
+
+/**
+ * Find the part and offset within it for a "kindle:pos:fid:XXXX:off:YYYY" target
+ */
+function resolvePosition(kf8: Kf8Text, fragmentId: number, offset: number): { partIndex: number; offset: number } | null {
+  const fragment = kf8.fragments[fragmentId];
+  if (!fragment) return null;
+
+  const part = kf8.parts[fragment.partIndex];
+  const position = fragment.insertOffset + offset - part.start;
+  return position >= 0 && position <= part.content.length
+    ? { partIndex: fragment.partIndex, offset: position }
+    : null;
+}
+
+/** Find the part holding a text offset */
+function findPartAt(kf8: Kf8Text, position: number): number {
+  return kf8.parts.findIndex(part => position >= part.start && position < part.start + part.content.length);
+}
+
+const POS_LINK_PATTERN = /kindle:pos:fid:([0-9a-v]+):off:([0-9a-v]+)/gi;
+
+/**
+ * Decode the parts, turning kindle:pos links into fragment links.
+ * An anchor is inserted at each link target so footnote detection can follow
+ * the link; targets in other parts are prefixed with that part's key.
+ */
+export function decodeParts(kf8: Kf8Text, decoder: TextDecoder): string[] {
+  // Windows-1252 maps each byte to one character, so string indices are byte offsets
+  const byteText = new TextDecoder('windows-1252');
+  const contents = kf8.parts.map(part => byteText.decode(part.content));
+  const targets = new Map<string, { partIndex: number; id: string }>();
+  const anchors = kf8.parts.map(() => new Map<number, string>());
+
+  for (const content of contents) {
+    for (const match of content.matchAll(POS_LINK_PATTERN)) {
+      const key = `${parseInt(match[1], 32)}-${parseInt(match[2], 32)}`;
+      if (targets.has(key)) continue;
+
+      const target = resolvePosition(kf8, parseInt(match[1], 32), parseInt(match[2], 32));
+      if (!target) continue;
+
+      // A target inside a tag moves past it, so the anchor lands in that element
+      const targetContent = contents[target.partIndex];
+      const nextOpen = targetContent.indexOf('<', target.offset);
+      const nextClose = targetContent.indexOf('>', target.offset);
+      const anchorOffset = nextClose !== -1 && (nextOpen === target.offset || nextOpen === -1 || nextClose < nextOpen)
+        ? nextClose + 1
+        : target.offset;
+
+      // Links to the same spot share one anchor
+      const partAnchors = anchors[target.partIndex];
+      const id = partAnchors.get(anchorOffset) ?? `${KF8_POS_PREFIX}-${key}`;
+      partAnchors.set(anchorOffset, id);
+      targets.set(key, { partIndex: target.partIndex, id });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  return kf8.parts.map((part, partIndex) => {
+    // Insert anchors from the end so earlier offsets stay valid
+    const pieces: Uint8Array[] = [];
+    let end = part.content.length;
+    for (const [offset, id] of Array.from(anchors[partIndex]).sort((a, b) => b[0] - a[0])) {
+      pieces.unshift(encoder.encode(`<a id="${id}"></a>`), part.content.subarray(offset, end));
+      end = offset;
+    }
+    pieces.unshift(part.content.subarray(0, end));
+
+    return decoder.decode(concatBytes(pieces)).replace(POS_LINK_PATTERN, (link, fid: string, off: string) => {
+      const target = targets.get(`${parseInt(fid, 32)}-${parseInt(off, 32)}`);
+      return target ? `${KF8_PART_PREFIX}${target.partIndex}#${target.id}` : link;
+    });
+  });
+}
+
+/**
+ * Read the table of contents from the NCX index.
+ * Entries point at a fragment (tag 6) or, in older files, a text offset (tag 1).
+ */
+export function readNcx(ncx: IndexTable, kf8: Kf8Text): Kf8TocEntry[] {
+  const entries: Kf8TocEntry[] = [];
+
+  for (const entry of ncx.entries) {
+    const labelOffset = entry.tags.get(TAG_NCX_LABEL)?.[0];
+    const label = labelOffset !== undefined ? ncx.strings.get(labelOffset)?.trim() : undefined;
+    if (!label) continue;
+
+    const [fragmentId, offset] = entry.tags.get(TAG_POSITION) ?? [];
+    const textOffset = entry.tags.get(TAG_NCX_OFFSET)?.[0];
+    const partIndex = fragmentId !== undefined
+      ? resolvePosition(kf8, fragmentId, offset ?? 0)?.partIndex ?? -1
+      : textOffset !== undefined ? findPartAt(kf8, textOffset) : -1;
+    if (partIndex < 0) continue;
+
+    entries.push({ label, depth: entry.tags.get(TAG_NCX_DEPTH)?.[0] ?? 0, partIndex });
+  }
+
+  return entries;
+}
@@ -5,11 +5,13 @@
  * It uses the 'marked' library for markdown parsing, which is lightweight (~35KB).
  * 
  * IMPORTANT: This module must NOT import from other src/ modules that may have
- * heavy transitive dependencies. All utilities are inlined here.
+ * heavy transitive dependencies. All utilities are inlined here, except for
+ * inline-spans which is dependency-free.
  */
 
 import { marked, type Token } from 'marked';
-import type { Block, FlowDocument, HeadingBlock, ParagraphBlock, ListBlock, QuoteBlock, CodeBlock } from '@/types';
+import type { Block, FlowDocument, HeadingBlock, ParagraphBlock, ListBlock, QuoteBlock, CodeBlock, InlineMark, InlineSpan } from '@/types';
+import { appendSpan, createSpan, hasFormatting, isSafeHref, trimSpans, type BlockText } from './inline-spans';
 
 /** Type alias for marked tokens */
 type MarkedToken = Token;
@@ -40,7 +42,7 @@ function computeTextHash(text: string): string {
  * Convert plain text into paragraph blocks.
  * Splits on double newlines to create paragraphs.
  */
-function textToParagraphBlocks(text: string): Block[] {
+export function textToParagraphBlocks(text: string): Block[] {
   return text
     .split(/\n\n+/)
     .map(p => p.trim())
@@ -56,9 +58,11 @@ function textToParagraphBlocks(text: string): Block[] {
  * Get plain text from an array of blocks.
  */
 function getPlainText(blocks: Block[]): string {
-  return blocks.map(block => 
-    block.type === 'list' ? block.items.join(' ') : block.content
-  ).join(' ');
+  return blocks.map(block => {
+    if (block.type === 'figure') return '';
+    if (block.type === 'table') return [...block.headerRows, ...block.rows].flat().join(' ');
+    return block.type === 'list' ? block.items.join(' ') : block.content;
+  }).join(' ');
 }
 
 /**
@@ -141,11 +145,87 @@ function extractTextFromTokens(tokens: MarkedToken[]): string {
   return parts.join(' ').trim();
 }
 
+/**
+ * Quote text from its nested paragraphs, joined with spaces like extractTextFromTokens
+ */
+function getQuoteText(tokens: MarkedToken[]): BlockText {
+  const fallback = extractTextFromTokens(tokens);
+  const spans: InlineSpan[] = [];
+
+  for (const [index, token] of tokens.filter(token => token.type !== 'space').entries()) {
+    const runs: InlineSpan[] = [];
+    if (token.type !== 'paragraph' || !collectTokenSpans(token.tokens ?? [], runs)) return { content: fallback };
+    if (index > 0) appendSpan(spans, { text: ' ' });
+    trimSpans(runs).forEach(span => appendSpan(spans, span));
+  }
+
+  return hasFormatting(spans) ? { content: spans.map(span => span.text).join(''), spans } : { content: fallback };
+}
+
+/**
+ * Collect formatted runs from marked inline tokens.
+ * Returns false if the tokens hold nested blocks (e.g. a sublist) that runs can't express.
+ */
+function collectTokenSpans(tokens: MarkedToken[], spans: InlineSpan[], marks: InlineMark[] = [], href?: string): boolean {
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+        if (token.tokens) {
+          if (!collectTokenSpans(token.tokens, spans, marks, href)) return false;
+        } else {
+          appendSpan(spans, createSpan(token.text, marks, href));
+        }
+        break;
+      case 'escape':
+        appendSpan(spans, createSpan(token.text, marks, href));
+        break;
+      case 'codespan':
+        appendSpan(spans, createSpan(token.text, [...marks, 'code'], href));
+        break;
+      case 'em':
+      case 'strong':
+        if (!collectTokenSpans(token.tokens ?? [], spans, [...marks, token.type], href)) return false;
+        break;
+      case 'del':
+      case 'paragraph':
+        if (!collectTokenSpans(token.tokens ?? [], spans, marks, href)) return false;
+        break;
+      case 'link':
+        if (!collectTokenSpans(token.tokens ?? [], spans, marks, isSafeHref(token.href) ? token.href : href)) return false;
+        break;
+      case 'image':
+        appendSpan(spans, createSpan(token.text, marks, href));
+        break;
+      case 'br':
+        appendSpan(spans, createSpan('\n', marks, href));
+        break;
+      case 'html':
+        // Inline HTML tags carry no readable text
+        break;
+      default:
+        return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Block text from marked tokens. Formatted text is taken from the runs;
+ * plain text keeps the regex-stripped fallback.
+ */
+function getTokenText(tokens: MarkedToken[] | undefined, fallback: string): BlockText {
+  const spans: InlineSpan[] = [];
+  if (!tokens || !collectTokenSpans(tokens, spans)) return { content: fallback };
+  const trimmed = trimSpans(spans);
+  if (!hasFormatting(trimmed)) return { content: fallback };
+  return { content: trimmed.map(span => span.text).join(''), spans: trimmed };
+}
+
 /**
  * Parse markdown text into FlowReader blocks.
  * Uses the marked library for parsing, then converts tokens to blocks.
  */
-function parseMarkdownToBlocks(text: string): { blocks: Block[]; title: string | null } {
+export function parseMarkdownToBlocks(text: string): { blocks: Block[]; title: string | null } {
   const tokens = marked.lexer(text);
   
   const blocks: Block[] = [];
@@ -158,13 +238,13 @@ function parseMarkdownToBlocks(text: string): { blocks: Block[]; title: string |
         const headingBlock: HeadingBlock = {
           type: 'heading',
           level: token.depth as 1 | 2 | 3 | 4 | 5 | 6,
-          content: stripInlineMarkdown(token.text),
+          ...getTokenText(token.tokens, stripInlineMarkdown(token.text)),
           id: `block-${blockIndex++}`,
         };
         blocks.push(headingBlock);
         // Use first h1 as document title
         if (token.depth === 1 && !title) {
-          title = stripInlineMarkdown(token.text);
+          title = headingBlock.content;
         }
         break;
       }
@@ -172,7 +252,7 @@ function parseMarkdownToBlocks(text: string): { blocks: Block[]; title: string |
       case 'paragraph': {
         const paragraphBlock: ParagraphBlock = {
           type: 'paragraph',
-          content: stripInlineMarkdown(token.text),
+          ...getTokenText(token.tokens, stripInlineMarkdown(token.text)),
           id: `block-${blockIndex++}`,
         };
         blocks.push(paragraphBlock);
@@ -180,23 +260,26 @@ function parseMarkdownToBlocks(text: string): { blocks: Block[]; title: string |
       }
       
       case 'list': {
-        const items = token.items.map((item: { text: string }) => stripInlineMarkdown(item.text));
+        const texts: BlockText[] = token.items.map((item: { text: string; tokens: MarkedToken[] }) =>
+          getTokenText(item.tokens, stripInlineMarkdown(item.text)));
         const listBlock: ListBlock = {
           type: 'list',
           ordered: token.ordered,
-          items,
+          items: texts.map(text => text.content),
           id: `block-${blockIndex++}`,
         };
+        if (texts.some(text => text.spans)) {
+          listBlock.itemSpans = texts.map(text => text.spans ?? [{ text: text.content }]);
+        }
         blocks.push(listBlock);
         break;
       }
       
       case 'blockquote': {
         // Blockquote may contain nested tokens - extract text
-        const quoteText = extractTextFromTokens(token.tokens || []);
         const quoteBlock: QuoteBlock = {
           type: 'quote',
-          content: quoteText,
+          ...getQuoteText(token.tokens || []),
           id: `block-${blockIndex++}`,
         };
         blocks.push(quoteBlock);
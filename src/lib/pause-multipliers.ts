@@ -24,6 +24,8 @@ export const PAUSE = {
   
   // Paragraph transitions
   PARAGRAPH_END: 3.0,
+  LIST_ITEM_END: 2.0,     // between list items
+  TABLE_ROW_END: 2.0,     // between table rows
   
   // No pause
   NONE: 1.0,
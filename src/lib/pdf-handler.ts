@@ -1,20 +1,40 @@
 import type { FlowDocument, Block, HeadingBlock, ParagraphBlock, ListBlock } from '@/types';
 import { createDocument } from './block-utils';
 import { computeFileHash } from './file-utils';
+import { analyzeLayout } from './pdf-layout';
+import { buildPdfBook, getOutlineEntries } from './pdf-outline';
 
 // Constants for structure detection
 const HEADING_FONT_RATIO_THRESHOLD = 1.15; // Font must be 15% larger than body to be a heading
 const BULLET_PATTERNS = /^[\u2022\u2023\u25E6\u2043\u2219\u25AA\u25AB\u25CF\u25CB\u25A0\u25A1\u2013\u2014•◦‣⁃-]\s+/;
 const NUMBERED_PATTERN = /^(\d+[\.\):]|\([a-z\d]+\)|[a-z][\.\)])\s+/i;
+const COLUMN_GAP_RATIO = 1.5; // A gap wider than this many font sizes separates columns
 
 // PDF.js types
-interface PDFDocumentProxy {
+export interface PDFDocumentProxy {
   numPages: number;
   getPage(pageNum: number): Promise<PDFPageProxy>;
+  getOutline(): Promise<OutlineNode[] | null>;
+  getDestination(id: string): Promise<unknown[] | null>;
+  getPageIndex(ref: unknown): Promise<number>;
 }
 
-interface PDFPageProxy {
+/** Document outline (bookmarks) entry */
+export interface OutlineNode {
+  title: string;
+  dest: string | unknown[] | null;  // Named or explicit destination
+  items: OutlineNode[];
+}
+
+export interface PDFPageProxy {
   getTextContent(): Promise<TextContent>;
+  getViewport(params: { scale: number }): PageViewport;
+  render(params: { canvas: HTMLCanvasElement; viewport: PageViewport }): { promise: Promise<void> };
+}
+
+interface PageViewport {
+  width: number;
+  height: number;
 }
 
 interface TextContent {
@@ -26,27 +46,51 @@ interface TextItem {
   hasEOL?: boolean;
   height?: number;           // Font size (height of text)
   transform?: number[];      // Transformation matrix [scaleX, skewX, skewY, scaleY, x, y]
+  width?: number;            // Advance width of the text
   fontName?: string;         // Font identifier
 }
 
 /** Represents a line of text with metadata for structure detection */
-interface TextLine {
+export interface TextLine {
   text: string;
   fontSize: number;
   isBold: boolean;
   isNumberedListItem: boolean;
   isBulletListItem: boolean;
   isEmptyLine: boolean;  // Track paragraph breaks
+  position?: LinePosition; // Absent for empty lines and OCR output
+  pageIndex?: number;      // Page the line is on (0-based)
+}
+
+/** Where a line sits on its page, in PDF units (y grows upwards) */
+export interface LinePosition {
+  x: number;
+  y: number;
+  width: number;
 }
 
 /** Specific error types for PDF extraction failures */
 export type PdfErrorType = 
-  | 'no-text-layer'      // Scanned PDF without OCR
+  | 'no-text-layer'      // Scanned PDF and OCR found no text either
   | 'corrupted'          // Invalid or damaged PDF
   | 'password-protected' // PDF requires password
   | 'empty'              // PDF has no pages
+  | 'cancelled'          // User cancelled the import (during OCR)
   | 'unknown';           // Other errors
 
+/** Progress of the OCR fallback, reported once per page */
+export interface OcrProgress {
+  page: number;
+  totalPages: number;
+}
+
+export interface PdfExtractionOptions {
+  /** Called as each page is recognized when the PDF has no text layer */
+  onOcrProgress?: (progress: OcrProgress) => void;
+  /** Aborts OCR; extraction then rejects with a 'cancelled' error */
+  signal?: AbortSignal;
+}
+
 export class PdfExtractionError extends Error {
   constructor(
     message: string,
@@ -59,9 +103,34 @@ export class PdfExtractionError extends Error {
 }
 
 /**
- * Extract text content from a PDF file
+ * Build a text line, detecting list markers from its text
+ */
+export function createTextLine(
+  text: string,
+  fontSize: number,
+  isBold: boolean,
+  position?: LinePosition
+): TextLine {
+  const trimmed = text.trim();
+  return {
+    text: trimmed,
+    fontSize,
+    isBold,
+    isBulletListItem: trimmed.length > 0 && BULLET_PATTERNS.test(trimmed),
+    isNumberedListItem: trimmed.length > 0 && NUMBERED_PATTERN.test(trimmed),
+    isEmptyLine: trimmed.length === 0,
+    ...(position && { position }),
+  };
+}
+
+/**
+ * Extract text content from a PDF file.
+ * PDFs without a text layer (scans) fall back to on-device OCR.
  */
-export async function extractFromPdf(file: File): Promise<FlowDocument> {
+export async function extractFromPdf(
+  file: File,
+  options: PdfExtractionOptions = {}
+): Promise<FlowDocument> {
   // Dynamically import PDF.js
   let pdfjsLib;
   try {
@@ -115,96 +184,161 @@ export async function extractFromPdf(file: File): Promise<FlowDocument> {
     );
   }
 
-  // Collect all text items with their font info
-  const allTextLines: TextLine[] = [];
-
-  // Extract text from each page with font metadata
+  // Extract text from each page with font and position metadata
+  let pages: TextLine[][] = [];
   for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
     const page = await pdf.getPage(pageNum);
-    const textContent = await page.getTextContent();
-
-    let currentLine = '';
-    let currentFontSize = 0;
-    let currentFontName = '';
-    let itemCount = 0;
-
-    for (const item of textContent.items) {
-      const textItem = item as TextItem;
-      const text = textItem.str;
-      
-      // Get font size from height or transform matrix
-      const fontSize = textItem.height ?? 
-        (textItem.transform ? Math.abs(textItem.transform[3]) : 12);
-      const fontName = textItem.fontName ?? '';
-
-      // Accumulate font size weighted by text length for averaging
-      if (itemCount === 0 || currentFontSize === 0) {
-        currentFontSize = fontSize;
-        currentFontName = fontName;
-      }
-      
-      currentLine += text;
-      itemCount++;
-
-      // End of line - save it
-      if (textItem.hasEOL) {
-        const trimmedLine = currentLine.trim();
-        // Track both content lines and empty lines (for paragraph breaks)
-        allTextLines.push({
-          text: trimmedLine,
-          fontSize: currentFontSize,
-          isBold: fontName.toLowerCase().includes('bold'),
-          isBulletListItem: trimmedLine.length > 0 && BULLET_PATTERNS.test(trimmedLine),
-          isNumberedListItem: trimmedLine.length > 0 && NUMBERED_PATTERN.test(trimmedLine),
-          isEmptyLine: trimmedLine.length === 0,
-        });
-        currentLine = '';
-        currentFontSize = 0;
-        currentFontName = '';
-        itemCount = 0;
-      }
-    }
+    pages.push(extractPageLines(await page.getTextContent()));
+  }
 
-    // Don't forget the last line if it didn't end with EOL
-    const trimmedLine = currentLine.trim();
-    if (trimmedLine.length > 0) {
-      allTextLines.push({
-        text: trimmedLine,
-        fontSize: currentFontSize,
-        isBold: currentFontName.toLowerCase().includes('bold'),
-        isBulletListItem: BULLET_PATTERNS.test(trimmedLine),
-        isNumberedListItem: NUMBERED_PATTERN.test(trimmedLine),
-        isEmptyLine: false,
-      });
-    }
+  // No text layer - probably a scan, so recognize the rendered pages instead
+  if (!pages.some(hasText)) {
+    pages = await recognizePages(pdf, options);
   }
 
+  // Restore reading order and drop running headers/footers before structure detection
+  const allTextLines = analyzeLayout(
+    pages.map((lines, pageIndex) => lines.map(line => ({ ...line, pageIndex })))
+  );
+
   // Check if we got any text (filter out empty lines for this check)
-  if (allTextLines.filter(l => !l.isEmptyLine).length === 0) {
+  if (!hasText(allTextLines)) {
     throw new PdfExtractionError(
       'No text could be extracted from this PDF. ' +
-      'This may be a scanned document without a text layer. ' +
-      'OCR support is not available in this version.',
+      'It may be a scanned document with no recognizable text.',
       'no-text-layer'
     );
   }
 
   // Analyze font sizes to determine structure
-  const blocks = analyzeAndCreateBlocks(allTextLines);
+  const { blocks, blockPages } = analyzeAndCreateBlocks(allTextLines);
+
+  // Split into chapters along the outline (or large headings) for TOC navigation
+  const book = buildPdfBook(blocks, blockPages, await getOutlineEntries(pdf));
 
   const fileHash = await computeFileHash(file);
 
-  return createDocument(blocks, {
+  const metadata = {
     title: file.name.replace(/\.pdf$/i, ''),
-    source: 'pdf',
+    source: 'pdf' as const,
     fileHash,
-  });
+  };
+
+  if (!book) {
+    return createDocument(blocks, metadata);
+  }
+
+  // The main blocks are the first chapter's blocks (will be updated when navigating)
+  return {
+    ...createDocument(book.chapters[0].blocks, metadata),
+    book,
+  };
 }
 
 /**
- * Analyze text lines and create structured blocks
+ * Group a page's text items into lines.
+ * Lines end at pdf.js end-of-line markers, and also where a wide horizontal
+ * gap on the same baseline shows the text jumped to another column.
  */
-function analyzeAndCreateBlocks(lines: TextLine[]): Block[] {
+function extractPageLines(textContent: TextContent): TextLine[] {
+  const lines: TextLine[] = [];
+
+  let currentLine = '';
+  let currentFontSize = 0;
+  let currentFontName = '';
+  let itemCount = 0;
+  // Horizontal extent and baseline of the line's visible text
+  let lineLeft = Infinity;
+  let lineRight = -Infinity;
+  let lineY = 0;
+
+  const pushLine = (isBold: boolean) => {
+    const position = lineLeft <= lineRight
+      ? { x: lineLeft, y: lineY, width: lineRight - lineLeft }
+      : undefined;
+    lines.push(createTextLine(currentLine, currentFontSize, isBold, position));
+    currentLine = '';
+    currentFontSize = 0;
+    currentFontName = '';
+    itemCount = 0;
+    lineLeft = Infinity;
+    lineRight = -Infinity;
+  };
+
+  for (const item of textContent.items) {
+    const textItem = item as TextItem;
+    const text = textItem.str;
+    
+    // Get font size from height or transform matrix
+    const fontSize = textItem.height ?? 
+      (textItem.transform ? Math.abs(textItem.transform[3]) : 12);
+    const fontName = textItem.fontName ?? '';
+
+    if (textItem.transform && text.trim()) {
+      const x = textItem.transform[4];
+      const y = textItem.transform[5];
+      const isSameBaseline = Math.abs(y - lineY) < fontSize / 2;
+
+      if (lineLeft <= lineRight && isSameBaseline && x - lineRight > fontSize * COLUMN_GAP_RATIO) {
+        pushLine(currentFontName.toLowerCase().includes('bold'));
+      }
+
+      if (lineLeft > lineRight) lineY = y;
+      lineLeft = Math.min(lineLeft, x);
+      lineRight = Math.max(lineRight, x + (textItem.width ?? 0));
+    }
+
+    // Accumulate font size weighted by text length for averaging
+    if (itemCount === 0 || currentFontSize === 0) {
+      currentFontSize = fontSize;
+      currentFontName = fontName;
+    }
+    
+    currentLine += text;
+    itemCount++;
+
+    // End of line - save it
+    if (textItem.hasEOL) {
+      // Track both content lines and empty lines (for paragraph breaks)
+      pushLine(fontName.toLowerCase().includes('bold'));
+    }
+  }
+
+  // Don't forget the last line if it didn't end with EOL
+  if (currentLine.trim().length > 0) {
+    pushLine(currentFontName.toLowerCase().includes('bold'));
+  }
+
+  return lines;
+}
+
+function hasText(lines: TextLine[]): boolean {
+  return lines.some(l => !l.isEmptyLine);
+}
+
+/**
+ * Run the OCR fallback, mapping engine failures to extraction errors
+ */
+async function recognizePages(pdf: PDFDocumentProxy, options: PdfExtractionOptions): Promise<TextLine[][]> {
+  try {
+    // Loaded on demand so the OCR engine stays out of the text-layer path
+    const { recognizePdfPages } = await import('./pdf-ocr');
+    return await recognizePdfPages(pdf, options);
+  } catch (error) {
+    if (error instanceof PdfExtractionError) throw error;
+    throw new PdfExtractionError(
+      'This PDF has no text layer and text recognition failed.',
+      'no-text-layer',
+      error
+    );
+  }
+}
+
+/**
+ * Analyze text lines and create structured blocks.
+ * Also returns the page each block starts on, for mapping the outline.
+ */
+function analyzeAndCreateBlocks(lines: TextLine[]): { blocks: Block[]; blockPages: number[] } {
   // Calculate the most common font size (body text) - only from non-empty lines
   const fontSizeCounts = new Map<number, number>();
   for (const line of lines) {
@@ -225,20 +359,28 @@ function analyzeAndCreateBlocks(lines: TextLine[]): Block[] {
   }
 
   const blocks: Block[] = [];
+  const blockPages: number[] = [];
   let blockIndex = 0;
   let pendingParagraph: string[] = [];
+  let pendingParagraphPage = 0;
   let pendingListItems: string[] = [];
   let pendingListOrdered = false;
+  let pendingListPage = 0;
+
+  const pushBlock = (block: Block, pageIndex: number) => {
+    blocks.push(block);
+    blockPages.push(pageIndex);
+  };
 
   const flushParagraph = () => {
     if (pendingParagraph.length > 0) {
       const content = pendingParagraph.join(' ').trim();
       if (content) {
-        blocks.push({
+        pushBlock({
           type: 'paragraph',
           content,
           id: `block-${blockIndex++}`,
-        } as ParagraphBlock);
+        } as ParagraphBlock, pendingParagraphPage);
       }
       pendingParagraph = [];
     }
@@ -246,17 +388,19 @@ function analyzeAndCreateBlocks(lines: TextLine[]): Block[] {
 
   const flushList = () => {
     if (pendingListItems.length > 0) {
-      blocks.push({
+      pushBlock({
         type: 'list',
         ordered: pendingListOrdered,
         items: pendingListItems,
         id: `block-${blockIndex++}`,
-      } as ListBlock);
+      } as ListBlock, pendingListPage);
       pendingListItems = [];
     }
   };
 
   for (const line of lines) {
+    const pageIndex = line.pageIndex ?? 0;
+
     // Empty lines indicate paragraph breaks
     if (line.isEmptyLine) {
       flushParagraph();
@@ -281,6 +425,7 @@ function analyzeAndCreateBlocks(lines: TextLine[]): Block[] {
       }
       
       pendingListOrdered = isCurrentlyOrdered;
+      if (pendingListItems.length === 0) pendingListPage = pageIndex;
       
       // Remove the bullet/number prefix
       let itemText = line.text;
@@ -312,16 +457,17 @@ function analyzeAndCreateBlocks(lines: TextLine[]): Block[] {
         level = 4;
       }
 
-      blocks.push({
+      pushBlock({
         type: 'heading',
         level,
         content: line.text,
         id: `block-${blockIndex++}`,
-      } as HeadingBlock);
+      } as HeadingBlock, pageIndex);
       continue;
     }
 
     // Regular paragraph text - accumulate
+    if (pendingParagraph.length === 0) pendingParagraphPage = pageIndex;
     pendingParagraph.push(line.text);
   }
 
@@ -329,7 +475,7 @@ function analyzeAndCreateBlocks(lines: TextLine[]): Block[] {
   flushList();
   flushParagraph();
 
-  return blocks;
+  return { blocks, blockPages };
 }
 
 /**
@@ -0,0 +1,232 @@
+/**
+ * Layout analysis for PDF text
+ *
+ * pdf.js returns text in content-stream order. On multi-column pages that can
+ * alternate between columns, and running headers, footers and page numbers
+ * end up in the middle of paragraphs. This stage works on each page's lines
+ * before structure detection:
+ * 1. Remove page furniture (headers/footers repeated across pages, page numbers)
+ * 2. Cluster lines into columns by x-position and read them column by column
+ * 3. Re-join words hyphenated across line, column and page breaks
+ */
+
+import type { TextLine } from './pdf-handler';
+
+// Lines at the top and bottom of each page checked for page furniture
+const EDGE_LINE_COUNT = 2;
+// Share of pages an edge line must repeat on to count as a running header/footer
+// (below half, so alternating even/odd page headers are still caught)
+const FURNITURE_REPEAT_RATIO = 0.4;
+// Fewer pages than this aren't enough evidence that a line is a running header
+const MIN_FURNITURE_PAGES = 3;
+// "12", "- 12 -", "Page 3 of 10", "xiv"
+const PAGE_NUMBER_PATTERN = /^[-–—]?\s*(page\s+)?(\d+|(?=[clxvi])c{0,3}(xc|xl|l?x{0,3})(ix|iv|v?i{0,3}))(\s*(of|\/)\s*\d+)?\s*[-–—]?$/i;
+
+// Lines wider than this share of the text area span columns (titles, abstracts)
+const SPANNING_LINE_RATIO = 0.6;
+// Resolution of the horizontal coverage histogram used to find gutters
+const COLUMN_BIN_COUNT = 100;
+// Minimum lines on each side of a gutter for it to separate real columns
+const MIN_COLUMN_LINES = 3;
+
+// A letter followed by a hyphen (or soft hyphen) at the end of a line
+const HYPHENATED_END = /\p{L}[-\u00AD]$/u;
+const LOWERCASE_START = /^\p{Ll}/u;
+
+/**
+ * Run layout analysis over a document's pages and return its lines in reading order
+ */
+export function analyzeLayout(pages: TextLine[][]): TextLine[] {
+  const repeatedFurniture = findRepeatedFurniture(pages);
+  const ordered = pages.flatMap(page =>
+    orderByColumns(removePageFurniture(page, repeatedFurniture))
+  );
+  return joinHyphenatedWords(ordered);
+}
+
+/**
+ * Normalize a line so running headers match across pages: page and chapter
+ * numbers differ from page to page, the rest of the text doesn't
+ */
+function getFurnitureKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get the topmost and bottommost content lines of a page.
+ * Uses positions when available, since headers aren't always first in the stream.
+ */
+function getEdgeLines(page: TextLine[]): Set<TextLine> {
+  const content = page.filter(line => !line.isEmptyLine);
+  if (content.every(line => line.position)) {
+    content.sort((a, b) => b.position!.y - a.position!.y);
+  }
+  return new Set([
+    ...content.slice(0, EDGE_LINE_COUNT),
+    ...content.slice(-EDGE_LINE_COUNT),
+  ]);
+}
+
+function findRepeatedFurniture(pages: TextLine[][]): Set<string> {
+  const repeated = new Set<string>();
+  if (pages.length < MIN_FURNITURE_PAGES) return repeated;
+
+  // Count each key once per page
+  const pageCounts = new Map<string, number>();
+  for (const page of pages) {
+    const keys = new Set([...getEdgeLines(page)].map(line => getFurnitureKey(line.text)));
+    for (const key of keys) {
+      pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(MIN_FURNITURE_PAGES, Math.ceil(pages.length * FURNITURE_REPEAT_RATIO));
+  for (const [key, count] of pageCounts) {
+    if (count >= threshold) repeated.add(key);
+  }
+  return repeated;
+}
+
+function removePageFurniture(page: TextLine[], repeatedFurniture: Set<string>): TextLine[] {
+  const edgeLines = getEdgeLines(page);
+  return page.filter(line =>
+    !edgeLines.has(line) ||
+    (!PAGE_NUMBER_PATTERN.test(line.text) && !repeatedFurniture.has(getFurnitureKey(line.text)))
+  );
+}
+
+/**
+ * Find the x-positions of column gutters on a page.
+ * Builds a histogram of how many column-width lines cover each slice of the
+ * text area; gutters are empty runs with enough lines on both sides.
+ */
+function findColumnBoundaries(lines: TextLine[]): number[] {
+  const left = Math.min(...lines.map(line => line.position!.x));
+  const right = Math.max(...lines.map(line => line.position!.x + line.position!.width));
+  const textWidth = right - left;
+  if (textWidth <= 0) return [];
+
+  // Most lines of a multi-column page are narrow; a single-column page is mostly full-width
+  const columnLines = lines.filter(line => line.position!.width <= textWidth * SPANNING_LINE_RATIO);
+  if (columnLines.length < lines.length / 2) return [];
+
+  const binWidth = textWidth / COLUMN_BIN_COUNT;
+  const toBin = (x: number) => Math.min(COLUMN_BIN_COUNT - 1, Math.floor((x - left) / binWidth));
+  const coverage = new Array<number>(COLUMN_BIN_COUNT).fill(0);
+  for (const line of columnLines) {
+    const { x, width } = line.position!;
+    for (let bin = toBin(x); bin <= toBin(x + width); bin++) {
+      coverage[bin]++;
+    }
+  }
+
+  // Tolerate the odd line crossing the gutter (a centered caption or equation)
+  const noise = Math.floor(columnLines.length * 0.02);
+  const boundaries: number[] = [];
+  let runStart = -1;
+  for (let bin = 0; bin < COLUMN_BIN_COUNT; bin++) {
+    if (coverage[bin] <= noise) {
+      if (runStart === -1) runStart = bin;
+      continue;
+    }
+    if (runStart > 0) {
+      const boundary = left + ((runStart + bin) / 2) * binWidth;
+      const before = columnLines.filter(line => line.position!.x + line.position!.width < boundary).length;
+      const after = columnLines.filter(line => line.position!.x > boundary).length;
+      if (before >= MIN_COLUMN_LINES && after >= MIN_COLUMN_LINES) {
+        boundaries.push(boundary);
+      }
+    }
+    runStart = -1;
+  }
+  return boundaries;
+}
+
+/**
+ * Reorder a page so columns are read one after another.
+ * Lines spanning the gutter (titles, full-width figures) split the page into
+ * bands; within each band the columns are read left to right, top to bottom.
+ * Empty lines travel with the line before them so paragraph breaks are kept.
+ */
+function orderByColumns(page: TextLine[]): TextLine[] {
+  const content = page.filter(line => !line.isEmptyLine);
+  if (content.length === 0 || !content.every(line => line.position)) return page;
+
+  const boundaries = findColumnBoundaries(content);
+  if (boundaries.length === 0) return page;
+
+  // Group each content line with the empty lines that follow it
+  const leading: TextLine[] = [];
+  const units: TextLine[][] = [];
+  for (const line of page) {
+    if (!line.isEmptyLine) units.push([line]);
+    else if (units.length > 0) units[units.length - 1].push(line);
+    else leading.push(line);
+  }
+
+  // Top of the page first (PDF y grows upwards); sort is stable for equal baselines
+  units.sort((a, b) => b[0].position!.y - a[0].position!.y);
+
+  const ordered: TextLine[] = [...leading];
+  const columns: TextLine[][][] = Array.from({ length: boundaries.length + 1 }, () => []);
+  const flushBand = () => {
+    for (const column of columns) {
+      for (const unit of column.splice(0)) ordered.push(...unit);
+    }
+  };
+
+  for (const unit of units) {
+    const { x, width } = unit[0].position!;
+    if (boundaries.some(boundary => x < boundary && x + width > boundary)) {
+      flushBand();
+      ordered.push(...unit);
+    } else {
+      columns[boundaries.filter(boundary => boundary <= x).length].push(unit);
+    }
+  }
+  flushBand();
+
+  return ordered;
+}
+
+/**
+ * Re-join words split with a hyphen at the end of a line.
+ * The word may continue after a column or page break, so empty lines in
+ * between are dropped; the continuation must start in lowercase so that
+ * dashes before a new sentence or list item are left alone.
+ */
+function joinHyphenatedWords(lines: TextLine[]): TextLine[] {
+  const result: TextLine[] = [];
+  const remaining = [...lines];
+
+  for (let i = 0; i < remaining.length; i++) {
+    let line = remaining[i];
+    if (line.isEmptyLine || !HYPHENATED_END.test(line.text)) {
+      result.push(line);
+      continue;
+    }
+
+    let next = i + 1;
+    while (next < remaining.length && remaining[next].isEmptyLine) next++;
+
+    const continuation = remaining[next];
+    if (!continuation || !LOWERCASE_START.test(continuation.text)) {
+      result.push(line);
+      continue;
+    }
+
+    const [, word, rest] = continuation.text.match(/^(\S+)\s*(.*)$/)!;
+    line = { ...line, text: line.text.slice(0, -1) + word };
+    result.push(line);
+
+    // Skip the breaks in between and continue from what's left of the next line
+    if (rest) {
+      remaining[next] = { ...continuation, text: rest };
+      i = next - 1;
+    } else {
+      i = next;
+    }
+  }
+
+  return result;
+}
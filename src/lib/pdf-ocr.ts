@@ -0,0 +1,139 @@
+/**
+ * OCR fallback for scanned PDFs
+ *
+ * Pages are rasterised with pdf.js and recognized by the Tesseract WASM
+ * engine, which runs in its own worker. The engine, its cores and the
+ * English model ship with the extension under ocr/ (see vite.config.ts),
+ * so nothing is fetched from the network.
+ */
+
+import { createWorker, OEM } from 'tesseract.js';
+import type { Worker as OcrWorker, Line, Page } from 'tesseract.js';
+import {
+  createTextLine,
+  PdfExtractionError,
+  type PDFDocumentProxy,
+  type PdfExtractionOptions,
+  type TextLine,
+} from './pdf-handler';
+
+// PDF user space is 72 units per inch; Tesseract is tuned for ~300 DPI scans
+const OCR_RENDER_SCALE = 300 / 72;
+// Keep very large pages within canvas limits and a reasonable memory budget
+const MAX_CANVAS_DIMENSION = 4096;
+// Lines recognized with lower confidence are mostly noise (specks, stamps)
+const MIN_LINE_CONFIDENCE = 40;
+
+/**
+ * Recognize the text of every page, returning each page's lines for layout
+ * analysis and structure detection. Rejects with a 'cancelled' PdfExtractionError when the signal aborts.
+ */
+export async function recognizePdfPages(
+  pdf: PDFDocumentProxy,
+  options: PdfExtractionOptions = {}
+): Promise<TextLine[][]> {
+  const { onOcrProgress, signal } = options;
+  throwIfCancelled(signal);
+
+  const worker = await createOcrWorker();
+
+  // Terminating the worker rejects the page currently being recognized
+  let isTerminated = false;
+  const handleAbort = () => {
+    isTerminated = true;
+    void worker.terminate();
+  };
+  signal?.addEventListener('abort', handleAbort);
+
+  try {
+    const pages: TextLine[][] = [];
+
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      throwIfCancelled(signal);
+      onOcrProgress?.({ page: pageNum, totalPages: pdf.numPages });
+
+      const page = await pdf.getPage(pageNum);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = Math.min(
+        OCR_RENDER_SCALE,
+        MAX_CANVAS_DIMENSION / Math.max(baseViewport.width, baseViewport.height)
+      );
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+
+      let result;
+      try {
+        result = await worker.recognize(canvas, {}, { blocks: true, text: false });
+      } catch (error) {
+        throwIfCancelled(signal);
+        throw error;
+      } finally {
+        // Release the bitmap right away; scans can be dozens of pages
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+
+      pages.push(pageToTextLines(result.data, scale));
+    }
+
+    return pages;
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    if (!isTerminated) {
+      await worker.terminate();
+    }
+  }
+}
+
+/**
+ * Convert recognized page layout into text lines.
+ * Font size is estimated from the row height in PDF units, so headings set in
+ * larger type are detected the same way as with a text layer. Paragraph
+ * boundaries become empty lines. The engine doesn't report weight, so OCR
+ * lines are never bold.
+ */
+export function pageToTextLines(page: Page, scale: number): TextLine[] {
+  const lines: TextLine[] = [];
+
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      const before = lines.length;
+
+      for (const line of paragraph.lines) {
+        if (line.confidence < MIN_LINE_CONFIDENCE || !line.text.trim()) continue;
+        lines.push(createTextLine(line.text, getLineHeight(line) / scale, false));
+      }
+
+      if (lines.length > before) {
+        lines.push(createTextLine('', 0, false));
+      }
+    }
+  }
+
+  return lines;
+}
+
+function getLineHeight(line: Line): number {
+  return line.rowAttributes?.rowHeight || line.bbox.y1 - line.bbox.y0;
+}
+
+async function createOcrWorker(): Promise<OcrWorker> {
+  return createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: chrome.runtime.getURL('ocr/worker.min.js'),
+    corePath: chrome.runtime.getURL('ocr'),
+    langPath: chrome.runtime.getURL('ocr'),
+    // Extension pages can't start blob: workers, and the model is local anyway
+    workerBlobURL: false,
+    cacheMethod: 'none',
+  });
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new PdfExtractionError('Import cancelled.', 'cancelled');
+  }
+}
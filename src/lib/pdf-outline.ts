@@ -0,0 +1,174 @@
+/**
+ * Book structure for PDFs
+ *
+ * Chapters come from the document outline (bookmarks) when the PDF has one,
+ * otherwise from large detected headings. Outline entries point at pages,
+ * so blocks are matched to chapters through the page each block starts on.
+ */
+
+import type { Block, BookStructure, Chapter, TocItem } from '@/types';
+import { getPlainText } from './block-utils';
+import { countWords } from './file-utils';
+import type { OutlineNode, PDFDocumentProxy } from './pdf-handler';
+
+// Headings at or above this level start a chapter when there is no outline
+const CHAPTER_HEADING_LEVEL = 2;
+
+/** Outline entry resolved to the page it points at */
+export interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+  depth: number;
+}
+
+/** Where a chapter starts in the document's blocks */
+interface ChapterStart {
+  title: string;
+  blockIndex: number;
+  depth: number;
+}
+
+/**
+ * Read the outline and resolve each entry to a page index.
+ * Entries without a destination in the document (web links, broken
+ * destinations) are dropped; a damaged outline yields no entries.
+ */
+export async function getOutlineEntries(pdf: PDFDocumentProxy): Promise<OutlineEntry[]> {
+  let outline: OutlineNode[] | null;
+  try {
+    outline = await pdf.getOutline();
+  } catch (error) {
+    console.warn('[PDF] Failed to read outline:', error);
+    return [];
+  }
+
+  const entries: OutlineEntry[] = [];
+
+  const addEntries = async (nodes: OutlineNode[], depth: number) => {
+    for (const node of nodes) {
+      const pageIndex = await resolvePageIndex(pdf, node.dest);
+      const title = node.title.trim();
+      if (pageIndex !== null && title) {
+        entries.push({ title, pageIndex, depth });
+      }
+      await addEntries(node.items ?? [], depth + 1);
+    }
+  };
+
+  await addEntries(outline ?? [], 0);
+  return entries;
+}
+
+async function resolvePageIndex(pdf: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | null> {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null;
+
+    // The target is a page reference, or a page index in some producers' files
+    const [target] = explicitDest;
+    return typeof target === 'number' ? target : await pdf.getPageIndex(target);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the book structure, or undefined when the PDF doesn't divide into
+ * at least two chapters (short papers keep reading as a single document).
+ */
+export function buildPdfBook(
+  blocks: Block[],
+  blockPages: number[],
+  outline: OutlineEntry[]
+): BookStructure | undefined {
+  const starts = outline.length > 0
+    ? getOutlineStarts(blocks, blockPages, outline)
+    : getHeadingStarts(blocks);
+
+  const chapterStarts: ChapterStart[] = [];
+  const toc: TocItem[] = [];
+
+  for (const [i, start] of starts.entries()) {
+    // Entries pointing into the current chapter (same page, out of order) share it
+    const current = chapterStarts[chapterStarts.length - 1];
+    if (!current || start.blockIndex > current.blockIndex) {
+      chapterStarts.push(start);
+    }
+
+    toc.push({
+      id: `toc-${i}`,
+      label: start.title,
+      chapterIndex: chapterStarts.length - 1,
+      depth: start.depth,
+    });
+  }
+
+  if (chapterStarts.length < 2) return undefined;
+
+  // Anything before the first entry (cover, front matter) joins the first chapter
+  const chapters = chapterStarts.map((start, i): Chapter => {
+    const from = i === 0 ? 0 : start.blockIndex;
+    const to = chapterStarts[i + 1]?.blockIndex ?? blocks.length;
+    const chapterBlocks = blocks.slice(from, to);
+    const plainText = getPlainText(chapterBlocks);
+    return {
+      id: `chapter-${i}`,
+      title: start.title,
+      blocks: chapterBlocks,
+      plainText,
+      wordCount: countWords(plainText),
+    };
+  });
+
+  return { toc, chapters };
+}
+
+/**
+ * Find the block each outline entry starts at.
+ * A heading on the target page with the entry's title is the best match,
+ * since chapters often start mid-page; otherwise the page's first block.
+ */
+function getOutlineStarts(blocks: Block[], blockPages: number[], outline: OutlineEntry[]): ChapterStart[] {
+  const starts: ChapterStart[] = [];
+
+  for (const entry of outline) {
+    const firstOnPage = blockPages.findIndex(page => page >= entry.pageIndex);
+    if (firstOnPage === -1) continue;
+
+    const title = normalizeTitle(entry.title);
+    let blockIndex = firstOnPage;
+    for (let i = firstOnPage; i < blocks.length && blockPages[i] === entry.pageIndex; i++) {
+      const block = blocks[i];
+      if (block.type === 'heading' && normalizeTitle(block.content) === title) {
+        blockIndex = i;
+        break;
+      }
+    }
+
+    starts.push({ title: entry.title, blockIndex, depth: entry.depth });
+  }
+
+  return starts;
+}
+
+/**
+ * Use large headings as chapter starts when there is no outline
+ */
+function getHeadingStarts(blocks: Block[]): ChapterStart[] {
+  const starts: ChapterStart[] = [];
+  let topLevel = CHAPTER_HEADING_LEVEL;
+
+  for (const [blockIndex, block] of blocks.entries()) {
+    if (block.type === 'heading' && block.level <= CHAPTER_HEADING_LEVEL) {
+      starts.push({ title: block.content, blockIndex, depth: block.level });
+      topLevel = Math.min(topLevel, block.level);
+    }
+  }
+
+  // Depth relative to the largest headings present
+  return starts.map(start => ({ ...start, depth: start.depth - topLevel }));
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
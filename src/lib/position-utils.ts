@@ -1,10 +1,12 @@
-import type { Block } from '@/types';
-import { getBlockText } from './block-utils';
+import type { Block, FigureBlock } from '@/types';
+import { getBlockText, getTableRows } from './block-utils';
 import { getWordCount } from './tokenizer';
+import type { BlockRSVPToken } from './tokenizer';
 
 /**
  * Position conversion utilities for synchronizing reading position
- * between pacing mode (block-relative) and RSVP mode (global token index).
+ * between pacing mode (block-relative) and RSVP mode (global token index,
+ * over tokens from tokenizeBlocksForRSVP).
  */
 
 /**
@@ -31,27 +33,39 @@ export function pacingToWordCount(
 }
 
 /**
- * Convert cumulative word count to RSVP token index.
- * RSVP tokens can contain multiple words based on chunkSize.
+ * Convert cumulative word count to the index of the RSVP token showing that word.
+ * Tokens never span blocks, so every block start is also a token start.
  */
 export function wordCountToRsvpIndex(
-  wordCount: number,
-  chunkSize: number = 1
+  tokens: BlockRSVPToken[],
+  wordCount: number
 ): number {
-  if (chunkSize <= 0) return 0;
-  return Math.floor(wordCount / chunkSize);
+  // Last token starting at or before the word
+  let low = 0;
+  let high = tokens.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid].wordOffset <= wordCount) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
 }
 
 /**
- * Convert RSVP token index to approximate cumulative word count.
+ * Convert RSVP token index to cumulative word count.
  * Returns the word count at the START of the given token.
  */
 export function rsvpIndexToWordCount(
-  rsvpIndex: number,
-  chunkSize: number = 1
+  tokens: BlockRSVPToken[],
+  rsvpIndex: number
 ): number {
-  if (chunkSize <= 0) return 0;
-  return rsvpIndex * chunkSize;
+  if (tokens.length === 0 || rsvpIndex <= 0) return 0;
+  return tokens[Math.min(rsvpIndex, tokens.length - 1)].wordOffset;
 }
 
 /**
@@ -98,3 +112,57 @@ export function wordCountToPacing(
 export function getTotalWordCount(blocks: Block[]): number {
   return blocks.reduce((sum, block) => sum + getWordCount(getBlockText(block)), 0);
 }
+
+/**
+ * Find where each figure falls in the flattened word stream.
+ * A figure at word count N sits just before the Nth word (0-based),
+ * so RSVP can stop on it when that word comes up.
+ */
+export function getFigureWordOffsets(blocks: Block[]): { wordCount: number; figure: FigureBlock }[] {
+  const offsets: { wordCount: number; figure: FigureBlock }[] = [];
+  let cumulativeWords = 0;
+
+  for (const block of blocks) {
+    if (block.type === 'figure') {
+      offsets.push({ wordCount: cumulativeWords, figure: block });
+    } else {
+      cumulativeWords += getWordCount(getBlockText(block));
+    }
+  }
+
+  return offsets;
+}
+
+/**
+ * Column header for the word at a cumulative word count, when that word
+ * sits in a table body row. Used by RSVP as a header reminder, since the
+ * table itself isn't visible while words flash one at a time.
+ */
+export function getTableHeaderAtWord(blocks: Block[], targetWordCount: number): string | undefined {
+  let cumulativeWords = 0;
+
+  for (const block of blocks) {
+    const blockWordCount = getWordCount(getBlockText(block));
+
+    if (cumulativeWords + blockWordCount > targetWordCount) {
+      if (block.type !== 'table' || block.headerRows.length === 0) return undefined;
+
+      const headers = block.headerRows[block.headerRows.length - 1];
+      const rows = getTableRows(block);
+      let cellStart = cumulativeWords;
+      for (let r = 0; r < rows.length; r++) {
+        for (let c = 0; c < rows[r].length; c++) {
+          cellStart += getWordCount(rows[r][c]);
+          if (cellStart > targetWordCount) {
+            return r >= block.headerRows.length ? headers[c] || undefined : undefined;
+          }
+        }
+      }
+      return undefined;
+    }
+
+    cumulativeWords += blockWordCount;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,133 @@
+/**
+ * Reading Difficulty
+ *
+ * Finds the passages a reader struggled with. While playing, the reader
+ * store counts time spent on each block (dwell) and rewinds within or into
+ * it (regressions). Sessions are summed per document; a passage stands out
+ * with rewinds or when it took longer per word than the document's average.
+ */
+
+import type { Block, PassageLocation, PassageStats, ReadingDifficulty } from '@/types';
+import { getBlockText } from './block-utils';
+import { getWordCount } from './tokenizer';
+
+/** Passages kept per document, hardest first */
+export const MAX_SAVED_PASSAGES = 50;
+
+/** Passages scoring this much count as struggled with: one rewind, or twice the usual time per word */
+export const STRUGGLE_SCORE = 1;
+
+const PREVIEW_LENGTH = 80;
+
+/** Activity on a passage to add to its stats */
+export interface PassageActivity {
+  dwellMs?: number;
+  regressions?: number;
+}
+
+export function getPassageKey({ chapterIndex, blockIndex }: PassageLocation): string {
+  return `${chapterIndex}:${blockIndex}`;
+}
+
+function getPreview(block: Block): string {
+  const text = getBlockText(block).replace(/\s+/g, ' ').trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Add activity on a block to a session's passage stats
+ */
+export function recordPassageActivity(
+  passages: Record<string, PassageStats>,
+  location: PassageLocation,
+  block: Block,
+  activity: PassageActivity
+): Record<string, PassageStats> {
+  const key = getPassageKey(location);
+  const passage = passages[key] ?? {
+    chapterIndex: location.chapterIndex,
+    blockIndex: location.blockIndex,
+    preview: getPreview(block),
+    wordsRead: getWordCount(getBlockText(block)),
+    dwellMs: 0,
+    regressions: 0,
+  };
+
+  return {
+    ...passages,
+    [key]: {
+      ...passage,
+      dwellMs: passage.dwellMs + (activity.dwellMs ?? 0),
+      regressions: passage.regressions + (activity.regressions ?? 0),
+    },
+  };
+}
+
+/**
+ * How hard a passage was: its rewinds, plus how much longer than usual it
+ * took per word (0 when it took the usual time or less)
+ */
+export function getPassageScore(passage: PassageStats, baselineMsPerWord: number): number {
+  if (passage.wordsRead === 0 || baselineMsPerWord <= 0) return passage.regressions;
+  const msPerWord = passage.dwellMs / passage.wordsRead;
+  return passage.regressions + Math.max(0, msPerWord / baselineMsPerWord - 1);
+}
+
+function getBaselineMsPerWord(difficulty: Pick<ReadingDifficulty, 'dwellMs' | 'wordsRead'>): number {
+  return difficulty.wordsRead > 0 ? difficulty.dwellMs / difficulty.wordsRead : 0;
+}
+
+/**
+ * Add a session's passage stats to a document's saved record. Only passages
+ * that stand out are kept; the totals cover everything read.
+ */
+export function mergeReadingDifficulty(
+  saved: ReadingDifficulty | undefined,
+  session: PassageStats[],
+  now: number
+): ReadingDifficulty {
+  const byKey = new Map((saved?.passages ?? []).map(passage => [getPassageKey(passage), passage]));
+  for (const passage of session) {
+    const key = getPassageKey(passage);
+    const existing = byKey.get(key);
+    byKey.set(key, existing
+      ? {
+          ...passage,
+          wordsRead: existing.wordsRead + passage.wordsRead,
+          dwellMs: existing.dwellMs + passage.dwellMs,
+          regressions: existing.regressions + passage.regressions,
+        }
+      : passage
+    );
+  }
+
+  const totals = {
+    dwellMs: (saved?.dwellMs ?? 0) + session.reduce((sum, passage) => sum + passage.dwellMs, 0),
+    wordsRead: (saved?.wordsRead ?? 0) + session.reduce((sum, passage) => sum + passage.wordsRead, 0),
+    regressions: (saved?.regressions ?? 0) + session.reduce((sum, passage) => sum + passage.regressions, 0),
+  };
+  const baseline = getBaselineMsPerWord(totals);
+
+  const passages = Array.from(byKey.values())
+    .map(passage => ({ passage, score: getPassageScore(passage, baseline) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SAVED_PASSAGES)
+    .map(({ passage }) => passage);
+
+  return { passages, ...totals, updatedAt: now };
+}
+
+/**
+ * Passages the reader struggled with, hardest first
+ */
+export function getDifficultPassages(difficulty: ReadingDifficulty | null | undefined, limit = 10): PassageStats[] {
+  if (!difficulty) return [];
+  const baseline = getBaselineMsPerWord(difficulty);
+  return difficulty.passages
+    .map(passage => ({ passage, score: getPassageScore(passage, baseline) }))
+    .filter(({ score }) => score >= STRUGGLE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ passage }) => passage);
+}
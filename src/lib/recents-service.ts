@@ -1,9 +1,11 @@
-import type { ArchiveItem, ArchiveItemType, ArchiveProgress, ReadingPosition, DocumentMetadata, FlowDocument } from '@/types';
+import type { ArchiveItem, ArchiveItemType, ArchiveProgress, ReadingPosition, DocumentMetadata, FlowDocument, PassageStats, ReadingDifficulty } from '@/types';
 import { syncService } from './sync/sync-service';
 import { storageFacade } from './storage-facade';
+import { storageMutex } from './async-mutex';
 import { computeTextHash } from './file-utils';
 import { normalizeUrl, hashString } from './url-utils';
 import { mergeFullArchiveItems } from './archive-utils';
+import { mergeReadingDifficulty } from './reading-difficulty';
 
 
 export const MAX_ARCHIVE_ITEMS = 200;
@@ -233,6 +235,10 @@ export function mapSourceToType(source: string): ArchiveItemType {
       return 'epub';
     case 'mobi':
       return 'mobi';
+    case 'fb2':
+      return 'fb2';
+    case 'text':
+      return 'text';
     case 'paste':
       return 'paste';
     default:
@@ -391,37 +397,79 @@ export async function updateLastOpened(
   await saveArchiveItems(items);
 }
 
+/**
+ * Update fields of one item. Locked until the write lands, so updates made
+ * together (e.g. on pause) don't overwrite each other.
+ */
 export async function updateArchiveItem(
   id: string,
-  updates: Partial<Pick<ArchiveItem, 'title' | 'author' | 'sourceLabel' | 'cachedDocument' | 'wordCount'>>
+  updates: Partial<Pick<ArchiveItem, 'title' | 'author' | 'sourceLabel' | 'cachedDocument' | 'wordCount' | 'speedProfile'>>
 ): Promise<ArchiveItem | null> {
-  const items = await getArchiveItems();
+  return storageMutex.withLock(async () => {
+    const items = await getArchiveItems();
+    const index = items.findIndex(item => item.id === id);
+    
+    if (index < 0) {
+      return null;
+    }
+    
+    const item = items[index];
+    const updated: ArchiveItem = {
+      ...item,
+      ...updates,
+    };
+    
+    if (updates.title && updated.cachedDocument) {
+      updated.cachedDocument = {
+        ...updated.cachedDocument,
+        metadata: {
+          ...updated.cachedDocument.metadata,
+          title: updates.title,
+        },
+      };
+    }
+    
+    items[index] = updated;
+    await saveArchiveItems(items);
+    
+    return updated;
+  });
+}
+
+/**
+ * Add a reading session's passage stats to an item's reading difficulty.
+ * Locked like updateArchiveItem. Returns the updated record, or null if the
+ * item no longer exists.
+ */
+export async function recordReadingDifficulty(
+  id: string,
+  passages: PassageStats[]
+): Promise<ReadingDifficulty | null> {
+  return storageMutex.withLock(async () => {
+    const items = await getArchiveItems();
+    const readingDifficulty = addReadingDifficulty(items, id, passages);
+    if (!readingDifficulty) {
+      return null;
+    }
+    await saveArchiveItems(items);
+    
+    return readingDifficulty;
+  });
+}
+
+/**
+ * Merge passage stats into an item's reading difficulty, in place.
+ * Returns the updated record, or null if the item isn't in the list.
+ */
+function addReadingDifficulty(items: ArchiveItem[], id: string, passages: PassageStats[]): ReadingDifficulty | null {
   const index = items.findIndex(item => item.id === id);
-  
   if (index < 0) {
     return null;
   }
   
-  const item = items[index];
-  const updated: ArchiveItem = {
-    ...item,
-    ...updates,
-  };
-  
-  if (updates.title && updated.cachedDocument) {
-    updated.cachedDocument = {
-      ...updated.cachedDocument,
-      metadata: {
-        ...updated.cachedDocument.metadata,
-        title: updates.title,
-      },
-    };
-  }
-  
-  items[index] = updated;
-  await saveArchiveItems(items);
-  
-  return updated;
+  const readingDifficulty = mergeReadingDifficulty(items[index].readingDifficulty, passages, Date.now());
+  items[index] = { ...items[index], readingDifficulty };
+  return readingDifficulty;
 }
 
 /**
@@ -623,7 +671,7 @@ export async function getRecent(id: string): Promise<ArchiveItem | null> {
 
 /** Cache file-based documents since they can't be re-fetched */
 export function shouldCacheDocument(source: string): boolean {
-  return ['pdf', 'docx', 'epub', 'mobi'].includes(source);
+  return ['pdf', 'docx', 'epub', 'mobi', 'fb2', 'text'].includes(source);
 }
 
 export interface BookProgressInfo {
@@ -728,6 +776,10 @@ export function getTypeBadgeLabel(type: ArchiveItemType): string {
       return 'EPUB';
     case 'mobi':
       return 'MOBI';
+    case 'fb2':
+      return 'FB2';
+    case 'text':
+      return 'Text';
     case 'paste':
       return 'Paste';
     default:
@@ -737,14 +789,23 @@ export function getTypeBadgeLabel(type: ArchiveItemType): string {
 
 /**
  * Flush any pending debounced archive writes immediately.
- * Call this before page unload to prevent data loss.
+ * Call this before page unload to prevent data loss. The passage stats of a
+ * session still in progress are added to the same write.
  * Returns true if there was pending data to flush.
  */
-export async function flushPendingArchiveWrites(): Promise<boolean> {
-  if (!pendingItems) {
+export async function flushPendingArchiveWrites(
+  session?: { itemId: string; passages: PassageStats[] }
+): Promise<boolean> {
+  if (!pendingItems && !session) {
     return false;
   }
   
-  await flushArchiveItems(pendingItems);
+  // A write queued while reading supersedes what was read
+  const stored = pendingItems ? null : await getArchiveItems();
+  const items = pendingItems ?? stored!;
+  if (session) {
+    addReadingDifficulty(items, session.itemId, session.passages);
+  }
+  await flushArchiveItems(items);
   return true;
 }
@@ -26,8 +26,8 @@ const ARTICLE_CONFIG: Config = {
     'sub', 'sup', 'small',
     // Semantic
     'blockquote', 'q', 'cite', 'abbr', 'dfn', 'code', 'pre', 'kbd', 'samp', 'var',
-    // Links and media (src stripped for images to prevent tracking)
-    'a',
+    // Links and media (images become figure blocks; sources are resolved per pipeline)
+    'a', 'img',
     // Tables
     'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'colgroup', 'col',
     // Other
@@ -38,6 +38,8 @@ const ARTICLE_CONFIG: Config = {
   // Allow safe attributes
   ALLOWED_ATTR: [
     'href', 'title', 'alt', 'cite', 'datetime', 'lang', 'dir',
+    // Image source and declared size (used to tell content images from icons)
+    'src', 'width', 'height',
     'colspan', 'rowspan', 'scope', 'headers',
     // Class is needed for code language detection (language-*)
     'class',
@@ -6,6 +6,7 @@
 
 import type { Block, FlowDocument } from '@/types';
 import { tokenizeIntoWords } from './tokenizer';
+import { getTableCells } from './block-utils';
 
 /**
  * Represents a single search match in the document.
@@ -35,6 +36,8 @@ function getBlockText(block: Block): string {
       return block.content;
     case 'list':
       return block.items.join(' ');
+    case 'table':
+      return getTableCells(block).join(' ');
     default:
       return '';
   }
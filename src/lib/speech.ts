@@ -0,0 +1,84 @@
+/**
+ * Speech Utilities
+ *
+ * Helpers for reading documents aloud with the Web Speech API: mapping the
+ * reading speed to a speech rate, choosing a voice for the document's
+ * language, and finding the word or sentence a boundary event points at.
+ */
+
+import type { Block } from '@/types';
+import { getWordCount } from './tokenizer';
+
+
+/** Words per minute spoken at speech rate 1 */
+export const SPEECH_BASE_WPM = 175;
+
+/** Speech rates beyond this range are unintelligible or ignored by most voices */
+const MIN_SPEECH_RATE = 0.5;
+const MAX_SPEECH_RATE = 3;
+
+
+/**
+ * Whether this browser can read aloud
+ */
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+}
+
+/**
+ * Speech rate for a reading speed, clamped to what voices handle
+ */
+export function wpmToSpeechRate(wpm: number): number {
+  const rate = wpm / SPEECH_BASE_WPM;
+  return Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, Math.round(rate * 100) / 100));
+}
+
+
+function normalizeLanguage(language: string): string {
+  return language.trim().replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * Voice for a document language: an exact match (en-GB), then one of the same
+ * language (en-*), preferring on-device voices and the browser's default.
+ * Without a match or a language, the default voice is used (undefined).
+ */
+export function pickVoice(
+  voices: SpeechSynthesisVoice[],
+  language: string | undefined
+): SpeechSynthesisVoice | undefined {
+  if (!language) {
+    return undefined;
+  }
+  const wanted = normalizeLanguage(language);
+  const primary = wanted.split('-')[0];
+  const rank = (voice: SpeechSynthesisVoice) => (voice.localService ? 0 : 2) + (voice.default ? 0 : 1);
+  const best = (candidates: SpeechSynthesisVoice[]) => [...candidates].sort((a, b) => rank(a) - rank(b))[0];
+
+  return best(voices.filter(voice => normalizeLanguage(voice.lang) === wanted))
+    ?? best(voices.filter(voice => normalizeLanguage(voice.lang).split('-')[0] === primary));
+}
+
+
+/**
+ * Index of the token a character offset falls in (the last one starting at or
+ * before it), or -1 before the first token
+ */
+export function findTokenAtChar(tokens: Array<{ startIndex: number }>, charIndex: number): number {
+  let found = -1;
+  for (let i = 0; i < tokens.length && tokens[i].startIndex <= charIndex; i++) {
+    found = i;
+  }
+  return found;
+}
+
+
+/**
+ * Silence after a heading, matching the extra time pacing gives headings
+ */
+export function getHeadingPauseMs(block: Block | undefined, text: string, wpm: number, headingPause: number): number {
+  if (block?.type !== 'heading' || headingPause <= 1 || wpm <= 0) {
+    return 0;
+  }
+  return (getWordCount(text) / wpm) * 60 * 1000 * (headingPause - 1);
+}
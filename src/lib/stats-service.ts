@@ -10,6 +10,8 @@
  * - Weekly aggregates for long-term history
  * - Hourly activity patterns
  * - Personal bests
+ * - Comprehension check scores
+ * - Speed traces of adaptive speed sessions
  */
 
 import type { 
@@ -23,14 +25,21 @@ import type {
   PeriodComparison,
   TimeRange,
   ReadingGoals,
+  ComprehensionScore,
+  SpeedTrace,
+  ArchiveItem,
 } from '@/types';
 import { DEFAULT_READING_STATS } from '@/types';
 import { AsyncMutex } from './async-mutex';
+import { getDifficultPassages, MAX_SAVED_PASSAGES } from './reading-difficulty';
 
 const READING_STATS_KEY = 'readingStats';
 const MAX_DAILY_HISTORY_DAYS = 90;
 const MAX_WPM_HISTORY_ENTRIES = 90;
 const MAX_WEEKLY_HISTORY_WEEKS = 104; // ~2 years of weekly data
+const MAX_COMPREHENSION_ENTRIES = 200;
+const MAX_SPEED_TRACES = 100;
+const MAX_SPEED_TRACE_POINTS = 200;
 
 /** Mutex for stats read-modify-write operations */
 const statsMutex = new AsyncMutex();
@@ -445,6 +454,63 @@ export async function recordReadingSession(params: RecordSessionParams): Promise
   });
 }
 
+/**
+ * Record the result of a comprehension check, with the speed the section
+ * was read at, so speed can be compared against understanding
+ */
+export async function recordComprehensionScore(
+  params: Omit<ComprehensionScore, 'timestamp' | 'date'>
+): Promise<void> {
+  if (params.total <= 0) return;
+
+  await statsMutex.withLock(async () => {
+    const stats = await getReadingStats();
+    const scores = [
+      ...(stats.comprehensionScores ?? []),
+      { ...params, timestamp: Date.now(), date: getTodayDateString() },
+    ];
+    stats.comprehensionScores = scores.slice(-MAX_COMPREHENSION_ENTRIES);
+    await saveReadingStats(stats);
+  });
+}
+
+/**
+ * Comprehension scores as speed/percent points, oldest first
+ */
+export function getComprehensionPoints(
+  stats: ReadingStats
+): Array<{ wpm: number; percent: number; date: string }> {
+  return (stats.comprehensionScores ?? [])
+    .filter(score => score.total > 0)
+    .map(score => ({
+      wpm: score.wpm,
+      percent: Math.round((score.correct / score.total) * 100),
+      date: score.date,
+    }));
+}
+
+/**
+ * Record how the speed changed during a session with adaptive speed.
+ * Very long traces keep their start and most recent points.
+ */
+export async function recordSpeedTrace(trace: Omit<SpeedTrace, 'date'>): Promise<void> {
+  if (trace.points.length === 0) return;
+
+  const points = trace.points.length > MAX_SPEED_TRACE_POINTS
+    ? [trace.points[0], ...trace.points.slice(-(MAX_SPEED_TRACE_POINTS - 1))]
+    : trace.points;
+
+  await statsMutex.withLock(async () => {
+    const stats = await getReadingStats();
+    const traces = [
+      ...(stats.speedTraces ?? []),
+      { ...trace, points, date: getTodayDateString() },
+    ];
+    stats.speedTraces = traces.slice(-MAX_SPEED_TRACES);
+    await saveReadingStats(stats);
+  });
+}
+
 /**
  * Record that an annotation was created
  */
@@ -995,7 +1061,7 @@ export function calculateRollingAverages(stats: ReadingStats): RollingAverages {
 
 /**
  * Calculate reading pattern insights
- * Returns weekend vs weekday analysis, best day, and consistency metrics
+ * Returns weekend vs weekday analysis, best day, consistency and re-reading metrics
  */
 export interface PatternInsights {
   weekdayVsWeekend: {
@@ -1025,11 +1091,22 @@ export interface PatternInsights {
     activeDaysPercent: number; // % of days with reading in last 30 days
     streakStatus: 'on-fire' | 'consistent' | 'sporadic' | 'inactive';
   };
+  rereading: {
+    regressionsPerHour: number; // Rewinds per hour of tracked reading
+    hardestDocuments: Array<{
+      id: string;
+      title: string;
+      passageCount: number; // Passages struggled with
+    }>;
+  };
 }
 
+/** Documents listed as hardest to read */
+const MAX_HARDEST_DOCUMENTS = 3;
+
 const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-export function calculatePatternInsights(stats: ReadingStats): PatternInsights {
+export function calculatePatternInsights(stats: ReadingStats, archiveItems: ArchiveItem[] = []): PatternInsights {
   const dailyStats = getDailyStatsForRange(stats, 90); // Last 90 days for patterns
   
   // Group by day of week
@@ -1094,6 +1171,22 @@ export function calculatePatternInsights(stats: ReadingStats): PatternInsights {
     streakStatus = 'inactive';
   }
   
+  // Re-reading, from the passages tracked per document
+  let trackedMs = 0;
+  let regressions = 0;
+  const hardestDocuments: PatternInsights['rereading']['hardestDocuments'] = [];
+  for (const item of archiveItems) {
+    if (!item.readingDifficulty) continue;
+    trackedMs += item.readingDifficulty.dwellMs;
+    regressions += item.readingDifficulty.regressions;
+    const passageCount = getDifficultPassages(item.readingDifficulty, MAX_SAVED_PASSAGES).length;
+    if (passageCount > 0) {
+      hardestDocuments.push({ id: item.id, title: item.title, passageCount });
+    }
+  }
+  hardestDocuments.sort((a, b) => b.passageCount - a.passageCount);
+  const regressionsPerHour = trackedMs > 0 ? Math.round((regressions / trackedMs) * 3600000) : 0;
+  
   return {
     weekdayVsWeekend: {
       weekdayAvgMinutes,
@@ -1108,6 +1201,10 @@ export function calculatePatternInsights(stats: ReadingStats): PatternInsights {
       activeDaysPercent,
       streakStatus,
     },
+    rereading: {
+      regressionsPerHour,
+      hardestDocuments: hardestDocuments.slice(0, MAX_HARDEST_DOCUMENTS),
+    },
   };
 }
 
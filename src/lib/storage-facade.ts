@@ -14,6 +14,7 @@ import type {
   Collection,
   Annotation,
   ReadingStats,
+  FieldTimestamps,
 } from '@/types';
 import { DEFAULT_SETTINGS, DEFAULT_COLLECTIONS } from '@/types';
 import { CURRENT_STORAGE_VERSION, runMigrations } from './migrations';
@@ -21,6 +22,8 @@ import { normalizeUrl } from './url-utils';
 import * as chromeStorage from './chrome-storage';
 import { storageMutex } from './async-mutex';
 import { getReadingStats, saveReadingStats } from './stats-service';
+import { isCategorySynced, limitStateToScope } from './sync/sync-scope';
+import type { SyncScope, SyncCategory } from './sync/types';
 
 
 /** Extended storage schema with sync-related fields */
@@ -34,9 +37,10 @@ export interface ExtendedStorageSchema extends StorageSchema {
   deletedItems: Record<string, number>;
   collections: Collection[];
   annotations: Record<string, Annotation[]>;
+  fieldUpdatedAt: FieldTimestamps;
 }
 
-export type SyncProviderType = 'dropbox' | 'folder';
+export type SyncProviderType = 'dropbox' | 'folder' | 'webdav' | 's3';
 
 /** State document for sync (excludes large cached documents) */
 export interface SyncStateDocument {
@@ -47,6 +51,7 @@ export interface SyncStateDocument {
   settings: ReaderSettings;
   presets: Record<string, Partial<ReaderSettings>>;
   customThemes: CustomTheme[];
+  fieldUpdatedAt?: FieldTimestamps;
   
   /** Archive items without cachedDocument (too large for sync) */
   archiveItems: SyncArchiveItem[];
@@ -132,6 +137,7 @@ class StorageFacadeImpl {
         lastSyncTime: null,
         lastSyncError: null,
         deletedItems: {},
+        fieldUpdatedAt: emptyFieldTimestamps(),
       };
       await chromeStorage.set(initial as unknown as Record<string, unknown>);
       return initial;
@@ -160,6 +166,7 @@ class StorageFacadeImpl {
       lastSyncTime: (data.lastSyncTime || null) as number | null,
       lastSyncError: (data.lastSyncError || null) as string | null,
       deletedItems: (data.deletedItems || {}) as Record<string, number>,
+      fieldUpdatedAt: { ...emptyFieldTimestamps(), ...(data.fieldUpdatedAt as Partial<FieldTimestamps>) },
     };
   }
 
@@ -188,6 +195,10 @@ class StorageFacadeImpl {
       
       return this.setValues({ 
         settings: newSettings,
+        fieldUpdatedAt: {
+          ...state.fieldUpdatedAt,
+          settings: stampChangedKeys(state.fieldUpdatedAt.settings, state.settings, newSettings),
+        },
         version: CURRENT_STORAGE_VERSION,
       });
     });
@@ -244,7 +255,22 @@ class StorageFacadeImpl {
   }
 
   async updateCustomThemes(themes: CustomTheme[]): Promise<void> {
-    return this.setValues({ customThemes: themes });
+    return storageMutex.withLock(async () => {
+      const state = await this.getState();
+      const byName = (list: CustomTheme[]) => Object.fromEntries(list.map(theme => [theme.name, theme]));
+
+      return this.setValues({
+        customThemes: themes,
+        fieldUpdatedAt: {
+          ...state.fieldUpdatedAt,
+          customThemes: stampChangedKeys(
+            state.fieldUpdatedAt.customThemes,
+            byName(state.customThemes),
+            byName(themes)
+          ),
+        },
+      });
+    });
   }
 
   async updateCollections(collections: Collection[]): Promise<void> {
@@ -256,7 +282,17 @@ class StorageFacadeImpl {
   }
 
   async updatePresets(presets: Record<string, Partial<ReaderSettings>>): Promise<void> {
-    return this.setValues({ presets });
+    return storageMutex.withLock(async () => {
+      const state = await this.getState();
+
+      return this.setValues({
+        presets,
+        fieldUpdatedAt: {
+          ...state.fieldUpdatedAt,
+          presets: stampChangedKeys(state.fieldUpdatedAt.presets, state.presets, presets),
+        },
+      });
+    });
   }
 
   async updateFlags(flags: {
@@ -275,8 +311,11 @@ class StorageFacadeImpl {
     return this.setValues(config);
   }
 
-  /** Get state prepared for sync (excludes large cached documents) */
-  async getStateForSync(): Promise<SyncStateDocument> {
+  /**
+   * Get state prepared for sync (excludes large cached documents).
+   * With a scope, only the categories it includes are filled in.
+   */
+  async getStateForSync(scope?: SyncScope): Promise<SyncStateDocument> {
     const state = await this.getState();
     const deviceId = await this.getDeviceId();
     const readingStats = await getReadingStats();
@@ -296,15 +335,18 @@ class StorageFacadeImpl {
       pasteContent: item.pasteContent,
       collectionIds: item.collectionIds,
       collectionIdsUpdatedAt: item.collectionIdsUpdatedAt,
+      speedProfile: item.speedProfile,
+      readingDifficulty: item.readingDifficulty,
     }));
 
-    return {
+    return limitStateToScope({
       schemaVersion: CURRENT_STORAGE_VERSION,
       updatedAt: state.dataUpdatedAt,
       deviceId,
       settings: state.settings,
       presets: state.presets,
       customThemes: state.customThemes,
+      fieldUpdatedAt: state.fieldUpdatedAt,
       archiveItems: syncArchiveItems,
       positions: state.positions,
       collections: state.collections,
@@ -313,13 +355,22 @@ class StorageFacadeImpl {
       onboardingCompleted: state.onboardingCompleted,
       exitConfirmationDismissed: state.exitConfirmationDismissed,
       readingStats,
-    };
+    }, scope);
   }
 
-  /** Apply remote state from sync (preserves local cachedDocument data) */
-  async applyRemoteState(remote: SyncStateDocument): Promise<void> {
+  /**
+   * Apply remote state from sync (preserves local cachedDocument data).
+   * With `replace`, local-only archive items are dropped and the state's tombstones
+   * are kept, as when restoring a snapshot. Categories outside `scope` stay as they are.
+   */
+  async applyRemoteState(
+    remote: SyncStateDocument,
+    options: { replace?: boolean; scope?: SyncScope } = {}
+  ): Promise<void> {
     return storageMutex.withLock(async () => {
       const localState = await this.getState();
+      const synced = (category: SyncCategory) => isCategorySynced(options.scope, category);
+      const remoteTimes = remote.fieldUpdatedAt ?? localState.fieldUpdatedAt;
 
       const mergedArchiveItems: ArchiveItem[] = remote.archiveItems.map(remoteItem => {
         const localItem = localState.archiveItems.find(l => l.id === remoteItem.id);
@@ -329,9 +380,11 @@ class StorageFacadeImpl {
         };
       });
 
-      for (const localItem of localState.archiveItems) {
-        if (!mergedArchiveItems.find(m => m.id === localItem.id)) {
-          mergedArchiveItems.push(localItem);
+      if (!options.replace) {
+        for (const localItem of localState.archiveItems) {
+          if (!mergedArchiveItems.find(m => m.id === localItem.id)) {
+            mergedArchiveItems.push(localItem);
+          }
         }
       }
 
@@ -339,21 +392,25 @@ class StorageFacadeImpl {
         _fromRemoteSync: true,
         version: CURRENT_STORAGE_VERSION,
         dataUpdatedAt: remote.updatedAt,
-        settings: remote.settings,
-        presets: remote.presets,
-        customThemes: remote.customThemes,
-        archiveItems: mergedArchiveItems,
-        positions: remote.positions,
-        collections: remote.collections,
-        annotations: remote.annotations,
+        ...(synced('settings') && { settings: remote.settings, presets: remote.presets }),
+        ...(synced('themes') && { customThemes: remote.customThemes }),
+        fieldUpdatedAt: {
+          settings: (synced('settings') ? remoteTimes : localState.fieldUpdatedAt).settings,
+          presets: (synced('settings') ? remoteTimes : localState.fieldUpdatedAt).presets,
+          customThemes: (synced('themes') ? remoteTimes : localState.fieldUpdatedAt).customThemes,
+        },
+        ...(synced('archive') && { archiveItems: mergedArchiveItems, collections: remote.collections }),
+        ...(synced('positions') && { positions: remote.positions }),
+        ...(synced('annotations') && { annotations: remote.annotations }),
         onboardingCompleted: remote.onboardingCompleted,
         exitConfirmationDismissed: remote.exitConfirmationDismissed,
         lastSyncTime: Date.now(),
         lastSyncError: null,
+        ...(options.replace && synced('archive') && { deletedItems: remote.deletedItems ?? {} }),
       });
 
       // Save reading stats separately (stored in different storage key)
-      if (remote.readingStats) {
+      if (remote.readingStats && synced('stats')) {
         await saveReadingStats(remote.readingStats);
       }
     });
@@ -455,6 +512,33 @@ class StorageFacadeImpl {
 }
 
 
+function emptyFieldTimestamps(): FieldTimestamps {
+  return { settings: {}, presets: {}, customThemes: {} };
+}
+
+/**
+ * Stamp every key that was added, changed or removed between two versions of a
+ * keyed value. Removed keys keep their timestamp so the removal can sync.
+ */
+function stampChangedKeys(
+  timestamps: Record<string, number>,
+  before: object,
+  after: object
+): Record<string, number> {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const now = Date.now();
+  const stamped = { ...timestamps };
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      stamped[key] = now;
+    }
+  }
+  return stamped;
+}
+
+
 /** Storage facade singleton */
 export const storageFacade = new StorageFacadeImpl();
 
@@ -72,7 +72,7 @@ function getUrlKey(url: string): string {
  * File-based sources use source + file hash. Web/selection sources use URL.
  */
 export function getDocumentKey(metadata: DocumentMetadata): string {
-  if (metadata.fileHash && ['epub', 'mobi', 'pdf', 'docx'].includes(metadata.source)) {
+  if (metadata.fileHash && ['epub', 'mobi', 'fb2', 'pdf', 'docx', 'text'].includes(metadata.source)) {
     return `file_${metadata.source}_${metadata.fileHash}`;
   }
   return metadata.url || `doc_${metadata.createdAt}`;
@@ -0,0 +1,216 @@
+/**
+ * Sync Conflict Log
+ *
+ * Keeps the conflicts reported by each sync so they can be reviewed later, and
+ * restores the side a merge discarded. A restore is written locally with a fresh
+ * timestamp, so the next sync's merge keeps it and uploads it to other devices.
+ */
+
+import type { ReaderSettings } from '@/types';
+import type { ConflictInfo, SyncArchiveItem } from './types';
+import { storageFacade } from '../storage-facade';
+import { storageMutex } from '../async-mutex';
+import { SyncError } from '../errors';
+import * as chromeStorage from '../chrome-storage';
+
+
+export const CONFLICT_LOG_STORAGE_KEY = 'syncConflictLog';
+export const MAX_CONFLICT_LOG_ENTRIES = 50;
+
+/** Archive item fields the merge compares; only these can differ in a logged conflict */
+const ARCHIVE_ITEM_FIELDS = ['title', 'author', 'type', 'sourceLabel'] as const;
+const POSITION_FIELDS = ['chapterIndex', 'blockIndex', 'charOffset'] as const;
+
+
+export interface ConflictLogEntry {
+  id: string;
+  detectedAt: number;
+  conflict: ConflictInfo;
+  status: 'open' | 'restored' | 'dismissed';
+}
+
+/** One value that differs between the local and remote side of a conflict */
+export interface ConflictDifference {
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+
+/**
+ * Get the conflict log, newest first.
+ */
+export async function getConflictLog(): Promise<ConflictLogEntry[]> {
+  return (await chromeStorage.getOne<ConflictLogEntry[]>(CONFLICT_LOG_STORAGE_KEY)) ?? [];
+}
+
+
+/**
+ * Add the conflicts of a sync to the log.
+ * A new conflict replaces an open entry for the same item; the log keeps the
+ * newest MAX_CONFLICT_LOG_ENTRIES entries.
+ */
+export async function recordConflicts(conflicts: ConflictInfo[], detectedAt: number): Promise<void> {
+  // A lost upload race has no sides to review
+  const reviewable = conflicts.filter(conflict => conflict.type !== 'remote-state');
+  if (reviewable.length === 0) return;
+
+  return storageMutex.withLock(async () => {
+    const newEntries: ConflictLogEntry[] = reviewable.map((conflict, index) => ({
+      id: `${detectedAt.toString(36)}-${index}`,
+      detectedAt,
+      conflict: compactConflict(conflict),
+      status: 'open',
+    }));
+    const replacedKeys = new Set(newEntries.map(entry => getConflictKey(entry.conflict)));
+
+    const kept = (await getConflictLog()).filter(
+      entry => entry.status !== 'open' || !replacedKeys.has(getConflictKey(entry.conflict))
+    );
+
+    await chromeStorage.setOne(
+      CONFLICT_LOG_STORAGE_KEY,
+      [...newEntries, ...kept].slice(0, MAX_CONFLICT_LOG_ENTRIES)
+    );
+  });
+}
+
+
+/**
+ * Hide a conflict, keeping the merged result.
+ */
+export async function dismissConflict(id: string): Promise<void> {
+  await setEntryStatus(id, 'dismissed');
+}
+
+
+/**
+ * Remove every entry from the log.
+ */
+export async function clearConflictLog(): Promise<void> {
+  await chromeStorage.setOne(CONFLICT_LOG_STORAGE_KEY, []);
+}
+
+
+/**
+ * Whether the discarded side of a conflict can be restored.
+ * Positions can't: every device keeps the furthest position, so an earlier one
+ * would be replaced again on the next sync.
+ */
+export function isRestorable(conflict: ConflictInfo): boolean {
+  return conflict.type === 'settings' || conflict.type === 'archive-item';
+}
+
+
+/**
+ * The value the merge discarded.
+ */
+export function getOtherSide(conflict: ConflictInfo): unknown {
+  return conflict.resolution === 'local-wins' ? conflict.remoteValue : conflict.localValue;
+}
+
+
+/**
+ * Restore the discarded side of a logged conflict.
+ * Settings are written as a local change, which wins the next merge as the newer
+ * value. Archive items get a new lastOpenedAt, which wins the item merge.
+ */
+export async function restoreOtherSide(id: string): Promise<void> {
+  const entry = (await getConflictLog()).find(e => e.id === id);
+  if (!entry) {
+    throw new SyncError('Conflict not found', 'sync');
+  }
+  if (!isRestorable(entry.conflict)) {
+    throw new SyncError('This conflict cannot be restored', 'sync');
+  }
+
+  const otherSide = getOtherSide(entry.conflict);
+
+  if (entry.conflict.type === 'settings') {
+    // Per-key conflicts carry the setting name; whole-settings ones (older logs) the full object
+    await storageFacade.updateSettings(
+      (entry.conflict.itemId ? { [entry.conflict.itemId]: otherSide } : otherSide) as Partial<ReaderSettings>
+    );
+  } else {
+    const restored = otherSide as Partial<SyncArchiveItem>;
+    await storageMutex.withLock(async () => {
+      const { archiveItems } = await storageFacade.getState();
+      if (!archiveItems.some(item => item.id === entry.conflict.itemId)) {
+        throw new SyncError('This item is no longer in your library', 'sync');
+      }
+
+      await storageFacade.updateArchiveItems(archiveItems.map(item => {
+        if (item.id !== entry.conflict.itemId) return item;
+        const updated = { ...item, lastOpenedAt: Date.now() };
+        for (const field of ARCHIVE_ITEM_FIELDS) {
+          Object.assign(updated, { [field]: restored[field] });
+        }
+        return updated;
+      }));
+    });
+  }
+
+  await setEntryStatus(id, 'restored');
+}
+
+
+/**
+ * List the values that differ between the two sides of a conflict.
+ * A settings conflict is about a single setting; other conflicts are compared by
+ * the fields the merge compares.
+ */
+export function getConflictDifferences(conflict: ConflictInfo): ConflictDifference[] {
+  if (conflict.type === 'settings' && conflict.itemId) {
+    return [{ field: conflict.itemId, localValue: conflict.localValue, remoteValue: conflict.remoteValue }];
+  }
+
+  const local = (conflict.localValue ?? {}) as Record<string, unknown>;
+  const remote = (conflict.remoteValue ?? {}) as Record<string, unknown>;
+
+  let fields: readonly string[];
+  if (conflict.type === 'archive-item') {
+    fields = ARCHIVE_ITEM_FIELDS;
+  } else if (conflict.type === 'position') {
+    fields = POSITION_FIELDS;
+  } else {
+    fields = [...new Set([...Object.keys(local), ...Object.keys(remote)])].sort();
+  }
+
+  return fields
+    .filter(field => JSON.stringify(local[field]) !== JSON.stringify(remote[field]))
+    .map(field => ({ field, localValue: local[field], remoteValue: remote[field] }));
+}
+
+
+function getConflictKey(conflict: ConflictInfo): string {
+  return `${conflict.type}:${conflict.itemId ?? ''}`;
+}
+
+/**
+ * Drop the parts of an archive item the log doesn't need (paste content can be large).
+ */
+function compactConflict(conflict: ConflictInfo): ConflictInfo {
+  if (conflict.type !== 'archive-item') return conflict;
+
+  const pick = (value: unknown) => {
+    const item = value as Partial<SyncArchiveItem> | undefined;
+    if (!item) return item;
+    const compact: Record<string, unknown> = { id: item.id };
+    for (const field of ARCHIVE_ITEM_FIELDS) {
+      compact[field] = item[field];
+    }
+    return compact;
+  };
+
+  return { ...conflict, localValue: pick(conflict.localValue), remoteValue: pick(conflict.remoteValue) };
+}
+
+async function setEntryStatus(id: string, status: ConflictLogEntry['status']): Promise<void> {
+  return storageMutex.withLock(async () => {
+    const log = await getConflictLog();
+    await chromeStorage.setOne(
+      CONFLICT_LOG_STORAGE_KEY,
+      log.map(entry => (entry.id === id ? { ...entry, status } : entry))
+    );
+  });
+}
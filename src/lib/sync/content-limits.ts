@@ -0,0 +1,99 @@
+/**
+ * Content Sync Limits
+ *
+ * Caps on what content sync uploads from this device: a maximum size per
+ * file, a total quota for the document files, and which document types
+ * sync at all. Sizes are compressed bytes, as stored by the provider.
+ * The sync state's section files and history snapshots share the content
+ * folder but aren't counted; providers don't list file sizes.
+ * When the quota can't fit everything, documents are uploaded in priority
+ * order: in progress first, then favourites, then the most recently opened.
+ */
+
+import type { ArchiveItem, ArchiveItemType } from '@/types';
+import type { ContentManifest, ContentManifestItem, ContentSyncLimits } from './types';
+
+
+/** Collection whose items are favourites */
+const FAVORITES_COLLECTION_ID = 'favorites';
+
+export const DEFAULT_CONTENT_SYNC_LIMITS: ContentSyncLimits = {
+  maxFileSize: null,
+  totalQuota: null,
+  excludedTypes: [],
+};
+
+
+/**
+ * Whether content of this type syncs under the limits
+ */
+export function isContentTypeSynced(limits: ContentSyncLimits | undefined, type: ArchiveItemType): boolean {
+  return !limits?.excludedTypes.includes(type);
+}
+
+/**
+ * Whether content of an item was excluded from sync on any device
+ */
+export function isContentItemExcluded(manifest: ContentManifest | undefined, itemId: string): boolean {
+  return manifest?.excludedItemIds?.includes(itemId) ?? false;
+}
+
+
+/**
+ * Upload priority of an item: 0 for in progress, 1 for favourites, 2 for the rest
+ */
+export function getContentPriority(item: Pick<ArchiveItem, 'progress' | 'collectionIds'>): number {
+  const percent = item.progress?.percent ?? 0;
+  if (percent > 0 && percent < 100) {
+    return 0;
+  }
+  if (item.collectionIds?.includes(FAVORITES_COLLECTION_ID)) {
+    return 1;
+  }
+  return 2;
+}
+
+/**
+ * Items in upload order: by priority, then most recently opened first
+ */
+export function sortByContentPriority<T extends Pick<ArchiveItem, 'progress' | 'collectionIds' | 'lastOpenedAt'>>(
+  items: T[]
+): T[] {
+  return [...items].sort((a, b) =>
+    getContentPriority(a) - getContentPriority(b) || b.lastOpenedAt - a.lastOpenedAt
+  );
+}
+
+
+/**
+ * Why a file of this size can't be uploaded, or null if it can. `usedBytes`
+ * is what the document files already take.
+ */
+export function getContentLimitViolation(
+  limits: ContentSyncLimits | undefined,
+  size: number,
+  usedBytes: number
+): 'too-large' | 'over-quota' | null {
+  if (limits?.maxFileSize != null && size > limits.maxFileSize) {
+    return 'too-large';
+  }
+  if (limits?.totalQuota != null && usedBytes + size > limits.totalQuota) {
+    return 'over-quota';
+  }
+  return null;
+}
+
+
+/**
+ * Compressed bytes of all content files a manifest lists (document files only)
+ */
+export function getContentUsage(manifest: ContentManifest | undefined): number {
+  return Object.values(manifest?.items ?? {}).reduce((sum, item) => sum + item.compressedSize, 0);
+}
+
+/**
+ * Manifest items, largest first, for a storage usage breakdown
+ */
+export function getContentUsageBreakdown(manifest: ContentManifest | undefined): ContentManifestItem[] {
+  return Object.values(manifest?.items ?? {}).sort((a, b) => b.compressedSize - a.compressedSize);
+}
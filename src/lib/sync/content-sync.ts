@@ -12,9 +12,17 @@ import type {
   SyncProvider, 
   ContentManifest, 
   ContentManifestItem,
+  ContentSyncLimits,
   EncryptedBlob,
 } from './types';
 import { encryptData, decryptData } from './encryption';
+import {
+  getContentLimitViolation,
+  getContentUsage,
+  isContentItemExcluded,
+  isContentTypeSynced,
+  sortByContentPriority,
+} from './content-limits';
 
 
 const CONTENT_FILE_EXTENSION = '.enc';
@@ -26,10 +34,18 @@ interface EncryptedContentData {
   data: string;
 }
 
+/** A document compressed (and encrypted, if configured) for upload */
+interface EncodedContent {
+  blob: Blob;
+  checksum: string;
+}
+
 
 export class ContentSyncManager {
   private passphrase: string | null = null;
   private encryptionSalt: Uint8Array | null = null;
+  /** Upload sizes of documents skipped for the limits, so they aren't compressed again each sync */
+  private skippedSizes = new Map<string, number>();
 
   /**
    * Set encryption credentials for content files
@@ -37,6 +53,7 @@ export class ContentSyncManager {
   setEncryption(passphrase: string, salt: Uint8Array): void {
     this.passphrase = passphrase;
     this.encryptionSalt = salt;
+    this.skippedSizes.clear();
   }
 
   /**
@@ -45,6 +62,7 @@ export class ContentSyncManager {
   clearEncryption(): void {
     this.passphrase = null;
     this.encryptionSalt = null;
+    this.skippedSizes.clear();
   }
 
   /**
@@ -63,6 +81,13 @@ export class ContentSyncManager {
     return `${identifier}${CONTENT_FILE_EXTENSION}`;
   }
 
+  /**
+   * Names of the content files a manifest lists
+   */
+  getManifestFileNames(manifest: ContentManifest): string[] {
+    return Object.keys(manifest.items).map(fileHash => `${fileHash}${CONTENT_FILE_EXTENSION}`);
+  }
+
   /**
    * Compress a FlowDocument using gzip
    * Returns compressed data as Uint8Array
@@ -153,56 +178,73 @@ export class ContentSyncManager {
     document: FlowDocument
   ): Promise<ContentManifestItem | null> {
     try {
-      // Ensure content folder exists
-      await provider.ensureContentFolder();
-      
-      // Compress the document
-      const compressed = await this.compressDocument(document);
-      const checksum = await this.calculateChecksum(compressed);
-      
-      // Encrypt if encryption is configured
-      let blob: Blob;
-      if (this.hasEncryption()) {
-        const contentData: EncryptedContentData = { data: this.arrayToBase64(compressed) };
-        const encryptedBlob = await encryptData(
-          contentData,
-          this.passphrase!,
-          this.encryptionSalt!
-        );
-        blob = new Blob([JSON.stringify(encryptedBlob)], { type: 'application/json' });
-      } else {
-        // Convert Uint8Array to ArrayBuffer for Blob compatibility
-        const arrayBuffer = this.toArrayBuffer(compressed);
-        blob = new Blob([arrayBuffer], { type: 'application/gzip' });
-      }
-      
-      const filename = this.getContentFileName(item);
-      const result = await provider.uploadContentFile(filename, blob);
-      
-      if (!result.success) {
-        console.error(`Failed to upload content for ${item.title}:`, result.error);
-        return null;
-      }
-      
-      // Create manifest item
-      const manifestItem: ContentManifestItem = {
-        fileHash: item.fileHash || this.hashString(item.url || item.id),
-        archiveItemId: item.id,
-        type: item.type,
-        title: item.title,
-        compressedSize: blob.size,
-        originalSize: JSON.stringify(document).length,
-        syncedAt: Date.now(),
-        checksum,
-      };
-      
-      return manifestItem;
+      return await this.uploadEncodedContent(provider, item, document, await this.encodeContent(document));
     } catch (error) {
       console.error(`Error uploading content for ${item.title}:`, error);
       return null;
     }
   }
 
+  /**
+   * Compress a document, and encrypt it if encryption is configured
+   */
+  private async encodeContent(document: FlowDocument): Promise<EncodedContent> {
+    // Compress the document
+    const compressed = await this.compressDocument(document);
+    const checksum = await this.calculateChecksum(compressed);
+    
+    // Encrypt if encryption is configured
+    let blob: Blob;
+    if (this.hasEncryption()) {
+      const contentData: EncryptedContentData = { data: this.arrayToBase64(compressed) };
+      const encryptedBlob = await encryptData(
+        contentData,
+        this.passphrase!,
+        this.encryptionSalt!
+      );
+      blob = new Blob([JSON.stringify(encryptedBlob)], { type: 'application/json' });
+    } else {
+      // Convert Uint8Array to ArrayBuffer for Blob compatibility
+      const arrayBuffer = this.toArrayBuffer(compressed);
+      blob = new Blob([arrayBuffer], { type: 'application/gzip' });
+    }
+
+    return { blob, checksum };
+  }
+
+  /**
+   * Upload an encoded document and describe it for the manifest
+   */
+  private async uploadEncodedContent(
+    provider: SyncProvider,
+    item: ArchiveItem,
+    document: FlowDocument,
+    { blob, checksum }: EncodedContent
+  ): Promise<ContentManifestItem | null> {
+    // Ensure content folder exists
+    await provider.ensureContentFolder();
+    
+    const filename = this.getContentFileName(item);
+    const result = await provider.uploadContentFile(filename, blob);
+    
+    if (!result.success) {
+      console.error(`Failed to upload content for ${item.title}:`, result.error);
+      return null;
+    }
+    
+    // Create manifest item
+    return {
+      fileHash: item.fileHash || this.hashString(item.url || item.id),
+      archiveItemId: item.id,
+      type: item.type,
+      title: item.title,
+      compressedSize: blob.size,
+      originalSize: JSON.stringify(document).length,
+      syncedAt: Date.now(),
+      checksum,
+    };
+  }
+
   /**
    * Download content for an archive item
    */
@@ -247,27 +289,35 @@ export class ContentSyncManager {
 
   /**
    * Sync all content between local and remote
-   * Returns updated manifest and list of downloaded content
+   * Returns updated manifest and list of downloaded content.
+   * Uploads follow the limits, most important documents first; items taken
+   * out of sync in the manifest are neither uploaded nor downloaded.
    */
   async syncContent(
     provider: SyncProvider,
     localItems: ArchiveItem[],
-    remoteManifest: ContentManifest | undefined
+    remoteManifest: ContentManifest | undefined,
+    limits?: ContentSyncLimits
   ): Promise<ContentSyncResult> {
     const result: ContentSyncResult = {
       manifest: remoteManifest || { version: 1, items: {} },
       uploaded: [],
       downloaded: [],
+      skipped: [],
       errors: [],
     };
+    const isSyncable = (item: ArchiveItem) =>
+      !isContentItemExcluded(result.manifest, item.id) && isContentTypeSynced(limits, item.type);
     
     try {
       // Ensure content folder exists
       await provider.ensureContentFolder();
       
+      let usedBytes = getContentUsage(result.manifest);
+      
       // Find items that need to be uploaded (have cachedDocument but not in remote manifest)
-      for (const item of localItems) {
-        if (!item.cachedDocument) continue;
+      for (const item of sortByContentPriority(localItems)) {
+        if (!item.cachedDocument || !isSyncable(item)) continue;
         
         const fileHash = item.fileHash || this.hashString(item.url || item.id);
         
@@ -276,11 +326,37 @@ export class ContentSyncManager {
           continue;
         }
         
-        // Upload the content
-        const manifestItem = await this.uploadContent(provider, item, item.cachedDocument);
+        // A document skipped before is only compressed again if it could fit now
+        const skippedSize = this.skippedSizes.get(fileHash);
+        const knownViolation = skippedSize === undefined
+          ? null
+          : getContentLimitViolation(limits, skippedSize, usedBytes);
+        if (knownViolation) {
+          result.skipped.push({ itemId: item.id, reason: knownViolation });
+          continue;
+        }
+        
+        let manifestItem: ContentManifestItem | null = null;
+        try {
+          const encoded = await this.encodeContent(item.cachedDocument);
+          const violation = getContentLimitViolation(limits, encoded.blob.size, usedBytes);
+          if (violation) {
+            this.skippedSizes.set(fileHash, encoded.blob.size);
+            result.skipped.push({ itemId: item.id, reason: violation });
+            continue;
+          }
+          
+          // Upload the content
+          manifestItem = await this.uploadEncodedContent(provider, item, item.cachedDocument, encoded);
+        } catch (error) {
+          console.error(`Error uploading content for ${item.title}:`, error);
+        }
+        
         if (manifestItem) {
+          this.skippedSizes.delete(fileHash);
           result.manifest.items[fileHash] = manifestItem;
           result.uploaded.push(item.id);
+          usedBytes += manifestItem.compressedSize;
         } else {
           result.errors.push({ itemId: item.id, error: 'Upload failed' });
         }
@@ -293,7 +369,7 @@ export class ContentSyncManager {
         );
         
         // If local item exists but doesn't have cachedDocument, download it
-        if (localItem && !localItem.cachedDocument) {
+        if (localItem && !localItem.cachedDocument && isSyncable(localItem)) {
           const document = await this.downloadContent(provider, manifestItem);
           if (document) {
             result.downloaded.push({ itemId: localItem.id, document });
@@ -416,6 +492,8 @@ export interface ContentSyncResult {
   uploaded: string[];
   /** Items that were downloaded (with their documents) */
   downloaded: Array<{ itemId: string; document: FlowDocument }>;
+  /** Items not uploaded because of the size limits */
+  skipped: Array<{ itemId: string; reason: 'too-large' | 'over-quota' }>;
   /** Errors that occurred during sync */
   errors: Array<{ itemId: string; error: string }>;
 }
@@ -176,8 +176,9 @@ export async function decryptData<T>(
     const json = new TextDecoder().decode(plaintext);
     return JSON.parse(json) as T;
   } catch (error) {
-    // AES-GCM authentication failure means wrong passphrase or tampered data
-    if (error instanceof DOMException && error.name === 'OperationError') {
+    // AES-GCM authentication failure means wrong passphrase or tampered data.
+    // Matched by name: the DOMException may come from another realm than ours.
+    if (error instanceof Error && error.name === 'OperationError') {
       throw new EncryptionError(
         'Decryption failed. Incorrect passphrase or corrupted data.',
         'decrypt'
@@ -206,6 +207,25 @@ export async function verifyPassphrase(
   }
 }
 
+/**
+ * Re-encrypt a blob under a new passphrase and salt.
+ * A blob already encrypted with the new salt is returned as-is, so a
+ * passphrase change that was interrupted can run again over the same files.
+ */
+export async function reencrypt(
+  blob: EncryptedBlob,
+  oldPassphrase: string,
+  newPassphrase: string,
+  newSalt: Uint8Array
+): Promise<EncryptedBlob> {
+  if (blob.salt === arrayBufferToBase64(newSalt)) {
+    return blob;
+  }
+
+  const data = await decryptData<unknown>(blob, oldPassphrase);
+  return encryptData(data, newPassphrase, newSalt);
+}
+
 /**
  * Get the salt from an encrypted blob (for consistent key derivation)
  */
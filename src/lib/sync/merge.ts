@@ -3,18 +3,20 @@
  * 
  * Handles conflict resolution when merging local and remote sync states.
  * Uses "furthest progress wins" strategy for reading positions and progress,
- * and "last writer wins" for other settings.
+ * "last writer wins" per key for settings, presets and themes, and per state for other data.
  */
 
-import type { ReadingPosition, Collection, Annotation, ReadingStats } from '@/types';
+import type { ReadingPosition, Collection, Annotation, ReadingStats, ReaderSettings, CustomTheme, ComprehensionScore, SpeedTrace } from '@/types';
 import { DEFAULT_READING_STATS } from '@/types';
 import type { 
   SyncStateDocument, 
   SyncArchiveItem, 
   MergeResult, 
-  ConflictInfo 
+  ConflictInfo,
+  SyncScope,
 } from './types';
 import { normalizeUrl } from '../url-utils';
+import { isCategorySynced, isConflictInScope, keepRemoteOutsideScope } from './sync-scope';
 import { 
   isPositionFurther, 
   furtherPosition, 
@@ -27,19 +29,22 @@ import {
  * Merge local and remote sync states.
  * 
  * Strategy:
- * - Settings: last writer wins (based on updatedAt)
+ * - Settings: last writer wins per setting (based on fieldUpdatedAt, else updatedAt)
  * - Archive items: union by ID, prefer newest lastOpenedAt per item
  * - Positions: merge by document key, prefer newest timestamp
- * - Presets: union by name, prefer newest updatedAt
- * - Themes: union by name, prefer remote on conflict
+ * - Presets: last writer wins per name, including deletions
+ * - Themes: last writer wins per name, including deletions
  * - Deleted items: union of tombstones, items with tombstones are excluded
+ *
+ * With a scope, categories this device doesn't sync keep the remote's data.
  */
 export function mergeStates(
   local: SyncStateDocument,
   remote: SyncStateDocument,
-  localDeviceId: string
+  localDeviceId: string,
+  scope?: SyncScope
 ): MergeResult {
-  const conflicts: ConflictInfo[] = [];
+  let conflicts: ConflictInfo[] = [];
   
   // Determine the winner based on updatedAt
   const remoteIsNewer = remote.updatedAt > local.updatedAt;
@@ -52,13 +57,21 @@ export function mergeStates(
     console.log(`  Remote: ${remote.deviceId} @ ${new Date(remote.updatedAt).toISOString()}`);
   }
   
-  // Check for settings conflicts
-  if (!settingsEqual(local.settings, remote.settings)) {
+  const localTimes = local.fieldUpdatedAt;
+  const remoteTimes = remote.fieldUpdatedAt;
+
+  // Merge settings key by key; each differing setting is reported as a conflict
+  const mergedSettings = mergeByKey(
+    { values: { ...local.settings }, timestamps: localTimes?.settings, updatedAt: local.updatedAt },
+    { values: { ...remote.settings }, timestamps: remoteTimes?.settings, updatedAt: remote.updatedAt }
+  );
+  for (const key of mergedSettings.differing) {
     conflicts.push({
       type: 'settings',
-      localValue: local.settings,
-      remoteValue: remote.settings,
-      resolution: remoteIsNewer ? 'remote-wins' : 'local-wins',
+      itemId: key,
+      localValue: local.settings[key as keyof ReaderSettings],
+      remoteValue: remote.settings[key as keyof ReaderSettings],
+      resolution: mergedSettings.remoteWon.has(key) ? 'remote-wins' : 'local-wins',
     });
   }
   
@@ -83,11 +96,14 @@ export function mergeStates(
   );
   conflicts.push(...positionConflicts);
   
-  // Merge presets (union, remote wins on conflict)
-  const mergedPresets = { ...local.presets, ...remote.presets };
+  // Merge presets by name
+  const mergedPresets = mergeByKey(
+    { values: local.presets, timestamps: localTimes?.presets, updatedAt: local.updatedAt },
+    { values: remote.presets, timestamps: remoteTimes?.presets, updatedAt: remote.updatedAt }
+  );
   
-  // Merge custom themes (union by name, remote wins on conflict)
-  const mergedThemes = mergeCustomThemes(local.customThemes, remote.customThemes);
+  // Merge custom themes by name
+  const mergedThemes = mergeCustomThemes(local, remote);
   
   // Merge collections
   const mergedCollections = mergeCollections(local.collections, remote.collections, remoteIsNewer);
@@ -98,24 +114,32 @@ export function mergeStates(
   // Merge reading stats (sum totals, keep highest streaks, merge histories)
   const mergedReadingStats = mergeReadingStats(local.readingStats, remote.readingStats);
   
+  // Data outside the scope isn't this device's to merge
+  conflicts = conflicts.filter(conflict => isConflictInScope(scope, conflict));
+
   // Determine if there were actual changes
   const hasChanges = conflicts.length > 0 || 
-    mergedArchive.length !== local.archiveItems.length ||
-    Object.keys(mergedPositions).length !== Object.keys(local.positions).length;
+    (isCategorySynced(scope, 'archive') && mergedArchive.length !== local.archiveItems.length) ||
+    (isCategorySynced(scope, 'positions') && Object.keys(mergedPositions).length !== Object.keys(local.positions).length);
   
-  const merged: SyncStateDocument = {
+  const merged = keepRemoteOutsideScope({
     schemaVersion: Math.max(local.schemaVersion, remote.schemaVersion),
     updatedAt: Date.now(),
     deviceId: localDeviceId,
     
-    // Settings from winner
-    settings: winner.settings,
+    // Merged per key
+    settings: mergedSettings.values as unknown as ReaderSettings,
+    presets: mergedPresets.values,
+    customThemes: mergedThemes.themes,
+    fieldUpdatedAt: {
+      settings: mergedSettings.timestamps,
+      presets: mergedPresets.timestamps,
+      customThemes: mergedThemes.timestamps,
+    },
     
     // Merged data
     collections: mergedCollections,
     annotations: mergedAnnotations,
-    presets: mergedPresets,
-    customThemes: mergedThemes,
     archiveItems: mergedArchive,
     positions: mergedPositions,
     deletedItems: mergedDeletedItems,
@@ -129,7 +153,7 @@ export function mergeStates(
     // Flags from winner
     onboardingCompleted: winner.onboardingCompleted,
     exitConfirmationDismissed: winner.exitConfirmationDismissed,
-  };
+  }, remote, scope);
   
   // Log conflicts in dev mode
   if (import.meta.env.DEV && conflicts.length > 0) {
@@ -538,34 +562,97 @@ function mergeAnnotations(
  * Remote wins on name conflict.
  */
 function mergeCustomThemes(
-  local: SyncStateDocument['customThemes'],
-  remote: SyncStateDocument['customThemes']
-): SyncStateDocument['customThemes'] {
-  const themeMap = new Map<string, typeof local[0]>();
-  
-  // Add local themes
-  for (const theme of local) {
-    themeMap.set(theme.name, theme);
-  }
-  
-  // Merge remote themes (overwrite on conflict)
-  for (const theme of remote) {
-    themeMap.set(theme.name, theme);
-  }
+  local: SyncStateDocument,
+  remote: SyncStateDocument
+): { themes: CustomTheme[]; timestamps: Record<string, number> } {
+  const byName = (themes: CustomTheme[]) => Object.fromEntries(themes.map(theme => [theme.name, theme]));
+
+  const { values, timestamps } = mergeByKey(
+    { values: byName(local.customThemes), timestamps: local.fieldUpdatedAt?.customThemes, updatedAt: local.updatedAt },
+    { values: byName(remote.customThemes), timestamps: remote.fieldUpdatedAt?.customThemes, updatedAt: remote.updatedAt }
+  );
   
-  return Array.from(themeMap.values());
+  // Keep the local order, with themes new to this device at the end
+  const names = new Set([...local.customThemes, ...remote.customThemes].map(theme => theme.name));
+  return {
+    themes: [...names].filter(name => name in values).map(name => values[name]),
+    timestamps,
+  };
 }
 
 
-// Note: isPositionFurther, furtherPosition, and furtherProgress are imported from archive-utils.ts
+/** One side of a keyed merge */
+interface KeyedSide<T> {
+  values: Record<string, T>;
+  /** Per-key modification times; a timestamp without a value marks a deletion */
+  timestamps?: Record<string, number>;
+  /** Document time, used for keys without a timestamp (states from before per-key merging) */
+  updatedAt: number;
+}
 
 /**
- * Compare two settings objects for equality
+ * Merge two keyed values key by key: the side that changed a key last wins,
+ * including when that change was a deletion. Local wins ties.
  */
-function settingsEqual(a: SyncStateDocument['settings'], b: SyncStateDocument['settings']): boolean {
-  return JSON.stringify(a) === JSON.stringify(b);
+function mergeByKey<T>(
+  local: KeyedSide<T>,
+  remote: KeyedSide<T>
+): {
+  values: Record<string, T>;
+  timestamps: Record<string, number>;
+  /** Keys whose values differ between the two sides */
+  differing: string[];
+  /** Keys taken from the remote side */
+  remoteWon: Set<string>;
+} {
+  const values: Record<string, T> = {};
+  const timestamps: Record<string, number> = {};
+  const differing: string[] = [];
+  const remoteWon = new Set<string>();
+
+  const keys = new Set([
+    ...Object.keys(local.values),
+    ...Object.keys(remote.values),
+    ...Object.keys(local.timestamps ?? {}),
+    ...Object.keys(remote.timestamps ?? {}),
+  ]);
+
+  for (const key of keys) {
+    const localTime = getKeyTimestamp(local, key);
+    const remoteTime = getKeyTimestamp(remote, key);
+    const useRemote = remoteTime > localTime;
+    const winner = useRemote ? remote : local;
+
+    if (key in winner.values) {
+      values[key] = winner.values[key];
+    }
+    if (Math.max(localTime, remoteTime) > 0) {
+      timestamps[key] = Math.max(localTime, remoteTime);
+    }
+
+    if (JSON.stringify(local.values[key]) !== JSON.stringify(remote.values[key])) {
+      differing.push(key);
+      if (useRemote) {
+        remoteWon.add(key);
+      }
+    }
+  }
+
+  return { values, timestamps, differing, remoteWon };
+}
+
+function getKeyTimestamp<T>(side: KeyedSide<T>, key: string): number {
+  const timestamp = side.timestamps?.[key];
+  if (timestamp !== undefined) {
+    return timestamp;
+  }
+  // A key the side has never seen loses to any change on the other side
+  return key in side.values ? side.updatedAt : 0;
 }
 
+
+// Note: isPositionFurther, furtherPosition, and furtherProgress are imported from archive-utils.ts
+
 /**
  * Compare two archive items for equality (ignoring lastOpenedAt)
  */
@@ -596,6 +683,8 @@ function positionsEqual(a: ReadingPosition, b: ReadingPosition): boolean {
  * - WPM history: Merge by date, prefer higher session count
  * - Hourly activity: Take max values for same hours
  * - Personal bests: Keep highest records
+ * - Comprehension scores: Union by timestamp
+ * - Speed traces: Union by timestamp
  */
 function mergeReadingStats(
   localStats: ReadingStats | undefined,
@@ -678,6 +767,22 @@ function mergeReadingStats(
     fastestWpm: pickBestWpmRecord(local.personalBests.fastestWpm, remote.personalBests.fastestWpm),
   };
   
+  // Merge comprehension scores (each quiz is recorded once, on one device)
+  const scoresByTime = new Map<number, ComprehensionScore>();
+  for (const score of [...(local.comprehensionScores ?? []), ...(remote.comprehensionScores ?? [])]) {
+    scoresByTime.set(score.timestamp, score);
+  }
+  const mergedComprehensionScores = Array.from(scoresByTime.values())
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // Merge speed traces (each session is recorded once, on one device)
+  const tracesByTime = new Map<number, SpeedTrace>();
+  for (const trace of [...(local.speedTraces ?? []), ...(remote.speedTraces ?? [])]) {
+    tracesByTime.set(trace.timestamp, trace);
+  }
+  const mergedSpeedTraces = Array.from(tracesByTime.values())
+    .sort((a, b) => a.timestamp - b.timestamp);
+
   // Determine the most recent reading date
   const lastReadingDate = [local.lastReadingDate, remote.lastReadingDate]
     .filter(Boolean)
@@ -702,6 +807,8 @@ function mergeReadingStats(
     wpmHistory: mergedWpmHistory,
     hourlyActivity: mergedHourlyActivity,
     personalBests: mergedPersonalBests,
+    comprehensionScores: mergedComprehensionScores,
+    speedTraces: mergedSpeedTraces,
     
     // Goals from the device with most recent reading
     goals: (local.lastReadingDate || '') >= (remote.lastReadingDate || '') ? local.goals : remote.goals,
@@ -749,10 +856,10 @@ export const _testing = {
   mergeArchiveItems,
   mergePositions,
   mergeCustomThemes,
+  mergeByKey,
   furtherPosition,
   furtherProgress,
   isPositionFurther,
-  settingsEqual,
   archiveItemsEqual,
   positionsEqual,
 };
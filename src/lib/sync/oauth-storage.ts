@@ -2,7 +2,7 @@
  * OAuth Storage Helper
  * 
  * Shared utilities for storing and retrieving OAuth tokens and PKCE verifiers
- * in Chrome storage. Used by Dropbox adapter.
+ * in Chrome storage. Used by the Dropbox adapter, and by the S3 adapter for its access keys.
  */
 
 import type { OAuthTokens } from './types';
@@ -10,14 +10,15 @@ import type { OAuthTokens } from './types';
 /**
  * Helper class for managing OAuth token storage in Chrome extension storage.
  * Each adapter instance should create its own OAuthStorageHelper with unique keys.
+ * Adapters without an OAuth flow store their credentials as the tokens and omit the PKCE key.
  */
-export class OAuthStorageHelper {
+export class OAuthStorageHelper<T = OAuthTokens> {
   constructor(
     private tokensKey: string,
-    private pkceKey: string
+    private pkceKey?: string
   ) {}
 
-  async storeTokens(tokens: OAuthTokens): Promise<void> {
+  async storeTokens(tokens: T): Promise<void> {
     return new Promise((resolve, reject) => {
       chrome.storage.local.set({ [this.tokensKey]: tokens }, () => {
         if (chrome.runtime.lastError) {
@@ -29,14 +30,14 @@ export class OAuthStorageHelper {
     });
   }
 
-  async getStoredTokens(): Promise<OAuthTokens | null> {
+  async getStoredTokens(): Promise<T | null> {
     return new Promise((resolve, reject) => {
       chrome.storage.local.get([this.tokensKey], (result) => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
           return;
         }
-        resolve(result[this.tokensKey] as OAuthTokens || null);
+        resolve(result[this.tokensKey] as T || null);
       });
     });
   }
@@ -54,8 +55,9 @@ export class OAuthStorageHelper {
   }
 
   async storePkceVerifier(verifier: string): Promise<void> {
+    const pkceKey = this.requirePkceKey();
     return new Promise((resolve, reject) => {
-      chrome.storage.local.set({ [this.pkceKey]: verifier }, () => {
+      chrome.storage.local.set({ [pkceKey]: verifier }, () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
         } else {
@@ -66,20 +68,22 @@ export class OAuthStorageHelper {
   }
 
   async getPkceVerifier(): Promise<string | null> {
+    const pkceKey = this.requirePkceKey();
     return new Promise((resolve, reject) => {
-      chrome.storage.local.get([this.pkceKey], (result) => {
+      chrome.storage.local.get([pkceKey], (result) => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
           return;
         }
-        resolve(result[this.pkceKey] as string || null);
+        resolve(result[pkceKey] as string || null);
       });
     });
   }
 
   async clearPkceVerifier(): Promise<void> {
+    const pkceKey = this.requirePkceKey();
     return new Promise((resolve, reject) => {
-      chrome.storage.local.remove([this.pkceKey], () => {
+      chrome.storage.local.remove([pkceKey], () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
         } else {
@@ -88,4 +92,11 @@ export class OAuthStorageHelper {
       });
     });
   }
+
+  private requirePkceKey(): string {
+    if (!this.pkceKey) {
+      throw new Error('No PKCE storage key configured');
+    }
+    return this.pkceKey;
+  }
 }
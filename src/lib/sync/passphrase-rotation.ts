@@ -0,0 +1,135 @@
+/**
+ * Passphrase Rotation
+ *
+ * Changing the sync passphrase re-encrypts every remote file under a new salt.
+ * Progress is kept locally so an interrupted change can be run again and pick
+ * up where it stopped: the new salt, a check value encrypted with the new
+ * passphrase, and the files already done. The passphrases are never stored.
+ */
+
+import { SyncError } from '../errors';
+import { encryptData, decryptData, generateSalt, reencrypt, EncryptionError } from './encryption';
+import { arrayBufferToBase64, base64ToUint8Array } from '../encoding';
+import * as chromeStorage from '../chrome-storage';
+import type { EncryptedBlob, SyncProvider } from './types';
+
+
+export const PASSPHRASE_ROTATION_STORAGE_KEY = 'syncPassphraseRotation';
+
+const ROTATION_CHECK_VALUE = 'flowreader-passphrase-rotation';
+
+
+export interface PassphraseRotation {
+  /** Salt the remote data is re-encrypted under (base64) */
+  newSalt: string;
+  /** Encrypted with the new passphrase, to recognise it when resuming */
+  check: EncryptedBlob;
+  /** Content folder files already re-encrypted */
+  completedFiles: string[];
+  startedAt: number;
+}
+
+
+/**
+ * Get the passphrase change that was started but not finished, if any
+ */
+export async function getPassphraseRotation(): Promise<PassphraseRotation | null> {
+  return (await chromeStorage.getOne<PassphraseRotation>(PASSPHRASE_ROTATION_STORAGE_KEY)) ?? null;
+}
+
+
+/**
+ * Start a passphrase change, or resume the unfinished one. Resuming needs the
+ * same new passphrase, as some files are already encrypted with it.
+ */
+export async function beginPassphraseRotation(newPassphrase: string): Promise<PassphraseRotation> {
+  const existing = await getPassphraseRotation();
+  if (existing) {
+    try {
+      await decryptData<string>(existing.check, newPassphrase);
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        throw new SyncError('Enter the same new passphrase as in the unfinished passphrase change', 'configuration');
+      }
+      throw error;
+    }
+    return existing;
+  }
+
+  const salt = generateSalt();
+  const rotation: PassphraseRotation = {
+    newSalt: arrayBufferToBase64(salt),
+    check: await encryptData(ROTATION_CHECK_VALUE, newPassphrase, salt),
+    completedFiles: [],
+    startedAt: Date.now(),
+  };
+  await chromeStorage.setOne(PASSPHRASE_ROTATION_STORAGE_KEY, rotation);
+  return rotation;
+}
+
+
+/**
+ * Record a re-encrypted file, so resuming doesn't download it again
+ */
+export async function markFileRotated(rotation: PassphraseRotation, fileName: string): Promise<PassphraseRotation> {
+  const updated = { ...rotation, completedFiles: [...rotation.completedFiles, fileName] };
+  await chromeStorage.setOne(PASSPHRASE_ROTATION_STORAGE_KEY, updated);
+  return updated;
+}
+
+
+export async function clearPassphraseRotation(): Promise<void> {
+  await chromeStorage.remove(PASSPHRASE_ROTATION_STORAGE_KEY);
+}
+
+
+/**
+ * Re-encrypt a blob for a rotation; a wrong old passphrase becomes a SyncError
+ */
+export async function reencryptBlob(
+  blob: EncryptedBlob,
+  rotation: PassphraseRotation,
+  oldPassphrase: string,
+  newPassphrase: string
+): Promise<EncryptedBlob> {
+  try {
+    return await reencrypt(blob, oldPassphrase, newPassphrase, base64ToUint8Array(rotation.newSalt));
+  } catch (error) {
+    if (error instanceof EncryptionError) {
+      throw new SyncError('Current passphrase is incorrect', 'decrypt');
+    }
+    throw error;
+  }
+}
+
+
+/**
+ * Re-encrypt one content folder file in place. A missing file is skipped:
+ * it may have been pruned since the state that lists it was read.
+ */
+export async function reencryptRemoteFile(
+  provider: SyncProvider,
+  fileName: string,
+  rotation: PassphraseRotation,
+  oldPassphrase: string,
+  newPassphrase: string
+): Promise<void> {
+  const file = await provider.downloadContentFile(fileName);
+  if (!file) {
+    return;
+  }
+
+  const blob = JSON.parse(await file.text()) as EncryptedBlob;
+  const rotated = await reencryptBlob(blob, rotation, oldPassphrase, newPassphrase);
+  if (rotated === blob) {
+    return;
+  }
+
+  const result = await provider.uploadContentFile(
+    fileName,
+    new Blob([JSON.stringify(rotated)], { type: 'application/json' })
+  );
+  if (!result.success) {
+    throw new SyncError(result.error || `Failed to upload ${fileName}`, 'upload');
+  }
+}
@@ -9,6 +9,7 @@ import type {
   SyncProvider, 
   EncryptedBlob, 
   UploadResult, 
+  UploadOptions,
   RemoteMetadata,
   OAuthTokens,
 } from '../types';
@@ -187,9 +188,11 @@ export class DropboxAdapter implements SyncProvider {
   }
 
   /**
-   * Upload encrypted state to Dropbox
+   * Upload encrypted state to Dropbox.
+   * An expected etag is a Dropbox rev: the write uses `update` mode and fails
+   * with a path conflict if the file has moved on.
    */
-  async upload(blob: EncryptedBlob): Promise<UploadResult> {
+  async upload(blob: EncryptedBlob, options: UploadOptions = {}): Promise<UploadResult> {
     try {
       await this.ensureValidToken();
 
@@ -206,7 +209,7 @@ export class DropboxAdapter implements SyncProvider {
           'Content-Type': 'application/octet-stream',
           'Dropbox-API-Arg': JSON.stringify({
             path: SYNC_FILE_PATH,
-            mode: 'overwrite',
+            mode: getWriteMode(options.expectedEtag),
             autorename: false,
             mute: true,
           }),
@@ -214,6 +217,19 @@ export class DropboxAdapter implements SyncProvider {
         body: content,
       });
 
+      if (response.status === 409) {
+        const errorData = await response.json().catch(() => null);
+        if (errorData?.error_summary?.startsWith('path/conflict')) {
+          return {
+            success: false,
+            updatedAt: Date.now(),
+            conflict: true,
+            error: 'Sync file was changed by another device',
+          };
+        }
+        return { success: false, updatedAt: Date.now(), error: `Upload failed: ${JSON.stringify(errorData)}` };
+      }
+
       if (!response.ok) {
         const error = await response.text();
         return { success: false, updatedAt: Date.now(), error: `Upload failed: ${error}` };
@@ -574,6 +590,18 @@ export class DropboxAdapter implements SyncProvider {
 }
 
 
+/**
+ * Dropbox write mode for a conditional upload: `update` only replaces the given
+ * rev, `add` only creates a missing file (autorename is off, so it never renames)
+ */
+function getWriteMode(expectedEtag: string | null | undefined) {
+  if (expectedEtag) {
+    return { '.tag': 'update', update: expectedEtag };
+  }
+  return expectedEtag === null ? 'add' : 'overwrite';
+}
+
+
 export class DropboxError extends Error {
   constructor(
     message: string,
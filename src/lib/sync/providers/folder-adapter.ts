@@ -10,6 +10,7 @@ import type {
   SyncProvider, 
   EncryptedBlob, 
   UploadResult, 
+  UploadOptions,
   RemoteMetadata 
 } from '../types';
 
@@ -97,9 +98,12 @@ export class FolderAdapter implements SyncProvider {
   }
 
   /**
-   * Upload encrypted state to folder
+   * Upload encrypted state to folder.
+   * The File System Access API has no conditional writes, so an expected etag is
+   * checked against the file just before writing. That narrows the window for a
+   * lost update to the write itself.
    */
-  async upload(blob: EncryptedBlob): Promise<UploadResult> {
+  async upload(blob: EncryptedBlob, options: UploadOptions = {}): Promise<UploadResult> {
     if (!this.folderHandle) {
       return { 
         success: false, 
@@ -119,6 +123,18 @@ export class FolderAdapter implements SyncProvider {
         };
       }
 
+      if (options.expectedEtag !== undefined) {
+        const currentEtag = await this.getSyncFileEtag();
+        if (currentEtag !== options.expectedEtag) {
+          return {
+            success: false,
+            updatedAt: Date.now(),
+            conflict: true,
+            error: 'Sync file was changed by another device',
+          };
+        }
+      }
+
       // Get or create the sync file
       const fileHandle = await this.folderHandle.getFileHandle(SYNC_FILE_NAME, { create: true });
       
@@ -130,6 +146,7 @@ export class FolderAdapter implements SyncProvider {
       return {
         success: true,
         updatedAt: Date.now(),
+        etag: getFileEtag(await fileHandle.getFile()),
       };
     } catch (error) {
       return {
@@ -192,6 +209,7 @@ export class FolderAdapter implements SyncProvider {
         exists: true,
         updatedAt: file.lastModified,
         size: file.size,
+        etag: getFileEtag(file),
       };
     } catch (error) {
       if (error instanceof DOMException && error.name === 'NotFoundError') {
@@ -396,6 +414,21 @@ export class FolderAdapter implements SyncProvider {
     }
   }
 
+  /**
+   * Etag of the sync file as it is now, or null if it doesn't exist
+   */
+  private async getSyncFileEtag(): Promise<string | null> {
+    try {
+      const fileHandle = await this.folderHandle!.getFileHandle(SYNC_FILE_NAME);
+      return getFileEtag(await fileHandle.getFile());
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   // PRIVATE METHODS - Handle persistence using IndexedDB
 
   private async storeHandle(handle: FileSystemDirectoryHandle): Promise<void> {
@@ -491,6 +524,14 @@ export class FolderAdapter implements SyncProvider {
 }
 
 
+/**
+ * Local files have no etag; modification time and size stand in for one
+ */
+function getFileEtag(file: File): string {
+  return `${file.lastModified}-${file.size}`;
+}
+
+
 export class FolderSyncError extends Error {
   constructor(
     message: string,
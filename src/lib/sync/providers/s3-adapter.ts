@@ -0,0 +1,409 @@
+/**
+ * S3 Sync Adapter
+ *
+ * Syncs to S3-compatible object storage (AWS, MinIO, Backblaze B2, Cloudflare R2)
+ * using SigV4-signed requests with path-style URLs.
+ * Stores sync file as the object flowreader/flowreader_state.enc, with content
+ * files under flowreader/content/.
+ */
+
+import type {
+  SyncProvider,
+  EncryptedBlob,
+  UploadResult,
+  UploadOptions,
+  RemoteMetadata,
+  S3Credentials,
+} from '../types';
+import { OAuthStorageHelper } from '../oauth-storage';
+import { signRequest, sha256Hex, uriEncode, EMPTY_PAYLOAD_HASH } from '../sigv4';
+
+
+const KEY_PREFIX = 'flowreader/';
+const SYNC_FILE_KEY = `${KEY_PREFIX}flowreader_state.enc`;
+const CONTENT_PREFIX = `${KEY_PREFIX}content/`;
+const CREDENTIALS_STORAGE_KEY = 's3Credentials';
+
+
+interface S3RequestOptions {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: string | ArrayBuffer;
+}
+
+
+export class S3Adapter implements SyncProvider {
+  readonly name = 'S3';
+  readonly providerType = 's3' as const;
+  readonly needsAuth = true;
+
+  private credentials: S3Credentials | null = null;
+  private credentialStorage = new OAuthStorageHelper<S3Credentials>(CREDENTIALS_STORAGE_KEY);
+
+  /**
+   * Verify the keys against the bucket and store them
+   */
+  async connect(credentials: S3Credentials): Promise<void> {
+    const normalized: S3Credentials = {
+      ...credentials,
+      endpoint: credentials.endpoint.trim().replace(/\/+$/, ''),
+      region: credentials.region.trim() || 'us-east-1',
+      bucket: credentials.bucket.trim(),
+    };
+
+    let response: Response;
+    try {
+      response = await this.request(normalized, 'HEAD', null);
+    } catch (error) {
+      throw new S3Error(
+        `Could not reach the storage endpoint: ${error instanceof Error ? error.message : 'Network error'}`,
+        'connect'
+      );
+    }
+
+    if (response.status === 403 || response.status === 401) {
+      throw new S3Error('Access denied. Check the access key, secret key and region.', 'auth', response.status);
+    }
+    if (response.status === 404) {
+      throw new S3Error(`Bucket "${normalized.bucket}" not found`, 'connect', response.status);
+    }
+    if (!response.ok) {
+      throw new S3Error(`Bucket check failed: HTTP ${response.status}`, 'connect', response.status);
+    }
+
+    this.credentials = normalized;
+    await this.credentialStorage.storeTokens(normalized);
+  }
+
+  /**
+   * Upload encrypted state, conditional on its ETag if one is expected
+   */
+  async upload(blob: EncryptedBlob, options: UploadOptions = {}): Promise<UploadResult> {
+    try {
+      const credentials = await this.loadCredentials();
+      if (!credentials) {
+        return { success: false, updatedAt: Date.now(), error: 'Not authenticated' };
+      }
+
+      const headers: Record<string, string> = { 'content-type': 'application/octet-stream' };
+      if (options.expectedEtag) {
+        headers['if-match'] = options.expectedEtag;
+      } else if (options.expectedEtag === null) {
+        headers['if-none-match'] = '*';
+      }
+
+      const response = await this.request(credentials, 'PUT', SYNC_FILE_KEY, {
+        headers,
+        body: JSON.stringify(blob, null, 2),
+      });
+
+      // 409 is returned when a concurrent conditional write is still in flight
+      if (response.status === 412 || response.status === 409) {
+        return {
+          success: false,
+          updatedAt: Date.now(),
+          conflict: true,
+          error: 'Sync file was changed by another device',
+        };
+      }
+
+      if (!response.ok) {
+        return { success: false, updatedAt: Date.now(), error: await getErrorMessage(response, 'Upload failed') };
+      }
+
+      return {
+        success: true,
+        updatedAt: Date.now(),
+        etag: response.headers.get('ETag') ?? undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        updatedAt: Date.now(),
+        error: error instanceof Error ? error.message : 'Upload failed',
+      };
+    }
+  }
+
+  /**
+   * Download encrypted state
+   */
+  async download(): Promise<EncryptedBlob | null> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) {
+      return null;
+    }
+
+    const response = await this.request(credentials, 'GET', SYNC_FILE_KEY);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new S3Error(await getErrorMessage(response, 'Download failed'), 'download', response.status);
+    }
+
+    return JSON.parse(await response.text()) as EncryptedBlob;
+  }
+
+  /**
+   * Get metadata about remote sync file
+   */
+  async getRemoteMetadata(): Promise<RemoteMetadata> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) {
+      return { exists: false, updatedAt: 0, size: 0 };
+    }
+
+    try {
+      const response = await this.request(credentials, 'HEAD', SYNC_FILE_KEY);
+
+      if (!response.ok) {
+        return { exists: false, updatedAt: 0, size: 0 };
+      }
+
+      const lastModified = response.headers.get('Last-Modified');
+      return {
+        exists: true,
+        updatedAt: lastModified ? new Date(lastModified).getTime() : 0,
+        size: Number(response.headers.get('Content-Length')) || 0,
+        etag: response.headers.get('ETag') ?? undefined,
+      };
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:S3] getRemoteMetadata failed:', error);
+      }
+      return { exists: false, updatedAt: 0, size: 0 };
+    }
+  }
+
+  /**
+   * Check if S3 credentials are stored
+   */
+  async isConnected(): Promise<boolean> {
+    return (await this.loadCredentials()) !== null;
+  }
+
+  /**
+   * Forget the stored credentials (remote objects are kept)
+   */
+  async disconnect(): Promise<void> {
+    this.credentials = null;
+    await this.credentialStorage.clearTokens();
+  }
+
+
+  /**
+   * Object storage has no folders; content keys share a prefix instead
+   */
+  async ensureContentFolder(): Promise<void> {}
+
+  /**
+   * List all content files under the content prefix
+   */
+  async listContentFiles(): Promise<string[]> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return [];
+
+    try {
+      const files: string[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const query: Record<string, string> = { 'list-type': '2', 'prefix': CONTENT_PREFIX };
+        if (continuationToken) {
+          query['continuation-token'] = continuationToken;
+        }
+
+        const response = await this.request(credentials, 'GET', null, { query });
+        if (!response.ok) {
+          throw new S3Error(await getErrorMessage(response, 'List failed'), 'download', response.status);
+        }
+
+        const page = parseListObjects(await response.text());
+        files.push(
+          ...page.keys
+            .filter(key => key.startsWith(CONTENT_PREFIX) && key.length > CONTENT_PREFIX.length)
+            .map(key => key.slice(CONTENT_PREFIX.length))
+        );
+        continuationToken = page.nextContinuationToken;
+      } while (continuationToken);
+
+      return files;
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:S3] listContentFiles failed:', error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Upload a content file
+   */
+  async uploadContentFile(filename: string, data: Blob): Promise<UploadResult> {
+    try {
+      const credentials = await this.loadCredentials();
+      if (!credentials) {
+        return { success: false, updatedAt: Date.now(), error: 'Not authenticated' };
+      }
+
+      const response = await this.request(credentials, 'PUT', `${CONTENT_PREFIX}${filename}`, {
+        headers: { 'content-type': 'application/octet-stream' },
+        body: await data.arrayBuffer(),
+      });
+
+      if (!response.ok) {
+        return { success: false, updatedAt: Date.now(), error: await getErrorMessage(response, 'Upload failed') };
+      }
+
+      return {
+        success: true,
+        updatedAt: Date.now(),
+        etag: response.headers.get('ETag') ?? undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        updatedAt: Date.now(),
+        error: error instanceof Error ? error.message : 'Upload failed',
+      };
+    }
+  }
+
+  /**
+   * Download a content file
+   */
+  async downloadContentFile(filename: string): Promise<Blob | null> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return null;
+
+    try {
+      const response = await this.request(credentials, 'GET', `${CONTENT_PREFIX}${filename}`);
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.blob();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:S3] downloadContentFile failed:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Delete a content file (deleting a missing object succeeds in S3)
+   */
+  async deleteContentFile(filename: string): Promise<void> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return;
+
+    try {
+      await this.request(credentials, 'DELETE', `${CONTENT_PREFIX}${filename}`);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:S3] deleteContentFile failed:', error);
+      }
+    }
+  }
+
+
+  private async loadCredentials(): Promise<S3Credentials | null> {
+    if (!this.credentials) {
+      this.credentials = await this.credentialStorage.getStoredTokens();
+    }
+    return this.credentials;
+  }
+
+  /**
+   * Send a signed request for an object key, or for the bucket itself when key is null
+   */
+  private async request(
+    credentials: S3Credentials,
+    method: string,
+    key: string | null,
+    options: S3RequestOptions = {}
+  ): Promise<Response> {
+    const objectPath = key === null ? '' : `/${key.split('/').map(uriEncode).join('/')}`;
+    const url = new URL(`${credentials.endpoint}/${uriEncode(credentials.bucket)}${objectPath}`);
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(name, value);
+    }
+
+    const headers = await signRequest(
+      {
+        method,
+        url: url.href,
+        headers: options.headers,
+        payloadHash: options.body === undefined ? EMPTY_PAYLOAD_HASH : await sha256Hex(options.body),
+      },
+      {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+        region: credentials.region,
+        service: 's3',
+      }
+    );
+
+    return fetch(url.href, {
+      method,
+      headers,
+      body: options.body,
+      credentials: 'omit',
+      cache: 'no-store',
+    });
+  }
+}
+
+
+/**
+ * Read keys and the continuation token from a ListObjectsV2 response.
+ * Parsed with regular expressions since service workers have no DOMParser.
+ */
+export function parseListObjects(xml: string): { keys: string[]; nextContinuationToken?: string } {
+  const keys = [...xml.matchAll(/<Key>([^<]*)<\/Key>/g)].map(match => decodeXmlEntities(match[1]));
+  const isTruncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+  const token = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1];
+
+  return {
+    keys,
+    nextContinuationToken: isTruncated && token ? decodeXmlEntities(token) : undefined,
+  };
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Pull the <Message> out of an S3 XML error body
+ */
+async function getErrorMessage(response: Response, fallback: string): Promise<string> {
+  const body = await response.text().catch(() => '');
+  const message = body.match(/<Message>([^<]*)<\/Message>/)?.[1];
+  return message ? `${fallback}: ${decodeXmlEntities(message)}` : `${fallback}: HTTP ${response.status}`;
+}
+
+
+export class S3Error extends Error {
+  constructor(
+    message: string,
+    public readonly operation: 'auth' | 'connect' | 'upload' | 'download',
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'S3Error';
+  }
+}
+
+
+export const s3Adapter = new S3Adapter();
@@ -0,0 +1,423 @@
+/**
+ * WebDAV Sync Adapter
+ *
+ * Syncs to any WebDAV server (Nextcloud, ownCloud, Apache mod_dav, ...) using
+ * HTTP Basic auth with an account or app password.
+ * Stores sync file in a FlowReader folder under the server root:
+ * <serverUrl>/FlowReader/flowreader_state.enc, with content files in /content.
+ */
+
+import type {
+  SyncProvider,
+  EncryptedBlob,
+  UploadResult,
+  UploadOptions,
+  RemoteMetadata,
+  WebDavCredentials,
+} from '../types';
+import { unicodeToBase64 } from '../../encoding';
+import * as chromeStorage from '../../chrome-storage';
+
+
+const SYNC_FOLDER_NAME = 'FlowReader';
+const SYNC_FILE_NAME = 'flowreader_state.enc';
+const CONTENT_FOLDER_NAME = 'content';
+const CREDENTIALS_STORAGE_KEY = 'webdavCredentials';
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>`;
+
+
+export class WebDavAdapter implements SyncProvider {
+  readonly name = 'WebDAV';
+  readonly providerType = 'webdav' as const;
+  readonly needsAuth = true;
+
+  private credentials: WebDavCredentials | null = null;
+
+  /**
+   * Verify the login against the server, create the sync folder and store the credentials
+   */
+  async connect(credentials: WebDavCredentials): Promise<void> {
+    const normalized = { ...credentials, serverUrl: normalizeServerUrl(credentials.serverUrl) };
+
+    const response = await this.request(normalized, normalized.serverUrl, {
+      method: 'PROPFIND',
+      headers: { 'Depth': '0', 'Content-Type': 'application/xml' },
+      body: PROPFIND_BODY,
+    }).catch((error: unknown) => {
+      throw new WebDavError(
+        `Could not reach the WebDAV server: ${error instanceof Error ? error.message : 'Network error'}`,
+        'connect'
+      );
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new WebDavError(
+        normalized.authType === 'password'
+          ? 'Login failed. If your account uses two-factor authentication, create an app password instead.'
+          : 'Login failed. Check the username and app password.',
+        'auth',
+        response.status
+      );
+    }
+    if (response.status !== 207) {
+      throw new WebDavError(`Not a WebDAV folder (HTTP ${response.status}). Check the server URL.`, 'connect', response.status);
+    }
+
+    await this.makeCollection(normalized, getRootUrl(normalized));
+
+    this.credentials = normalized;
+    await chromeStorage.setOne(CREDENTIALS_STORAGE_KEY, normalized);
+  }
+
+  /**
+   * The stored server and username, for display and for prefilling the connect form
+   */
+  async getAccount(): Promise<Omit<WebDavCredentials, 'password'> | null> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return null;
+    const { password: _password, ...account } = credentials;
+    return account;
+  }
+
+  /**
+   * Upload encrypted state to the server, conditional on its ETag if one is expected
+   */
+  async upload(blob: EncryptedBlob, options: UploadOptions = {}): Promise<UploadResult> {
+    try {
+      const credentials = await this.loadCredentials();
+      if (!credentials) {
+        return { success: false, updatedAt: Date.now(), error: 'Not authenticated' };
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/octet-stream' };
+      if (options.expectedEtag) {
+        headers['If-Match'] = options.expectedEtag;
+      } else if (options.expectedEtag === null) {
+        headers['If-None-Match'] = '*';
+      }
+
+      const response = await this.request(credentials, getFileUrl(credentials), {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(blob, null, 2),
+      });
+
+      if (response.status === 412) {
+        return {
+          success: false,
+          updatedAt: Date.now(),
+          conflict: true,
+          error: 'Sync file was changed by another device',
+        };
+      }
+
+      if (!response.ok) {
+        return { success: false, updatedAt: Date.now(), error: `Upload failed: HTTP ${response.status}` };
+      }
+
+      return {
+        success: true,
+        updatedAt: Date.now(),
+        // Servers that don't return the new ETag on PUT still report it on HEAD
+        etag: response.headers.get('ETag') ?? (await this.getRemoteMetadata()).etag,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        updatedAt: Date.now(),
+        error: error instanceof Error ? error.message : 'Upload failed',
+      };
+    }
+  }
+
+  /**
+   * Download encrypted state from the server
+   */
+  async download(): Promise<EncryptedBlob | null> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) {
+      return null;
+    }
+
+    const response = await this.request(credentials, getFileUrl(credentials), { method: 'GET' });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new WebDavError(`Download failed: HTTP ${response.status}`, 'download', response.status);
+    }
+
+    return JSON.parse(await response.text()) as EncryptedBlob;
+  }
+
+  /**
+   * Get metadata about remote sync file
+   */
+  async getRemoteMetadata(): Promise<RemoteMetadata> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) {
+      return { exists: false, updatedAt: 0, size: 0 };
+    }
+
+    try {
+      const response = await this.request(credentials, getFileUrl(credentials), { method: 'HEAD' });
+
+      if (!response.ok) {
+        return { exists: false, updatedAt: 0, size: 0 };
+      }
+
+      const lastModified = response.headers.get('Last-Modified');
+      return {
+        exists: true,
+        updatedAt: lastModified ? new Date(lastModified).getTime() : 0,
+        size: Number(response.headers.get('Content-Length')) || 0,
+        etag: response.headers.get('ETag') ?? undefined,
+      };
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:WebDAV] getRemoteMetadata failed:', error);
+      }
+      return { exists: false, updatedAt: 0, size: 0 };
+    }
+  }
+
+  /**
+   * Check if WebDAV credentials are stored
+   */
+  async isConnected(): Promise<boolean> {
+    return (await this.loadCredentials()) !== null;
+  }
+
+  /**
+   * Forget the stored credentials (remote files are kept)
+   */
+  async disconnect(): Promise<void> {
+    this.credentials = null;
+    await chromeStorage.remove(CREDENTIALS_STORAGE_KEY);
+  }
+
+
+  /**
+   * Ensure the content folder exists on the server
+   */
+  async ensureContentFolder(): Promise<void> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return;
+
+    await this.makeCollection(credentials, getRootUrl(credentials));
+    await this.makeCollection(credentials, getContentUrl(credentials));
+  }
+
+  /**
+   * List all content files in the content folder
+   */
+  async listContentFiles(): Promise<string[]> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return [];
+
+    try {
+      const folderUrl = getContentUrl(credentials);
+      const response = await this.request(credentials, folderUrl, {
+        method: 'PROPFIND',
+        headers: { 'Depth': '1', 'Content-Type': 'application/xml' },
+        body: PROPFIND_BODY,
+      });
+
+      if (response.status !== 207) {
+        return [];
+      }
+
+      const folderPath = new URL(folderUrl).pathname;
+      return parseMultistatus(await response.text())
+        .filter(entry => !entry.isCollection)
+        .map(entry => new URL(entry.href, folderUrl).pathname)
+        .filter(path => path.startsWith(folderPath) && path.length > folderPath.length)
+        .map(path => decodeURIComponent(path.slice(folderPath.length)));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:WebDAV] listContentFiles failed:', error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Upload a content file to the content folder
+   */
+  async uploadContentFile(filename: string, data: Blob): Promise<UploadResult> {
+    try {
+      const credentials = await this.loadCredentials();
+      if (!credentials) {
+        return { success: false, updatedAt: Date.now(), error: 'Not authenticated' };
+      }
+
+      const put = () => this.request(credentials, getContentFileUrl(credentials, filename), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: data,
+      });
+
+      let response = await put();
+      if (response.status === 409) {
+        // Parent folder missing - create it and retry once
+        await this.ensureContentFolder();
+        response = await put();
+      }
+
+      if (!response.ok) {
+        return { success: false, updatedAt: Date.now(), error: `Upload failed: HTTP ${response.status}` };
+      }
+
+      return {
+        success: true,
+        updatedAt: Date.now(),
+        etag: response.headers.get('ETag') ?? undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        updatedAt: Date.now(),
+        error: error instanceof Error ? error.message : 'Upload failed',
+      };
+    }
+  }
+
+  /**
+   * Download a content file from the content folder
+   */
+  async downloadContentFile(filename: string): Promise<Blob | null> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return null;
+
+    try {
+      const response = await this.request(credentials, getContentFileUrl(credentials, filename), { method: 'GET' });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return await response.blob();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:WebDAV] downloadContentFile failed:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Delete a content file from the content folder
+   */
+  async deleteContentFile(filename: string): Promise<void> {
+    const credentials = await this.loadCredentials();
+    if (!credentials) return;
+
+    try {
+      await this.request(credentials, getContentFileUrl(credentials, filename), { method: 'DELETE' });
+    } catch (error) {
+      // Log but don't fail - file might not exist or already deleted
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:WebDAV] deleteContentFile failed (file may not exist):', error);
+      }
+    }
+  }
+
+
+  private async loadCredentials(): Promise<WebDavCredentials | null> {
+    if (!this.credentials) {
+      this.credentials = (await chromeStorage.getOne<WebDavCredentials>(CREDENTIALS_STORAGE_KEY)) ?? null;
+    }
+    return this.credentials;
+  }
+
+  /**
+   * Create a folder; a 405 means it already exists
+   */
+  private async makeCollection(credentials: WebDavCredentials, url: string): Promise<void> {
+    const response = await this.request(credentials, url, { method: 'MKCOL' });
+    if (!response.ok && response.status !== 405) {
+      throw new WebDavError(`Failed to create folder: HTTP ${response.status}`, 'upload', response.status);
+    }
+  }
+
+  private request(credentials: WebDavCredentials, url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Authorization': `Basic ${unicodeToBase64(`${credentials.username}:${credentials.password}`)}`,
+      },
+      // Never send or store cookies; some servers otherwise switch to session auth
+      credentials: 'omit',
+      cache: 'no-store',
+    });
+  }
+}
+
+
+function normalizeServerUrl(serverUrl: string): string {
+  const url = serverUrl.trim();
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+function getRootUrl(credentials: WebDavCredentials): string {
+  return `${credentials.serverUrl}${SYNC_FOLDER_NAME}/`;
+}
+
+function getFileUrl(credentials: WebDavCredentials): string {
+  return `${getRootUrl(credentials)}${SYNC_FILE_NAME}`;
+}
+
+function getContentUrl(credentials: WebDavCredentials): string {
+  return `${getRootUrl(credentials)}${CONTENT_FOLDER_NAME}/`;
+}
+
+function getContentFileUrl(credentials: WebDavCredentials, filename: string): string {
+  return `${getContentUrl(credentials)}${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Read the entries of a PROPFIND multistatus response.
+ * Service workers have no DOMParser, and servers differ in namespace prefixes
+ * (d:, D:, none), so elements are matched by local name.
+ */
+export function parseMultistatus(xml: string): { href: string; isCollection: boolean }[] {
+  const responses = xml.match(/<(?:[\w-]+:)?response\b[\s\S]*?<\/(?:[\w-]+:)?response>/g) ?? [];
+
+  return responses.flatMap(response => {
+    const href = response.match(/<(?:[\w-]+:)?href>([^<]*)<\/(?:[\w-]+:)?href>/)?.[1];
+    if (!href) return [];
+    return [{
+      href: decodeXmlEntities(href.trim()),
+      isCollection: /<(?:[\w-]+:)?collection\s*\/?>/.test(response),
+    }];
+  });
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+
+export class WebDavError extends Error {
+  constructor(
+    message: string,
+    public readonly operation: 'auth' | 'connect' | 'upload' | 'download',
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'WebDavError';
+  }
+}
+
+
+export const webdavAdapter = new WebDavAdapter();
@@ -0,0 +1,128 @@
+/**
+ * Sync Sections
+ *
+ * The remote state is stored as a small root document plus one file per section
+ * (settings, archive, positions, annotations, stats, collections). Section files
+ * are named by the hash of their contents, so a sync uploads only the sections
+ * that changed and downloads only those that differ from the local state.
+ *
+ * Remotes written before sections existed hold the whole state in the root
+ * document; those are read as-is and replaced by a sectioned root on upload.
+ */
+
+import type { SyncStateDocument, SyncSectionName, SyncSectionRef } from './types';
+
+
+/**
+ * Schema version written on sectioned roots. Clients from before sections read
+ * the root as a full state, so the version is above any they were built with;
+ * in turn, roots newer than this are refused rather than read.
+ */
+export const SYNC_SCHEMA_VERSION = 5;
+
+export const SYNC_SECTION_NAMES: readonly SyncSectionName[] = [
+  'settings',
+  'archive',
+  'positions',
+  'annotations',
+  'stats',
+  'collections',
+];
+
+/** State document fields stored in each section */
+const SECTION_FIELDS = {
+  settings: ['settings', 'presets', 'customThemes', 'fieldUpdatedAt'],
+  archive: ['archiveItems', 'deletedItems'],
+  positions: ['positions'],
+  annotations: ['annotations'],
+  stats: ['readingStats'],
+  collections: ['collections'],
+} as const satisfies Record<SyncSectionName, readonly (keyof SyncStateDocument)[]>;
+
+const SECTION_FILE_PREFIX = 'section-';
+const SECTION_FILE_EXTENSION = '.enc';
+
+type SectionField = (typeof SECTION_FIELDS)[SyncSectionName][number];
+
+export type SyncSectionData = Partial<Pick<SyncStateDocument, SectionField>>;
+
+export type SyncSectionRefs = Record<SyncSectionName, SyncSectionRef>;
+
+/** The remote root document of a sectioned state */
+export type SyncRootDocument = Omit<SyncStateDocument, SectionField> & {
+  sections: SyncSectionRefs;
+};
+
+
+/**
+ * Whether a downloaded root document references section files
+ * (as opposed to a single-file state from before sections)
+ */
+export function isSectionedRoot(document: SyncStateDocument | SyncRootDocument): document is SyncRootDocument {
+  return 'sections' in document && !!document.sections;
+}
+
+
+/**
+ * Split a state document into its root fields and its sections
+ */
+export function splitState(state: SyncStateDocument): {
+  root: Omit<SyncStateDocument, SectionField>;
+  sections: Record<SyncSectionName, SyncSectionData>;
+} {
+  const root: Record<string, unknown> = { ...state };
+  const sections = {} as Record<SyncSectionName, SyncSectionData>;
+
+  for (const name of SYNC_SECTION_NAMES) {
+    const section: Record<string, unknown> = {};
+    for (const field of SECTION_FIELDS[name]) {
+      if (state[field] !== undefined) {
+        section[field] = state[field];
+      }
+      delete root[field];
+    }
+    sections[name] = section as SyncSectionData;
+  }
+
+  return { root: root as Omit<SyncStateDocument, SectionField>, sections };
+}
+
+
+/**
+ * Rebuild the state document from a root document and its downloaded sections
+ */
+export function assembleState(
+  root: SyncRootDocument,
+  sections: Record<SyncSectionName, SyncSectionData>
+): SyncStateDocument {
+  const state: Record<string, unknown> = { ...root };
+  delete state.sections;
+  return Object.assign(state, ...SYNC_SECTION_NAMES.map(name => sections[name])) as SyncStateDocument;
+}
+
+
+/**
+ * Hash a section's contents (first 16 hex characters of its SHA-256)
+ */
+export async function hashSection(section: SyncSectionData): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(section));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+
+export function getSectionFileName(name: SyncSectionName, hash: string): string {
+  return `${SECTION_FILE_PREFIX}${name}-${hash}${SECTION_FILE_EXTENSION}`;
+}
+
+
+/**
+ * Section files of a replaced root that the new root no longer references.
+ * Only files the replaced root pointed to are pruned: other files may belong
+ * to an upload another device hasn't finished yet.
+ */
+export function getSectionFilesToPrune(replaced: SyncSectionRefs, current: SyncSectionRefs): string[] {
+  return SYNC_SECTION_NAMES
+    .filter(name => replaced[name] && replaced[name].hash !== current[name].hash)
+    .map(name => getSectionFileName(name, replaced[name].hash));
+}
@@ -0,0 +1,119 @@
+/**
+ * AWS Signature Version 4
+ *
+ * Request signing for S3-compatible storage (AWS, MinIO, Backblaze B2, Cloudflare R2).
+ * Signs headers only; the payload hash is supplied by the caller.
+ * See https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv-create-signed-request.html
+ */
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+}
+
+export interface SigV4Request {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  /** Hex SHA-256 of the request body */
+  payloadHash: string;
+}
+
+/** Hex SHA-256 of an empty body */
+export const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+const encoder = new TextEncoder();
+
+/**
+ * Returns the request headers plus `Authorization`, `x-amz-date` and
+ * `x-amz-content-sha256`. `Host` is signed but not returned, since fetch sets it.
+ */
+export async function signRequest(
+  request: SigV4Request,
+  credentials: SigV4Credentials,
+  date: Date = new Date()
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash,
+  };
+
+  const canonicalHeaders = new Map<string, string>([['host', url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    canonicalHeaders.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const headerNames = [...canonicalHeaders.keys()].sort();
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    url.pathname || '/',
+    getCanonicalQuery(url.searchParams),
+    headerNames.map(name => `${name}:${canonicalHeaders.get(name)}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  let key = await hmac(encoder.encode(`AWS4${credentials.secretAccessKey}`), dateStamp);
+  for (const part of [credentials.region, credentials.service, 'aws4_request']) {
+    key = await hmac(key, part);
+  }
+  const signature = toHex(await hmac(key, stringToSign));
+
+  return {
+    ...headers,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Hex SHA-256 of a request body
+ */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+}
+
+/**
+ * URI-encodes every byte except unreserved characters, as SigV4 requires
+ * (encodeURIComponent leaves !'()* alone).
+ */
+export function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function getCanonicalQuery(params: URLSearchParams): string {
+  return [...params]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? compare(aValue, bValue) : compare(a, b)))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+async function hmac(key: Uint8Array<ArrayBuffer>, message: string): Promise<Uint8Array<ArrayBuffer>> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
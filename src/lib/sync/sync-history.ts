@@ -0,0 +1,212 @@
+/**
+ * Sync History
+ *
+ * Snapshots of the synced state document, kept so a bad merge can be undone.
+ * The last snapshots are stored locally and as rotating files next to the
+ * content files on the provider; restoring one produces a new sync revision.
+ */
+
+import type { Annotation, Collection } from '@/types';
+import type { SyncStateDocument, SyncArchiveItem, SyncScope } from './types';
+import { keepRemoteOutsideScope } from './sync-scope';
+import { normalizeUrl } from '../url-utils';
+import * as chromeStorage from '../chrome-storage';
+
+
+export const SYNC_HISTORY_STORAGE_KEY = 'syncHistory';
+export const MAX_SYNC_SNAPSHOTS = 5;
+/** Local snapshots share chrome.storage.local with the archive; older ones stay on the provider */
+export const MAX_LOCAL_SNAPSHOT_BYTES = 1024 * 1024;
+
+const HISTORY_FILE_PREFIX = 'history-';
+const HISTORY_FILE_EXTENSION = '.enc';
+
+
+export interface SyncSnapshot {
+  /** The snapshot's state updatedAt, which also names its remote file */
+  createdAt: number;
+  deviceId: string;
+  state: SyncStateDocument;
+}
+
+/** A snapshot in the history list; remote ones are downloaded only when opened */
+export interface SyncSnapshotSummary {
+  createdAt: number;
+  /** Device that wrote it, when known (remote file names don't carry it) */
+  deviceId?: string;
+  location: 'local' | 'remote';
+}
+
+/** What restoring a snapshot would change, relative to the current state */
+export interface SnapshotDiff {
+  archiveItems: { added: SyncArchiveItem[]; removed: SyncArchiveItem[] };
+  annotations: { added: Annotation[]; removed: Annotation[] };
+  collections: { added: Collection[]; removed: Collection[] };
+}
+
+
+/**
+ * Get the local snapshots, newest first.
+ */
+export async function getLocalSnapshots(): Promise<SyncSnapshot[]> {
+  return (await chromeStorage.getOne<SyncSnapshot[]>(SYNC_HISTORY_STORAGE_KEY)) ?? [];
+}
+
+
+/**
+ * Keep a synced state as the newest local snapshot, dropping the oldest beyond
+ * MAX_SYNC_SNAPSHOTS or once together they outgrow MAX_LOCAL_SNAPSHOT_BYTES.
+ */
+export async function saveLocalSnapshot(state: SyncStateDocument): Promise<void> {
+  const snapshots = (await getLocalSnapshots()).filter(s => s.createdAt !== state.updatedAt);
+  const snapshot: SyncSnapshot = {
+    createdAt: state.updatedAt,
+    deviceId: state.deviceId,
+    // The manifest only describes content files at the time; it isn't restored
+    state: { ...state, contentManifest: undefined },
+  };
+
+  const kept: SyncSnapshot[] = [];
+  let bytes = 0;
+  for (const entry of [snapshot, ...snapshots].slice(0, MAX_SYNC_SNAPSHOTS)) {
+    bytes += JSON.stringify(entry).length;
+    if (bytes > MAX_LOCAL_SNAPSHOT_BYTES) {
+      break;
+    }
+    kept.push(entry);
+  }
+
+  await chromeStorage.setOne(SYNC_HISTORY_STORAGE_KEY, kept);
+}
+
+
+export function getSnapshotFileName(createdAt: number): string {
+  return `${HISTORY_FILE_PREFIX}${createdAt}${HISTORY_FILE_EXTENSION}`;
+}
+
+/**
+ * Read the snapshot time from a remote file name, or null for other content files.
+ */
+export function parseSnapshotFileName(fileName: string): number | null {
+  const match = fileName.match(/^history-(\d+)\.enc$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Remote snapshot files beyond the newest MAX_SYNC_SNAPSHOTS.
+ */
+export function getSnapshotFilesToPrune(fileNames: string[]): string[] {
+  return fileNames
+    .filter(name => parseSnapshotFileName(name) !== null)
+    .sort((a, b) => parseSnapshotFileName(b)! - parseSnapshotFileName(a)!)
+    .slice(MAX_SYNC_SNAPSHOTS);
+}
+
+
+/**
+ * Combine local snapshots and remote snapshot files into one list, newest first.
+ * A snapshot stored both ways is listed once, as local.
+ */
+export function listSnapshots(local: SyncSnapshot[], remoteFileNames: string[]): SyncSnapshotSummary[] {
+  const summaries = new Map<number, SyncSnapshotSummary>();
+
+  for (const name of remoteFileNames) {
+    const createdAt = parseSnapshotFileName(name);
+    if (createdAt !== null) {
+      summaries.set(createdAt, { createdAt, location: 'remote' });
+    }
+  }
+  for (const snapshot of local) {
+    summaries.set(snapshot.createdAt, { createdAt: snapshot.createdAt, deviceId: snapshot.deviceId, location: 'local' });
+  }
+
+  return [...summaries.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+
+/**
+ * Compare a snapshot to the current state. "Added" is what the restore brings
+ * back; "removed" is what it takes away.
+ */
+export function diffSnapshot(current: SyncStateDocument, snapshot: SyncStateDocument): SnapshotDiff {
+  const flattenAnnotations = (state: SyncStateDocument) => Object.values(state.annotations ?? {}).flat();
+
+  return {
+    archiveItems: diffById(current.archiveItems, snapshot.archiveItems),
+    annotations: diffById(flattenAnnotations(current), flattenAnnotations(snapshot)),
+    collections: diffById(current.collections ?? [], snapshot.collections ?? []),
+  };
+}
+
+
+/**
+ * Build the state a restore uploads: the snapshot's data as a new revision.
+ * Settings, presets and themes are stamped so they win the next merge, and items
+ * the snapshot doesn't have are tombstoned so other devices drop them too.
+ * Content files and reading stats are left as they are now, and so is every
+ * category outside `scope`: `current` should include the remote's copy of those.
+ */
+export function buildRestoredState(
+  current: SyncStateDocument,
+  snapshot: SyncStateDocument,
+  deviceId: string,
+  now: number,
+  scope?: SyncScope
+): SyncStateDocument {
+  const stampAll = (...sources: object[]) => Object.fromEntries(
+    [...new Set(sources.flatMap(source => Object.keys(source)))].map(key => [key, now])
+  );
+  const themeNames = (state: SyncStateDocument) => Object.fromEntries(state.customThemes.map(theme => [theme.name, true]));
+
+  // Restored items must not stay deleted; removed items must not come back
+  const restoredIdentifiers = new Set(snapshot.archiveItems.flatMap(getItemIdentifiers));
+  const deletedItems: Record<string, number> = {};
+  for (const [identifier, deletedAt] of Object.entries(current.deletedItems ?? {})) {
+    if (!restoredIdentifiers.has(identifier)) {
+      deletedItems[identifier] = deletedAt;
+    }
+  }
+  for (const item of diffById(current.archiveItems, snapshot.archiveItems).removed) {
+    for (const identifier of getItemIdentifiers(item)) {
+      if (!restoredIdentifiers.has(identifier)) {
+        deletedItems[identifier] = now;
+      }
+    }
+  }
+
+  return keepRemoteOutsideScope({
+    ...snapshot,
+    schemaVersion: current.schemaVersion,
+    updatedAt: now,
+    deviceId,
+    fieldUpdatedAt: {
+      settings: stampAll(current.settings, snapshot.settings),
+      presets: stampAll(current.presets, snapshot.presets),
+      customThemes: stampAll(themeNames(current), themeNames(snapshot)),
+    },
+    deletedItems,
+    contentManifest: current.contentManifest,
+    readingStats: current.readingStats,
+  }, current, scope);
+}
+
+
+function diffById<T extends { id: string }>(current: T[], snapshot: T[]): { added: T[]; removed: T[] } {
+  const currentIds = new Set(current.map(entry => entry.id));
+  const snapshotIds = new Set(snapshot.map(entry => entry.id));
+
+  return {
+    added: snapshot.filter(entry => !currentIds.has(entry.id)),
+    removed: current.filter(entry => !snapshotIds.has(entry.id)),
+  };
+}
+
+/**
+ * The tombstone keys that match an item, as used by storageFacade.addDeletedItemTombstone
+ */
+function getItemIdentifiers(item: SyncArchiveItem): string[] {
+  const identifiers = [item.id];
+  if (item.fileHash) identifiers.push(`hash:${item.fileHash}`);
+  if (item.url) identifiers.push(`url:${normalizeUrl(item.url)}`);
+  return identifiers;
+}
@@ -12,6 +12,8 @@ import { syncService } from './sync-service';
 import { storageFacade } from '../storage-facade';
 import { folderAdapter } from './providers/folder-adapter';
 import { dropboxAdapter } from './providers/dropbox-adapter';
+import { webdavAdapter } from './providers/webdav-adapter';
+import { s3Adapter } from './providers/s3-adapter';
 
 
 const ALARM_NAME = 'sync-periodic';
@@ -87,6 +89,18 @@ class SyncSchedulerImpl {
           syncService.setProvider(dropboxAdapter);
           if (import.meta.env.DEV) console.log('SyncScheduler: Restored Dropbox provider');
         }
+      } else if (providerType === 'webdav') {
+        const connected = await webdavAdapter.isConnected();
+        if (connected) {
+          syncService.setProvider(webdavAdapter);
+          if (import.meta.env.DEV) console.log('SyncScheduler: Restored WebDAV provider');
+        }
+      } else if (providerType === 's3') {
+        const connected = await s3Adapter.isConnected();
+        if (connected) {
+          syncService.setProvider(s3Adapter);
+          if (import.meta.env.DEV) console.log('SyncScheduler: Restored S3 provider');
+        }
       }
     } catch (error) {
       console.warn('SyncScheduler: Failed to restore provider:', error);
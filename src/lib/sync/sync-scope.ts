@@ -0,0 +1,148 @@
+/**
+ * Sync Scope
+ *
+ * Which kinds of data this device syncs. Excluded data is never uploaded from
+ * this device or applied to it, and the remote copy is carried through merges
+ * untouched, so excluding something never reads as deleting it.
+ */
+
+import type { ArchiveItem } from '@/types';
+import type { SyncStateDocument, SyncScope, SyncCategory, ConflictInfo } from './types';
+
+
+export const SYNC_CATEGORIES: readonly SyncCategory[] = [
+  'settings',
+  'themes',
+  'archive',
+  'positions',
+  'annotations',
+  'stats',
+  'content',
+];
+
+export const DEFAULT_SYNC_SCOPE: SyncScope = {
+  categories: {
+    settings: true,
+    themes: true,
+    archive: true,
+    positions: true,
+    annotations: true,
+    stats: true,
+    content: true,
+  },
+  excludedContentCollectionIds: [],
+};
+
+/** Category each kind of conflict belongs to */
+const CONFLICT_CATEGORIES: Partial<Record<ConflictInfo['type'], SyncCategory>> = {
+  'settings': 'settings',
+  'preset': 'settings',
+  'theme': 'themes',
+  'archive-item': 'archive',
+  'position': 'positions',
+};
+
+
+/**
+ * Whether a category syncs; without a scope, everything does
+ */
+export function isCategorySynced(scope: SyncScope | undefined, category: SyncCategory): boolean {
+  return scope?.categories[category] ?? true;
+}
+
+function isFullScope(scope: SyncScope | undefined): boolean {
+  return !scope || SYNC_CATEGORIES.every(category => scope.categories[category]);
+}
+
+
+/**
+ * Whether an item's content file syncs: content is in scope and the item is
+ * in none of the excluded collections
+ */
+export function isContentSynced(scope: SyncScope | undefined, item: Pick<ArchiveItem, 'collectionIds'>): boolean {
+  if (!isCategorySynced(scope, 'content')) {
+    return false;
+  }
+  const excluded = new Set(scope?.excludedContentCollectionIds ?? []);
+  return !item.collectionIds?.some(id => excluded.has(id));
+}
+
+
+/**
+ * Whether a merge conflict is about data in scope
+ */
+export function isConflictInScope(scope: SyncScope | undefined, conflict: ConflictInfo): boolean {
+  const category = CONFLICT_CATEGORIES[conflict.type];
+  return !category || isCategorySynced(scope, category);
+}
+
+
+/**
+ * The part of a local state this device syncs. Excluded categories are left
+ * empty and without tombstones; excluded settings are kept (the document needs
+ * them) but stamped 0 so they lose every per-key merge on other devices.
+ */
+export function limitStateToScope(state: SyncStateDocument, scope: SyncScope | undefined): SyncStateDocument {
+  if (isFullScope(scope)) {
+    return state;
+  }
+  const synced = (category: SyncCategory) => isCategorySynced(scope, category);
+  const times = state.fieldUpdatedAt;
+
+  return {
+    ...state,
+    presets: synced('settings') ? state.presets : {},
+    customThemes: synced('themes') ? state.customThemes : [],
+    fieldUpdatedAt: {
+      settings: synced('settings')
+        ? times?.settings ?? {}
+        : Object.fromEntries(Object.keys(state.settings).map(key => [key, 0])),
+      presets: synced('settings') ? times?.presets ?? {} : {},
+      customThemes: synced('themes') ? times?.customThemes ?? {} : {},
+    },
+    archiveItems: synced('archive') ? state.archiveItems : [],
+    deletedItems: synced('archive') ? state.deletedItems : {},
+    collections: synced('archive') ? state.collections : [],
+    positions: synced('positions') ? state.positions : {},
+    annotations: synced('annotations') ? state.annotations : {},
+    readingStats: synced('stats') ? state.readingStats : undefined,
+    contentManifest: synced('content') ? state.contentManifest : undefined,
+  };
+}
+
+
+/**
+ * Carry the remote's data through a merge for the categories this device
+ * doesn't sync, so uploading the merged state leaves them as they were
+ */
+export function keepRemoteOutsideScope(
+  merged: SyncStateDocument,
+  remote: SyncStateDocument,
+  scope: SyncScope | undefined
+): SyncStateDocument {
+  if (isFullScope(scope)) {
+    return merged;
+  }
+  const synced = (category: SyncCategory) => isCategorySynced(scope, category);
+  const mergedTimes = merged.fieldUpdatedAt;
+  const remoteTimes = remote.fieldUpdatedAt;
+
+  return {
+    ...merged,
+    settings: synced('settings') ? merged.settings : remote.settings,
+    presets: synced('settings') ? merged.presets : remote.presets,
+    customThemes: synced('themes') ? merged.customThemes : remote.customThemes,
+    fieldUpdatedAt: {
+      settings: (synced('settings') ? mergedTimes?.settings : remoteTimes?.settings) ?? {},
+      presets: (synced('settings') ? mergedTimes?.presets : remoteTimes?.presets) ?? {},
+      customThemes: (synced('themes') ? mergedTimes?.customThemes : remoteTimes?.customThemes) ?? {},
+    },
+    archiveItems: synced('archive') ? merged.archiveItems : remote.archiveItems,
+    deletedItems: synced('archive') ? merged.deletedItems : remote.deletedItems,
+    collections: synced('archive') ? merged.collections : remote.collections,
+    positions: synced('positions') ? merged.positions : remote.positions,
+    annotations: synced('annotations') ? merged.annotations : remote.annotations,
+    readingStats: synced('stats') ? merged.readingStats : remote.readingStats,
+    contentManifest: synced('content') ? merged.contentManifest : remote.contentManifest,
+  };
+}
@@ -10,9 +10,46 @@
 
 import { storageFacade } from '../storage-facade';
 import { SyncError } from '../errors';
-import { encrypt, decrypt, generateSalt, getSaltFromBlob } from './encryption';
+import { encryptData, decryptData, generateSalt, getSaltFromBlob } from './encryption';
 import { mergeStates } from './merge';
 import { contentSyncManager } from './content-sync';
+import { recordConflicts } from './conflict-log';
+import { DEFAULT_SYNC_SCOPE, isCategorySynced, isContentSynced, limitStateToScope } from './sync-scope';
+import { DEFAULT_CONTENT_SYNC_LIMITS } from './content-limits';
+import {
+  getPassphraseRotation,
+  beginPassphraseRotation,
+  markFileRotated,
+  clearPassphraseRotation,
+  reencryptBlob,
+  reencryptRemoteFile,
+  type PassphraseRotation,
+} from './passphrase-rotation';
+import {
+  SYNC_SCHEMA_VERSION,
+  SYNC_SECTION_NAMES,
+  isSectionedRoot,
+  splitState,
+  assembleState,
+  hashSection,
+  getSectionFileName,
+  getSectionFilesToPrune,
+  type SyncRootDocument,
+  type SyncSectionData,
+  type SyncSectionRefs,
+} from './sections';
+import {
+  getLocalSnapshots,
+  saveLocalSnapshot,
+  getSnapshotFileName,
+  parseSnapshotFileName,
+  getSnapshotFilesToPrune,
+  listSnapshots,
+  diffSnapshot,
+  buildRestoredState,
+  type SyncSnapshotSummary,
+  type SnapshotDiff,
+} from './sync-history';
 import { 
   arrayBufferToBase64, 
   base64ToUint8Array, 
@@ -30,11 +67,19 @@ import type {
   SyncEvent,
   EncryptedBlob,
   SyncPhase,
+  SyncSectionName,
+  SyncScope,
+  ContentManifest,
+  ContentSyncLimits,
+  UploadResult,
 } from './types';
 
 
 const SYNC_CONFIG_KEY = 'syncConfig';
 
+/** Download-merge-upload passes before giving up on a remote that keeps changing */
+const MAX_SYNC_ATTEMPTS = 3;
+
 interface StoredSyncConfig {
   enabled: boolean;
   provider: SyncProviderType | null;
@@ -42,6 +87,15 @@ interface StoredSyncConfig {
   encryptionEnabled: boolean; // false for folder sync (iCloud/Google Drive)
   lastSyncTime: number | null;
   lastSyncError: string | null;
+  /** What this device syncs; everything when missing */
+  scope?: SyncScope;
+  /** Limits on the content this device uploads; none when missing */
+  contentLimits?: ContentSyncLimits;
+}
+
+/** A state upload, with the section files the uploaded root references */
+interface StateUploadResult extends UploadResult {
+  sections: SyncSectionRefs;
 }
 
 
@@ -108,7 +162,7 @@ class SyncServiceImpl {
 
     // Check if there's an existing remote file to get salt from
     let salt: Uint8Array;
-    let existingRemoteState: SyncStateDocument | null = null;
+    let existingRemoteState: SyncStateDocument | SyncRootDocument | null = null;
     
     const remoteMeta = await provider.getRemoteMetadata();
     if (remoteMeta.exists) {
@@ -120,11 +174,12 @@ class SyncServiceImpl {
         
         // Verify passphrase by attempting to decrypt
         try {
-          existingRemoteState = await decrypt(remoteBlob, passphrase);
+          existingRemoteState = await decryptData<SyncStateDocument | SyncRootDocument>(remoteBlob, passphrase);
         } catch {
           this.passphrase = null; // Clear invalid passphrase
           throw new SyncError('Incorrect passphrase for existing sync data', 'decrypt');
         }
+        this.checkSchemaVersion(existingRemoteState);
       } else {
         // Unencrypted remote file - generate new salt for encryption
         salt = generateSalt();
@@ -150,7 +205,11 @@ class SyncServiceImpl {
     
     // If we got existing remote state, apply it locally first (pull before push)
     if (existingRemoteState) {
-      await storageFacade.applyRemoteState(existingRemoteState);
+      await storageFacade.applyRemoteState(
+        isSectionedRoot(existingRemoteState)
+          ? await this.downloadSections(existingRemoteState, config, null)
+          : existingRemoteState
+      );
     }
     
     this.status = { state: 'idle' };
@@ -256,6 +315,9 @@ class SyncServiceImpl {
     // Clear content manager encryption
     contentSyncManager.clearEncryption();
 
+    // An unfinished passphrase change would block syncing after reconnecting
+    await clearPassphraseRotation();
+
     const config: StoredSyncConfig = {
       enabled: false,
       provider: null,
@@ -285,6 +347,212 @@ class SyncServiceImpl {
    * Perform a sync operation
    */
   async syncNow(): Promise<SyncResult> {
+    return this.runExclusive(config => this.performSync(config));
+  }
+
+  /**
+   * List the state snapshots kept on this device and on the provider, newest first
+   */
+  async getSnapshots(): Promise<SyncSnapshotSummary[]> {
+    const local = await getLocalSnapshots();
+    const remoteFiles = this.provider ? await this.provider.listContentFiles() : [];
+    return listSnapshots(local, remoteFiles);
+  }
+
+  /**
+   * Show what restoring a snapshot would change in the current state
+   */
+  async previewSnapshot(createdAt: number): Promise<SnapshotDiff> {
+    const config = await this.getConfig();
+    if (!config) {
+      throw new SyncError('Sync not configured', 'configuration');
+    }
+    const snapshot = await this.loadSnapshot(createdAt, config);
+    // A restore leaves the categories this device doesn't sync alone
+    return diffSnapshot(await storageFacade.getStateForSync(config.scope), limitStateToScope(snapshot, config.scope));
+  }
+
+  /**
+   * Restore a snapshot, uploading it as a new revision of the sync state
+   */
+  async restoreSnapshot(createdAt: number): Promise<SyncResult> {
+    return this.runExclusive(config => this.performRestore(config, createdAt));
+  }
+
+  /**
+   * Change the passphrase of encrypted sync: re-encrypt the remote state, its
+   * sections, snapshots and every content file in the manifest under a new
+   * salt, then switch this device over. If interrupted, calling it again with
+   * the same passphrases resumes the change.
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    if (!newPassphrase || newPassphrase.length < 8) {
+      throw new SyncError('Passphrase must be at least 8 characters', 'configuration');
+    }
+    if (!this.provider) {
+      throw new SyncError('No provider configured', 'configuration');
+    }
+
+    const config = await this.getConfig();
+    if (!config?.enabled || !config.encryptionEnabled) {
+      throw new SyncError('Sync is not encrypted', 'configuration');
+    }
+    if (this.passphrase && this.passphrase !== currentPassphrase) {
+      throw new SyncError('Current passphrase is incorrect', 'decrypt');
+    }
+    if (this.syncInProgress) {
+      throw new SyncError('Sync already in progress', 'sync');
+    }
+
+    this.syncInProgress = true;
+    this.syncStartedAt = Date.now();
+    this.status = { state: 'syncing', startedAt: this.syncStartedAt, phase: 'uploading' };
+
+    try {
+      // Check the current passphrase before anything is saved, so a typo
+      // doesn't leave behind a change that blocks syncing
+      const pending = await getPassphraseRotation();
+      const rootBlob = await this.downloadRemoteRoot();
+      if (rootBlob && rootBlob.salt !== pending?.newSalt) {
+        try {
+          await decryptData<unknown>(rootBlob, currentPassphrase);
+        } catch {
+          throw new SyncError('Current passphrase is incorrect', 'decrypt');
+        }
+      }
+
+      const rotation = await beginPassphraseRotation(newPassphrase);
+      await this.rotateRemoteData(rotation, currentPassphrase, newPassphrase);
+
+      const newSalt = base64ToUint8Array(rotation.newSalt);
+      await this.saveConfig({ ...config, encryptionSalt: rotation.newSalt, lastSyncError: null });
+      this.passphrase = newPassphrase;
+      contentSyncManager.setEncryption(newPassphrase, newSalt);
+      await clearPassphraseRotation();
+
+      this.status = { state: 'idle', lastSyncTime: config.lastSyncTime ?? undefined };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change passphrase';
+      this.status = { state: 'error', message, lastAttempt: Date.now() };
+      throw error;
+    } finally {
+      this.syncInProgress = false;
+      this.syncStartedAt = null;
+    }
+  }
+
+  /**
+   * Get which data categories and content collections this device syncs
+   */
+  async getSyncScope(): Promise<SyncScope> {
+    return (await this.getConfig())?.scope ?? DEFAULT_SYNC_SCOPE;
+  }
+
+  /**
+   * Set which data categories and content collections this device syncs.
+   * Takes effect on the next sync; data already on either side is kept.
+   */
+  async setSyncScope(scope: SyncScope): Promise<void> {
+    const config = await this.getConfig();
+    if (!config) {
+      throw new SyncError('Sync not configured', 'configuration');
+    }
+    await this.saveConfig({ ...config, scope });
+  }
+
+  /**
+   * Get the limits on the document content this device uploads
+   */
+  async getContentSyncLimits(): Promise<ContentSyncLimits> {
+    return (await this.getConfig())?.contentLimits ?? DEFAULT_CONTENT_SYNC_LIMITS;
+  }
+
+  /**
+   * Set the limits on the document content this device uploads.
+   * Content already uploaded stays until it's taken out of sync.
+   */
+  async setContentSyncLimits(limits: ContentSyncLimits): Promise<void> {
+    const config = await this.getConfig();
+    if (!config) {
+      throw new SyncError('Sync not configured', 'configuration');
+    }
+    await this.saveConfig({ ...config, contentLimits: limits });
+  }
+
+  /**
+   * Get the remote content manifest, for a storage usage breakdown
+   */
+  async getContentManifest(): Promise<ContentManifest | null> {
+    const config = await this.getConfig();
+    if (!this.provider || !config) {
+      throw new SyncError('Sync not configured', 'configuration');
+    }
+    const blob = await this.provider.download();
+    if (!blob) {
+      return null;
+    }
+    const document = await this.decodeRemoteState(blob, config);
+    return document.contentManifest ?? null;
+  }
+
+  /**
+   * Stop syncing an item's content on every device: it's listed as excluded
+   * in the manifest and its remote file is deleted
+   */
+  async stopSyncingContent(itemId: string): Promise<SyncResult> {
+    return this.runExclusive(config => this.performManifestUpdate(config, manifest => ({
+      ...manifest,
+      items: Object.fromEntries(
+        Object.entries(manifest.items).filter(([, item]) => item.archiveItemId !== itemId)
+      ),
+      excludedItemIds: [...new Set([...(manifest.excludedItemIds ?? []), itemId])],
+    })));
+  }
+
+  /**
+   * Sync items' content again; each is uploaded by the next sync of a device that has it
+   */
+  async resumeSyncingContent(itemIds: string[]): Promise<SyncResult> {
+    return this.runExclusive(config => this.performManifestUpdate(config, manifest => ({
+      ...manifest,
+      excludedItemIds: (manifest.excludedItemIds ?? []).filter(id => !itemIds.includes(id)),
+    })));
+  }
+
+  /**
+   * Check if a passphrase change was interrupted and needs to be run again
+   */
+  async hasUnfinishedPassphraseChange(): Promise<boolean> {
+    return (await getPassphraseRotation()) !== null;
+  }
+
+  /**
+   * Drop an unfinished passphrase change so sync carries on with the current
+   * passphrase. Only possible while no remote data uses the new one yet.
+   */
+  async cancelPassphraseChange(): Promise<void> {
+    const rotation = await getPassphraseRotation();
+    if (!rotation) {
+      return;
+    }
+    if (!this.provider) {
+      throw new SyncError('No provider configured', 'configuration');
+    }
+    if (this.syncInProgress) {
+      throw new SyncError('Sync already in progress', 'sync');
+    }
+
+    const rootBlob = await this.downloadRemoteRoot();
+    if (rotation.completedFiles.length > 0 || rootBlob?.salt === rotation.newSalt) {
+      throw new SyncError('Some data already uses the new passphrase. Enter the same passphrases again to finish the change.', 'configuration');
+    }
+    await clearPassphraseRotation();
+  }
+
+  /**
+   * Run a sync operation with status tracking and events, one at a time
+   */
+  private async runExclusive(operation: (config: StoredSyncConfig) => Promise<SyncResult>): Promise<SyncResult> {
     // Check prerequisites
     if (!this.provider) {
       return { success: false, timestamp: Date.now(), action: 'error', error: 'No provider configured' };
@@ -304,6 +572,11 @@ class SyncServiceImpl {
       return { success: false, timestamp: Date.now(), action: 'error', error: 'Sync already in progress' };
     }
 
+    // Remote files are encrypted with two passphrases until a change finishes
+    if (await getPassphraseRotation()) {
+      return { success: false, timestamp: Date.now(), action: 'error', error: 'Finish changing the passphrase before syncing' };
+    }
+
     // Start sync
     this.syncInProgress = true;
     this.syncStartedAt = Date.now();
@@ -315,7 +588,16 @@ class SyncServiceImpl {
     });
 
     try {
-      const result = await this.performSync(config);
+      const result = await operation(config);
+
+      // Keep the conflicts for review; a failed write shouldn't fail the sync
+      if (result.conflicts) {
+        await recordConflicts(result.conflicts, result.timestamp).catch(error => {
+          if (import.meta.env.DEV) {
+            console.warn('[FlowReader:Sync] Failed to record conflicts:', error);
+          }
+        });
+      }
       
       // Update config with sync time
       await this.saveConfig({
@@ -391,37 +673,52 @@ class SyncServiceImpl {
       throw new SyncError('Passphrase not set for encrypted sync', 'sync');
     }
 
+    // Another device may upload between our download and upload; each conditional
+    // upload that loses that race starts over from a fresh download
+    for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+      const result = await this.syncStateOnce(config);
+      if (result) {
+        return result;
+      }
+      if (import.meta.env.DEV) {
+        console.warn(`[FlowReader:Sync] Remote state changed during sync (attempt ${attempt}/${MAX_SYNC_ATTEMPTS})`);
+      }
+    }
+
+    this.emitEvent({
+      type: 'conflict-detected',
+      timestamp: Date.now(),
+      data: { type: 'remote-state', resolution: 'unresolved' },
+    });
+    throw new SyncError('Sync data kept changing on another device. Will try again later.', 'upload');
+  }
+
+  /**
+   * One download-merge-upload pass.
+   * Returns null if the upload lost a race with another device.
+   */
+  private async syncStateOnce(config: StoredSyncConfig): Promise<SyncResult | null> {
+    const provider = this.provider!;
+
     // Get local state
-    const localState = await storageFacade.getStateForSync();
+    const localState = await storageFacade.getStateForSync(config.scope);
     const deviceId = await storageFacade.getDeviceId();
 
-    // Check remote metadata
+    // Check remote metadata; its etag is what the upload is conditional on
     this.setPhase('downloading');
-    const remoteMeta = await this.provider.getRemoteMetadata();
+    const remoteMeta = await provider.getRemoteMetadata();
 
     if (!remoteMeta.exists) {
       // No remote state - upload local
       this.setPhase('uploading');
-      if (config.encryptionEnabled) {
-        const salt = config.encryptionSalt 
-          ? base64ToUint8Array(config.encryptionSalt)
-          : generateSalt();
-        
-        const encrypted = await encrypt(localState, this.passphrase!, salt);
-        const uploadResult = await this.provider.upload(encrypted);
-
-        if (!uploadResult.success) {
-          throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
-        }
-      } else {
-        // Unencrypted mode - store plain JSON (cast for type compatibility)
-        const plainBlob = this.createPlainBlob(localState);
-        const uploadResult = await this.provider.upload(plainBlob);
-
-        if (!uploadResult.success) {
-          throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
-        }
+      const salt = config.encryptionSalt 
+        ? base64ToUint8Array(config.encryptionSalt)
+        : generateSalt();
+      const uploadResult = await this.uploadState(localState, config, salt, null);
+      if (uploadResult.conflict) {
+        return null;
       }
+      await this.saveSnapshot(localState, config, salt);
 
       return {
         success: true,
@@ -431,35 +728,22 @@ class SyncServiceImpl {
     }
 
     // Download remote state
-    const remoteBlob = await this.provider.download();
+    const remoteBlob = await provider.download();
     
     if (!remoteBlob) {
       throw new SyncError('Failed to download remote state', 'download');
     }
 
-    let remoteState: SyncStateDocument;
-    if (config.encryptionEnabled) {
-      // Decrypt remote state
-      try {
-        remoteState = await decrypt(remoteBlob, this.passphrase!);
-      } catch (error) {
-        if (error instanceof Error && error.message.includes('passphrase')) {
-          throw new SyncError('Incorrect passphrase', 'decrypt');
-        }
-        throw error;
-      }
-    } else {
-      // Unencrypted mode - parse plain blob
-      remoteState = this.parsePlainBlob(remoteBlob);
-    }
+    const remoteDocument = await this.decodeRemoteState(remoteBlob, config);
+    const remoteSections = isSectionedRoot(remoteDocument) ? remoteDocument.sections : undefined;
 
     // Compare states
-    const localNewer = localState.updatedAt > remoteState.updatedAt;
-    const remoteNewer = remoteState.updatedAt > localState.updatedAt;
-    const sameDevice = remoteState.deviceId === deviceId;
+    const localNewer = localState.updatedAt > remoteDocument.updatedAt;
+    const remoteNewer = remoteDocument.updatedAt > localState.updatedAt;
+    const sameDevice = remoteDocument.deviceId === deviceId;
 
     // If same device and timestamps match, no sync needed
-    if (sameDevice && localState.updatedAt === remoteState.updatedAt) {
+    if (sameDevice && localState.updatedAt === remoteDocument.updatedAt) {
       return {
         success: true,
         timestamp: Date.now(),
@@ -467,11 +751,33 @@ class SyncServiceImpl {
       };
     }
 
+    const remoteState = isSectionedRoot(remoteDocument)
+      ? await this.downloadSections(remoteDocument, config, localState)
+      : remoteDocument;
+
     // Merge states
     this.setPhase('merging');
-    const mergeResult = mergeStates(localState, remoteState, deviceId);
+    const mergeResult = mergeStates(localState, remoteState, deviceId, config.scope);
+
+    // Apply merged state locally
+    await storageFacade.applyRemoteState(mergeResult.merged, { scope: config.scope });
+
+    // Upload merged state if we have changes or local was newer
+    let stateEtag = remoteMeta.etag;
+    let stateSections = remoteSections;
+    if (mergeResult.hasChanges || localNewer) {
+      this.setPhase('uploading');
+      const salt = config.encryptionEnabled ? getSaltFromBlob(remoteBlob) : generateSalt();
+      const uploadResult = await this.uploadState(mergeResult.merged, config, salt, remoteMeta.etag, remoteSections);
+      if (uploadResult.conflict) {
+        return null;
+      }
+      stateEtag = uploadResult.etag;
+      stateSections = uploadResult.sections;
+      await this.saveSnapshot(mergeResult.merged, config, salt);
+    }
 
-    // Log conflicts
+    // Log conflicts (once the merge has been kept, so retries don't repeat them)
     if (mergeResult.conflicts.length > 0) {
       for (const conflict of mergeResult.conflicts) {
         this.emitEvent({
@@ -482,49 +788,418 @@ class SyncServiceImpl {
       }
     }
 
-    // Apply merged state locally
-    await storageFacade.applyRemoteState(mergeResult.merged);
+    // Perform content sync (separate files for document content)
+    this.setPhase('syncing-content');
+    await this.performContentSync(mergeResult.merged, stateEtag, stateSections, config);
+
+    return {
+      success: true,
+      timestamp: Date.now(),
+      action: mergeResult.hasChanges ? 'merged' : (remoteNewer ? 'downloaded' : 'uploaded'),
+      conflicts: mergeResult.conflicts.length > 0 ? mergeResult.conflicts : undefined,
+    };
+  }
+
+  /**
+   * Replace the synced categories of the state with a snapshot's. The restored
+   * state is built on what the remote holds now, so categories outside this
+   * device's scope keep their remote data; it is uploaded, then applied locally.
+   */
+  private async performRestore(config: StoredSyncConfig, createdAt: number): Promise<SyncResult> {
+    if (!this.provider) {
+      throw new SyncError('Provider not set', 'sync');
+    }
+    const provider = this.provider;
+
+    this.setPhase('downloading');
+    const snapshot = await this.loadSnapshot(createdAt, config);
+    const deviceId = await storageFacade.getDeviceId();
+    const salt = config.encryptionSalt
+      ? base64ToUint8Array(config.encryptionSalt)
+      : generateSalt();
+
+    for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+      this.setPhase('downloading');
+      const localState = await storageFacade.getStateForSync(config.scope);
+      const remoteMeta = await provider.getRemoteMetadata();
+      const remoteBlob = remoteMeta.exists ? await provider.download() : null;
+      const remoteDocument = remoteBlob ? await this.decodeRemoteState(remoteBlob, config) : null;
+      const remoteState = remoteDocument && isSectionedRoot(remoteDocument)
+        ? await this.downloadSections(remoteDocument, config, localState)
+        : remoteDocument;
+      const current = remoteState
+        ? mergeStates(localState, remoteState, deviceId, config.scope).merged
+        : localState;
+      const restored = buildRestoredState(current, snapshot, deviceId, Date.now(), config.scope);
 
-    // Upload merged state if we have changes or local was newer
-    if (mergeResult.hasChanges || localNewer) {
       this.setPhase('uploading');
-      if (config.encryptionEnabled) {
-        const salt = getSaltFromBlob(remoteBlob);
-        const encrypted = await encrypt(mergeResult.merged, this.passphrase!, salt);
-        const uploadResult = await this.provider.upload(encrypted);
+      const uploadResult = await this.uploadState(
+        restored,
+        config,
+        salt,
+        remoteMeta.exists ? remoteMeta.etag : null,
+        remoteDocument && isSectionedRoot(remoteDocument) ? remoteDocument.sections : undefined
+      );
+      if (uploadResult.conflict) {
+        continue;
+      }
 
-        if (!uploadResult.success) {
-          throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
-        }
-      } else {
-        // Unencrypted mode
-        const plainBlob = this.createPlainBlob(mergeResult.merged);
-        const uploadResult = await this.provider.upload(plainBlob);
+      await storageFacade.applyRemoteState(restored, { replace: true, scope: config.scope });
+      await this.saveSnapshot(restored, config, salt);
+      return {
+        success: true,
+        timestamp: Date.now(),
+        action: 'uploaded',
+      };
+    }
 
-        if (!uploadResult.success) {
-          throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
+    throw new SyncError('Sync data kept changing on another device. Try restoring again.', 'upload');
+  }
+
+  /**
+   * Change the content manifest in the remote root, conditional on its etag.
+   * Content files the change dropped from the manifest are deleted once the
+   * new root is written.
+   */
+  private async performManifestUpdate(
+    config: StoredSyncConfig,
+    update: (manifest: ContentManifest) => ContentManifest
+  ): Promise<SyncResult> {
+    if (!this.provider) {
+      throw new SyncError('Provider not set', 'sync');
+    }
+    const provider = this.provider;
+
+    for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+      this.setPhase('downloading');
+      const remoteMeta = await provider.getRemoteMetadata();
+      const blob = remoteMeta.exists ? await provider.download() : null;
+      if (!blob) {
+        throw new SyncError('Nothing has been synced yet', 'download');
+      }
+
+      const document = await this.decodeRemoteState(blob, config);
+      const manifest = document.contentManifest ?? { version: 1, items: {} };
+      const updated = update(manifest);
+
+      this.setPhase('uploading');
+      const salt = config.encryptionEnabled ? getSaltFromBlob(blob) : generateSalt();
+      const uploadResult = await provider.upload(
+        await this.encodeData({ ...document, contentManifest: updated }, config, salt),
+        { expectedEtag: remoteMeta.etag }
+      );
+      if (uploadResult.conflict) {
+        continue;
+      }
+      if (!uploadResult.success) {
+        throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
+      }
+
+      const dropped = contentSyncManager.getManifestFileNames({
+        ...manifest,
+        items: Object.fromEntries(Object.entries(manifest.items).filter(([fileHash]) => !updated.items[fileHash])),
+      });
+      for (const fileName of dropped) {
+        await provider.deleteContentFile(fileName).catch(error => {
+          if (import.meta.env.DEV) {
+            console.warn(`[FlowReader:Sync] Could not delete content ${fileName}:`, error);
+          }
+        });
+      }
+
+      return {
+        success: true,
+        timestamp: Date.now(),
+        action: 'uploaded',
+      };
+    }
+
+    throw new SyncError('Sync data kept changing on another device. Try again.', 'upload');
+  }
+
+  /**
+   * Download the remote state (or sectioned root), if there is one
+   */
+  private async downloadRemoteRoot(): Promise<EncryptedBlob | null> {
+    const remoteMeta = await this.provider!.getRemoteMetadata();
+    return remoteMeta.exists ? this.provider!.download() : null;
+  }
+
+  /**
+   * Re-encrypt the remote data for a passphrase change. The files the state
+   * references go first and the state last, conditional on its etag: if another
+   * device wrote in between, the new state's files are checked again.
+   */
+  private async rotateRemoteData(
+    rotation: PassphraseRotation,
+    currentPassphrase: string,
+    newPassphrase: string
+  ): Promise<void> {
+    const provider = this.provider!;
+
+    for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+      const remoteMeta = await provider.getRemoteMetadata();
+      const rootBlob = remoteMeta.exists ? await provider.download() : null;
+      if (!rootBlob) {
+        return;
+      }
+
+      const rootRotated = rootBlob.salt === rotation.newSalt;
+      let root: SyncStateDocument | SyncRootDocument;
+      try {
+        root = await decryptData<SyncStateDocument | SyncRootDocument>(
+          rootBlob,
+          rootRotated ? newPassphrase : currentPassphrase
+        );
+      } catch {
+        throw new SyncError(rootRotated ? 'New passphrase is incorrect' : 'Current passphrase is incorrect', 'decrypt');
+      }
+      this.checkSchemaVersion(root);
+
+      const fileNames = [
+        ...(isSectionedRoot(root)
+          ? SYNC_SECTION_NAMES.map(name => getSectionFileName(name, root.sections[name].hash))
+          : []),
+        ...(root.contentManifest ? contentSyncManager.getManifestFileNames(root.contentManifest) : []),
+        ...(await provider.listContentFiles()).filter(name => parseSnapshotFileName(name) !== null),
+      ];
+      for (const fileName of fileNames) {
+        if (!rotation.completedFiles.includes(fileName)) {
+          await reencryptRemoteFile(provider, fileName, rotation, currentPassphrase, newPassphrase);
+          rotation = await markFileRotated(rotation, fileName);
         }
       }
+
+      if (rootRotated) {
+        return;
+      }
+      const rotatedRoot = await reencryptBlob(rootBlob, rotation, currentPassphrase, newPassphrase);
+      const uploadResult = await provider.upload(rotatedRoot, { expectedEtag: remoteMeta.etag });
+      if (uploadResult.success) {
+        return;
+      }
+      if (!uploadResult.conflict) {
+        throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
+      }
     }
 
-    // Perform content sync (separate files for document content)
-    this.setPhase('syncing-content');
-    await this.performContentSync(mergeResult.merged);
+    throw new SyncError('Sync data kept changing on another device. Try again to finish the change.', 'upload');
+  }
 
-    return {
-      success: true,
-      timestamp: Date.now(),
-      action: mergeResult.hasChanges ? 'merged' : (remoteNewer ? 'downloaded' : 'uploaded'),
-      conflicts: mergeResult.conflicts.length > 0 ? mergeResult.conflicts : undefined,
+  /**
+   * Get a snapshot's state, from this device or else from the provider
+   */
+  private async loadSnapshot(createdAt: number, config: StoredSyncConfig): Promise<SyncStateDocument> {
+    const local = (await getLocalSnapshots()).find(snapshot => snapshot.createdAt === createdAt);
+    if (local) {
+      return local.state;
+    }
+
+    const file = this.provider ? await this.provider.downloadContentFile(getSnapshotFileName(createdAt)) : null;
+    if (!file) {
+      throw new SyncError('Snapshot not found', 'download');
+    }
+    const snapshot = await this.decodeData<SyncStateDocument>(JSON.parse(await file.text()) as EncryptedBlob, config);
+    this.checkSchemaVersion(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Keep a synced state in the history, locally and on the provider.
+   * History is best-effort: failures are logged and don't fail the sync.
+   */
+  private async saveSnapshot(state: SyncStateDocument, config: StoredSyncConfig, salt: Uint8Array): Promise<void> {
+    await saveLocalSnapshot(state).catch(error => {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:Sync] Failed to save local snapshot:', error);
+      }
+    });
+
+    const provider = this.provider;
+    if (!provider) return;
+
+    try {
+      const blob = await this.encodeData(state, config, salt);
+      await provider.ensureContentFolder();
+      const result = await provider.uploadContentFile(
+        getSnapshotFileName(state.updatedAt),
+        new Blob([JSON.stringify(blob)], { type: 'application/json' })
+      );
+      if (!result.success) {
+        throw new SyncError(result.error || 'Snapshot upload failed', 'upload');
+      }
+
+      for (const fileName of getSnapshotFilesToPrune(await provider.listContentFiles())) {
+        await provider.deleteContentFile(fileName);
+      }
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn('[FlowReader:Sync] Failed to save remote snapshot:', error);
+      }
+    }
+  }
+
+  /**
+   * Encrypt a state document or section, or wrap it for unencrypted sync
+   */
+  private async encodeData<T>(
+    data: T,
+    config: StoredSyncConfig,
+    salt: Uint8Array
+  ): Promise<EncryptedBlob> {
+    return config.encryptionEnabled
+      ? encryptData(data, this.passphrase!, salt)
+      : this.createPlainBlob(data);
+  }
+
+  /**
+   * Decrypt a state document or section, or unwrap it for unencrypted sync
+   */
+  private async decodeData<T>(blob: EncryptedBlob, config: StoredSyncConfig): Promise<T> {
+    if (!config.encryptionEnabled) {
+      return this.parsePlainBlob<T>(blob);
+    }
+
+    try {
+      return await decryptData<T>(blob, this.passphrase!);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('passphrase')) {
+        throw new SyncError('Incorrect passphrase', 'decrypt');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Decode the remote root, refusing one written by a newer schema
+   */
+  private async decodeRemoteState(
+    blob: EncryptedBlob,
+    config: StoredSyncConfig
+  ): Promise<SyncStateDocument | SyncRootDocument> {
+    const document = await this.decodeData<SyncStateDocument | SyncRootDocument>(blob, config);
+    this.checkSchemaVersion(document);
+    return document;
+  }
+
+  /**
+   * Throw if a remote root or snapshot uses a schema this client doesn't
+   * understand; reading it could drop data the newer client relies on
+   */
+  private checkSchemaVersion(document: SyncStateDocument | SyncRootDocument): void {
+    if (document.schemaVersion > SYNC_SCHEMA_VERSION) {
+      throw new SyncError(
+        'Sync data was written by a newer version of FlowReader. Update FlowReader on this device to keep syncing.',
+        'download'
+      );
+    }
+  }
+
+  /**
+   * Upload a state document: first the sections whose contents differ from the
+   * remote root's, then a root that references them. Once the root is written,
+   * section files that only the replaced root referenced are deleted.
+   * Throws on failure; a lost race is returned as a result with `conflict` set.
+   */
+  private async uploadState(
+    state: SyncStateDocument,
+    config: StoredSyncConfig,
+    salt: Uint8Array,
+    expectedEtag: string | null | undefined,
+    remoteSections?: SyncSectionRefs
+  ): Promise<StateUploadResult> {
+    const provider = this.provider!;
+    const { root, sections } = splitState(state);
+    const refs = {} as SyncSectionRefs;
+    let folderReady = false;
+
+    for (const name of SYNC_SECTION_NAMES) {
+      const hash = await hashSection(sections[name]);
+      if (remoteSections?.[name]?.hash === hash) {
+        refs[name] = remoteSections[name];
+        continue;
+      }
+
+      if (!folderReady) {
+        await provider.ensureContentFolder();
+        folderReady = true;
+      }
+      const blob = await this.encodeData(sections[name], config, salt);
+      const sectionResult = await provider.uploadContentFile(
+        getSectionFileName(name, hash),
+        new Blob([JSON.stringify(blob)], { type: 'application/json' })
+      );
+      if (!sectionResult.success) {
+        throw new SyncError(sectionResult.error || `Failed to upload ${name} section`, 'upload');
+      }
+      refs[name] = { hash, updatedAt: state.updatedAt };
+    }
+
+    const rootDocument: SyncRootDocument = {
+      ...root,
+      schemaVersion: Math.max(root.schemaVersion, SYNC_SCHEMA_VERSION),
+      sections: refs,
     };
+    const uploadResult = await provider.upload(await this.encodeData(rootDocument, config, salt), { expectedEtag });
+
+    if (!uploadResult.success && !uploadResult.conflict) {
+      throw new SyncError(uploadResult.error || 'Upload failed', 'upload');
+    }
+
+    if (uploadResult.success && remoteSections) {
+      for (const fileName of getSectionFilesToPrune(remoteSections, refs)) {
+        await provider.deleteContentFile(fileName).catch(error => {
+          if (import.meta.env.DEV) {
+            console.warn(`[FlowReader:Sync] Could not delete replaced section ${fileName}:`, error);
+          }
+        });
+      }
+    }
+    return { ...uploadResult, sections: refs };
+  }
+
+  /**
+   * Rebuild a sectioned remote state. Sections with the same hash as the local
+   * state's are taken from it; only the others are downloaded.
+   */
+  private async downloadSections(
+    root: SyncRootDocument,
+    config: StoredSyncConfig,
+    localState: SyncStateDocument | null
+  ): Promise<SyncStateDocument> {
+    const localSections = localState ? splitState(localState).sections : null;
+    const sections = {} as Record<SyncSectionName, SyncSectionData>;
+
+    for (const name of SYNC_SECTION_NAMES) {
+      const ref = root.sections[name];
+      if (localSections && await hashSection(localSections[name]) === ref.hash) {
+        sections[name] = localSections[name];
+        continue;
+      }
+
+      const file = await this.provider!.downloadContentFile(getSectionFileName(name, ref.hash));
+      if (!file) {
+        throw new SyncError(`Sync data is incomplete: the ${name} section is missing`, 'download');
+      }
+      sections[name] = await this.decodeData<SyncSectionData>(JSON.parse(await file.text()) as EncryptedBlob, config);
+    }
+
+    return assembleState(root, sections);
   }
 
   /**
    * Perform content sync (document files) after state sync
    * This syncs the actual document content as separate compressed files
    */
-  private async performContentSync(mergedState: SyncStateDocument): Promise<void> {
+  private async performContentSync(
+    mergedState: SyncStateDocument,
+    stateEtag: string | undefined,
+    stateSections: SyncSectionRefs | undefined,
+    config: StoredSyncConfig
+  ): Promise<void> {
+    const scope = config.scope;
     if (!this.provider) return;
+    if (!isCategorySynced(scope, 'content')) return;
     
     try {
       // Get local archive items with their full data (including cachedDocument)
@@ -533,11 +1208,12 @@ class SyncServiceImpl {
       // Get the content manifest from the merged state (if any)
       const remoteManifest = mergedState.contentManifest;
       
-      // Sync content between local and remote
+      // Sync content between local and remote, leaving out excluded collections
       const syncResult = await contentSyncManager.syncContent(
         this.provider,
-        localItems,
-        remoteManifest
+        localItems.filter(item => isContentSynced(scope, item)),
+        remoteManifest,
+        config.contentLimits
       );
       
       // Apply any downloaded documents to local storage
@@ -557,30 +1233,34 @@ class SyncServiceImpl {
           updatedAt: Date.now(),
         };
         
-        // Re-upload state with updated manifest
-        const config = await this.getConfig();
-        if (config?.encryptionEnabled && this.passphrase) {
+        // Re-upload state with updated manifest. If another device wrote in the
+        // meantime, the manifest is brought up to date on the next sync instead.
+        // The manifest lives in the root, so unchanged sections aren't uploaded again.
+        let uploadResult: UploadResult | null = null;
+        if (!config.encryptionEnabled || this.passphrase) {
           const salt = config.encryptionSalt 
             ? base64ToUint8Array(config.encryptionSalt)
             : generateSalt();
-          const encrypted = await encrypt(updatedState, this.passphrase, salt);
-          await this.provider.upload(encrypted);
-        } else if (config && !config.encryptionEnabled) {
-          const plainBlob = this.createPlainBlob(updatedState);
-          await this.provider.upload(plainBlob);
+          uploadResult = await this.uploadState(updatedState, config, salt, stateEtag, stateSections);
+        }
+        if (import.meta.env.DEV && uploadResult?.conflict) {
+          console.warn('[FlowReader:Sync] Skipped manifest upload: remote state changed');
         }
         
         // Apply locally as well
-        await storageFacade.applyRemoteState(updatedState);
+        await storageFacade.applyRemoteState(updatedState, { scope });
       }
       
-      // Prune orphaned content files
-      const archiveItemIds = new Set(localItems.map(item => item.id));
-      await contentSyncManager.pruneOrphanedContent(
-        this.provider,
-        syncResult.manifest,
-        archiveItemIds
-      );
+      // Prune orphaned content files. Without the archive in scope the local
+      // item list says nothing about which items still exist.
+      if (isCategorySynced(scope, 'archive')) {
+        const archiveItemIds = new Set(localItems.map(item => item.id));
+        await contentSyncManager.pruneOrphanedContent(
+          this.provider,
+          syncResult.manifest,
+          archiveItemIds
+        );
+      }
       
       // Log content sync results in dev mode
       if (import.meta.env.DEV) {
@@ -599,7 +1279,7 @@ class SyncServiceImpl {
         // Log local items without cachedDocument that weren't downloaded
         const itemsNeedingContent = localItems.filter(item => 
           !item.cachedDocument && 
-          (item.type === 'epub' || item.type === 'mobi' || item.type === 'pdf' || item.type === 'docx')
+          (item.type === 'epub' || item.type === 'mobi' || item.type === 'fb2' || item.type === 'pdf' || item.type === 'docx' || item.type === 'text')
         );
         const downloadedIds = new Set(syncResult.downloaded.map(d => d.itemId));
         const notDownloaded = itemsNeedingContent.filter(item => !downloadedIds.has(item.id));
@@ -629,7 +1309,7 @@ class SyncServiceImpl {
    * Create a plain blob wrapper for unencrypted sync
    * Uses the same shape as EncryptedBlob for type compatibility with providers
    */
-  private createPlainBlob(state: SyncStateDocument): EncryptedBlob {
+  private createPlainBlob(state: unknown): EncryptedBlob {
     // Store the plain JSON in the ciphertext field with special markers
     return {
       version: 1,
@@ -651,14 +1331,14 @@ class SyncServiceImpl {
   /**
    * Parse a plain blob (unencrypted sync)
    */
-  private parsePlainBlob(blob: EncryptedBlob): SyncStateDocument {
+  private parsePlainBlob<T = SyncStateDocument>(blob: EncryptedBlob): T {
     if (this.isEncryptedBlob(blob)) {
       throw new SyncError('Expected unencrypted sync data but found encrypted blob', 'download');
     }
     
     try {
       const json = base64ToUnicode(blob.ciphertext);
-      return JSON.parse(json) as SyncStateDocument;
+      return JSON.parse(json) as T;
     } catch {
       throw new SyncError('Failed to parse unencrypted sync data', 'download');
     }
@@ -17,11 +17,14 @@ import type {
   Collection,
   Annotation,
   ReadingStats,
+  FieldTimestamps,
+  SpeedProfile,
+  ReadingDifficulty,
 } from '@/types';
 
 
 /** Available sync provider types */
-export type SyncProviderType = 'dropbox' | 'folder';
+export type SyncProviderType = 'dropbox' | 'folder' | 'webdav' | 's3';
 
 /** OAuth token storage */
 export interface OAuthTokens {
@@ -32,12 +35,46 @@ export interface OAuthTokens {
   scope?: string;
 }
 
+/**
+ * WebDAV login (e.g. Nextcloud). Both kinds are sent as HTTP Basic auth;
+ * app passwords are the only option on accounts with two-factor login.
+ */
+export interface WebDavCredentials {
+  /** WebDAV root, e.g. https://cloud.example.com/remote.php/dav/files/alice/ */
+  serverUrl: string;
+  username: string;
+  password: string;
+  authType: 'password' | 'app-password';
+}
+
+/** S3-compatible object storage login (AWS, MinIO, Backblaze B2, Cloudflare R2) */
+export interface S3Credentials {
+  /** Service endpoint without the bucket, e.g. http://localhost:9000 */
+  endpoint: string;
+  /** Signing region; MinIO defaults to us-east-1, R2 uses auto */
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/** Conditions for a state upload */
+export interface UploadOptions {
+  /**
+   * Only write if the remote state still has this etag; null means only write
+   * if there is no remote state yet. Omit for an unconditional write.
+   */
+  expectedEtag?: string | null;
+}
+
 /** Provider upload result */
 export interface UploadResult {
   success: boolean;
   etag?: string;
   updatedAt: number;
   error?: string;
+  /** The upload was rejected because the remote file changed since it was last read */
+  conflict?: boolean;
 }
 
 /** Remote file metadata */
@@ -60,7 +97,7 @@ export interface SyncProvider {
   refreshToken?(): Promise<OAuthTokens>;
 
   // State file operations
-  upload(blob: EncryptedBlob): Promise<UploadResult>;
+  upload(blob: EncryptedBlob, options?: UploadOptions): Promise<UploadResult>;
   download(): Promise<EncryptedBlob | null>;
   getRemoteMetadata(): Promise<RemoteMetadata>;
 
@@ -101,6 +138,8 @@ export interface ContentManifest {
   version: 1;
   /** Map of content items by their file hash or ID */
   items: Record<string, ContentManifestItem>;
+  /** Archive items whose content was taken out of sync, on any device */
+  excludedItemIds?: string[];
 }
 
 /** Information about a synced content file */
@@ -143,9 +182,24 @@ export interface SyncArchiveItem {
   collectionIds?: string[];
   /** When collection membership was last modified (for sync conflict resolution) */
   collectionIdsUpdatedAt?: number;
+  /** Speed adaptive speed settled on for this item */
+  speedProfile?: SpeedProfile;
+  /** Passages that were hard to read */
+  readingDifficulty?: ReadingDifficulty;
   // Note: cachedDocument is explicitly excluded
 }
 
+/** Parts of the state document stored as separate remote files */
+export type SyncSectionName = 'settings' | 'archive' | 'positions' | 'annotations' | 'stats' | 'collections';
+
+/** A section file referenced by the remote root document */
+export interface SyncSectionRef {
+  /** Hash of the section's contents; also names its file */
+  hash: string;
+  /** When the section's contents last changed */
+  updatedAt: number;
+}
+
 /** The sync state document that gets encrypted and synced */
 export interface SyncStateDocument {
   /** Schema version for migrations */
@@ -160,6 +214,10 @@ export interface SyncStateDocument {
   presets: Record<string, Partial<ReaderSettings>>;
   customThemes: CustomTheme[];
 
+  // Per-key modification times for settings, presets and themes
+  // (missing in states written before per-key merging)
+  fieldUpdatedAt?: FieldTimestamps;
+
   // Archive data (metadata only)
   archiveItems: SyncArchiveItem[];
 
@@ -188,6 +246,26 @@ export interface SyncStateDocument {
 }
 
 
+/** Limits on the content this device uploads; sizes are compressed bytes */
+export interface ContentSyncLimits {
+  /** Largest file uploaded, or null for no cap */
+  maxFileSize: number | null;
+  /** Most the content folder may hold, or null for no quota */
+  totalQuota: number | null;
+  /** Document types whose content isn't synced */
+  excludedTypes: ArchiveItemType[];
+}
+
+/** Kinds of data a device can choose whether to sync */
+export type SyncCategory = 'settings' | 'themes' | 'archive' | 'positions' | 'annotations' | 'stats' | 'content';
+
+/** What a device syncs. Excluded data is left as it is, locally and remotely. */
+export interface SyncScope {
+  categories: Record<SyncCategory, boolean>;
+  /** Collections whose items' content files aren't synced */
+  excludedContentCollectionIds: string[];
+}
+
 /** Sync configuration stored locally */
 export interface SyncConfig {
   enabled: boolean;
@@ -231,11 +309,12 @@ export interface SyncResult {
 
 /** Information about a sync conflict */
 export interface ConflictInfo {
-  type: 'settings' | 'archive-item' | 'position' | 'preset' | 'theme';
+  /** 'remote-state' means another device kept replacing the sync file while we uploaded */
+  type: 'settings' | 'archive-item' | 'position' | 'preset' | 'theme' | 'remote-state';
   itemId?: string;
   localValue?: unknown;
   remoteValue?: unknown;
-  resolution: 'local-wins' | 'remote-wins' | 'merged';
+  resolution: 'local-wins' | 'remote-wins' | 'merged' | 'unresolved';
 }
 
 
@@ -0,0 +1,210 @@
+/**
+ * Text file import
+ *
+ * Handles the lightweight formats people keep notes and specs in:
+ * plain text, Markdown, saved HTML pages and RTF. Markdown goes through the
+ * paste parser, HTML through the same cleanup and block parsing as web
+ * articles, and RTF is reduced to its text before paragraph splitting.
+ */
+
+import type { Block, FlowDocument } from '@/types';
+import { createDocument } from './block-utils';
+import { cleanArticleDocument } from './article-cleanup';
+import { normalizeArticleMarkup } from './article-normalize';
+import { parseHtmlToBlocks } from './html-parser';
+import { parseMarkdownToBlocks, textToParagraphBlocks } from './paste-utils';
+import { computeFileHash } from './file-utils';
+import { resolveFigureSources, resolveWebImageSource } from './figure-utils';
+import { createFootnoteRegistry, extractFootnotes, getReferencedFootnotes } from './footnote-utils';
+
+export type TextFormat = 'plain' | 'markdown' | 'html' | 'rtf';
+
+/**
+ * Get the text format from a filename, defaulting to plain text
+ */
+export function getTextFormat(filename: string): TextFormat {
+  const lower = filename.toLowerCase();
+  if (/\.(md|markdown)$/.test(lower)) return 'markdown';
+  if (/\.html?$/.test(lower)) return 'html';
+  if (lower.endsWith('.rtf')) return 'rtf';
+  return 'plain';
+}
+
+export async function extractFromTextFile(file: File): Promise<FlowDocument> {
+  const format = getTextFormat(file.name);
+  const fileTitle = file.name.replace(/\.[^.]+$/, '');
+
+  let blocks: Block[];
+  let title: string | null = null;
+  let footnotes: FlowDocument['footnotes'];
+
+  switch (format) {
+    case 'markdown': {
+      const result = parseMarkdownToBlocks(await readText(file));
+      blocks = result.blocks;
+      title = result.title;
+      break;
+    }
+    case 'html': {
+      const result = await parseHtmlFile(await readText(file));
+      blocks = result.blocks;
+      title = result.title;
+      footnotes = result.footnotes;
+      break;
+    }
+    case 'rtf':
+      // RTF is 7-bit; non-ASCII characters are escaped, so the bytes decode as Latin-1
+      blocks = textToParagraphBlocks(rtfToText(await readText(file, 'latin1')));
+      break;
+    default:
+      blocks = textToParagraphBlocks((await readText(file)).replace(/\r\n?/g, '\n'));
+  }
+
+  const fileHash = await computeFileHash(file);
+
+  const doc = createDocument(blocks, {
+    title: title || fileTitle,
+    source: 'text',
+    fileName: file.name,
+    fileSize: file.size,
+    fileHash,
+  });
+  if (footnotes) {
+    doc.footnotes = footnotes;
+  }
+  return doc;
+}
+
+/**
+ * Read a file as text. TextDecoder drops a leading byte order mark, which
+ * editors on Windows often write.
+ */
+async function readText(file: File, encoding = 'utf-8'): Promise<string> {
+  return new TextDecoder(encoding).decode(await file.arrayBuffer());
+}
+
+/**
+ * Parse a saved HTML page into blocks.
+ * Relative image paths point into a folder we can't read, so only absolute
+ * and inline images are kept (resolved against the page's base URL if any).
+ */
+async function parseHtmlFile(html: string): Promise<{
+  blocks: Block[];
+  title: string | null;
+  footnotes: FlowDocument['footnotes'];
+}> {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const pageUrl = doc.querySelector('base[href]')?.getAttribute('href') ||
+                  doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ||
+                  'about:blank';
+
+  const footnoteRegistry = createFootnoteRegistry();
+  extractFootnotes(doc, footnoteRegistry);
+
+  const heading = doc.body.querySelector('h1')?.textContent?.trim();
+  const title = heading || doc.title.trim() || null;
+
+  cleanArticleDocument(doc.body, { title: title ?? undefined }, { preserveFigures: true });
+  normalizeArticleMarkup(doc.body);
+
+  const blocks = await resolveFigureSources(
+    parseHtmlToBlocks(doc.body.innerHTML, { handleTables: true }),
+    src => resolveWebImageSource(src, pageUrl)
+  );
+
+  return { blocks, title, footnotes: getReferencedFootnotes(blocks, footnoteRegistry.footnotes) };
+}
+
+// Destinations whose content isn't document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'listtable', 'listoverridetable',
+  'revtbl', 'rsidtbl', 'generator', 'xmlnstbl', 'header', 'headerl', 'headerr',
+  'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'fldinst',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n\n',
+  sect: '\n\n',
+  page: '\n\n',
+  line: '\n',
+  tab: '\t',
+  cell: '\t',
+  row: '\n\n',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•',
+};
+
+/**
+ * Reduce an RTF document to plain text with blank lines between paragraphs.
+ * Handles groups, skipped destinations, \'hh (Windows-1252) and \uN escapes;
+ * formatting control words are dropped.
+ */
+export function rtfToText(rtf: string): string {
+  const decoder = new TextDecoder('windows-1252');
+  const controlPattern = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|[^\\{}\r\n]+/giy;
+
+  // Per-group state: skipping this group's text, and \ucN fallback length
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  // Fallback characters still to drop after a \uN escape
+  let pendingSkip = 0;
+  let text = '';
+
+  const emit = (value: string) => {
+    if (skip) return;
+    if (pendingSkip > 0) {
+      const dropped = Math.min(pendingSkip, value.length);
+      pendingSkip -= dropped;
+      value = value.slice(dropped);
+    }
+    text += value;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = controlPattern.exec(rtf)) !== null) {
+    const [token, word, param, hex, symbol, brace] = match;
+
+    if (brace === '{') {
+      stack.push({ skip, unicodeSkip });
+      // "{\*\destination ...}" is an optional destination readers may ignore
+      if (rtf.startsWith('\\*', controlPattern.lastIndex)) skip = true;
+    } else if (brace === '}') {
+      ({ skip, unicodeSkip } = stack.pop() ?? { skip, unicodeSkip });
+      pendingSkip = 0;
+    } else if (word) {
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === 'uc') {
+        unicodeSkip = Number(param ?? 1);
+      } else if (word === 'u') {
+        // Parameters above 32767 are written as negative numbers
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = unicodeSkip;
+      } else if (RTF_SYMBOLS[word]) {
+        pendingSkip = 0;
+        emit(RTF_SYMBOLS[word]);
+      }
+    } else if (hex) {
+      emit(decoder.decode(new Uint8Array([parseInt(hex, 16)])));
+    } else if (symbol) {
+      if (symbol === '~') emit(' ');
+      else if (symbol === '_') emit('-');
+      else if ('\\{}'.includes(symbol)) emit(symbol);
+    } else if (!/^[\r\n]/.test(token)) {
+      emit(token);
+    }
+  }
+
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -1,4 +1,6 @@
+import type { Block } from '@/types';
 import { PAUSE, getPauseMultiplier, getSentencePauseMultiplier } from './pause-multipliers';
+import { getTableRows } from './block-utils';
 import { getWordSpeedMultiplier } from './word-frequency';
 import { countSyllables, type SupportedLanguage } from './syllables';
 
@@ -9,6 +11,18 @@ export interface RSVPToken {
   isEndOfParagraph: boolean;
 }
 
+/** RSVP token taken from a document block, with its place in the word stream */
+export interface BlockRSVPToken extends RSVPToken {
+  /** Block the token's words come from */
+  blockIndex: number;
+  /** Words before this token, counted the way pacing counts them */
+  wordOffset: number;
+  /** Words shown in this token */
+  wordCount: number;
+  /** A heading, shown whole as a title card */
+  isTitleCard: boolean;
+}
+
 export interface SentenceToken {
   text: string;
   wordCount: number;
@@ -54,6 +68,91 @@ export function tokenizeForRSVP(text: string, chunkSize: number = 1): RSVPToken[
   return tokens;
 }
 
+/** Run of words RSVP chunks on its own: a block, list item or table row */
+interface RSVPSegment {
+  blockIndex: number;
+  words: string[];
+  /** Pause after the segment's last word */
+  endPause: number;
+  isBlockEnd: boolean;
+  isTitleCard: boolean;
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter((w) => w.length > 0);
+}
+
+function getRSVPSegments(block: Block, blockIndex: number): RSVPSegment[] {
+  const segment = (words: string[], endPause: number, isBlockEnd: boolean): RSVPSegment =>
+    ({ blockIndex, words, endPause, isBlockEnd, isTitleCard: false });
+
+  switch (block.type) {
+    case 'figure':
+      return [];
+    case 'heading':
+      return [{ ...segment(splitWords(block.content), PAUSE.NONE, true), isTitleCard: true }];
+    case 'list':
+      return block.items.map((item, i) =>
+        i === block.items.length - 1
+          ? segment(splitWords(item), PAUSE.PARAGRAPH_END, true)
+          : segment(splitWords(item), PAUSE.LIST_ITEM_END, false)
+      );
+    case 'table': {
+      const rows = getTableRows(block);
+      return rows.map((row, i) =>
+        i === rows.length - 1
+          ? segment(row.flatMap(splitWords), PAUSE.PARAGRAPH_END, true)
+          : segment(row.flatMap(splitWords), PAUSE.TABLE_ROW_END, false)
+      );
+    }
+    default:
+      return [segment(splitWords(block.content), PAUSE.PARAGRAPH_END, true)];
+  }
+}
+
+/**
+ * Tokenize blocks for RSVP. Chunks never run across blocks, list items or
+ * table rows, each of which ends with its own pause (and counts as a
+ * sentence end, so replay stays inside it). Headings become a single title
+ * card token. Word offsets match pacingToWordCount exactly.
+ */
+export function tokenizeBlocksForRSVP(blocks: Block[], chunkSize: number = 1): BlockRSVPToken[] {
+  const tokens: BlockRSVPToken[] = [];
+  const size = Math.max(1, chunkSize);
+  const segments = blocks
+    .flatMap((block, blockIndex) => getRSVPSegments(block, blockIndex))
+    .filter(({ words }) => words.length > 0);
+  let wordOffset = 0;
+
+  segments.forEach(({ blockIndex, words, endPause, isBlockEnd, isTitleCard }, sIndex) => {
+    // No break after the very last words
+    const isLastSegment = sIndex === segments.length - 1;
+    const step = isTitleCard ? words.length : size;
+
+    for (let i = 0; i < words.length; i += step) {
+      const chunk = words.slice(i, i + step);
+      const isLastChunk = i + step >= words.length;
+      const { multiplier, isEndOfSentence } = isTitleCard
+        ? { multiplier: PAUSE.NONE, isEndOfSentence: true }
+        : getPauseMultiplier(chunk[chunk.length - 1]);
+
+      tokens.push({
+        text: chunk.join(' '),
+        pauseMultiplier: isLastChunk && !isLastSegment ? Math.max(multiplier, endPause) : multiplier,
+        isEndOfSentence: isEndOfSentence || isLastChunk,
+        isEndOfParagraph: isLastChunk && isBlockEnd && !isLastSegment,
+        blockIndex,
+        wordOffset,
+        wordCount: chunk.length,
+        isTitleCard,
+      });
+      wordOffset += chunk.length;
+    }
+  });
+
+  return tokens;
+}
+
 export function calculateTokenDuration(token: RSVPToken, wpm: number, pauseOnPunctuation: boolean): number {
   const baseMs = 60000 / wpm;
   // Use countWordsForTiming to count hyphenated words as multiple words
@@ -145,6 +244,29 @@ export function tokenizeIntoSentences(text: string): SentenceToken[] {
   return sentences;
 }
 
+/**
+ * Tokenize table rows as sentence units, so sentence pacing walks a table
+ * row by row. Indices refer to the rows' cells joined with single spaces.
+ */
+export function tokenizeTableRows(rows: string[][]): SentenceToken[] {
+  const sentences: SentenceToken[] = [];
+  let offset = 0;
+
+  for (const row of rows) {
+    const text = row.join(' ');
+    sentences.push({
+      text,
+      wordCount: getWordCount(text),
+      startIndex: offset,
+      endIndex: offset + text.length,
+      pauseMultiplier: PAUSE.SENTENCE_END,
+    });
+    offset += text.length + 1;
+  }
+
+  return sentences;
+}
+
 export function tokenizeIntoWords(text: string): WordToken[] {
   const words: WordToken[] = [];
   const wordRegex = /\S+/g;
@@ -143,7 +143,13 @@ export default function Options() {
               id="rampEnabled"
               label="Enable speed ramp-up"
               checked={settings.rampEnabled}
-              onChange={(v) => update({ rampEnabled: v })}
+              onChange={(v) => update({ rampEnabled: v, ...(v && { adaptiveWPM: false }) })}
+            />
+            <FormCheckbox
+              id="adaptiveWPM"
+              label="Adapt speed to rewinds and pauses"
+              checked={settings.adaptiveWPM}
+              onChange={(v) => update({ adaptiveWPM: v, ...(v && { rampEnabled: false }) })}
             />
             {settings.rampEnabled && (
               <>
@@ -17,12 +17,13 @@ import ProgressBar from './components/ProgressBar';
 import ImportPanel from './components/ImportPanel';
 import HelpOverlay from './components/HelpOverlay';
 import CompletionOverlay from './components/CompletionOverlay';
+import ComprehensionQuiz from './components/ComprehensionQuiz';
 import Onboarding, { useOnboarding } from './components/Onboarding';
 import OfflineIndicator from '@/components/OfflineIndicator';
 import { useStorageSync } from './hooks/useStorageSync';
 import { getCurrentDocument } from '@/lib/storage';
 import { getAnnotations, getDocumentAnnotationKey } from '@/lib/annotations-service';
-import type { FlowDocument } from '@/types';
+import type { FlowDocument, PassageLocation } from '@/types';
 
 // Focus mode hover timeout (show UI on mouse move)
 const FOCUS_MODE_HOVER_TIMEOUT = 2000;
@@ -60,6 +61,7 @@ export default function App() {
   const restorePosition = useReaderStore(state => state.restorePosition);
   const saveCurrentPosition = useReaderStore(state => state.saveCurrentPosition);
   const scrollToAnnotation = useReaderStore(state => state.scrollToAnnotation);
+  const navigateToPassage = useReaderStore(state => state.navigateToPassage);
   
   const onboarding = useOnboarding();
   
@@ -115,6 +117,9 @@ export default function App() {
   
   // Track annotation ID to navigate to after document loads
   const pendingAnnotationIdRef = useRef<string | null>(null);
+  
+  // Track passage to navigate to after document loads
+  const pendingPassageRef = useRef<PassageLocation | null>(null);
 
   // Load settings from storage on mount
   useEffect(() => {
@@ -133,6 +138,10 @@ export default function App() {
           if (response.annotationId) {
             pendingAnnotationIdRef.current = response.annotationId;
           }
+          // Store passage for navigation after document loads
+          if (response.passage) {
+            pendingPassageRef.current = response.passage as PassageLocation;
+          }
           return;
         }
         
@@ -191,13 +200,19 @@ export default function App() {
               }
             });
           });
+        } else if (pendingPassageRef.current) {
+          const passage = pendingPassageRef.current;
+          pendingPassageRef.current = null; // Clear after use
+          
+          // Restore position first (loads the saved chapter), then move to the passage
+          restorePosition().then(() => navigateToPassage(passage));
         } else {
           // No pending annotation, restore normal position
           restorePosition();
         }
       }
     }
-  }, [document, settingsLoaded, restorePosition, scrollToAnnotation]);
+  }, [document, settingsLoaded, restorePosition, scrollToAnnotation, navigateToPassage]);
 
   // Save position when playback is paused
   useEffect(() => {
@@ -294,6 +309,7 @@ export default function App() {
           setImportOpen(true);
         }}
       />
+      <ComprehensionQuiz />
       {onboarding.checked && onboarding.showOnboarding && (
         <Onboarding onComplete={onboarding.close} />
       )}
@@ -1,10 +1,14 @@
 import { memo } from 'react';
-import type { Block, Annotation } from '@/types';
+import type { Block, Annotation, Footnote } from '@/types';
 import type { ModeConfig, BionicConfig, PacingConfig, PositionState, BlockHandlers } from './types';
 import type { SearchMatch } from '@/lib/search-utils';
+import { getBlockSpans, getListItemSpans } from '@/lib/inline-spans';
 import BionicMode from '../modes/BionicMode';
 import PacingContent from './PacingContent';
 import ListItemRenderer from './ListItemRenderer';
+import TableRenderer from './TableRenderer';
+import FootnoteRef from './FootnoteRef';
+import FormattedText from './FormattedText';
 
 export interface BlockRendererProps {
   block: Block;
@@ -23,10 +27,12 @@ export interface BlockRendererProps {
   searchResults?: SearchMatch[];
   /** Index of the currently focused search result */
   currentSearchIndex?: number;
+  /** Document footnotes by id, for reference popovers */
+  footnotes?: Map<string, Footnote>;
 }
 
 /**
- * Renders a single block of content (heading, paragraph, list, quote, code).
+ * Renders a single block of content (heading, paragraph, list, quote, code, table, figure).
  * Memoized to prevent re-renders when position changes in other blocks.
  */
 export default memo(function BlockRenderer({
@@ -42,6 +48,7 @@ export default memo(function BlockRenderer({
   onAnnotationClick,
   searchResults = [],
   currentSearchIndex = -1,
+  footnotes,
 }: BlockRendererProps) {
   const getDimClass = () => {
     if (!mode.isPacing || !pacingConfig.pacingDimContext) return '';
@@ -49,10 +56,12 @@ export default memo(function BlockRenderer({
   };
 
   const renderContent = (text: string) => {
+    const spans = getBlockSpans(block);
     if (mode.isBionic) {
       return (
         <BionicMode 
           text={text} 
+          spans={spans}
           intensity={bionicConfig.intensity} 
           proportion={bionicConfig.proportion}
           adaptive={bionicConfig.adaptive}
@@ -66,6 +75,7 @@ export default memo(function BlockRenderer({
       return (
         <PacingContent
           text={text}
+          spans={spans}
           granularity={pacingConfig.granularity}
           // Pass -1 as currentIndex for non-active blocks so no word is highlighted
           currentIndex={isActive 
@@ -83,7 +93,16 @@ export default memo(function BlockRenderer({
       );
     }
 
-    return text;
+    return spans ? <FormattedText spans={spans} /> : text;
+  };
+
+  // Footnote markers follow the block text; the notes themselves aren't part of the flow
+  const renderFootnoteRefs = () => {
+    if (!footnotes || !('footnoteRefs' in block) || !block.footnoteRefs) return null;
+    return block.footnoteRefs.map(id => {
+      const footnote = footnotes.get(id);
+      return footnote ? <FootnoteRef key={id} footnote={footnote} /> : null;
+    });
   };
 
   const getBlockActiveStyles = () => {
@@ -107,37 +126,48 @@ export default memo(function BlockRenderer({
       return (
         <HeadingTag data-block-index={index} className={combinedClassName} onClick={handlers.onClick}>
           {renderContent(block.content)}
+          {renderFootnoteRefs()}
         </HeadingTag>
       );
     }
 
     case 'paragraph':
       return (
-        <p data-block-index={index} className={combinedClassName} onClick={handlers.onClick}>
+        <p
+          data-block-index={index}
+          className={block.isFootnote ? `footnote-block ${combinedClassName}` : combinedClassName}
+          onClick={handlers.onClick}
+        >
           {renderContent(block.content)}
+          {renderFootnoteRefs()}
         </p>
       );
 
     case 'list': {
       const ListTag = block.ordered ? 'ol' : 'ul';
+      const footnoteRefs = renderFootnoteRefs();
       return (
-        <ListTag data-block-index={index} className={combinedClassName} onClick={handlers.onClick}>
-          {block.items.map((item, i) => (
-            <ListItemRenderer
-              key={i}
-              item={item}
-              itemIndex={i}
-              isBlockActive={isActive}
-              mode={mode}
-              bionicConfig={bionicConfig}
-              pacingConfig={pacingConfig}
-              position={position}
-              allItems={block.items}
-              onWordClick={handlers.onWordClick}
-              onSentenceClick={handlers.onSentenceClick}
-            />
-          ))}
-        </ListTag>
+        <>
+          <ListTag data-block-index={index} className={combinedClassName} onClick={handlers.onClick}>
+            {block.items.map((item, i) => (
+              <ListItemRenderer
+                key={i}
+                item={item}
+                itemSpans={getListItemSpans(block, i)}
+                itemIndex={i}
+                isBlockActive={isActive}
+                mode={mode}
+                bionicConfig={bionicConfig}
+                pacingConfig={pacingConfig}
+                position={position}
+                allItems={block.items}
+                onWordClick={handlers.onWordClick}
+                onSentenceClick={handlers.onSentenceClick}
+              />
+            ))}
+          </ListTag>
+          {footnoteRefs && <div className="footnote-refs">{footnoteRefs}</div>}
+        </>
       );
     }
 
@@ -145,6 +175,7 @@ export default memo(function BlockRenderer({
       return (
         <blockquote data-block-index={index} className={combinedClassName} onClick={handlers.onClick}>
           {renderContent(block.content)}
+          {renderFootnoteRefs()}
         </blockquote>
       );
 
@@ -157,6 +188,44 @@ export default memo(function BlockRenderer({
         </pre>
       );
 
+    case 'table': {
+      const footnoteRefs = renderFootnoteRefs();
+      return (
+        <>
+          <div data-block-index={index} className={`table-block ${combinedClassName}`} onClick={handlers.onClick}>
+            <table>
+              <TableRenderer
+                block={block}
+                isBlockActive={isActive}
+                mode={mode}
+                bionicConfig={bionicConfig}
+                pacingConfig={pacingConfig}
+                position={position}
+                onWordClick={handlers.onWordClick}
+                onSentenceClick={handlers.onSentenceClick}
+              />
+            </table>
+          </div>
+          {footnoteRefs && <div className="footnote-refs">{footnoteRefs}</div>}
+        </>
+      );
+    }
+
+    case 'figure':
+      // Figures carry no words; the caption is shown as-is and never paced
+      return (
+        <figure data-block-index={index} className={combinedClassName} onClick={handlers.onClick}>
+          {block.src ? (
+            <img src={block.src} alt={block.alt} loading="lazy" />
+          ) : (
+            <div className="figure-placeholder" role="img" aria-label={block.alt || 'Image'}>
+              {block.alt || 'Image unavailable'}
+            </div>
+          )}
+          {block.caption && <figcaption>{block.caption}</figcaption>}
+        </figure>
+      );
+
     default:
       return null;
   }
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { scoreQuiz } from '@/lib/comprehension';
+import { useReaderStore } from '../store';
+
+/**
+ * Comprehension check shown when a chapter or document ends. Answers are
+ * checked in place; continuing records the score alongside the reading speed.
+ */
+export default function ComprehensionQuiz() {
+  const quiz = useReaderStore(state => state.comprehensionQuiz);
+  const submitComprehensionQuiz = useReaderStore(state => state.submitComprehensionQuiz);
+  const dismissComprehensionQuiz = useReaderStore(state => state.dismissComprehensionQuiz);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [isChecked, setIsChecked] = useState(false);
+
+  // Fresh answers for each quiz
+  useEffect(() => {
+    setAnswers([]);
+    setIsChecked(false);
+  }, [quiz]);
+
+  if (!quiz) return null;
+
+  const { correct, total } = scoreQuiz(quiz.questions, answers);
+  const answeredCount = answers.filter(answer => answer !== null && answer !== undefined).length;
+
+  const choose = (questionIndex: number, optionIndex: number) => {
+    if (isChecked) return;
+    const updated = [...answers];
+    updated[questionIndex] = optionIndex;
+    setAnswers(updated);
+  };
+
+  const optionStyle = (questionIndex: number, optionIndex: number) => {
+    const question = quiz.questions[questionIndex];
+    const isChosen = answers[questionIndex] === optionIndex;
+    if (isChecked && optionIndex === question.answerIndex) {
+      return { backgroundColor: 'rgba(34, 197, 94, 0.2)' };
+    }
+    if (isChecked && isChosen) {
+      return { backgroundColor: 'rgba(239, 68, 68, 0.2)' };
+    }
+    return { backgroundColor: isChosen ? 'rgba(128, 128, 128, 0.25)' : 'rgba(128, 128, 128, 0.08)' };
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={dismissComprehensionQuiz}
+      title="Comprehension check"
+      size="lg"
+      zIndex={210}
+      closeOnBackdrop={false}
+    >
+      <p className="text-sm opacity-60 mb-4">
+        {quiz.questions.length} quick questions about "{quiz.title}"
+      </p>
+
+      <ol className="space-y-5 max-h-[55vh] overflow-y-auto pr-1">
+        {quiz.questions.map((question, questionIndex) => (
+          <li key={questionIndex}>
+            <p className="text-sm font-medium mb-2">
+              {questionIndex + 1}. {question.type === 'cloze' ? 'Fill in the blank: ' : ''}{question.prompt}
+            </p>
+            <div className={question.type === 'cloze' ? 'grid grid-cols-2 gap-2' : 'space-y-2'}>
+              {question.options.map((option, optionIndex) => (
+                <button
+                  key={optionIndex}
+                  onClick={() => choose(questionIndex, optionIndex)}
+                  disabled={isChecked}
+                  aria-pressed={answers[questionIndex] === optionIndex}
+                  className="w-full text-left text-sm px-3 py-2 rounded-lg transition-colors"
+                  style={optionStyle(questionIndex, optionIndex)}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between gap-3 mt-6">
+        {isChecked ? (
+          <p className="text-sm font-medium" role="status">
+            {correct} of {total} correct at {quiz.wpm} WPM
+          </p>
+        ) : (
+          <button
+            onClick={dismissComprehensionQuiz}
+            className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+          >
+            Skip
+          </button>
+        )}
+        <button
+          onClick={() => (isChecked ? submitComprehensionQuiz(answers) : setIsChecked(true))}
+          disabled={!isChecked && answeredCount === 0}
+          className="px-4 py-2 text-sm rounded-lg font-medium transition-colors disabled:opacity-40"
+          style={{ backgroundColor: 'var(--reader-link)', color: '#ffffff' }}
+        >
+          {isChecked ? 'Continue' : 'Check answers'}
+        </button>
+      </div>
+    </Modal>
+  );
+}
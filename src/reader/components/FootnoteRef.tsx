@@ -0,0 +1,54 @@
+import { memo, useEffect, useRef, useState } from 'react';
+import type { Footnote } from '@/types';
+
+interface FootnoteRefProps {
+  footnote: Footnote;
+}
+
+/**
+ * Footnote reference marker that opens the note in a popover.
+ * Clicks stop at the marker so opening a note doesn't move the reading position.
+ */
+export default memo(function FootnoteRef({ footnote }: FootnoteRefProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLSpanElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsOpen(open => !open);
+  };
+
+  return (
+    <span ref={containerRef} className="footnote-ref">
+      <sup>
+        <button
+          type="button"
+          onClick={handleToggle}
+          aria-expanded={isOpen}
+          aria-label={`Footnote ${footnote.label}`}
+        >
+          {footnote.label}
+        </button>
+      </sup>
+      {isOpen && (
+        <span className="footnote-popover" role="note" onClick={(e) => e.stopPropagation()}>
+          {footnote.content}
+        </span>
+      )}
+    </span>
+  );
+});
@@ -0,0 +1,41 @@
+import { Fragment, type ReactNode } from 'react';
+import type { InlineSpan } from '@/types';
+import { sliceSpans } from '@/lib/inline-spans';
+
+interface FormattedTextProps {
+  spans: InlineSpan[];
+  /** Character range of the joined span text to render (defaults to all of it) */
+  start?: number;
+  end?: number;
+}
+
+function renderSpan(span: InlineSpan, key: number): ReactNode {
+  let node: ReactNode = span.text;
+  if (span.marks?.includes('code')) node = <code>{node}</code>;
+  if (span.marks?.includes('strong')) node = <strong>{node}</strong>;
+  if (span.marks?.includes('em')) node = <em>{node}</em>;
+  if (span.href) {
+    node = (
+      <a
+        href={span.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        // Following a link shouldn't also move the reading position
+        onClick={e => e.stopPropagation()}
+      >
+        {node}
+      </a>
+    );
+  }
+  return <Fragment key={key}>{node}</Fragment>;
+}
+
+/**
+ * Renders inline runs with their emphasis, code and links.
+ * Rendering a range lets word and sentence wrappers keep their own structure
+ * while formatting runs across them.
+ */
+export default function FormattedText({ spans, start = 0, end = Infinity }: FormattedTextProps) {
+  const runs = start === 0 && end === Infinity ? spans : sliceSpans(spans, start, end);
+  return <>{runs.map(renderSpan)}</>;
+}
@@ -16,7 +16,7 @@ const SHORTCUTS = [
   { keys: ['Shift', '↓'], description: 'Decrease speed (-50 WPM)' },
   { keys: ['M'], description: 'Cycle reading mode' },
   { keys: ['B'], description: 'Toggle Bionic mode' },
-  { keys: ['G'], description: 'Cycle granularity (Pacing mode)' },
+  { keys: ['G'], description: 'Cycle granularity (Pacing and Listen modes)' },
   { keys: ['F'], description: 'Toggle focus mode' },
   { keys: ['R'], description: 'Replay sentence (RSVP mode)' },
   { keys: ['+', '='], description: 'Increase chunk size (RSVP mode)' },
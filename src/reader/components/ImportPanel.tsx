@@ -1,8 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
-import { extractFromPdf } from '@/lib/pdf-handler';
+import { extractFromPdf, PdfExtractionError, type OcrProgress } from '@/lib/pdf-handler';
 import { extractFromDocx } from '@/lib/docx-handler';
 import { extractFromEpub, EpubExtractionError } from '@/lib/epub-handler';
 import { extractFromMobi, MobiExtractionError } from '@/lib/mobi-handler';
+import { extractFromFb2 } from '@/lib/fb2-handler';
+import { extractFromTextFile } from '@/lib/text-handler';
 import { extractFromPaste } from '@/lib/extraction';
 import { isSupportedFile, getFileType, countWords } from '@/lib/file-utils';
 import { getRecentDocuments } from '@/lib/storage';
@@ -33,8 +35,10 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
   const [importError, setImportError] = useState<string | null>(null);
   const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
   const [recentDocs, setRecentDocs] = useState<RecentDocument[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Load recent documents when panel opens
   useEffect(() => {
@@ -42,22 +46,30 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
       getRecentDocuments().then(setRecentDocs);
       // Reset import result when opening
       setImportResult(null);
+    } else {
+      // Closing the panel cancels a running import
+      abortControllerRef.current?.abort();
     }
   }, [isOpen]);
 
   // Helper to extract a single file based on type
-  const extractFile = async (file: File): Promise<FlowDocument> => {
+  const extractFile = async (file: File, signal: AbortSignal): Promise<FlowDocument> => {
     const fileType = getFileType(file.name);
     
     switch (fileType) {
       case 'pdf':
-        return await extractFromPdf(file);
+        // Scanned PDFs go through OCR, which reports progress per page
+        return await extractFromPdf(file, { signal, onOcrProgress: setOcrProgress });
       case 'docx':
         return await extractFromDocx(file);
       case 'epub':
         return await extractFromEpub(file);
       case 'mobi':
         return await extractFromMobi(file);
+      case 'fb2':
+        return await extractFromFb2(file);
+      case 'text':
+        return await extractFromTextFile(file);
       default:
         throw new Error(`Unsupported file type "${file.name}"`);
     }
@@ -80,7 +92,7 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
     const unsupportedFiles = files.filter(f => !isSupportedFile(f.name));
     
     if (supportedFiles.length === 0 && unsupportedFiles.length > 0) {
-      setImportError(`Unsupported file type(s). Please use PDF, DOCX, EPUB, or MOBI files.`);
+      setImportError(`Unsupported file type(s). Please use PDF, DOCX, EPUB, MOBI, FB2, text, Markdown, HTML or RTF files.`);
       return;
     }
     
@@ -89,8 +101,12 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
     setIsImporting(true);
     setImportError(null);
     setImportResult(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     let firstDoc: FlowDocument | null = null;
+    let successCount = 0;
     const failed: { name: string; error: string }[] = [];
     
     // Add unsupported files to failed list
@@ -99,7 +115,11 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
     });
     
     for (let i = 0; i < supportedFiles.length; i++) {
+      // Cancelling stops the batch; files imported so far are kept
+      if (abortController.signal.aborted) break;
+
       const file = supportedFiles[i];
+      setOcrProgress(null);
       setImportProgress({
         current: i + 1,
         total: supportedFiles.length,
@@ -107,7 +127,7 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
       });
       
       try {
-        const doc = await extractFile(file);
+        const doc = await extractFile(file, abortController.signal);
         
         // Add to archive
         await addRecent({
@@ -125,12 +145,16 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
         if (!firstDoc) {
           firstDoc = doc;
         }
+        successCount++;
       } catch (err) {
+        if (err instanceof PdfExtractionError && err.type === 'cancelled') break;
         failed.push({ name: file.name, error: getErrorMessage(err) });
       }
     }
     
+    abortControllerRef.current = null;
     setImportProgress(null);
+    setOcrProgress(null);
     setIsImporting(false);
     
     // Reset file input
@@ -139,8 +163,6 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
     }
     
     // Handle results
-    const successCount = supportedFiles.length - (failed.length - unsupportedFiles.length);
-    
     if (firstDoc) {
       // Open the first successfully imported document
       setDocument(firstDoc);
@@ -163,6 +185,12 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
     }
   };
 
+  const handleCancelImport = (e: React.MouseEvent) => {
+    // Keep the click from reaching the upload area
+    e.stopPropagation();
+    abortControllerRef.current?.abort();
+  };
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
@@ -337,7 +365,7 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,.docx,.epub,.mobi,.azw,.azw3"
+                accept=".pdf,.docx,.epub,.mobi,.azw,.azw3,.fb2,.zip,.txt,.md,.markdown,.html,.htm,.rtf"
                 multiple
                 onChange={handleFileSelect}
                 className="hidden"
@@ -350,6 +378,19 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
                     <>
                       <span>Importing {importProgress.current} of {importProgress.total}...</span>
                       <span className="text-sm opacity-60 truncate max-w-full">{importProgress.currentFileName}</span>
+                      {ocrProgress && (
+                        <span className="text-sm opacity-60" role="status">
+                          Recognizing text: page {ocrProgress.page} of {ocrProgress.totalPages}
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={handleCancelImport}
+                        className="mt-1 px-3 py-1 text-sm rounded-lg opacity-80 hover:opacity-100 transition-opacity"
+                        style={{ border: '1px solid rgba(128, 128, 128, 0.4)' }}
+                      >
+                        Cancel
+                      </button>
                     </>
                   ) : (
                     <span>Importing...</span>
@@ -361,12 +402,12 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                   </svg>
                   <p className="font-medium">Click to upload or drag and drop</p>
-                  <p className="text-sm opacity-60 mt-1">PDF, DOCX, EPUB, or MOBI files (multiple allowed)</p>
+                  <p className="text-sm opacity-60 mt-1">PDF, DOCX, EPUB, MOBI, FB2, text, Markdown, HTML or RTF files (multiple allowed)</p>
                 </>
               )}
             </div>
             <p className="text-xs opacity-50 mt-2">
-              Scanned PDFs without a text layer and DRM-protected e-books are not supported.
+              Scanned PDFs are read with on-device text recognition, which can take a while. DRM-protected e-books are not supported.
             </p>
           </div>
 
@@ -439,7 +480,7 @@ export default function ImportPanel({ isOpen, onClose }: ImportPanelProps) {
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
                           </svg>
-                        ) : doc.source === 'epub' || doc.source === 'mobi' ? (
+                        ) : doc.source === 'epub' || doc.source === 'mobi' || doc.source === 'fb2' ? (
                           // Book icon for e-books
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
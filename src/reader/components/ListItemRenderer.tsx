@@ -1,11 +1,15 @@
 import { memo, useMemo } from 'react';
 import { tokenizeIntoSentences, tokenizeIntoWords } from '@/lib/tokenizer';
+import type { InlineSpan } from '@/types';
 import type { ModeConfig, BionicConfig, PacingConfig, PositionState } from './types';
 import BionicMode from '../modes/BionicMode';
 import PacingContent from './PacingContent';
+import FormattedText from './FormattedText';
 
 interface ListItemRendererProps {
   item: string;
+  /** Inline formatting of the item, if any */
+  itemSpans?: InlineSpan[];
   itemIndex: number;
   isBlockActive: boolean;
   mode: ModeConfig;
@@ -23,6 +27,7 @@ interface ListItemRendererProps {
  */
 export default memo(function ListItemRenderer({
   item,
+  itemSpans,
   itemIndex,
   isBlockActive,
   mode,
@@ -55,6 +60,7 @@ export default memo(function ListItemRenderer({
       <li>
         <BionicMode 
           text={item} 
+          spans={itemSpans}
           intensity={bionicConfig.intensity} 
           proportion={bionicConfig.proportion}
           adaptive={bionicConfig.adaptive}
@@ -70,6 +76,7 @@ export default memo(function ListItemRenderer({
       <li>
         <PacingContent
           text={item}
+          spans={itemSpans}
           granularity={pacingConfig.granularity}
           // Pass -1 as currentIndex for non-active blocks so no word is highlighted
           currentIndex={isBlockActive 
@@ -84,5 +91,5 @@ export default memo(function ListItemRenderer({
     );
   }
 
-  return <li>{item}</li>;
+  return <li>{itemSpans ? <FormattedText spans={itemSpans} /> : item}</li>;
 });
@@ -2,11 +2,12 @@
  * NotesPanel Component
  * 
  * Slide-in panel that displays all annotations/highlights for the current document.
- * Allows users to view, navigate to, edit, and delete annotations.
+ * Allows users to view, navigate to, edit, and delete annotations, and lists
+ * the passages the reader struggled with.
  */
 
 import { useEffect, useMemo, useState } from 'react';
-import type { Annotation } from '@/types';
+import type { Annotation, PassageStats } from '@/types';
 import { HIGHLIGHT_COLORS } from '@/types';
 import NoteItem from './NoteItem';
 import ExportDropdown from '@/components/ExportDropdown';
@@ -21,6 +22,11 @@ interface NotesPanelProps {
   onDeleteAnnotation: (id: string) => void;
   onToggleFavorite: (id: string) => void;
   onImportAnnotations?: (data: { text: string; note: string | null; color: string; isFavorite?: boolean; tags?: string[]; createdAt: string }[]) => Promise<{ imported: number; skipped: number }>;
+  /** Passages with many rewinds or long dwell times, hardest first */
+  difficultPassages?: PassageStats[];
+  /** Whether passages are labelled with their chapter (books) */
+  showPassageChapters?: boolean;
+  onNavigateToPassage?: (passage: PassageStats) => void;
 }
 
 export default function NotesPanel({
@@ -33,6 +39,9 @@ export default function NotesPanel({
   onDeleteAnnotation,
   onToggleFavorite,
   onImportAnnotations,
+  difficultPassages = [],
+  showPassageChapters = false,
+  onNavigateToPassage,
 }: NotesPanelProps) {
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
@@ -366,6 +375,33 @@ export default function NotesPanel({
               ))}
             </div>
           )}
+
+          {/* Passages with many rewinds or long dwell times */}
+          {difficultPassages.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-reader-text/10">
+              <h3 className="text-sm font-medium mb-1">Passages you struggled with</h3>
+              <p className="text-xs opacity-50 mb-2">
+                Where you went back or slowed down the most
+              </p>
+              <ul className="space-y-1">
+                {difficultPassages.map(passage => (
+                  <li key={`${passage.chapterIndex}:${passage.blockIndex}`}>
+                    <button
+                      onClick={() => onNavigateToPassage?.(passage)}
+                      className="w-full text-left px-2 py-1.5 -mx-2 rounded hover:bg-reader-text/5 transition-colors"
+                    >
+                      <p className="text-sm line-clamp-2">{passage.preview}</p>
+                      <p className="text-xs opacity-50">
+                        {showPassageChapters && `Chapter ${passage.chapterIndex + 1} · `}
+                        {passage.regressions} rewind{passage.regressions !== 1 ? 's' : ''}
+                        {passage.dwellMs > 0 && ` · ${Math.round(passage.dwellMs / 1000)}s read`}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Footer hint */}
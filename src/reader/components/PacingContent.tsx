@@ -1,11 +1,14 @@
 import { useMemo } from 'react';
-import type { PacingGranularity, PacingSettings, Annotation } from '@/types';
+import type { PacingGranularity, PacingSettings, Annotation, InlineSpan } from '@/types';
 import { tokenizeIntoSentences, tokenizeIntoWords, findORP } from '@/lib/tokenizer';
 import { getWordHighlightColor } from '@/lib/annotations-service';
 import { getSearchMatchForWord, type SearchMatch } from '@/lib/search-utils';
+import FormattedText from './FormattedText';
 
 interface PacingContentProps {
   text: string;
+  /** Inline formatting of the text, if any */
+  spans?: InlineSpan[];
   granularity: PacingGranularity;
   currentIndex: number; // -1 means no item is active in this block
   indexOffset?: number;
@@ -25,6 +28,7 @@ interface PacingContentProps {
 
 export default function PacingContent({
   text,
+  spans,
   granularity,
   currentIndex,
   indexOffset = 0,
@@ -51,6 +55,10 @@ export default function PacingContent({
     return tokenizeIntoSentences(text);
   }, [granularity, text]);
 
+  // Formatting is sliced to each word or sentence so their wrappers stay unchanged
+  const renderRange = (plain: string, start: number) =>
+    spans ? <FormattedText spans={spans} start={start} end={start + plain.length} /> : plain;
+
   if (granularity === 'word' && words.length > 0) {
     return (
       <span className="pacing-text">
@@ -147,9 +155,9 @@ export default function PacingContent({
               style={spanStyle}
               onClick={handleClick}
             >
-              <span className="pacing-word-before">{beforeORP}</span>
-              <span className={orpLetterClass}>{orpLetter}</span>
-              <span className="pacing-word-after">{afterORP}</span>
+              <span className="pacing-word-before">{renderRange(beforeORP, word.startIndex)}</span>
+              <span className={orpLetterClass}>{renderRange(orpLetter, word.startIndex + orpIndex)}</span>
+              <span className="pacing-word-after">{renderRange(afterORP, word.startIndex + orpIndex + 1)}</span>
               {space}
             </span>
           );
@@ -182,7 +190,7 @@ export default function PacingContent({
 
           return (
             <span key={idx} data-sentence-index={globalIdx} className={className} onClick={handleClick}>
-              {sentence.text}{' '}
+              {renderRange(sentence.text, text.indexOf(sentence.text, sentence.startIndex))}{' '}
             </span>
           );
         })}
@@ -190,5 +198,5 @@ export default function PacingContent({
     );
   }
 
-  return <>{text}</>;
+  return spans ? <FormattedText spans={spans} /> : <>{text}</>;
 }
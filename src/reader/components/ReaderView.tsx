@@ -2,6 +2,7 @@ import { useRef, useEffect, useMemo, useCallback, useState } from 'react';
 import { useReaderStore } from '../store';
 import PacingMode from '../modes/PacingMode';
 import RSVPMode from '../modes/RSVPMode';
+import ListenMode from '../modes/ListenMode';
 import BlockRenderer from './BlockRenderer';
 import ExitConfirmDialog from './ExitConfirmDialog';
 import AnnotationToolbar from './AnnotationToolbar';
@@ -13,9 +14,13 @@ import { useToast } from './Toast';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useSwipeGestures } from '../hooks/useSwipeGestures';
 import { useTextSelection } from '../hooks/useTextSelection';
+import { getDifficultPassages, mergeReadingDifficulty } from '@/lib/reading-difficulty';
 import type { ModeConfig, BionicConfig, PacingConfig, PositionState, BlockHandlers } from './types';
 import type { Annotation, AnnotationAnchor } from '@/types';
 
+/** How often time spent on the current passage is counted */
+const DWELL_TICK_MS = 1000;
+
 export default function ReaderView() {
   const {
     document,
@@ -27,7 +32,10 @@ export default function ReaderView() {
     nextBlock,
     prevBlock,
     togglePlay,
+    setPlaying,
     adjustWPM,
+    adaptiveSpeedTick,
+    trackDwell,
     setMode,
     updateSettings,
     currentSentenceIndex,
@@ -82,6 +90,10 @@ export default function ReaderView() {
     toggleNotesPanel,
     navigateToAnnotation,
     importAnnotationsFromData,
+    // Re-read tracking
+    sessionPassages,
+    readingDifficulty,
+    navigateToPassage,
     // Scroll-only navigation
     scrollToBlockIndex,
     clearScrollToBlock,
@@ -122,7 +134,31 @@ export default function ReaderView() {
     }
   }, []);
 
+  // Re-read tracking: count time spent on each passage while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => trackDwell(DWELL_TICK_MS), DWELL_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, trackDwell]);
+
+  // Struggled passages so far, including the session not saved yet
+  const difficultPassages = useMemo(() => {
+    if (!isNotesPanelOpen) return [];
+    const session = Object.values(sessionPassages);
+    return getDifficultPassages(
+      session.length > 0 ? mergeReadingDifficulty(readingDifficulty ?? undefined, session, Date.now()) : readingDifficulty
+    );
+  }, [isNotesPanelOpen, sessionPassages, readingDifficulty]);
+
   // Create a wrapped bookmark handler that shows toast
+  // Stable callback so PacingMode's timer isn't reset on every render
+  const pauseAtFigure = useCallback(() => setPlaying(false), [setPlaying]);
+
+  const handleSpeechError = useCallback((message: string) => {
+    setPlaying(false);
+    showToast(message, 'error');
+  }, [setPlaying, showToast]);
+
   const handleQuickBookmark = useCallback(async () => {
     const annotation = await addQuickBookmark();
     if (annotation) {
@@ -192,6 +228,12 @@ export default function ReaderView() {
 
   useSwipeGestures(containerRef, swipeHandlers);
 
+  // Footnotes by id for the reference popovers
+  const footnotes = useMemo(
+    () => new Map((document?.footnotes ?? []).map(note => [note.id, note])),
+    [document?.footnotes]
+  );
+
   // Load annotations when document loads
   useEffect(() => {
     if (document) {
@@ -236,7 +278,7 @@ export default function ReaderView() {
   // when the active word/sentence approaches the top or bottom of the screen
   useEffect(() => {
     if (!containerRef.current || !document) return;
-    if (settings.activeMode !== 'pacing') return;
+    if (settings.activeMode !== 'pacing' && settings.activeMode !== 'listen') return;
 
     // Determine which element to check based on granularity
     let activeElement: Element | null = null;
@@ -365,7 +407,7 @@ export default function ReaderView() {
   if (settings.activeMode === 'rsvp') {
     return (
       <>
-        <RSVPMode text={document.plainText} wpm={currentWPM} isPlaying={isPlaying} />
+        <RSVPMode blocks={document.blocks} wpm={currentWPM} isPlaying={isPlaying} />
         <ExitConfirmDialog
           isOpen={isExitConfirmOpen}
           onCancel={() => setExitConfirmOpen(false)}
@@ -376,10 +418,12 @@ export default function ReaderView() {
   }
 
   const isPacingMode = settings.activeMode === 'pacing';
+  const isListenMode = settings.activeMode === 'listen';
 
   // Grouped configs for BlockRenderer
   const mode: ModeConfig = {
-    isPacing: isPacingMode,
+    // Listening highlights the spoken word the way pacing does
+    isPacing: isPacingMode || isListenMode,
     isBionic: settings.activeMode === 'bionic',
   };
 
@@ -439,7 +483,30 @@ export default function ReaderView() {
             onResetSentenceIndex={resetSentenceIndex}
             onResetWordIndex={resetWordIndex}
             onAdjustWPM={adjustWPM}
+            onAdaptiveTick={adaptiveSpeedTick}
+            onComplete={showCompletion}
+            onPauseAtFigure={pauseAtFigure}
+          />
+        )}
+
+        {isListenMode && (
+          <ListenMode
+            blocks={document.blocks}
+            currentBlockIndex={currentBlockIndex}
+            wpm={currentWPM}
+            isPlaying={isPlaying}
+            settings={settings}
+            language={document.metadata.language}
+            currentSentenceIndex={currentSentenceIndex}
+            currentWordIndex={currentWordIndex}
+            onNextBlock={nextBlock}
+            onSetSentenceIndex={setSentenceIndex}
+            onSetWordIndex={setWordIndex}
+            onAdjustWPM={adjustWPM}
+            onAdaptiveTick={adaptiveSpeedTick}
             onComplete={showCompletion}
+            onPauseAtFigure={pauseAtFigure}
+            onSpeechError={handleSpeechError}
           />
         )}
 
@@ -466,6 +533,7 @@ export default function ReaderView() {
                 onAnnotationClick={handleAnnotationClick}
                 searchResults={searchResults}
                 currentSearchIndex={currentSearchIndex}
+                footnotes={footnotes}
               />
             );
           })}
@@ -513,6 +581,9 @@ export default function ReaderView() {
         onDeleteAnnotation={removeAnnotation}
         onToggleFavorite={toggleAnnotationFavorite}
         onImportAnnotations={importAnnotationsFromData}
+        difficultPassages={difficultPassages}
+        showPassageChapters={!!document?.book}
+        onNavigateToPassage={navigateToPassage}
       />
 
       {/* Edit Paste Modal - for editing pasted content */}
@@ -143,7 +143,7 @@ export default function SettingsPanel() {
           <SpeedSection settings={settings} onUpdate={updateSettings} />
         )}
         
-        {settings.activeMode === 'pacing' && (
+        {(settings.activeMode === 'pacing' || settings.activeMode === 'listen') && (
           <PacingSection settings={settings} onUpdate={updateSettings} />
         )}
         
@@ -0,0 +1,153 @@
+import { memo, useMemo } from 'react';
+import type { TableBlock } from '@/types';
+import { getTableRows } from '@/lib/block-utils';
+import { tokenizeIntoWords } from '@/lib/tokenizer';
+import type { ModeConfig, BionicConfig, PacingConfig, PositionState } from './types';
+import BionicMode from '../modes/BionicMode';
+import PacingContent from './PacingContent';
+
+interface TableRendererProps {
+  block: TableBlock;
+  isBlockActive: boolean;
+  mode: ModeConfig;
+  bionicConfig: BionicConfig;
+  pacingConfig: PacingConfig;
+  position: PositionState;
+  onWordClick: (wordIndex: number) => void;
+  onSentenceClick: (sentenceIndex: number) => void;
+}
+
+/**
+ * Renders a table block with mode-specific cell formatting.
+ *
+ * Pacing walks the table row by row: word granularity moves through cells
+ * left to right, sentence granularity treats each row as one sentence.
+ * While reading a body row, the matching header is highlighted as a reminder.
+ */
+export default memo(function TableRenderer({
+  block,
+  isBlockActive,
+  mode,
+  bionicConfig,
+  pacingConfig,
+  position,
+  onWordClick,
+  onSentenceClick,
+}: TableRendererProps) {
+  const allRows = useMemo(() => getTableRows(block), [block]);
+
+  // Word offset of each cell within the block, in reading order
+  const cellOffsets = useMemo(() => {
+    let offset = 0;
+    return allRows.map(row => row.map(cell => {
+      const start = offset;
+      offset += tokenizeIntoWords(cell).length;
+      return start;
+    }));
+  }, [allRows]);
+
+  const isWordPacing = mode.isPacing && pacingConfig.granularity === 'word';
+  const isSentencePacing = mode.isPacing && pacingConfig.granularity === 'sentence';
+
+  // Row and column (-1 for the whole row) the reader is currently on
+  const activeCell = useMemo((): { row: number; column: number } | null => {
+    if (!isBlockActive) return null;
+    if (isSentencePacing) return { row: position.sentenceIndex, column: -1 };
+    if (!isWordPacing) return null;
+
+    let found: { row: number; column: number } | null = null;
+    for (let r = 0; r < allRows.length; r++) {
+      for (let c = 0; c < allRows[r].length; c++) {
+        if (cellOffsets[r][c] > position.wordIndex) return found;
+        if (allRows[r][c]) found = { row: r, column: c };
+      }
+    }
+    return found;
+  }, [isBlockActive, isSentencePacing, isWordPacing, position.sentenceIndex, position.wordIndex, cellOffsets, allRows]);
+
+  const headerCount = block.headerRows.length;
+
+  const renderCell = (text: string, rowIndex: number, columnIndex: number) => {
+    if (mode.isBionic) {
+      return (
+        <BionicMode
+          text={text}
+          intensity={bionicConfig.intensity}
+          proportion={bionicConfig.proportion}
+          adaptive={bionicConfig.adaptive}
+        />
+      );
+    }
+
+    if (isWordPacing) {
+      return (
+        <PacingContent
+          text={text}
+          granularity="word"
+          // Pass -1 as currentIndex for non-active blocks so no word is highlighted
+          currentIndex={isBlockActive ? position.wordIndex : -1}
+          indexOffset={cellOffsets[rowIndex][columnIndex]}
+          pacingSettings={pacingConfig}
+          onItemClick={onWordClick}
+        />
+      );
+    }
+
+    return text;
+  };
+
+  const getRowClassName = (rowIndex: number) => {
+    if (!isSentencePacing) return undefined;
+    let className = 'cursor-pointer';
+    if (activeCell?.row === rowIndex) {
+      className += ` table-row-active pacing-style-${pacingConfig.highlightStyle}`;
+    } else if (pacingConfig.pacingDimContext && isBlockActive) {
+      className += rowIndex < position.sentenceIndex ? ' pacing-sentence-past' : ' pacing-sentence-future';
+    }
+    return className;
+  };
+
+  const handleRowClick = (rowIndex: number) => (e: React.MouseEvent) => {
+    if (!isSentencePacing) return;
+    e.stopPropagation();
+    onSentenceClick(rowIndex);
+  };
+
+  // Header reminder: while in a body row, mark the last header row's matching cell(s)
+  const isReminderCell = (rowIndex: number, columnIndex: number) =>
+    activeCell !== null &&
+    activeCell.row >= headerCount &&
+    rowIndex === headerCount - 1 &&
+    (activeCell.column === -1 || activeCell.column === columnIndex);
+
+  return (
+    <>
+      {block.caption && <caption>{block.caption}</caption>}
+      {headerCount > 0 && (
+        <thead>
+          {block.headerRows.map((row, r) => (
+            <tr key={r} className={getRowClassName(r)} onClick={handleRowClick(r)}>
+              {row.map((cell, c) => (
+                <th key={c} className={isReminderCell(r, c) ? 'table-header-reminder' : undefined}>
+                  {renderCell(cell, r, c)}
+                </th>
+              ))}
+            </tr>
+          ))}
+        </thead>
+      )}
+      <tbody>
+        {block.rows.map((row, i) => {
+          const r = headerCount + i;
+          return (
+            <tr key={r} className={getRowClassName(r)} onClick={handleRowClick(r)}>
+              {row.map((cell, c) => (
+                <td key={c}>{renderCell(cell, r, c)}</td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </>
+  );
+});
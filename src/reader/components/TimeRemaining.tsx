@@ -1,11 +1,12 @@
 import { useMemo } from 'react';
 import { getWordCount } from '@/lib/tokenizer';
-import type { BookStructure } from '@/types';
+import { getBlockText } from '@/lib/block-utils';
+import type { Block, BookStructure } from '@/types';
 
 interface TimeRemainingProps {
   totalText: string;
   currentBlockIndex: number;
-  blocks: { content?: string; items?: string[] }[];
+  blocks: Block[];
   wpm: number;
   className?: string;
   /** Optional book structure for multi-chapter documents */
@@ -71,8 +72,7 @@ export default function TimeRemaining({
     
     let wordsRead = 0;
     for (let i = 0; i < currentBlockIndex && i < blocks.length; i++) {
-      const block = blocks[i];
-      const text = block.content || block.items?.join(' ') || '';
+      const text = getBlockText(blocks[i]);
       wordsRead += getWordCount(text);
     }
     
@@ -1,5 +1,6 @@
 import type { ReaderSettings } from '@/types';
-import { CheckboxField } from '@/components/ui';
+import { ButtonGroup, CheckboxField } from '@/components/ui';
+import { FIGURE_BEHAVIOR_OPTIONS } from '@/constants/ui-options';
 
 interface DisplaySectionProps {
   settings: ReaderSettings;
@@ -17,6 +18,26 @@ export function DisplaySection({ settings, onUpdate }: DisplaySectionProps) {
           checked={settings.showTimeRemaining}
           onChange={(checked) => onUpdate({ showTimeRemaining: checked })}
         />
+        <div>
+          <label className="block text-sm mb-2 opacity-70">Figures while playing</label>
+          <ButtonGroup
+            options={FIGURE_BEHAVIOR_OPTIONS}
+            value={settings.figureBehavior}
+            onChange={(value) => onUpdate({ figureBehavior: value })}
+          />
+        </div>
+        <CheckboxField
+          id="readFootnotesInFlow"
+          label="Read footnotes in the text flow"
+          checked={settings.readFootnotesInFlow}
+          onChange={(checked) => onUpdate({ readFootnotesInFlow: checked })}
+        />
+        <CheckboxField
+          id="comprehensionChecks"
+          label="Comprehension check after each chapter"
+          checked={settings.comprehensionChecks}
+          onChange={(checked) => onUpdate({ comprehensionChecks: checked })}
+        />
       </div>
     </div>
   );
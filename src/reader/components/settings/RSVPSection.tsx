@@ -27,9 +27,18 @@ export function RSVPSection({ settings, onUpdate }: RSVPSectionProps) {
           checked={settings.rsvpPauseOnPunctuation}
           onChange={(checked) => onUpdate({ rsvpPauseOnPunctuation: checked })}
         />
+        <SliderField
+          label="Heading pause"
+          value={settings.pacingHeadingPause}
+          min={1.0}
+          max={5.0}
+          step={0.5}
+          unit="x"
+          onChange={(value) => onUpdate({ pacingHeadingPause: value })}
+        />
         <p className="text-xs opacity-50 mt-2">
           RSVP (Rapid Serial Visual Presentation) flashes words at your reading speed.
-          Higher chunk sizes show more words at once.
+          Higher chunk sizes show more words at once. Headings are shown whole as title cards.
         </p>
       </div>
     </div>
@@ -22,6 +22,39 @@ export function SpeedSection({ settings, onUpdate }: SpeedSectionProps) {
     }
   };
 
+  // Adaptive speed's upper bound stays above its lower bound
+  const handleAdaptiveMinChange = (value: number) => {
+    if (settings.adaptiveMaxWPM < value + 10) {
+      onUpdate({ adaptiveMinWPM: value, adaptiveMaxWPM: value + 10 });
+    } else {
+      onUpdate({ adaptiveMinWPM: value });
+    }
+  };
+
+  // The ramp and adaptive speed both push the speed up, so only one runs at a time
+  const stepFields = (
+    <>
+      <SliderField
+        label="Increase by"
+        value={settings.rampStep}
+        min={RAMP_STEP.min}
+        max={RAMP_STEP.max}
+        step={RAMP_STEP.step}
+        unit=" WPM"
+        onChange={(value) => onUpdate({ rampStep: value })}
+      />
+      <SliderField
+        label="Every"
+        value={settings.rampInterval}
+        min={RAMP_INTERVAL.min}
+        max={RAMP_INTERVAL.max}
+        step={RAMP_INTERVAL.step}
+        unit=" seconds"
+        onChange={(value) => onUpdate({ rampInterval: value })}
+      />
+    </>
+  );
+
   return (
     <div className="settings-group">
       <h3>Speed</h3>
@@ -39,7 +72,7 @@ export function SpeedSection({ settings, onUpdate }: SpeedSectionProps) {
           id="rampEnabled"
           label="Enable speed ramp-up"
           checked={settings.rampEnabled}
-          onChange={(checked) => onUpdate({ rampEnabled: checked })}
+          onChange={(checked) => onUpdate({ rampEnabled: checked, ...(checked && { adaptiveWPM: false }) })}
         />
         {settings.rampEnabled && (
           <>
@@ -52,24 +85,40 @@ export function SpeedSection({ settings, onUpdate }: SpeedSectionProps) {
               unit=" WPM"
               onChange={(value) => onUpdate({ targetWPM: value })}
             />
+            {stepFields}
+          </>
+        )}
+        <CheckboxField
+          id="adaptiveWPM"
+          label="Adapt speed to rewinds and pauses"
+          checked={settings.adaptiveWPM}
+          onChange={(checked) => onUpdate({ adaptiveWPM: checked, ...(checked && { rampEnabled: false }) })}
+        />
+        {settings.adaptiveWPM && (
+          <>
+            <p className="text-xs opacity-50">
+              Slows down after repeated rewinds and speeds up while you read without
+              interruptions. Each document keeps the speed it settled on.
+            </p>
             <SliderField
-              label="Increase by"
-              value={settings.rampStep}
-              min={RAMP_STEP.min}
-              max={RAMP_STEP.max}
-              step={RAMP_STEP.step}
+              label="Lowest Speed"
+              value={settings.adaptiveMinWPM}
+              min={WPM.min}
+              max={WPM.max}
+              step={WPM.step}
               unit=" WPM"
-              onChange={(value) => onUpdate({ rampStep: value })}
+              onChange={handleAdaptiveMinChange}
             />
             <SliderField
-              label="Every"
-              value={settings.rampInterval}
-              min={RAMP_INTERVAL.min}
-              max={RAMP_INTERVAL.max}
-              step={RAMP_INTERVAL.step}
-              unit=" seconds"
-              onChange={(value) => onUpdate({ rampInterval: value })}
+              label="Highest Speed"
+              value={Math.max(settings.adaptiveMaxWPM, settings.adaptiveMinWPM + 10)}
+              min={settings.adaptiveMinWPM + 10}
+              max={TARGET_WPM.max}
+              step={TARGET_WPM.step}
+              unit=" WPM"
+              onChange={(value) => onUpdate({ adaptiveMaxWPM: value })}
             />
+            {stepFields}
           </>
         )}
       </div>
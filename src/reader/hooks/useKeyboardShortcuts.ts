@@ -54,7 +54,10 @@ interface KeyboardShortcutsOptions {
   };
 }
 
-const MODES: ReadingMode[] = ['pacing', 'bionic', 'rsvp'];
+const MODES: ReadingMode[] = ['pacing', 'bionic', 'rsvp', 'listen'];
+
+/** Modes that move through the text word by word or sentence by sentence */
+const isPacedMode = (mode: ReadingMode) => mode === 'pacing' || mode === 'listen';
 const GRANULARITIES: PacingGranularity[] = ['block', 'sentence', 'word'];
 
 type ActionHandler = (e: KeyboardEvent, options: KeyboardShortcutsOptions) => void;
@@ -62,7 +65,7 @@ type ActionHandler = (e: KeyboardEvent, options: KeyboardShortcutsOptions) => vo
 function getNextNavigation(options: KeyboardShortcutsOptions): () => void {
   const { settings, nextWord, nextSentence, nextBlock, rsvpAdvance } = options;
   if (settings.activeMode === 'rsvp') return rsvpAdvance || nextBlock;
-  if (settings.activeMode !== 'pacing') return nextBlock;
+  if (!isPacedMode(settings.activeMode)) return nextBlock;
   if (settings.pacingGranularity === 'word') return nextWord;
   if (settings.pacingGranularity === 'sentence') return nextSentence;
   return nextBlock;
@@ -71,7 +74,7 @@ function getNextNavigation(options: KeyboardShortcutsOptions): () => void {
 function getPrevNavigation(options: KeyboardShortcutsOptions): () => void {
   const { settings, prevWord, prevSentence, prevBlock, rsvpRetreat } = options;
   if (settings.activeMode === 'rsvp') return rsvpRetreat || prevBlock;
-  if (settings.activeMode !== 'pacing') return prevBlock;
+  if (!isPacedMode(settings.activeMode)) return prevBlock;
   if (settings.pacingGranularity === 'word') return prevWord;
   if (settings.pacingGranularity === 'sentence') return prevSentence;
   return prevBlock;
@@ -100,13 +103,13 @@ const ACTIONS: Record<string, ActionHandler> = {
     setMode(settings.activeMode === 'bionic' ? 'pacing' : 'bionic');
   },
   'g': (_, { settings, updateSettings }) => {
-    if (settings.activeMode === 'pacing') {
+    if (isPacedMode(settings.activeMode)) {
       const idx = GRANULARITIES.indexOf(settings.pacingGranularity);
       updateSettings({ pacingGranularity: GRANULARITIES[(idx + 1) % GRANULARITIES.length] });
     }
   },
   'G': (_, { settings, updateSettings }) => {
-    if (settings.activeMode === 'pacing') {
+    if (isPacedMode(settings.activeMode)) {
       const idx = GRANULARITIES.indexOf(settings.pacingGranularity);
       updateSettings({ pacingGranularity: GRANULARITIES[(idx + 1) % GRANULARITIES.length] });
     }
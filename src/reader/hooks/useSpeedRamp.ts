@@ -15,13 +15,22 @@ export interface UseSpeedRampOptions {
   rampInterval: number;
   /** Callback to adjust the WPM by a delta */
   onAdjustWPM: (delta: number) => void;
+  /** Whether adaptive speed replaces the linear ramp */
+  adaptive: boolean;
+  /** Callback reporting reading time to the adaptive speed controller */
+  onAdaptiveTick: (elapsedMs: number) => void;
 }
 
+/** How often reading time is reported to adaptive speed */
+const ADAPTIVE_TICK_MS = 1000;
+
 /**
  * Hook for managing speed ramp-up during reading.
  * Gradually increases WPM from current speed to target speed while playing.
+ * With adaptive speed on, it reports reading time to the controller instead,
+ * which decides when to speed up.
  * 
- * Used by both PacingMode and RSVPMode.
+ * Used by PacingMode, RSVPMode and ListenMode.
  */
 export function useSpeedRamp({
   isPlaying,
@@ -31,9 +40,21 @@ export function useSpeedRamp({
   rampStep,
   rampInterval,
   onAdjustWPM,
+  adaptive,
+  onAdaptiveTick,
 }: UseSpeedRampOptions): void {
   const rampTimerRef = useRef<number | null>(null);
 
+  // Adaptive speed: report reading time while playing
+  useEffect(() => {
+    if (!isPlaying || !adaptive) {
+      return;
+    }
+
+    const timer = window.setInterval(() => onAdaptiveTick(ADAPTIVE_TICK_MS), ADAPTIVE_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, adaptive, onAdaptiveTick]);
+
   useEffect(() => {
     // Clear any existing ramp timer
     if (rampTimerRef.current) {
@@ -41,8 +62,8 @@ export function useSpeedRamp({
       rampTimerRef.current = null;
     }
 
-    // Only start ramp timer if playing and ramp is enabled
-    if (!isPlaying || !rampEnabled || wpm >= targetWPM) {
+    // Only start ramp timer if playing and ramp is enabled (and not replaced by adaptive speed)
+    if (!isPlaying || !rampEnabled || adaptive || wpm >= targetWPM) {
       return;
     }
 
@@ -69,5 +90,5 @@ export function useSpeedRamp({
         rampTimerRef.current = null;
       }
     };
-  }, [isPlaying, rampEnabled, rampStep, rampInterval, targetWPM, wpm, onAdjustWPM]);
+  }, [isPlaying, rampEnabled, adaptive, rampStep, rampInterval, targetWPM, wpm, onAdjustWPM]);
 }
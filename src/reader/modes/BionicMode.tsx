@@ -1,13 +1,17 @@
 import { bionicText, adaptiveBionicText, bionicTextShadow } from '@/lib/bionic';
+import type { InlineSpan } from '@/types';
+import FormattedText from '../components/FormattedText';
 
 interface BionicModeProps {
   text: string;
+  /** Inline formatting of the text, if any */
+  spans?: InlineSpan[];
   intensity: number;
   proportion: number;
   adaptive?: boolean;
 }
 
-export default function BionicMode({ text, intensity, proportion, adaptive = false }: BionicModeProps) {
+export default function BionicMode({ text, spans, intensity, proportion, adaptive = false }: BionicModeProps) {
   const words = adaptive 
     ? adaptiveBionicText(text, proportion) 
     : bionicText(text, proportion);
@@ -15,16 +19,24 @@ export default function BionicMode({ text, intensity, proportion, adaptive = fal
   // This prevents layout shifts when toggling bionic mode
   const textShadow = bionicTextShadow(intensity);
 
+  // Words cover the text in order, so their offsets index into the spans
+  let offset = 0;
+  const renderRange = (plain: string) => {
+    const start = offset;
+    offset += plain.length;
+    return spans ? <FormattedText spans={spans} start={start} end={offset} /> : plain;
+  };
+
   return (
     <>
       {words.map((word, index) => (
         <span key={index}>
           {word.bold && (
             <span className="bionic-bold" style={{ textShadow }}>
-              {word.bold}
+              {renderRange(word.bold)}
             </span>
           )}
-          {word.regular}
+          {renderRange(word.regular)}
         </span>
       ))}
     </>
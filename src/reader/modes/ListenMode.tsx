@@ -0,0 +1,268 @@
+import { useEffect, useRef, useMemo, useState } from 'react';
+import type { Block, ReaderSettings } from '@/types';
+import { getBlockText, getTableRows } from '@/lib/block-utils';
+import { tokenizeIntoSentences, tokenizeIntoWords, tokenizeTableRows } from '@/lib/tokenizer';
+import {
+  isSpeechSupported,
+  wpmToSpeechRate,
+  pickVoice,
+  findTokenAtChar,
+  getHeadingPauseMs,
+} from '@/lib/speech';
+import { useSpeedRamp } from '../hooks/useSpeedRamp';
+
+interface ListenModeProps {
+  blocks: Block[];
+  currentBlockIndex: number;
+  wpm: number;
+  isPlaying: boolean;
+  settings: ReaderSettings;
+  /** Document language, to pick a voice */
+  language?: string;
+  currentSentenceIndex: number;
+  currentWordIndex: number;
+  onNextBlock: () => void;
+  onSetSentenceIndex: (index: number) => void;
+  onSetWordIndex: (index: number) => void;
+  // Speed ramp-up
+  onAdjustWPM: (delta: number) => void;
+  // Adaptive speed: reading time without interruptions
+  onAdaptiveTick: (elapsedMs: number) => void;
+  onComplete?: () => void;
+  // Called when playback reaches a figure and figureBehavior is 'pause'
+  onPauseAtFigure?: () => void;
+  /** Called when speech isn't available or fails */
+  onSpeechError?: (message: string) => void;
+}
+
+/** Where speech is, as last reported to the store */
+interface SpokenPosition {
+  blockIndex: number;
+  sentenceIndex: number;
+  wordIndex: number;
+  rate: number;
+  voiceURI: string | undefined;
+}
+
+/** Voices load asynchronously in most browsers */
+function useSpeechVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSpeechSupported() ? window.speechSynthesis.getVoices() : []
+  );
+
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return voices;
+}
+
+/**
+ * Reads the document aloud. Word boundaries reported by the voice move the
+ * word and sentence position, so the pacing highlight follows the speech.
+ */
+export default function ListenMode({
+  blocks,
+  currentBlockIndex,
+  wpm,
+  isPlaying,
+  settings,
+  language,
+  currentSentenceIndex,
+  currentWordIndex,
+  onNextBlock,
+  onSetSentenceIndex,
+  onSetWordIndex,
+  onAdjustWPM,
+  onAdaptiveTick,
+  onComplete,
+  onPauseAtFigure,
+  onSpeechError,
+}: ListenModeProps) {
+  const spokenRef = useRef<SpokenPosition | null>(null);
+  const pauseTimerRef = useRef<number | null>(null);
+  // Block index of the figure we last paused on, so resuming moves past it
+  const pausedFigureRef = useRef<number | null>(null);
+  const { figureBehavior, pacingGranularity, pacingHeadingPause } = settings;
+
+  // Speed ramp-up effect (shared hook); a new speed resumes speech from the current word
+  useSpeedRamp({
+    isPlaying,
+    wpm,
+    targetWPM: settings.targetWPM,
+    rampEnabled: settings.rampEnabled,
+    rampStep: settings.rampStep,
+    rampInterval: settings.rampInterval,
+    onAdjustWPM,
+    adaptive: settings.adaptiveWPM,
+    onAdaptiveTick,
+  });
+
+  const voices = useSpeechVoices();
+  const voice = useMemo(() => pickVoice(voices, language), [voices, language]);
+  const rate = wpmToSpeechRate(wpm);
+
+  const currentBlock = blocks[currentBlockIndex];
+  const blockText = currentBlock ? getBlockText(currentBlock) : '';
+  const isFigureBlock = currentBlock?.type === 'figure';
+  const isLastBlock = currentBlockIndex >= blocks.length - 1;
+
+  const words = useMemo(() => tokenizeIntoWords(blockText), [blockText]);
+  // Tables are read row by row: each row counts as one sentence
+  const sentences = useMemo(() => {
+    if (currentBlock?.type === 'table') return tokenizeTableRows(getTableRows(currentBlock));
+    return tokenizeIntoSentences(blockText);
+  }, [blockText, currentBlock]);
+
+  // Stop speaking when the mode goes away
+  useEffect(() => () => {
+    spokenRef.current = null;
+    if (pauseTimerRef.current) clearTimeout(pauseTimerRef.current);
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+  }, []);
+
+  useEffect(() => {
+    const stop = () => {
+      spokenRef.current = null;
+      if (pauseTimerRef.current) {
+        clearTimeout(pauseTimerRef.current);
+        pauseTimerRef.current = null;
+      }
+      if (isSpeechSupported()) window.speechSynthesis.cancel();
+    };
+
+    // Leaving a figure re-arms the pause for the next one
+    if (!isFigureBlock) {
+      pausedFigureRef.current = null;
+    }
+
+    if (!isPlaying || !currentBlock) {
+      stop();
+      return;
+    }
+
+    if (!isSpeechSupported()) {
+      onSpeechError?.('Reading aloud is not supported in this browser');
+      return;
+    }
+
+    // Our own boundary updates move the position without restarting the speech
+    const spoken = spokenRef.current;
+    if (
+      spoken &&
+      spoken.blockIndex === currentBlockIndex &&
+      spoken.sentenceIndex === currentSentenceIndex &&
+      spoken.wordIndex === currentWordIndex &&
+      spoken.rate === rate &&
+      spoken.voiceURI === voice?.voiceURI
+    ) {
+      return;
+    }
+
+    stop();
+
+    const finishBlock = () => {
+      if (isLastBlock) {
+        spokenRef.current = null;
+        onComplete?.();
+      } else {
+        onNextBlock();
+      }
+    };
+
+    if (isFigureBlock) {
+      // Stop on a figure once; resuming playback continues past it
+      if (figureBehavior === 'pause' && pausedFigureRef.current !== currentBlockIndex) {
+        pausedFigureRef.current = currentBlockIndex;
+        onPauseAtFigure?.();
+      } else {
+        finishBlock();
+      }
+      return;
+    }
+
+    // Start from the position the reader is at; a moved sentence wins in sentence granularity
+    const movedSentence = pacingGranularity === 'sentence' && spoken?.sentenceIndex !== currentSentenceIndex;
+    const startChar = movedSentence
+      ? sentences[currentSentenceIndex]?.startIndex ?? 0
+      : words[currentWordIndex]?.startIndex ?? 0;
+
+    const position: SpokenPosition = {
+      blockIndex: currentBlockIndex,
+      sentenceIndex: currentSentenceIndex,
+      wordIndex: currentWordIndex,
+      rate,
+      voiceURI: voice?.voiceURI,
+    };
+    spokenRef.current = position;
+
+    const utterance = new SpeechSynthesisUtterance(blockText.slice(startChar));
+    utterance.rate = rate;
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else if (language) {
+      utterance.lang = language;
+    }
+
+    utterance.onboundary = (event) => {
+      if (spokenRef.current !== position || event.name !== 'word') return;
+      const charIndex = startChar + event.charIndex;
+      const wordIndex = Math.max(0, findTokenAtChar(words, charIndex));
+      const sentenceIndex = Math.max(0, findTokenAtChar(sentences, charIndex));
+      position.wordIndex = wordIndex;
+      position.sentenceIndex = sentenceIndex;
+      onSetWordIndex(wordIndex);
+      onSetSentenceIndex(sentenceIndex);
+    };
+
+    utterance.onend = () => {
+      if (spokenRef.current !== position) return;
+      const pauseMs = getHeadingPauseMs(currentBlock, blockText, wpm, pacingHeadingPause);
+      if (pauseMs > 0) {
+        pauseTimerRef.current = window.setTimeout(finishBlock, pauseMs);
+      } else {
+        finishBlock();
+      }
+    };
+
+    utterance.onerror = (event) => {
+      // Cancelling to restart or pause reports an interruption, which isn't a failure
+      if (spokenRef.current !== position || event.error === 'interrupted' || event.error === 'canceled') return;
+      spokenRef.current = null;
+      onSpeechError?.(`Reading aloud failed: ${event.error}`);
+    };
+
+    window.speechSynthesis.speak(utterance);
+  }, [
+    isPlaying,
+    currentBlock,
+    currentBlockIndex,
+    currentSentenceIndex,
+    currentWordIndex,
+    blockText,
+    words,
+    sentences,
+    isFigureBlock,
+    isLastBlock,
+    figureBehavior,
+    pacingGranularity,
+    pacingHeadingPause,
+    rate,
+    wpm,
+    voice,
+    language,
+    onNextBlock,
+    onSetSentenceIndex,
+    onSetWordIndex,
+    onComplete,
+    onPauseAtFigure,
+    onSpeechError,
+  ]);
+
+  // Don't render anything - the BlockRenderer highlights the spoken word
+  return null;
+}
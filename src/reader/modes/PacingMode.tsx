@@ -1,8 +1,9 @@
 import { useEffect, useRef, useCallback, useMemo } from 'react';
 import type { Block, ReaderSettings } from '@/types';
-import { getBlockText } from '@/lib/block-utils';
+import { getBlockText, getTableRows } from '@/lib/block-utils';
 import { 
   tokenizeIntoSentences, 
+  tokenizeTableRows,
   tokenizeIntoWords,
   calculateSentenceDuration,
   calculateWordDuration,
@@ -30,8 +31,12 @@ interface PacingModeProps {
   onResetWordIndex: () => void;
   // Speed ramp-up
   onAdjustWPM: (delta: number) => void;
+  // Adaptive speed: reading time without interruptions
+  onAdaptiveTick: (elapsedMs: number) => void;
   // Completion callback
   onComplete?: () => void;
+  // Called when playback reaches a figure and figureBehavior is 'pause'
+  onPauseAtFigure?: () => void;
 }
 
 function getBlockWordCount(block: Block): number {
@@ -52,11 +57,16 @@ export default function PacingMode({
   onResetSentenceIndex,
   onResetWordIndex,
   onAdjustWPM,
+  onAdaptiveTick,
   onComplete,
+  onPauseAtFigure,
 }: PacingModeProps) {
   const timerRef = useRef<number | null>(null);
+  // Block index of the figure we last paused on, so resuming moves past it
+  const pausedFigureRef = useRef<number | null>(null);
+  const { figureBehavior } = settings;
   const { pacingGranularity, pacingPauseOnPunctuation, pacingAdaptiveSpeed, pacingReadabilitySpeed, pacingHeadingPause } = settings;
-  const { rampEnabled, rampStep, rampInterval, targetWPM } = settings;
+  const { rampEnabled, rampStep, rampInterval, targetWPM, adaptiveWPM } = settings;
 
   // Speed ramp-up effect (shared hook)
   useSpeedRamp({
@@ -67,6 +77,8 @@ export default function PacingMode({
     rampStep,
     rampInterval,
     onAdjustWPM,
+    adaptive: adaptiveWPM,
+    onAdaptiveTick,
   });
 
   // Get current block
@@ -83,10 +95,12 @@ export default function PacingMode({
   }, [wpm, blockText, pacingReadabilitySpeed]);
 
   // Tokenize based on granularity
+  // Tables are paced row by row: each row counts as one sentence
   const sentences = useMemo(() => {
     if (pacingGranularity !== 'sentence') return [];
+    if (currentBlock?.type === 'table') return tokenizeTableRows(getTableRows(currentBlock));
     return tokenizeIntoSentences(blockText);
-  }, [blockText, pacingGranularity]);
+  }, [blockText, currentBlock, pacingGranularity]);
 
   const words = useMemo(() => {
     if (pacingGranularity !== 'word') return [];
@@ -100,6 +114,9 @@ export default function PacingMode({
   // Check if current block is a heading
   const isHeadingBlock = currentBlock?.type === 'heading';
 
+  // Figures have no words to pace through
+  const isFigureBlock = currentBlock?.type === 'figure';
+
   // Check if we're at the end of the document
   const isLastBlock = currentBlockIndex >= blocks.length - 1;
   const isAtEndOfBlock = useMemo(() => {
@@ -156,6 +173,11 @@ export default function PacingMode({
 
   // Calculate duration for current unit
   const getDuration = useCallback((): number => {
+    // Move straight past figures (skipped, or already paused on)
+    if (isFigureBlock) {
+      return 0;
+    }
+
     let duration: number;
     let isLastTokenInBlock = false;
     
@@ -190,7 +212,7 @@ export default function PacingMode({
     }
     
     return duration;
-  }, [pacingGranularity, currentWord, currentSentence, currentBlock, effectiveWPM, pacingPauseOnPunctuation, pacingAdaptiveSpeed, currentWordIndex, words.length, currentSentenceIndex, sentences.length, isHeadingBlock, pacingHeadingPause]);
+  }, [pacingGranularity, currentWord, currentSentence, currentBlock, effectiveWPM, pacingPauseOnPunctuation, pacingAdaptiveSpeed, currentWordIndex, words.length, currentSentenceIndex, sentences.length, isHeadingBlock, isFigureBlock, pacingHeadingPause]);
 
   // Auto-advance timer
   useEffect(() => {
@@ -200,11 +222,23 @@ export default function PacingMode({
       timerRef.current = null;
     }
 
+    // Leaving a figure re-arms the pause for the next one
+    if (!isFigureBlock) {
+      pausedFigureRef.current = null;
+    }
+
     // Don't start timer if not playing or no blocks
     if (!isPlaying || blocks.length === 0 || !currentBlock) {
       return;
     }
 
+    // Stop on a figure once; resuming playback continues past it
+    if (isFigureBlock && figureBehavior === 'pause' && pausedFigureRef.current !== currentBlockIndex) {
+      pausedFigureRef.current = currentBlockIndex;
+      onPauseAtFigure?.();
+      return;
+    }
+
     // Check if we're at the end of the document
     if (isLastBlock && isAtEndOfBlock) {
       // Trigger completion callback when reading ends
@@ -227,6 +261,9 @@ export default function PacingMode({
     isPlaying,
     blocks.length,
     currentBlock,
+    isFigureBlock,
+    figureBehavior,
+    onPauseAtFigure,
     isLastBlock,
     isAtEndOfBlock,
     getDuration,
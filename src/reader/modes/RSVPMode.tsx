@@ -1,32 +1,60 @@
-import { useEffect, useRef } from 'react';
-import { tokenizeForRSVP, calculateTokenDuration, findORP, getWordCount } from '@/lib/tokenizer';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Block } from '@/types';
+import { tokenizeBlocksForRSVP, calculateTokenDuration, findORP } from '@/lib/tokenizer';
+import { getFigureWordOffsets, getTableHeaderAtWord, getTotalWordCount } from '@/lib/position-utils';
 import { useReaderStore } from '../store';
 import { useSpeedRamp } from '../hooks/useSpeedRamp';
 
 interface RSVPModeProps {
-  text: string;
+  /** Blocks of the document, or of the current chapter for books */
+  blocks: Block[];
   wpm: number;
   isPlaying: boolean;
-  // Note: Heading pause (pacingHeadingPause) is not applied in RSVP mode
-  // because RSVP uses flattened plainText without block structure.
-  // This could be added in future by passing blocks instead of text.
 }
 
-export default function RSVPMode({ text, wpm, isPlaying }: RSVPModeProps) {
+export default function RSVPMode({ blocks, wpm, isPlaying }: RSVPModeProps) {
   const { 
     settings, 
     adjustWPM, 
+    adaptiveSpeedTick,
     currentRsvpIndex, 
     setRsvpIndex,
     setRsvpTokenCount,
+    setPlaying,
     rsvpAdvance,
   } = useReaderStore();
   const timerRef = useRef<number | null>(null);
+  // Figure we last stopped on, so resuming plays past it
+  const [pausedFigureId, setPausedFigureId] = useState<string | null>(null);
 
-  const tokens = tokenizeForRSVP(text, settings.rsvpChunkSize);
-  const totalWords = getWordCount(text);
+  const tokens = useMemo(
+    () => tokenizeBlocksForRSVP(blocks, settings.rsvpChunkSize),
+    [blocks, settings.rsvpChunkSize]
+  );
+  const totalWords = useMemo(() => getTotalWordCount(blocks), [blocks]);
   const currentToken = tokens[currentRsvpIndex];
 
+  // Figure that sits just before the current token
+  const figureOffsets = useMemo(() => getFigureWordOffsets(blocks), [blocks]);
+  const tokenStartWord = currentToken?.wordOffset ?? 0;
+  const dueFigure = currentToken && figureOffsets.find(
+    ({ wordCount }) => wordCount >= tokenStartWord && wordCount < tokenStartWord + currentToken.wordCount
+  )?.figure;
+  // Column header reminder while reading a table row
+  const tableHeader = useMemo(
+    () => getTableHeaderAtWord(blocks, tokenStartWord),
+    [blocks, tokenStartWord]
+  );
+  const stopForFigure = settings.figureBehavior === 'pause' && !!dueFigure && pausedFigureId !== dueFigure.id;
+  const showFigure = !isPlaying && !!dueFigure && pausedFigureId === dueFigure.id;
+
+  // Re-arm the figure pause once playback has moved past it
+  useEffect(() => {
+    if (!dueFigure) {
+      setPausedFigureId(null);
+    }
+  }, [dueFigure]);
+
   // Update token count in store when tokens change
   useEffect(() => {
     setRsvpTokenCount(tokens.length);
@@ -41,6 +69,8 @@ export default function RSVPMode({ text, wpm, isPlaying }: RSVPModeProps) {
     rampStep: settings.rampStep,
     rampInterval: settings.rampInterval,
     onAdjustWPM: adjustWPM,
+    adaptive: settings.adaptiveWPM,
+    onAdaptiveTick: adaptiveSpeedTick,
   });
 
   // Timer for auto-advance
@@ -52,11 +82,21 @@ export default function RSVPMode({ text, wpm, isPlaying }: RSVPModeProps) {
       return;
     }
 
-    const duration = calculateTokenDuration(
+    if (stopForFigure && dueFigure) {
+      setPausedFigureId(dueFigure.id);
+      setPlaying(false);
+      return;
+    }
+
+    let duration = calculateTokenDuration(
       currentToken,
       wpm,
       settings.rsvpPauseOnPunctuation
     );
+    // Title cards stay up for the heading pause pacing gives headings
+    if (currentToken.isTitleCard && settings.pacingHeadingPause > 1.0) {
+      duration *= settings.pacingHeadingPause;
+    }
 
     timerRef.current = window.setTimeout(rsvpAdvance, duration);
 
@@ -65,7 +105,7 @@ export default function RSVPMode({ text, wpm, isPlaying }: RSVPModeProps) {
         clearTimeout(timerRef.current);
       }
     };
-  }, [isPlaying, currentRsvpIndex, currentToken, wpm, settings.rsvpPauseOnPunctuation, rsvpAdvance]);
+  }, [isPlaying, currentRsvpIndex, currentToken, wpm, settings.rsvpPauseOnPunctuation, settings.pacingHeadingPause, rsvpAdvance, stopForFigure, dueFigure, setPlaying]);
 
   if (!currentToken) {
     return (
@@ -92,7 +132,7 @@ export default function RSVPMode({ text, wpm, isPlaying }: RSVPModeProps) {
   };
 
   const progress = ((currentRsvpIndex + 1) / tokens.length) * 100;
-  const wordsRead = Math.round((currentRsvpIndex / tokens.length) * totalWords);
+  const wordsRead = currentToken.wordOffset;
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center pt-16 pb-8 px-4">
@@ -104,10 +144,33 @@ export default function RSVPMode({ text, wpm, isPlaying }: RSVPModeProps) {
             <div className="absolute left-1/2 -translate-x-1/2 -top-4 w-0.5 h-3 bg-current opacity-30" />
             <div className="absolute left-1/2 -translate-x-1/2 -bottom-4 w-0.5 h-3 bg-current opacity-30" />
 
-            {/* Word display */}
-            <div className="rsvp-word font-reader min-w-[200px]">
-              {renderWord(currentToken.text)}
-            </div>
+            {showFigure && dueFigure ? (
+              <figure className="rsvp-figure">
+                {dueFigure.src && <img src={dueFigure.src} alt={dueFigure.alt} />}
+                <figcaption className="text-sm opacity-70 mt-2">
+                  {dueFigure.caption || dueFigure.alt || 'Figure'}
+                </figcaption>
+              </figure>
+            ) : (
+              <>
+                {tableHeader && (
+                  <div className="absolute left-1/2 -translate-x-1/2 -top-10 text-sm opacity-60 whitespace-nowrap">
+                    {tableHeader}
+                  </div>
+                )}
+                {currentToken.isTitleCard ? (
+                  // Headings are shown whole, so the reader sees where a section starts
+                  <div className="rsvp-title-card font-reader">
+                    {currentToken.text}
+                  </div>
+                ) : (
+                  /* Word display */
+                  <div className="rsvp-word font-reader min-w-[200px]">
+                    {renderWord(currentToken.text)}
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -1,10 +1,10 @@
 import { create } from 'zustand';
-import type { FlowDocument, ReaderSettings, ReadingMode, Annotation, AnnotationAnchor } from '@/types';
+import type { FlowDocument, ReaderSettings, ReadingMode, Annotation, AnnotationAnchor, SpeedTracePoint, SpeedChangeReason, Block, PassageLocation, PassageStats, ReadingDifficulty } from '@/types';
 import { DEFAULT_SETTINGS, HIGHLIGHT_COLORS } from '@/types';
 import { getSettings, saveSettings, savePosition, getPosition, isExitConfirmationDismissed, dismissExitConfirmation, saveCurrentDocument } from '@/lib/storage';
-import { addRecent, mapSourceToType, getSourceLabel, shouldCacheDocument, calculateProgress, updateLastOpened, updateArchiveItem, flushPendingArchiveWrites, type BookProgressInfo } from '@/lib/recents-service';
+import { addRecent, mapSourceToType, getSourceLabel, shouldCacheDocument, calculateProgress, updateLastOpened, updateArchiveItem, recordReadingDifficulty, flushPendingArchiveWrites, type BookProgressInfo } from '@/lib/recents-service';
 import { pacingToWordCount, wordCountToRsvpIndex, rsvpIndexToWordCount, wordCountToPacing } from '@/lib/position-utils';
-import { tokenizeForRSVP } from '@/lib/tokenizer';
+import { tokenizeBlocksForRSVP, type BlockRSVPToken } from '@/lib/tokenizer';
 import { 
   getAnnotations, 
   saveAnnotation, 
@@ -14,9 +14,21 @@ import {
   getDocumentAnnotationKey,
   importAnnotations,
 } from '@/lib/annotations-service';
-import { recordReadingSession, type RecordSessionResult } from '@/lib/stats-service';
+import { recordReadingSession, recordComprehensionScore, recordSpeedTrace, type RecordSessionResult } from '@/lib/stats-service';
+import { generateQuizQuestions, scoreQuiz, type ComprehensionQuiz } from '@/lib/comprehension';
 import { countWords } from '@/lib/file-utils';
 import { searchDocument, getNextMatchIndex, getPrevMatchIndex, type SearchMatch } from '@/lib/search-utils';
+import { applyFootnoteFlow } from '@/lib/footnote-utils';
+import { recordPassageActivity, mergeReadingDifficulty, type PassageActivity } from '@/lib/reading-difficulty';
+import {
+  INITIAL_ADAPTIVE_SPEED_STATE,
+  recordRegression,
+  recordPause,
+  recordManualChange,
+  advanceSmoothReading,
+  type AdaptiveSpeedState,
+  type AdaptiveSpeedOptions,
+} from '@/lib/adaptive-speed';
 
 
 const POSITION_SAVE_DEBOUNCE_MS = 1000;
@@ -59,8 +71,13 @@ function flushPendingReaderWrites(): void {
     pendingSettings = null;
   }
   
-  // Flush pending archive item writes (position/progress updates)
-  flushPendingArchiveWrites().catch(err => {
+  // Flush pending archive item writes (position/progress updates), along with
+  // the re-reads and dwell time of a session still playing
+  const { archiveItemId, sessionPassages } = useReaderStore.getState();
+  const passages = Object.values(sessionPassages);
+  flushPendingArchiveWrites(
+    archiveItemId && passages.length > 0 ? { itemId: archiveItemId, passages } : undefined
+  ).catch(err => {
     console.error('[ReaderStore] Failed to flush archive writes on unload:', err);
   });
 }
@@ -132,6 +149,9 @@ function recordSessionStats(params: {
   });
 }
 
+/** Sessions shorter than this don't get a speed trace, as for session stats */
+const MIN_SPEED_TRACE_MS = 5000;
+
 interface ReaderState {
   document: FlowDocument | null;
   archiveItemId: string | null;
@@ -196,6 +216,22 @@ interface ReaderState {
   pendingGoalNotifications: RecordSessionResult['goalsCompleted'];
   consumeGoalNotifications: () => RecordSessionResult['goalsCompleted'];
 
+  // Comprehension checks
+  comprehensionQuiz: ComprehensionQuiz | null;
+  /** Chapter last quizzed, so finishing and moving on don't quiz twice */
+  lastQuizChapterIndex: number | null;
+
+  // Adaptive speed
+  adaptiveSpeed: AdaptiveSpeedState;
+  /** Speed changes of the current play session */
+  speedTrace: SpeedTracePoint[];
+
+  // Re-read tracking
+  /** Dwell time and rewinds per passage since playback last stopped */
+  sessionPassages: Record<string, PassageStats>;
+  /** Saved record for the document, from earlier sessions */
+  readingDifficulty: ReadingDifficulty | null;
+
   // Actions
   setDocument: (doc: FlowDocument | null) => void;
   setLoading: (loading: boolean) => void;
@@ -205,6 +241,8 @@ interface ReaderState {
   setPlaying: (playing: boolean) => void;
   setWPM: (wpm: number) => void;
   adjustWPM: (delta: number) => void;
+  adaptiveSpeedTick: (elapsedMs: number) => void;
+  trackDwell: (elapsedMs: number) => void;
   setMode: (mode: ReadingMode) => void;
   updateSettings: (settings: Partial<ReaderSettings>) => void;
   updateSettingsFromSync: (settings: ReaderSettings) => void;
@@ -218,6 +256,8 @@ interface ReaderState {
   confirmCloseReader: (dontShowAgain: boolean) => void;
   startReading: () => void;
   showCompletion: () => void;
+  submitComprehensionQuiz: (answers: (number | null)[]) => void;
+  dismissComprehensionQuiz: () => void;
   
   saveCurrentPosition: () => Promise<void>;
   restorePosition: () => Promise<void>;
@@ -263,6 +303,7 @@ interface ReaderState {
   setNotesPanelOpen: (open: boolean) => void;
   toggleNotesPanel: () => void;
   navigateToAnnotation: (annotation: Annotation) => void;
+  navigateToPassage: (location: PassageLocation) => void;
   scrollToAnnotation: (annotation: Annotation) => void;
   clearScrollToBlock: () => void;
   addQuickBookmark: () => Promise<Annotation | null>;
@@ -292,6 +333,231 @@ interface ReaderState {
   updatePasteContent: (content: string) => Promise<void>;
 }
 
+/**
+ * State update for moving footnotes into or out of the reading flow.
+ * Stays on the same block (or the block a removed footnote belonged to);
+ * the position within the block restarts.
+ */
+function getFootnoteFlowUpdate(state: ReaderState, include: boolean): Partial<ReaderState> {
+  const { document, currentBlockIndex, currentChapterIndex, settings } = state;
+  if (!document?.footnotes) return {};
+
+  const currentBlockId = document.blocks[currentBlockIndex]?.id ?? '';
+  const updated = applyFootnoteFlow(document, include);
+  const chapter = updated.book?.chapters[currentChapterIndex];
+  const blocks = chapter?.blocks ?? updated.blocks;
+  const blockIndex = Math.max(0, blocks.findIndex(block =>
+    block.id === currentBlockId || currentBlockId.startsWith(`${block.id}-fn-`)
+  ));
+
+  return {
+    document: chapter ? { ...updated, blocks: chapter.blocks, plainText: chapter.plainText } : updated,
+    currentBlockIndex: blockIndex,
+    currentWordIndex: 0,
+    currentSentenceIndex: 0,
+    currentRsvpIndex: wordCountToRsvpIndex(
+      tokenizeBlocksForRSVP(blocks, settings.rsvpChunkSize),
+      pacingToWordCount(blocks, blockIndex, 0)
+    ),
+  };
+}
+
+/**
+ * State update opening a comprehension quiz on the section just finished
+ * (the current chapter, or the whole document). Nothing when checks are off,
+ * the section is too short, or it was already quizzed.
+ */
+function getSectionQuizUpdate(state: ReaderState): Partial<ReaderState> {
+  const { document, settings, currentChapterIndex, currentWPM, lastQuizChapterIndex } = state;
+  if (!document || !settings.comprehensionChecks || lastQuizChapterIndex === currentChapterIndex) {
+    return {};
+  }
+
+  const questions = generateQuizQuestions(document.blocks);
+  if (questions.length === 0) return {};
+
+  return {
+    comprehensionQuiz: {
+      title: document.book?.chapters[currentChapterIndex]?.title ?? document.metadata.title,
+      chapterIndex: currentChapterIndex,
+      wpm: currentWPM,
+      questions,
+    },
+    lastQuizChapterIndex: currentChapterIndex,
+  };
+}
+
+function getAdaptiveSpeedOptions(settings: ReaderSettings): AdaptiveSpeedOptions {
+  return {
+    minWPM: settings.adaptiveMinWPM,
+    maxWPM: settings.adaptiveMaxWPM,
+    step: settings.rampStep,
+    intervalMs: settings.rampInterval * 1000,
+  };
+}
+
+/**
+ * Trace point at the current reading position, in the active mode's terms
+ */
+function createSpeedTracePoint(state: ReaderState, wpm: number, reason: SpeedChangeReason): SpeedTracePoint {
+  const { document, settings, currentBlockIndex, currentWordIndex, currentRsvpIndex, currentChapterIndex } = state;
+  const blocks = document?.blocks ?? [];
+  const wordPosition = settings.activeMode === 'rsvp'
+    ? rsvpIndexToWordCount(tokenizeBlocksForRSVP(blocks, settings.rsvpChunkSize), currentRsvpIndex)
+    : pacingToWordCount(blocks, currentBlockIndex, currentWordIndex);
+
+  return {
+    elapsedMs: reason === 'start' || !state.playStartTime ? 0 : Date.now() - state.playStartTime,
+    wpm,
+    reason,
+    chapterIndex: currentChapterIndex,
+    wordPosition,
+  };
+}
+
+/**
+ * State update for a speed change made by or for adaptive speed. The change
+ * joins the session's speed trace while playing.
+ */
+function getSpeedChangeUpdate(state: ReaderState, wpm: number, reason: SpeedChangeReason): Partial<ReaderState> {
+  return {
+    currentWPM: wpm,
+    speedTrace: state.isPlaying
+      ? [...state.speedTrace, createSpeedTracePoint(state, wpm, reason)]
+      : state.speedTrace,
+  };
+}
+
+/**
+ * State update for a rewind (previous word, sentence or block, step back,
+ * replay sentence), given the state after moving back. The passage rewound
+ * to counts a regression; adaptive speed slows down after several in a
+ * short time. Stepping back while paused is navigation, not re-reading, so
+ * it isn't counted.
+ */
+function getRegressionUpdate(state: ReaderState): Partial<ReaderState> {
+  if (!state.isPlaying) return {};
+
+  const passageUpdate = getPassageActivityUpdate(state, { regressions: 1 });
+  if (!state.settings.adaptiveWPM) return passageUpdate;
+
+  const result = recordRegression(state.adaptiveSpeed, state.currentWPM, getAdaptiveSpeedOptions(state.settings), Date.now());
+  return {
+    ...passageUpdate,
+    adaptiveSpeed: result.state,
+    ...(result.wpm !== state.currentWPM && getSpeedChangeUpdate(state, result.wpm, 'regression')),
+  };
+}
+
+/**
+ * State update for a speed the reader picked; adaptive speed carries on from it
+ */
+function getManualSpeedUpdate(state: ReaderState, wpm: number): Partial<ReaderState> {
+  if (!state.settings.adaptiveWPM) return { currentWPM: wpm };
+  return {
+    adaptiveSpeed: recordManualChange(),
+    ...getSpeedChangeUpdate(state, wpm, 'manual'),
+  };
+}
+
+/**
+ * State update when playback starts: a new speed trace begins
+ */
+function getSpeedSessionStartUpdate(state: ReaderState): Partial<ReaderState> {
+  return {
+    speedTrace: state.settings.adaptiveWPM ? [createSpeedTracePoint(state, state.currentWPM, 'start')] : [],
+  };
+}
+
+/**
+ * Finish the speed session when playback stops: record the speed trace and
+ * keep the speed reached as the document's speed profile.
+ * Fire-and-forget, like session stats. Returns the state update.
+ */
+function finishSpeedSession(state: ReaderState): Partial<ReaderState> {
+  const { settings, archiveItemId, speedTrace, playStartTime, currentWPM } = state;
+  if (!settings.adaptiveWPM || !archiveItemId) return { speedTrace: [] };
+
+  if (playStartTime && speedTrace.length > 0 && Date.now() - playStartTime >= MIN_SPEED_TRACE_MS) {
+    recordSpeedTrace({
+      timestamp: playStartTime,
+      documentId: archiveItemId,
+      points: [...speedTrace, createSpeedTracePoint(state, currentWPM, 'end')],
+    }).catch(err => {
+      console.error('[ReaderStore] Failed to record speed trace:', err);
+    });
+  }
+
+  updateArchiveItem(archiveItemId, { speedProfile: { wpm: currentWPM, updatedAt: Date.now() } }).catch(err => {
+    console.error('[ReaderStore] Failed to save speed profile:', err);
+  });
+
+  return {
+    adaptiveSpeed: recordPause(state.adaptiveSpeed),
+    speedTrace: [],
+  };
+}
+
+/** RSVP tokens of the last blocks asked for, so per-second tracking doesn't re-tokenize */
+let rsvpTokenCache: { blocks: Block[]; chunkSize: number; tokens: BlockRSVPToken[] } | null = null;
+
+function getRsvpTokens(blocks: Block[], chunkSize: number): BlockRSVPToken[] {
+  if (rsvpTokenCache?.blocks !== blocks || rsvpTokenCache.chunkSize !== chunkSize) {
+    rsvpTokenCache = { blocks, chunkSize, tokens: tokenizeBlocksForRSVP(blocks, chunkSize) };
+  }
+  return rsvpTokenCache.tokens;
+}
+
+/**
+ * State update adding activity to the passage (block) at the reading
+ * position. RSVP reads its block from the current token.
+ */
+function getPassageActivityUpdate(state: ReaderState, activity: PassageActivity): Partial<ReaderState> {
+  const { document, settings, currentChapterIndex, currentBlockIndex, currentRsvpIndex } = state;
+  if (!document) return {};
+
+  let blockIndex = currentBlockIndex;
+  if (settings.activeMode === 'rsvp') {
+    const tokens = getRsvpTokens(document.blocks, settings.rsvpChunkSize);
+    const token = tokens[Math.min(currentRsvpIndex, tokens.length - 1)];
+    if (!token) return {};
+    blockIndex = token.blockIndex;
+  }
+
+  const block = document.blocks[blockIndex];
+  if (!block) return {};
+
+  return {
+    sessionPassages: recordPassageActivity(
+      state.sessionPassages,
+      { chapterIndex: currentChapterIndex, blockIndex },
+      block,
+      activity
+    ),
+  };
+}
+
+/**
+ * Finish the re-read session when playback stops: add the session's
+ * passages to the document's reading difficulty.
+ * Fire-and-forget, like session stats. Returns the state update.
+ */
+function finishPassageSession(state: ReaderState): Partial<ReaderState> {
+  const passages = Object.values(state.sessionPassages);
+  if (passages.length === 0) return {};
+
+  if (state.archiveItemId) {
+    recordReadingDifficulty(state.archiveItemId, passages).catch(err => {
+      console.error('[ReaderStore] Failed to save reading difficulty:', err);
+    });
+  }
+
+  return {
+    sessionPassages: {},
+    readingDifficulty: mergeReadingDifficulty(state.readingDifficulty ?? undefined, passages, Date.now()),
+  };
+}
+
 export const useReaderStore = create<ReaderState>((set, get) => ({
   document: null,
   archiveItemId: null,
@@ -345,17 +611,33 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
     return notifications;
   },
 
+  // Comprehension checks
+  comprehensionQuiz: null,
+  lastQuizChapterIndex: null,
+
+  // Adaptive speed
+  adaptiveSpeed: INITIAL_ADAPTIVE_SPEED_STATE,
+  speedTrace: [],
+
+  // Re-read tracking
+  sessionPassages: {},
+  readingDifficulty: null,
+
   setDocument: (doc) => {
-    let finalDoc = doc;
-    if (doc?.book && doc.book.chapters.length > 0) {
-      const firstChapter = doc.book.chapters[0];
+    // Footnotes join the reading flow only when the reader opts in
+    let finalDoc = doc && applyFootnoteFlow(doc, get().settings.readFootnotesInFlow);
+    if (finalDoc?.book && finalDoc.book.chapters.length > 0) {
+      const firstChapter = finalDoc.book.chapters[0];
       finalDoc = {
-        ...doc,
+        ...finalDoc,
         blocks: firstChapter.blocks,
         plainText: firstChapter.plainText,
       };
     }
     
+    // Save the previous document's re-reads before they are reset
+    finishPassageSession(get());
+    
     set({ 
       document: finalDoc, 
       isLoading: false,
@@ -364,6 +646,12 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
       currentSentenceIndex: 0,
       currentWordIndex: 0,
       currentRsvpIndex: 0,
+      comprehensionQuiz: null,
+      lastQuizChapterIndex: null,
+      adaptiveSpeed: INITIAL_ADAPTIVE_SPEED_STATE,
+      speedTrace: [],
+      sessionPassages: {},
+      readingDifficulty: null,
     });
     
     if (doc) {
@@ -380,7 +668,13 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
         fileHash: doc.metadata.fileHash,
         wordCount,
       }).then((item) => {
-        set({ archiveItemId: item.id });
+        // Adaptive speed resumes at the speed it settled on for this document
+        const profile = get().settings.adaptiveWPM ? item.speedProfile : undefined;
+        set({
+          archiveItemId: item.id,
+          readingDifficulty: item.readingDifficulty ?? null,
+          ...(profile && { currentWPM: profile.wpm }),
+        });
       }).catch((err) => {
         console.error('Failed to add to archive:', err);
       });
@@ -433,11 +727,14 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
         isPlaying: false,
         playStartTime: null,
         accumulatedReadingTime: state.accumulatedReadingTime + sessionTime,
+        ...finishSpeedSession(state),
+        ...finishPassageSession(state),
       });
     } else {
       set({
         isPlaying: true,
         playStartTime: Date.now(),
+        ...getSpeedSessionStartUpdate(state),
       });
     }
   },
@@ -445,7 +742,7 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   setPlaying: (playing) => {
     const state = get();
     if (playing && !state.isPlaying) {
-      set({ isPlaying: true, playStartTime: Date.now() });
+      set({ isPlaying: true, playStartTime: Date.now(), ...getSpeedSessionStartUpdate(state) });
     } else if (!playing && state.isPlaying) {
       const sessionTime = state.playStartTime ? Date.now() - state.playStartTime : 0;
       
@@ -473,6 +770,8 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
         isPlaying: false,
         playStartTime: null,
         accumulatedReadingTime: state.accumulatedReadingTime + sessionTime,
+        ...finishSpeedSession(state),
+        ...finishPassageSession(state),
       });
     } else {
       set({ isPlaying: playing });
@@ -480,20 +779,38 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   },
 
   setWPM: (wpm) => {
+    const state = get();
     const clampedWPM = Math.max(50, Math.min(1000, wpm));
-    const newSettings = { ...get().settings, baseWPM: clampedWPM };
-    set({ currentWPM: clampedWPM, settings: newSettings });
+    const newSettings = { ...state.settings, baseWPM: clampedWPM };
+    set({ ...getManualSpeedUpdate(state, clampedWPM), settings: newSettings });
     debouncedSaveSettings(newSettings);
   },
 
   adjustWPM: (delta) => {
-    const { currentWPM, settings } = get();
-    const clampedWPM = Math.max(50, Math.min(1000, currentWPM + delta));
-    const newSettings = { ...settings, baseWPM: clampedWPM };
-    set({ currentWPM: clampedWPM, settings: newSettings });
+    const state = get();
+    const clampedWPM = Math.max(50, Math.min(1000, state.currentWPM + delta));
+    const newSettings = { ...state.settings, baseWPM: clampedWPM };
+    set({ ...getManualSpeedUpdate(state, clampedWPM), settings: newSettings });
     debouncedSaveSettings(newSettings);
   },
 
+  adaptiveSpeedTick: (elapsedMs) => {
+    const state = get();
+    if (!state.settings.adaptiveWPM || !state.isPlaying) return;
+
+    const result = advanceSmoothReading(state.adaptiveSpeed, state.currentWPM, elapsedMs, getAdaptiveSpeedOptions(state.settings));
+    set({
+      adaptiveSpeed: result.state,
+      ...(result.wpm !== state.currentWPM && getSpeedChangeUpdate(state, result.wpm, 'smooth')),
+    });
+  },
+
+  trackDwell: (elapsedMs) => {
+    const state = get();
+    if (!state.isPlaying) return;
+    set(getPassageActivityUpdate(state, { dwellMs: elapsedMs }));
+  },
+
   setMode: (mode) => {
     const { 
       settings, 
@@ -520,7 +837,7 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
     let wordCount: number;
     if (settings.activeMode === 'rsvp') {
       // Converting FROM RSVP: use rsvpIndex to calculate word position
-      wordCount = rsvpIndexToWordCount(currentRsvpIndex, settings.rsvpChunkSize);
+      wordCount = rsvpIndexToWordCount(tokenizeBlocksForRSVP(blocks, settings.rsvpChunkSize), currentRsvpIndex);
     } else {
       // Converting FROM pacing/bionic: use block + word position
       wordCount = pacingToWordCount(blocks, currentBlockIndex, currentWordIndex);
@@ -529,7 +846,7 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
     // Convert word count to the new mode's position system
     if (mode === 'rsvp') {
       // Converting TO RSVP
-      const rsvpIndex = wordCountToRsvpIndex(wordCount, newSettings.rsvpChunkSize);
+      const rsvpIndex = wordCountToRsvpIndex(tokenizeBlocksForRSVP(blocks, newSettings.rsvpChunkSize), wordCount);
       set({ 
         settings: newSettings,
         currentRsvpIndex: rsvpIndex,
@@ -549,16 +866,39 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   },
 
   updateSettings: (newSettings) => {
-    const merged = { ...get().settings, ...newSettings };
-    set({ settings: merged });
+    const state = get();
+    const merged = { ...state.settings, ...newSettings };
+    const footnoteUpdate = merged.readFootnotesInFlow !== state.settings.readFootnotesInFlow
+      ? getFootnoteFlowUpdate(state, merged.readFootnotesInFlow)
+      : {};
+    // Keep the RSVP position on the same word when chunks change size
+    const chunkUpdate = state.document && merged.rsvpChunkSize !== state.settings.rsvpChunkSize
+      ? {
+          currentRsvpIndex: wordCountToRsvpIndex(
+            tokenizeBlocksForRSVP(state.document.blocks, merged.rsvpChunkSize),
+            rsvpIndexToWordCount(
+              tokenizeBlocksForRSVP(state.document.blocks, state.settings.rsvpChunkSize),
+              state.currentRsvpIndex
+            )
+          ),
+        }
+      : {};
+    set({ settings: merged, ...chunkUpdate, ...footnoteUpdate });
     saveSettings(merged);
   },
 
   /** Update settings from sync without re-saving (prevents infinite loops) */
   updateSettingsFromSync: (newSettings) => {
+    const state = get();
+    const footnoteUpdate = newSettings.readFootnotesInFlow !== state.settings.readFootnotesInFlow
+      ? getFootnoteFlowUpdate(state, newSettings.readFootnotesInFlow)
+      : {};
+    // Adaptive speed keeps its own speed unless the base speed itself changed
+    const keepWPM = newSettings.adaptiveWPM && newSettings.baseWPM === state.settings.baseWPM;
     set({ 
       settings: newSettings,
-      currentWPM: newSettings.baseWPM,
+      currentWPM: keepWPM ? state.currentWPM : newSettings.baseWPM,
+      ...footnoteUpdate,
     });
   },
 
@@ -647,6 +987,9 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
       isPlaying: false,
       playStartTime: null,
       accumulatedReadingTime: state.accumulatedReadingTime + sessionTime,
+      ...getSectionQuizUpdate(state),
+      ...(state.isPlaying && finishSpeedSession(state)),
+      ...finishPassageSession(state),
     });
     
     // Show completion overlay after 1 second delay
@@ -662,6 +1005,21 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
     }, 1000);
   },
 
+  submitComprehensionQuiz: (answers) => {
+    const { comprehensionQuiz, archiveItemId } = get();
+    if (!comprehensionQuiz) return;
+
+    const { correct, total } = scoreQuiz(comprehensionQuiz.questions, answers);
+    if (archiveItemId) {
+      recordComprehensionScore({ documentId: archiveItemId, wpm: comprehensionQuiz.wpm, correct, total }).catch(err => {
+        console.error('[ReaderStore] Failed to record comprehension score:', err);
+      });
+    }
+    set({ comprehensionQuiz: null });
+  },
+
+  dismissComprehensionQuiz: () => set({ comprehensionQuiz: null }),
+
   // Position persistence (debounced to prevent excessive writes during reading)
   saveCurrentPosition: async () => {
     const { document } = get();
@@ -774,14 +1132,15 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   },
 
   prevBlock: () => {
-    const { currentBlockIndex } = get();
-    if (currentBlockIndex > 0) {
-      set({ 
-        currentBlockIndex: currentBlockIndex - 1, 
+    const state = get();
+    if (state.currentBlockIndex > 0) {
+      const move = {
+        currentBlockIndex: state.currentBlockIndex - 1,
         currentCharOffset: 0,
         currentSentenceIndex: 0,
         currentWordIndex: 0,
-      });
+      };
+      set({ ...move, ...getRegressionUpdate({ ...state, ...move }) });
     }
   },
 
@@ -793,9 +1152,9 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   },
   
   prevSentence: () => {
-    const { currentSentenceIndex } = get();
-    if (currentSentenceIndex > 0) {
-      set({ currentSentenceIndex: currentSentenceIndex - 1 });
+    const state = get();
+    if (state.currentSentenceIndex > 0) {
+      set({ currentSentenceIndex: state.currentSentenceIndex - 1, ...getRegressionUpdate(state) });
     }
   },
   
@@ -809,9 +1168,9 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   },
   
   prevWord: () => {
-    const { currentWordIndex } = get();
-    if (currentWordIndex > 0) {
-      set({ currentWordIndex: currentWordIndex - 1 });
+    const state = get();
+    if (state.currentWordIndex > 0) {
+      set({ currentWordIndex: state.currentWordIndex - 1, ...getRegressionUpdate(state) });
     }
   },
   
@@ -823,27 +1182,34 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
   setRsvpTokenCount: (count) => set({ rsvpTokenCount: count }),
   
   rsvpAdvance: () => {
-    const { currentRsvpIndex, rsvpTokenCount, showCompletion } = get();
+    const { document, currentRsvpIndex, currentChapterIndex, rsvpTokenCount, showCompletion, setChapter } = get();
     if (currentRsvpIndex >= rsvpTokenCount - 1) {
-      showCompletion();
+      // Books read on into the next chapter
+      if (document?.book && currentChapterIndex < document.book.chapters.length - 1) {
+        setChapter(currentChapterIndex + 1);
+      } else {
+        showCompletion();
+      }
     } else {
       set({ currentRsvpIndex: currentRsvpIndex + 1 });
     }
   },
   
   rsvpRetreat: () => {
-    const { currentRsvpIndex } = get();
-    if (currentRsvpIndex > 0) {
-      set({ currentRsvpIndex: currentRsvpIndex - 1 });
+    const state = get();
+    if (state.currentRsvpIndex > 0) {
+      const move = { currentRsvpIndex: state.currentRsvpIndex - 1 };
+      set({ ...move, ...getRegressionUpdate({ ...state, ...move }) });
     }
   },
 
   rsvpReplaySentence: () => {
-    const { document, currentRsvpIndex, settings } = get();
+    const state = get();
+    const { document, currentRsvpIndex, settings } = state;
     if (!document) return;
 
     // Tokenize with current chunk size to get the same tokens as displayed
-    const tokens = tokenizeForRSVP(document.plainText, settings.rsvpChunkSize);
+    const tokens = tokenizeBlocksForRSVP(document.blocks, settings.rsvpChunkSize);
     
     if (tokens.length === 0 || currentRsvpIndex <= 0) {
       // Already at start
@@ -851,24 +1217,21 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
       return;
     }
 
-    // Find the start of the current sentence by going backwards
-    // until we find a token that ends a sentence (or reach the start)
-    let sentenceStart = currentRsvpIndex;
-    
-    // First, go back one to avoid re-finding the current position if it's a sentence end
-    sentenceStart--;
-    
-    // Then keep going back until we find a sentence ending
+    // Go back to the start of the sentence before the current token. Headings,
+    // list items, table rows and block ends all end sentences, so replay stays
+    // within them; at the start of a block it replays the previous block's
+    // last sentence (or heading).
+    let sentenceStart = Math.min(currentRsvpIndex, tokens.length) - 1;
     while (sentenceStart > 0 && !tokens[sentenceStart - 1].isEndOfSentence) {
       sentenceStart--;
     }
 
-    set({ currentRsvpIndex: sentenceStart });
+    set({ currentRsvpIndex: sentenceStart, ...getRegressionUpdate({ ...state, currentRsvpIndex: sentenceStart }) });
   },
 
   // Chapter navigation (for books)
   setChapter: (chapterIndex: number) => {
-    const { document, saveCurrentPosition } = get();
+    const { document, currentChapterIndex, saveCurrentPosition, setPlaying } = get();
     if (!document?.book) return;
     
     const chapters = document.book.chapters;
@@ -876,6 +1239,12 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
     
     // Save position before switching
     saveCurrentPosition();
+
+    // Moving on to the next chapter finishes this one: check comprehension
+    const quizUpdate = chapterIndex === currentChapterIndex + 1 ? getSectionQuizUpdate(get()) : {};
+    if (quizUpdate.comprehensionQuiz) {
+      setPlaying(false);
+    }
     
     // Update document blocks to show the new chapter's content
     const chapter = chapters[chapterIndex];
@@ -886,6 +1255,7 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
       currentSentenceIndex: 0,
       currentWordIndex: 0,
       currentRsvpIndex: 0,
+      ...quizUpdate,
       // Update the document's blocks to the current chapter
       document: {
         ...document,
@@ -1094,6 +1464,33 @@ export const useReaderStore = create<ReaderState>((set, get) => ({
     });
   },
 
+  navigateToPassage: ({ chapterIndex, blockIndex }) => {
+    const { document, currentChapterIndex, setChapter } = get();
+    if (!document) return;
+
+    if (document.book && chapterIndex !== currentChapterIndex) {
+      setChapter(chapterIndex);
+    }
+
+    const { document: current, settings, currentChapterIndex: chapter } = get();
+    if (!current || chapter !== chapterIndex || blockIndex < 0 || blockIndex >= current.blocks.length) {
+      return;
+    }
+
+    // Start of the passage, in every mode's terms
+    set({
+      currentBlockIndex: blockIndex,
+      currentCharOffset: 0,
+      currentSentenceIndex: 0,
+      currentWordIndex: 0,
+      currentRsvpIndex: wordCountToRsvpIndex(
+        getRsvpTokens(current.blocks, settings.rsvpChunkSize),
+        pacingToWordCount(current.blocks, blockIndex, 0)
+      ),
+      isNotesPanelOpen: false,
+    });
+  },
+
   scrollToAnnotation: (annotation) => {
     const { document } = get();
     if (!document) return;
@@ -12,6 +12,18 @@ if (typeof File !== 'undefined' && !File.prototype.arrayBuffer) {
   };
 }
 
+// Polyfill Blob.text for jsdom environment
+if (typeof Blob !== 'undefined' && !Blob.prototype.text) {
+  Blob.prototype.text = function() {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(this);
+    });
+  };
+}
+
 // Mock chrome APIs for testing
 const mockChrome = {
   runtime: {
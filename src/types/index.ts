@@ -5,13 +5,26 @@ export interface FlowDocument {
   plainText: string;
   /** Book structure for multi-chapter documents (epub, mobi) */
   book?: BookStructure;
+  /**
+   * Footnotes and endnotes, referenced from blocks by id.
+   * Kept out of blocks and plainText so they don't count as words.
+   */
+  footnotes?: Footnote[];
+}
+
+/** A footnote or endnote body, shown in a popover from its reference */
+export interface Footnote {
+  id: string;
+  /** Reference label as printed in the source ("1", "*") */
+  label: string;
+  content: string;
 }
 
 export interface DocumentMetadata {
   title: string;
   author?: string;
   publishedAt?: string;
-  source: 'web' | 'paste' | 'pdf' | 'docx' | 'selection' | 'epub' | 'mobi';
+  source: 'web' | 'paste' | 'pdf' | 'docx' | 'selection' | 'epub' | 'mobi' | 'fb2' | 'text';
   url?: string;
   createdAt: number;
   /** Language code (e.g., 'en', 'no') */
@@ -73,32 +86,60 @@ export type Block =
   | ParagraphBlock
   | ListBlock
   | QuoteBlock
-  | CodeBlock;
+  | CodeBlock
+  | FigureBlock
+  | TableBlock;
+
+export type InlineMark = 'em' | 'strong' | 'code';
+
+/**
+ * Run of text sharing the same inline formatting. A block's spans joined
+ * together equal its content exactly, so word indexing is unaffected.
+ */
+export interface InlineSpan {
+  text: string;
+  marks?: InlineMark[];
+  /** Link target (absolute http(s) or mailto URLs only) */
+  href?: string;
+}
 
 export interface HeadingBlock {
   type: 'heading';
   level: 1 | 2 | 3 | 4 | 5 | 6;
   content: string;
+  /** Inline formatting; absent when the content is plain */
+  spans?: InlineSpan[];
   id: string;
+  /** Ids of footnotes referenced in this block (see FlowDocument.footnotes) */
+  footnoteRefs?: string[];
 }
 
 export interface ParagraphBlock {
   type: 'paragraph';
   content: string;
+  spans?: InlineSpan[];
   id: string;
+  footnoteRefs?: string[];
+  /** Footnote text read in the flow (only when the reader opts in) */
+  isFootnote?: boolean;
 }
 
 export interface ListBlock {
   type: 'list';
   ordered: boolean;
   items: string[];
+  /** Inline formatting per item; absent when every item is plain */
+  itemSpans?: InlineSpan[][];
   id: string;
+  footnoteRefs?: string[];
 }
 
 export interface QuoteBlock {
   type: 'quote';
   content: string;
+  spans?: InlineSpan[];
   id: string;
+  footnoteRefs?: string[];
 }
 
 export interface CodeBlock {
@@ -108,6 +149,35 @@ export interface CodeBlock {
   id: string;
 }
 
+/**
+ * Data table. Words are read header rows first, then body rows, left to right.
+ * Span attributes are not modelled; each row holds its cells as written.
+ */
+export interface TableBlock {
+  type: 'table';
+  /** Header rows (from <thead> or leading rows of <th> cells) */
+  headerRows: string[][];
+  /** Body rows */
+  rows: string[][];
+  /** Caption text (from <caption>); shown but not counted as words */
+  caption?: string;
+  id: string;
+  /** Ids of footnotes referenced from this block */
+  footnoteRefs?: string[];
+}
+
+/** Image with optional caption. Contributes no words to reading position. */
+export interface FigureBlock {
+  type: 'figure';
+  /** Remote URL (web) or inlined data URL (files); absent if the image was too large to keep */
+  src?: string;
+  /** Alternative text describing the image */
+  alt: string;
+  /** Caption text (from figcaption or equivalent) */
+  caption?: string;
+  id: string;
+}
+
 // Reading position
 export interface ReadingPosition {
   blockIndex: number;
@@ -150,6 +220,9 @@ export interface ReaderSettings {
   rampEnabled: boolean;
   rampStep: number;
   rampInterval: number;
+  adaptiveWPM: boolean;            // Slow down after rewinds, speed up while reading smoothly
+  adaptiveMinWPM: number;          // Lowest speed adaptive speed may pick
+  adaptiveMaxWPM: number;          // Highest speed adaptive speed may pick
 
   // Mode settings
   activeMode: ReadingMode;
@@ -171,6 +244,9 @@ export interface ReaderSettings {
 
   // Display settings
   showTimeRemaining: boolean;      // Show estimated time remaining to finish
+  figureBehavior: FigureBehavior;  // Pause on or skip past figures while playing
+  readFootnotesInFlow: boolean;    // Read footnotes after their reference (counted in pacing, RSVP and word counts)
+  comprehensionChecks: boolean;    // Quiz the reader when a chapter or document ends
   
   // Performance settings
   enablePreloading: boolean;       // Preload next articles in background
@@ -183,6 +259,7 @@ export interface ReaderSettings {
 
 export type PacingGranularity = 'block' | 'sentence' | 'word';
 export type PacingHighlightStyle = 'background' | 'underline' | 'box';
+export type FigureBehavior = 'pause' | 'skip';
 
 export interface PacingSettings {
   pacingHighlightStyle: PacingHighlightStyle;
@@ -191,7 +268,7 @@ export interface PacingSettings {
   pacingBoldFocusLetter: boolean;
 }
 
-export type ReadingMode = 'pacing' | 'rsvp' | 'bionic';
+export type ReadingMode = 'pacing' | 'rsvp' | 'bionic' | 'listen';
 
 export type ThemePreset = 
   | 'light' 
@@ -247,6 +324,21 @@ export interface StorageSchema {
   exitConfirmationDismissed: boolean;
   /** Deleted items tombstones for sync - maps identifier to deletion timestamp */
   deletedItems?: Record<string, number>;
+  /** Per-key modification times for sync (v4+) */
+  fieldUpdatedAt?: FieldTimestamps;
+}
+
+/**
+ * When each setting, preset and custom theme was last changed, so sync can merge
+ * them key by key. A preset or theme with a timestamp but no value was deleted.
+ */
+export interface FieldTimestamps {
+  /** Setting key -> modification time */
+  settings: Record<string, number>;
+  /** Preset name -> modification time */
+  presets: Record<string, number>;
+  /** Theme name -> modification time */
+  customThemes: Record<string, number>;
 }
 
 /**
@@ -266,7 +358,7 @@ export interface RecentDocument {
 // ARCHIVE ITEMS (Enhanced recent documents for Archive page)
 
 /** Content type for archive items */
-export type ArchiveItemType = 'web' | 'pdf' | 'docx' | 'epub' | 'mobi' | 'paste';
+export type ArchiveItemType = 'web' | 'pdf' | 'docx' | 'epub' | 'mobi' | 'fb2' | 'text' | 'paste';
 
 /** Progress information for an archive item */
 export interface ArchiveProgress {
@@ -314,6 +406,49 @@ export interface ArchiveItem {
   wordCount?: number;
   /** Cached annotation count (updated when annotations change) */
   annotationCount?: number;
+  /** Speed adaptive speed settled on for this item */
+  speedProfile?: SpeedProfile;
+  /** Passages that were hard to read, from rewinds and dwell time */
+  readingDifficulty?: ReadingDifficulty;
+}
+
+/** Where a passage (block) is in a document */
+export interface PassageLocation {
+  /** Chapter index for books (0 otherwise) */
+  chapterIndex: number;
+  blockIndex: number;
+}
+
+/** How reading went on one passage, summed over sessions */
+export interface PassageStats extends PassageLocation {
+  /** Start of the passage's text, for lists */
+  preview: string;
+  /** Words of the passage, counted once for each session that read it */
+  wordsRead: number;
+  /** Time spent on the passage while playing, in milliseconds */
+  dwellMs: number;
+  /** Times the reader went back within or into the passage */
+  regressions: number;
+}
+
+/** Per-document record of where reading was hard */
+export interface ReadingDifficulty {
+  /** Passages that stood out, hardest first */
+  passages: PassageStats[];
+  /** Totals over every passage read, the baseline passages are compared to */
+  dwellMs: number;
+  wordsRead: number;
+  regressions: number;
+  /** When the record last changed */
+  updatedAt: number;
+}
+
+/** Per-document reading speed kept by adaptive speed */
+export interface SpeedProfile {
+  /** Speed to resume at */
+  wpm: number;
+  /** When the speed was last saved */
+  updatedAt: number;
 }
 
 // COLLECTIONS (for organizing archive items)
@@ -407,7 +542,7 @@ export type MessageType =
   | { type: 'EXTRACT_CONTENT' }
   | { type: 'CONTENT_EXTRACTED'; payload: FlowDocument }
   | { type: 'EXTRACTION_FAILED'; error: string }
-  | { type: 'OPEN_READER'; document?: FlowDocument; navigateToAnnotationId?: string }
+  | { type: 'OPEN_READER'; document?: FlowDocument; navigateToAnnotationId?: string; navigateToPassage?: PassageLocation }
   | { type: 'GET_PENDING_DOCUMENT' }
   | { type: 'CONTENT_SCRIPT_READY' }
   | { type: 'GET_SETTINGS' }
@@ -444,6 +579,9 @@ export const DEFAULT_SETTINGS: ReaderSettings = {
   rampEnabled: false,
   rampStep: 10,
   rampInterval: 60,
+  adaptiveWPM: false,
+  adaptiveMinWPM: 150,
+  adaptiveMaxWPM: 450,
 
   activeMode: 'pacing',
 
@@ -463,6 +601,9 @@ export const DEFAULT_SETTINGS: ReaderSettings = {
 
   // Display settings
   showTimeRemaining: false,
+  figureBehavior: 'skip',
+  readFootnotesInFlow: false,
+  comprehensionChecks: false,
   
   // Performance settings
   enablePreloading: true,  // Preload next articles by default
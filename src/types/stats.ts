@@ -70,6 +70,49 @@ export interface PersonalBests {
   fastestWpm: { date: string; wpm: number } | null;
 }
 
+/** Result of a comprehension check taken after finishing a section */
+export interface ComprehensionScore {
+  /** When the quiz was answered (also identifies the entry across devices) */
+  timestamp: number;
+  /** ISO date string */
+  date: string;
+  /** Archive item the section belongs to */
+  documentId: string;
+  /** Reading speed the section was read at */
+  wpm: number;
+  /** Correctly answered questions */
+  correct: number;
+  /** Questions asked */
+  total: number;
+}
+
+/** Why the reading speed changed during a session */
+export type SpeedChangeReason = 'start' | 'regression' | 'smooth' | 'manual' | 'end';
+
+/** One point of a session's speed trace */
+export interface SpeedTracePoint {
+  /** Reading time since the session started, in milliseconds */
+  elapsedMs: number;
+  /** Speed from this point on */
+  wpm: number;
+  reason: SpeedChangeReason;
+  /** Chapter being read (0 for documents without chapters) */
+  chapterIndex: number;
+  /** Words into the chapter */
+  wordPosition: number;
+}
+
+/** How the reading speed changed over one session with adaptive speed */
+export interface SpeedTrace {
+  /** When the session started (also identifies the entry across devices) */
+  timestamp: number;
+  /** ISO date string */
+  date: string;
+  /** Archive item that was read */
+  documentId: string;
+  points: SpeedTracePoint[];
+}
+
 /** Reading goals set by the user */
 export interface ReadingGoals {
   /** Daily reading target in minutes */
@@ -172,6 +215,14 @@ export interface ReadingStats {
   // Optional user-defined goals
   /** Reading goals set by the user */
   goals?: ReadingGoals;
+
+  // Comprehension checks (most recent entries)
+  /** Quiz scores with the speed each section was read at */
+  comprehensionScores?: ComprehensionScore[];
+
+  // Adaptive speed (most recent sessions)
+  /** Speed changes per session, to show where reading slowed down */
+  speedTraces?: SpeedTrace[];
 }
 
 /** Default empty reading stats */
@@ -192,6 +243,8 @@ export const DEFAULT_READING_STATS: ReadingStats = {
     mostWordsInDay: null,
     fastestWpm: null,
   },
+  comprehensionScores: [],
+  speedTraces: [],
 };
 
 /** Parameters for recording a reading session */
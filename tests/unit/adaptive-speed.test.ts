@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_ADAPTIVE_SPEED_STATE,
+  REGRESSION_WINDOW_MS,
+  recordRegression,
+  recordPause,
+  recordManualChange,
+  advanceSmoothReading,
+  type AdaptiveSpeedOptions,
+} from '@/lib/adaptive-speed';
+
+const options: AdaptiveSpeedOptions = {
+  minWPM: 200,
+  maxWPM: 400,
+  step: 10,
+  intervalMs: 60_000,
+};
+
+describe('Adaptive speed', () => {
+  describe('recordRegression', () => {
+    it('slows down after repeated rewinds', () => {
+      let result = recordRegression(INITIAL_ADAPTIVE_SPEED_STATE, 300, options, 1000);
+      result = recordRegression(result.state, result.wpm, options, 2000);
+      expect(result.wpm).toBe(300);
+
+      result = recordRegression(result.state, result.wpm, options, 3000);
+      expect(result.wpm).toBe(270);
+      expect(result.state.regressions).toEqual([]);
+    });
+
+    it('forgets rewinds outside the window', () => {
+      let result = recordRegression(INITIAL_ADAPTIVE_SPEED_STATE, 300, options, 0);
+      result = recordRegression(result.state, result.wpm, options, 1000);
+      result = recordRegression(result.state, result.wpm, options, REGRESSION_WINDOW_MS + 500);
+
+      expect(result.wpm).toBe(300);
+      expect(result.state.regressions).toHaveLength(2);
+    });
+
+    it('stays within the lower bound', () => {
+      let result = { state: INITIAL_ADAPTIVE_SPEED_STATE, wpm: 210 };
+      for (let i = 0; i < 3; i++) {
+        result = recordRegression(result.state, result.wpm, options, i);
+      }
+      expect(result.wpm).toBe(200);
+    });
+
+    it('keeps a manual speed below the lower bound', () => {
+      let result = { state: INITIAL_ADAPTIVE_SPEED_STATE, wpm: 150 };
+      for (let i = 0; i < 3; i++) {
+        result = recordRegression(result.state, result.wpm, options, i);
+      }
+      expect(result.wpm).toBe(150);
+    });
+
+    it('interrupts the smooth stretch', () => {
+      const state = { regressions: [], smoothMs: 30_000 };
+      expect(recordRegression(state, 300, options, 0).state.smoothMs).toBe(0);
+    });
+  });
+
+  describe('advanceSmoothReading', () => {
+    it('speeds up one step after a smooth stretch', () => {
+      let result = advanceSmoothReading(INITIAL_ADAPTIVE_SPEED_STATE, 300, 59_000, options);
+      expect(result.wpm).toBe(300);
+
+      result = advanceSmoothReading(result.state, result.wpm, 1000, options);
+      expect(result.wpm).toBe(310);
+      expect(result.state.smoothMs).toBe(0);
+    });
+
+    it('stays within the upper bound', () => {
+      expect(advanceSmoothReading(INITIAL_ADAPTIVE_SPEED_STATE, 395, 60_000, options).wpm).toBe(400);
+      expect(advanceSmoothReading(INITIAL_ADAPTIVE_SPEED_STATE, 500, 60_000, options).wpm).toBe(500);
+    });
+  });
+
+  describe('pauses and manual changes', () => {
+    it('restart the smooth stretch after a pause', () => {
+      const state = { regressions: [1000], smoothMs: 50_000 };
+      expect(recordPause(state)).toEqual({ regressions: [1000], smoothMs: 0 });
+    });
+
+    it('forget earlier rewinds after a manual change', () => {
+      expect(recordManualChange()).toEqual(INITIAL_ADAPTIVE_SPEED_STATE);
+    });
+  });
+});
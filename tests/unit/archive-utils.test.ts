@@ -226,6 +226,24 @@ describe('Archive Utils', () => {
       expect(merged.url).toBe('https://example.com/article');
     });
 
+    it('keeps the most recently saved speed profile', () => {
+      const item1 = { ...baseItem1, speedProfile: { wpm: 320, updatedAt: 3000 } };
+      const item2 = { ...baseItem2, speedProfile: { wpm: 280, updatedAt: 2000 } };
+
+      expect(mergeArchiveItemPair(item1, item2).speedProfile?.wpm).toBe(320);
+      expect(mergeArchiveItemPair(item2, item1).speedProfile?.wpm).toBe(320);
+      expect(mergeArchiveItemPair(baseItem1, item2).speedProfile?.wpm).toBe(280);
+    });
+
+    it('keeps the most recently updated reading difficulty', () => {
+      const difficulty = { passages: [], dwellMs: 0, wordsRead: 0, regressions: 0 };
+      const item1 = { ...baseItem1, readingDifficulty: { ...difficulty, regressions: 4, updatedAt: 1000 } };
+      const item2 = { ...baseItem2, readingDifficulty: { ...difficulty, regressions: 6, updatedAt: 2000 } };
+
+      expect(mergeArchiveItemPair(item1, item2).readingDifficulty?.regressions).toBe(6);
+      expect(mergeArchiveItemPair(item2, item1).readingDifficulty?.regressions).toBe(6);
+    });
+
     it('merges collectionIds as union', () => {
       const item1 = { ...baseItem1, collectionIds: ['col-1', 'col-2'] };
       const item2 = { ...baseItem2, collectionIds: ['col-2', 'col-3'] };
@@ -357,18 +357,28 @@ describe('Article Normalization', () => {
       expect(root.querySelector('table')).toBeNull();
     });
 
-    it('converts text-heavy tables to paragraphs', () => {
+    it('keeps data tables', () => {
       const root = createDOM(`
         <table>
           <tr><th>Header with substantial text content here</th><th>Another column header</th></tr>
           <tr><td>Cell content that is long enough to pass the threshold for text density</td><td>More cell content</td></tr>
           <tr><td>Additional row with more text content for the table</td><td>Even more text</td></tr>
-          <tr><td>Yet another row of meaningful content in this table</td><td>Final cell</td></tr>
+        </table>
+      `);
+      normalizeArticleMarkup(root);
+      expect(root.querySelectorAll('tr')).toHaveLength(3);
+    });
+
+    it('converts text-heavy layout tables to paragraphs', () => {
+      const root = createDOM(`
+        <table>
+          <tr><td>Cell content that is long enough to pass the threshold for text density</td></tr>
+          <tr><td>Additional row with more text content for the table and its readers</td></tr>
+          <tr><td>Yet another row of meaningful content in this single-column layout table</td></tr>
         </table>
       `);
       normalizeArticleMarkup(root);
       expect(root.querySelector('table')).toBeNull();
-      // Should have paragraphs with pipe-separated content
       const paragraphs = root.querySelectorAll('p');
       expect(paragraphs.length).toBeGreaterThan(0);
     });
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { Block } from '@/types';
+import { generateQuizQuestions, scoreQuiz, MIN_QUIZ_WORDS } from '@/lib/comprehension';
+
+/** Deterministic stand-in for Math.random */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+const SECTION_TEXT = [
+  'The mitochondria produce most of the chemical energy that powers a living cell.',
+  'Researchers discovered that photosynthesis converts sunlight into stored sugars inside chloroplasts.',
+  'Every enzyme speeds up a particular reaction without being consumed in the process itself.',
+  'The membrane surrounding each cell controls which molecules may enter or leave it.',
+  'Scientists measured how temperature influences the metabolism of several bacterial colonies.',
+  'Genetic information travels from the nucleus to the ribosomes through messenger molecules.',
+];
+
+function createSection(paragraphCount: number): Block[] {
+  return Array.from({ length: paragraphCount }, (_, i) => ({
+    type: 'paragraph' as const,
+    content: SECTION_TEXT.join(' '),
+    id: `p${i}`,
+  }));
+}
+
+describe('Comprehension checks', () => {
+  describe('generateQuizQuestions', () => {
+    it('skips sections too short to quiz on', () => {
+      const blocks: Block[] = [{ type: 'paragraph', content: SECTION_TEXT[0], id: 'p' }];
+      expect(SECTION_TEXT[0].split(' ').length).toBeLessThan(MIN_QUIZ_WORDS);
+      expect(generateQuizQuestions(blocks)).toEqual([]);
+    });
+
+    it('alternates cloze and "which appeared" questions', () => {
+      const questions = generateQuizQuestions(createSection(3), seededRandom(1));
+
+      expect(questions.length).toBeGreaterThanOrEqual(2);
+      expect(questions[0].type).toBe('cloze');
+      expect(questions[1].type).toBe('appeared');
+    });
+
+    it('blanks a key word out of a sentence from the text', () => {
+      const [cloze] = generateQuizQuestions(createSection(3), seededRandom(2));
+      const answer = cloze.options[cloze.answerIndex];
+      const filled = cloze.prompt.replace('_____', answer);
+
+      expect(cloze.prompt).toContain('_____');
+      expect(SECTION_TEXT).toContain(filled);
+      expect(new Set(cloze.options).size).toBe(cloze.options.length);
+    });
+
+    it('offers one real sentence among altered ones', () => {
+      const questions = generateQuizQuestions(createSection(3), seededRandom(3));
+      const appeared = questions.find(question => question.type === 'appeared')!;
+
+      const real = appeared.options.filter(option => SECTION_TEXT.includes(option));
+      expect(real).toEqual([appeared.options[appeared.answerIndex]]);
+      expect(appeared.options.length).toBeGreaterThan(2);
+    });
+
+    it('ignores headings, code and footnotes', () => {
+      const blocks: Block[] = [
+        { type: 'heading', level: 1, content: SECTION_TEXT.join(' '), id: 'h' },
+        { type: 'code', content: SECTION_TEXT.join(' ').repeat(3), id: 'c' },
+        { type: 'paragraph', content: SECTION_TEXT.join(' ').repeat(3), isFootnote: true, id: 'f' },
+      ];
+      expect(generateQuizQuestions(blocks)).toEqual([]);
+    });
+  });
+
+  describe('scoreQuiz', () => {
+    it('counts matching answers, treating skipped ones as wrong', () => {
+      const questions = generateQuizQuestions(createSection(3), seededRandom(4));
+      const answers = questions.map((question, i) => (i === 0 ? null : question.answerIndex));
+
+      expect(scoreQuiz(questions, answers)).toEqual({ correct: questions.length - 1, total: questions.length });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Sync Conflict Log Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_SETTINGS } from '@/types';
+import type { ConflictInfo } from '@/lib/sync/types';
+import {
+  recordConflicts,
+  getConflictLog,
+  dismissConflict,
+  restoreOtherSide,
+  getConflictDifferences,
+  MAX_CONFLICT_LOG_ENTRIES,
+} from '@/lib/sync/conflict-log';
+
+const settingsConflict: ConflictInfo = {
+  type: 'settings',
+  itemId: 'baseWPM',
+  localValue: 450,
+  remoteValue: 300,
+  resolution: 'remote-wins',
+};
+
+const itemConflict: ConflictInfo = {
+  type: 'archive-item',
+  itemId: 'item-1',
+  localValue: { id: 'item-1', type: 'paste', title: 'My title', sourceLabel: 'Pasted', pasteContent: 'x'.repeat(1000) },
+  remoteValue: { id: 'item-1', type: 'paste', title: 'Untitled', sourceLabel: 'Pasted', pasteContent: 'x'.repeat(1000) },
+  resolution: 'remote-wins',
+};
+
+describe('conflict-log', () => {
+  let store: Record<string, unknown>;
+
+  beforeEach(() => {
+    store = {
+      version: 3,
+      settings: { ...DEFAULT_SETTINGS, baseWPM: 300 },
+      archiveItems: [{
+        id: 'item-1',
+        type: 'paste',
+        title: 'Untitled',
+        sourceLabel: 'Pasted',
+        createdAt: 1,
+        lastOpenedAt: 1000,
+        cachedDocument: { cached: true },
+      }],
+      dataUpdatedAt: 1000,
+    };
+    const read = (keys: string | string[] | null) => keys === null
+      ? { ...store }
+      : Object.fromEntries([keys].flat().filter(key => key in store).map(key => [key, store[key]]));
+    vi.mocked(chrome.storage.local.get).mockImplementation(((keys: string | string[] | null, callback?: (result: Record<string, unknown>) => void) => {
+      if (!callback) return Promise.resolve(read(keys));
+      callback(read(keys));
+    }) as typeof chrome.storage.local.get);
+    vi.mocked(chrome.storage.local.set).mockImplementation((data, callback) => {
+      Object.assign(store, data);
+      if (callback) callback();
+    });
+  });
+
+  describe('recordConflicts', () => {
+    it('logs reviewable conflicts newest first', async () => {
+      await recordConflicts([settingsConflict], 1000);
+      await recordConflicts([itemConflict, { type: 'remote-state', resolution: 'unresolved' }], 2000);
+
+      const log = await getConflictLog();
+      expect(log.map(entry => [entry.conflict.type, entry.detectedAt, entry.status])).toEqual([
+        ['archive-item', 2000, 'open'],
+        ['settings', 1000, 'open'],
+      ]);
+    });
+
+    it('keeps only the compared fields of archive items', async () => {
+      await recordConflicts([itemConflict], 1000);
+
+      const [entry] = await getConflictLog();
+      expect(entry.conflict.localValue).not.toHaveProperty('pasteContent');
+      expect(entry.conflict.localValue).toMatchObject({ id: 'item-1', title: 'My title' });
+    });
+
+    it('replaces an open conflict for the same item', async () => {
+      await recordConflicts([settingsConflict], 1000);
+      await dismissConflict((await getConflictLog())[0].id);
+      await recordConflicts([settingsConflict], 2000);
+      await recordConflicts([settingsConflict], 3000);
+
+      const log = await getConflictLog();
+      expect(log.map(entry => [entry.detectedAt, entry.status])).toEqual([
+        [3000, 'open'],
+        [1000, 'dismissed'],
+      ]);
+    });
+
+    it('caps the log', async () => {
+      const conflicts = Array.from({ length: MAX_CONFLICT_LOG_ENTRIES + 5 }, (_, i) => ({
+        ...itemConflict,
+        itemId: `item-${i}`,
+      }));
+      await recordConflicts(conflicts, 1000);
+
+      expect(await getConflictLog()).toHaveLength(MAX_CONFLICT_LOG_ENTRIES);
+    });
+  });
+
+  describe('getConflictDifferences', () => {
+    it('shows the setting of a per-setting conflict', () => {
+      expect(getConflictDifferences(settingsConflict)).toEqual([
+        { field: 'baseWPM', localValue: 450, remoteValue: 300 },
+      ]);
+    });
+
+    it('lists only the settings that differ in a whole-settings conflict', () => {
+      expect(getConflictDifferences({
+        type: 'settings',
+        localValue: { ...DEFAULT_SETTINGS, baseWPM: 450 },
+        remoteValue: { ...DEFAULT_SETTINGS, baseWPM: 300 },
+        resolution: 'remote-wins',
+      })).toEqual([
+        { field: 'baseWPM', localValue: 450, remoteValue: 300 },
+      ]);
+    });
+
+    it('compares archive items by their metadata', () => {
+      expect(getConflictDifferences(itemConflict)).toEqual([
+        { field: 'title', localValue: 'My title', remoteValue: 'Untitled' },
+      ]);
+    });
+  });
+
+  describe('restoreOtherSide', () => {
+    it('writes the discarded settings as a newer local change', async () => {
+      await recordConflicts([settingsConflict], 1000);
+      const [entry] = await getConflictLog();
+
+      await restoreOtherSide(entry.id);
+
+      expect(store.settings).toMatchObject({ baseWPM: 450 });
+      expect(store.fieldUpdatedAt).toMatchObject({ settings: { baseWPM: expect.any(Number) } });
+      expect(store.dataUpdatedAt as number).toBeGreaterThan(1000);
+      expect((await getConflictLog())[0].status).toBe('restored');
+    });
+
+    it('restores the remote settings when the local ones were kept', async () => {
+      await recordConflicts([{
+        ...settingsConflict,
+        localValue: 300,
+        remoteValue: 600,
+        resolution: 'local-wins',
+      }], 1000);
+
+      await restoreOtherSide((await getConflictLog())[0].id);
+
+      expect(store.settings).toMatchObject({ baseWPM: 600 });
+    });
+
+    it('restores archive item metadata and reopens the item so it wins the next merge', async () => {
+      await recordConflicts([itemConflict], 1000);
+
+      await restoreOtherSide((await getConflictLog())[0].id);
+
+      const [item] = store.archiveItems as Array<Record<string, unknown>>;
+      expect(item.title).toBe('My title');
+      expect(item.lastOpenedAt as number).toBeGreaterThan(1000);
+      expect(item.cachedDocument).toEqual({ cached: true });
+    });
+
+    it('refuses to restore positions', async () => {
+      await recordConflicts([{
+        type: 'position',
+        itemId: 'doc',
+        localValue: { blockIndex: 1, charOffset: 0, timestamp: 1 },
+        remoteValue: { blockIndex: 9, charOffset: 0, timestamp: 2 },
+        resolution: 'remote-wins',
+      }], 1000);
+
+      await expect(restoreOtherSide((await getConflictLog())[0].id)).rejects.toThrow('cannot be restored');
+      expect((await getConflictLog())[0].status).toBe('open');
+    });
+  });
+});
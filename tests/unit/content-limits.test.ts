@@ -0,0 +1,169 @@
+/**
+ * Content Sync Limits Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import type { ArchiveItem, FlowDocument } from '@/types';
+import type { ContentManifest, ContentManifestItem, SyncProvider } from '@/lib/sync/types';
+import {
+  sortByContentPriority,
+  getContentLimitViolation,
+  getContentUsage,
+  getContentUsageBreakdown,
+  isContentTypeSynced,
+} from '@/lib/sync/content-limits';
+import { ContentSyncManager } from '@/lib/sync/content-sync';
+
+function createItem(id: string, overrides?: Partial<ArchiveItem>): ArchiveItem {
+  return {
+    id,
+    type: 'pdf',
+    title: `Document ${id}`,
+    sourceLabel: `${id}.pdf`,
+    fileHash: `hash-${id}`,
+    createdAt: 1,
+    lastOpenedAt: 1,
+    ...overrides,
+  };
+}
+
+function createManifestItem(id: string, compressedSize: number): ContentManifestItem {
+  return {
+    fileHash: `hash-${id}`,
+    archiveItemId: id,
+    type: 'pdf',
+    title: `Document ${id}`,
+    compressedSize,
+    originalSize: compressedSize * 4,
+    syncedAt: 1,
+    checksum: 'checksum',
+  };
+}
+
+function createDocument(text: string): FlowDocument {
+  return {
+    metadata: { title: 'Document', source: 'pdf', createdAt: 1 },
+    blocks: [{ type: 'paragraph', content: text, id: 'block-0' }],
+    plainText: text,
+  } as FlowDocument;
+}
+
+describe('content sync limits', () => {
+  it('orders in-progress items first, then favourites, then recent', () => {
+    const items = [
+      createItem('old', { lastOpenedAt: 100 }),
+      createItem('favourite', { lastOpenedAt: 50, collectionIds: ['favorites'] }),
+      createItem('recent', { lastOpenedAt: 300 }),
+      createItem('finished', { lastOpenedAt: 400, progress: { percent: 100, label: 'Done' } }),
+      createItem('reading', { lastOpenedAt: 10, progress: { percent: 40, label: '40%' } }),
+    ];
+
+    expect(sortByContentPriority(items).map(item => item.id)).toEqual(
+      ['reading', 'favourite', 'finished', 'recent', 'old']
+    );
+  });
+
+  it('checks the file size cap before the quota', () => {
+    const limits = { maxFileSize: 100, totalQuota: 1000, excludedTypes: [] };
+
+    expect(getContentLimitViolation(limits, 150, 0)).toBe('too-large');
+    expect(getContentLimitViolation(limits, 80, 950)).toBe('over-quota');
+    expect(getContentLimitViolation(limits, 80, 920)).toBeNull();
+    expect(getContentLimitViolation(undefined, 1e9, 1e9)).toBeNull();
+  });
+
+  it('excludes content by type', () => {
+    const limits = { maxFileSize: null, totalQuota: null, excludedTypes: ['epub' as const] };
+
+    expect(isContentTypeSynced(limits, 'epub')).toBe(false);
+    expect(isContentTypeSynced(limits, 'pdf')).toBe(true);
+    expect(isContentTypeSynced(undefined, 'epub')).toBe(true);
+  });
+
+  it('sums and sorts usage from the manifest', () => {
+    const manifest: ContentManifest = {
+      version: 1,
+      items: { 'hash-a': createManifestItem('a', 300), 'hash-b': createManifestItem('b', 500) },
+    };
+
+    expect(getContentUsage(manifest)).toBe(800);
+    expect(getContentUsageBreakdown(manifest).map(item => item.archiveItemId)).toEqual(['b', 'a']);
+  });
+});
+
+describe('ContentSyncManager limits', () => {
+  function createProvider(): SyncProvider & { files: Map<string, Blob> } {
+    const files = new Map<string, Blob>();
+    return {
+      name: 'In-memory',
+      providerType: 'folder',
+      needsAuth: false,
+      files,
+      upload: vi.fn(),
+      download: vi.fn(),
+      getRemoteMetadata: vi.fn(),
+      listContentFiles: async () => [...files.keys()],
+      uploadContentFile: async (name: string, data: Blob) => {
+        files.set(name, data);
+        return { success: true, updatedAt: Date.now() };
+      },
+      downloadContentFile: async (name: string) => files.get(name) ?? null,
+      deleteContentFile: async (name: string) => { files.delete(name); },
+      ensureContentFolder: async () => {},
+      isConnected: async () => true,
+      disconnect: async () => {},
+    } as unknown as SyncProvider & { files: Map<string, Blob> };
+  }
+
+  it('uploads by priority until the quota is used up', async () => {
+    const manager = new ContentSyncManager();
+    // jsdom's buffers aren't accepted by Node's WebCrypto
+    vi.spyOn(manager, 'calculateChecksum').mockResolvedValue('checksum');
+    const size = async (text: string) =>
+      (await manager.compressDocument(createDocument(text))).byteLength;
+    const text = 'The quick brown fox jumps over the lazy dog. ';
+    const itemSize = await size(text);
+
+    const items = [
+      createItem('recent', { lastOpenedAt: 300, cachedDocument: createDocument(text) }),
+      createItem('reading', {
+        lastOpenedAt: 10,
+        progress: { percent: 40, label: '40%' },
+        cachedDocument: createDocument(text),
+      }),
+    ];
+    const provider = createProvider();
+
+    const result = await manager.syncContent(provider, items, undefined, {
+      maxFileSize: null,
+      totalQuota: itemSize + itemSize / 2,
+      excludedTypes: [],
+    });
+
+    expect(result.uploaded).toEqual(['reading']);
+    expect(result.skipped).toEqual([{ itemId: 'recent', reason: 'over-quota' }]);
+    expect([...provider.files.keys()]).toEqual(['hash-reading.enc']);
+  });
+
+  it('neither uploads nor downloads items taken out of sync or of excluded types', async () => {
+    const manager = new ContentSyncManager();
+    const provider = createProvider();
+    const manifest: ContentManifest = {
+      version: 1,
+      items: { 'hash-remote': createManifestItem('remote', 10) },
+      excludedItemIds: ['stopped'],
+    };
+    provider.files.set('hash-remote.enc', new NodeBlob(['not downloaded']) as unknown as Blob);
+
+    const result = await manager.syncContent(provider, [
+      createItem('stopped', { cachedDocument: createDocument('Stopped') }),
+      createItem('book', { type: 'epub', cachedDocument: createDocument('Book') }),
+      createItem('remote', { type: 'epub' }),
+    ], manifest, { maxFileSize: null, totalQuota: null, excludedTypes: ['epub'] });
+
+    expect(result.uploaded).toEqual([]);
+    expect(result.downloaded).toEqual([]);
+    expect(result.errors).toEqual([]);
+  });
+});
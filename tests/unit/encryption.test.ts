@@ -5,8 +5,28 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { encrypt, decrypt, generateSalt, getSaltFromBlob } from '@/lib/sync/encryption';
-import type { SyncStateDocument } from '@/lib/sync/types';
+import {
+  encrypt,
+  decrypt,
+  encryptData,
+  decryptData,
+  generateSalt,
+  getSaltFromBlob,
+  reencrypt,
+  EncryptionError,
+} from '@/lib/sync/encryption';
+import {
+  beginPassphraseRotation,
+  getPassphraseRotation,
+  markFileRotated,
+  reencryptBlob,
+  reencryptRemoteFile,
+  PASSPHRASE_ROTATION_STORAGE_KEY,
+} from '@/lib/sync/passphrase-rotation';
+import { syncService } from '@/lib/sync/sync-service';
+import { SyncError } from '@/lib/errors';
+import { arrayBufferToBase64 } from '@/lib/encoding';
+import type { SyncStateDocument, SyncProvider, EncryptedBlob, UploadOptions } from '@/lib/sync/types';
 import { DEFAULT_SETTINGS } from '@/types';
 
 // Create a mock SyncStateDocument for testing
@@ -204,4 +224,224 @@ describe('Encryption Module', () => {
       expect(decrypted.archiveItems).toHaveLength(101); // 1 original + 100 added
     });
   });
+
+  describe('reencrypt', () => {
+    it('re-encrypts a blob under the new passphrase and salt', async () => {
+      const newSalt = generateSalt();
+      const blob = await encryptData({ note: 'hello' }, 'old-passphrase', generateSalt());
+
+      const rotated = await reencrypt(blob, 'old-passphrase', 'new-passphrase', newSalt);
+
+      expect(rotated.salt).toBe(arrayBufferToBase64(newSalt));
+      expect(await decryptData(rotated, 'new-passphrase')).toEqual({ note: 'hello' });
+      await expect(decryptData(rotated, 'old-passphrase')).rejects.toThrow(EncryptionError);
+    });
+
+    it('leaves a blob that is already under the new salt as it is', async () => {
+      const newSalt = generateSalt();
+      const blob = await encryptData({ note: 'hello' }, 'new-passphrase', newSalt);
+
+      expect(await reencrypt(blob, 'old-passphrase', 'new-passphrase', newSalt)).toBe(blob);
+    });
+
+    it('rejects a wrong old passphrase', async () => {
+      const blob = await encryptData({ note: 'hello' }, 'old-passphrase', generateSalt());
+
+      await expect(reencrypt(blob, 'not-the-passphrase', 'new-passphrase', generateSalt()))
+        .rejects.toThrow(EncryptionError);
+    });
+  });
+
+  describe('passphrase change', () => {
+    const oldPassphrase = 'old-passphrase';
+    const newPassphrase = 'new-passphrase';
+    let store: Record<string, unknown>;
+    let oldSalt: Uint8Array;
+    let syncConfig: Record<string, unknown>;
+
+    /** Provider with a state file and a content folder */
+    class InMemoryProvider implements SyncProvider {
+      readonly name = 'In-memory';
+      readonly providerType = 'folder' as const;
+      readonly needsAuth = false;
+
+      state: EncryptedBlob | null = null;
+      etag = 'v1';
+      files = new Map<string, string>();
+      /** File whose next upload fails, to interrupt a passphrase change */
+      failUploadOf: string | null = null;
+
+      async upload(blob: EncryptedBlob, options: UploadOptions = {}) {
+        if (options.expectedEtag !== undefined && options.expectedEtag !== this.etag) {
+          return { success: false, conflict: true, updatedAt: Date.now() };
+        }
+        this.state = blob;
+        this.etag = `${this.etag}+`;
+        return { success: true, updatedAt: Date.now(), etag: this.etag };
+      }
+
+      async download() { return this.state; }
+
+      async getRemoteMetadata() {
+        return { exists: this.state !== null, updatedAt: 0, size: 1, etag: this.etag };
+      }
+
+      async listContentFiles() { return [...this.files.keys()]; }
+
+      async uploadContentFile(filename: string, data: Blob) {
+        if (filename === this.failUploadOf) {
+          this.failUploadOf = null;
+          throw new Error('Network error');
+        }
+        this.files.set(filename, await data.text());
+        return { success: true, updatedAt: Date.now() };
+      }
+
+      async downloadContentFile(filename: string) {
+        const text = this.files.get(filename);
+        // Downloads come from fetch, whose blobs can be read with text()
+        return text === undefined ? null : new Response(text).blob();
+      }
+
+      async deleteContentFile(filename: string) { this.files.delete(filename); }
+      async ensureContentFolder() {}
+      async isConnected() { return true; }
+      async disconnect() {}
+
+      async writeFile(filename: string, data: unknown) {
+        this.files.set(filename, JSON.stringify(await encryptData(data, oldPassphrase, oldSalt)));
+      }
+
+      async readFile<T>(filename: string, passphrase: string): Promise<T> {
+        return decryptData<T>(JSON.parse(this.files.get(filename)!), passphrase);
+      }
+    }
+
+    beforeEach(() => {
+      oldSalt = generateSalt();
+      syncConfig = {
+        enabled: true,
+        provider: 'folder',
+        encryptionSalt: arrayBufferToBase64(oldSalt),
+        encryptionEnabled: true,
+        lastSyncTime: null,
+        lastSyncError: null,
+      };
+      store = { syncConfig };
+      vi.mocked(chrome.storage.local.get).mockImplementation((keys, callback) => {
+        const result = Object.fromEntries([keys as string | string[]].flat().filter(k => k in store).map(k => [k, store[k]]));
+        (callback as (result: Record<string, unknown>) => void)(result);
+      });
+      vi.mocked(chrome.storage.local.set).mockImplementation((items, callback) => {
+        Object.assign(store, items);
+        if (callback) callback();
+      });
+      chrome.storage.local.remove = vi.fn((keys: string | string[], callback?: () => void) => {
+        for (const key of [keys].flat()) delete store[key];
+        if (callback) callback();
+      }) as unknown as typeof chrome.storage.local.remove;
+    });
+
+    it('resumes an unfinished change only with the same new passphrase', async () => {
+      const rotation = await beginPassphraseRotation(newPassphrase);
+
+      expect((await beginPassphraseRotation(newPassphrase)).newSalt).toBe(rotation.newSalt);
+      await expect(beginPassphraseRotation('other-passphrase')).rejects.toThrow(SyncError);
+      expect(await getPassphraseRotation()).toEqual(rotation);
+    });
+
+    it('reports a wrong old passphrase as a sync error', async () => {
+      const blob = await encryptData({ note: 'hello' }, oldPassphrase, oldSalt);
+      const rotation = await beginPassphraseRotation(newPassphrase);
+
+      await expect(reencryptBlob(blob, rotation, 'wrong-passphrase', newPassphrase)).rejects.toThrow(SyncError);
+    });
+
+    it('re-encrypts a remote file once', async () => {
+      const provider = new InMemoryProvider();
+      await provider.writeFile('abc.enc', { data: 'content' });
+      const rotation = await beginPassphraseRotation(newPassphrase);
+      const upload = vi.spyOn(provider, 'uploadContentFile');
+
+      await reencryptRemoteFile(provider, 'abc.enc', rotation, oldPassphrase, newPassphrase);
+      await reencryptRemoteFile(provider, 'abc.enc', rotation, oldPassphrase, newPassphrase);
+
+      expect(upload).toHaveBeenCalledTimes(1);
+      expect(await provider.readFile('abc.enc', newPassphrase)).toEqual({ data: 'content' });
+    });
+
+    it('reports a wrong current passphrase', async () => {
+      const provider = new InMemoryProvider();
+      await provider.writeFile('abc.enc', { data: 'content' });
+      const rotation = await beginPassphraseRotation(newPassphrase);
+      const upload = vi.spyOn(provider, 'uploadContentFile');
+
+      await expect(reencryptRemoteFile(provider, 'abc.enc', rotation, 'wrong-passphrase', newPassphrase))
+        .rejects.toThrow('Current passphrase is incorrect');
+      expect(upload).not.toHaveBeenCalled();
+      expect(await provider.readFile('abc.enc', oldPassphrase)).toEqual({ data: 'content' });
+    });
+
+    it('checks the current passphrase before starting a change', async () => {
+      const provider = new InMemoryProvider();
+      provider.state = await encrypt(createMockStateDocument(), oldPassphrase, oldSalt);
+      // Disconnecting forgets the passphrase held in memory
+      syncService.setProvider(provider);
+      await syncService.disconnect();
+      store.syncConfig = syncConfig;
+      syncService.setProvider(provider);
+
+      await expect(syncService.changePassphrase('wrong-passphrase', newPassphrase))
+        .rejects.toThrow('Current passphrase is incorrect');
+      expect(store).not.toHaveProperty(PASSPHRASE_ROTATION_STORAGE_KEY);
+    });
+
+    it('forgets an unfinished change on disconnect', async () => {
+      syncService.setProvider(new InMemoryProvider());
+      await beginPassphraseRotation(newPassphrase);
+
+      await syncService.disconnect();
+      expect(store).not.toHaveProperty(PASSPHRASE_ROTATION_STORAGE_KEY);
+    });
+
+    it('discards an unfinished change only before anything is re-encrypted', async () => {
+      const provider = new InMemoryProvider();
+      provider.state = await encrypt(createMockStateDocument(), oldPassphrase, oldSalt);
+      syncService.setProvider(provider);
+
+      await beginPassphraseRotation(newPassphrase);
+      await syncService.cancelPassphraseChange();
+      expect(store).not.toHaveProperty(PASSPHRASE_ROTATION_STORAGE_KEY);
+
+      await markFileRotated(await beginPassphraseRotation(newPassphrase), 'abc.enc');
+      await expect(syncService.cancelPassphraseChange()).rejects.toThrow('already uses the new passphrase');
+      expect((await getPassphraseRotation())?.completedFiles).toEqual(['abc.enc']);
+    });
+
+    it('re-encrypts the state and its files, resuming after an interruption', async () => {
+      const provider = new InMemoryProvider();
+      const state = createMockStateDocument();
+      state.contentManifest = { version: 1, items: { abc: {} as never } };
+      provider.state = await encrypt(state, oldPassphrase, oldSalt);
+      await provider.writeFile('abc.enc', { data: 'content' });
+      await provider.writeFile('history-1000.enc', state);
+      provider.failUploadOf = 'history-1000.enc';
+      syncService.setProvider(provider);
+      await syncService.setPassphrase(oldPassphrase);
+
+      await expect(syncService.changePassphrase(oldPassphrase, newPassphrase)).rejects.toThrow('Network error');
+      expect((await getPassphraseRotation())?.completedFiles).toEqual(['abc.enc']);
+      expect((await syncService.syncNow()).error).toBe('Finish changing the passphrase before syncing');
+
+      const download = vi.spyOn(provider, 'downloadContentFile');
+      await syncService.changePassphrase(oldPassphrase, newPassphrase);
+
+      expect(download.mock.calls.map(([name]) => name)).toEqual(['history-1000.enc']);
+      expect(await decrypt(provider.state!, newPassphrase)).toEqual(state);
+      expect(await provider.readFile('abc.enc', newPassphrase)).toEqual({ data: 'content' });
+      expect(await provider.readFile('history-1000.enc', newPassphrase)).toEqual(state);
+      expect((store.syncConfig as { encryptionSalt: string }).encryptionSalt).toBe(provider.state!.salt);
+      expect(store).not.toHaveProperty(PASSPHRASE_ROTATION_STORAGE_KEY);
+    });
+  });
 });
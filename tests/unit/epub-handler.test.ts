@@ -479,6 +479,67 @@ describe('EPUB Handler', () => {
     });
   });
 
+  describe('footnotes', () => {
+    it('moves endnotes from a non-linear notes file into popover footnotes', async () => {
+      const opfWithNotes = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Notes Test</dc:title>
+  </metadata>
+  <manifest>
+    <item id="chapter1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="chapter1"/>
+    <itemref idref="notes" linear="no"/>
+  </spine>
+</package>`;
+
+      const chapterWithNote = `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Chapter 1</title></head>
+<body>
+  <h1>Chapter One</h1>
+  <p>This paragraph cites a source<a epub:type="noteref" href="notes.xhtml#note-1">1</a> and keeps going with enough words to count.</p>
+</body>
+</html>`;
+
+      const notesFile = `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Notes</title></head>
+<body>
+  <aside epub:type="endnote" id="note-1"><p>See the original study.</p></aside>
+</body>
+</html>`;
+
+      mockListFiles.mockReturnValue([
+        'META-INF/container.xml',
+        'OEBPS/content.opf',
+        'OEBPS/text/chapter1.xhtml',
+        'OEBPS/text/notes.xhtml',
+      ]);
+
+      mockLoadText.mockImplementation(async (path: string) => {
+        if (path.includes('container.xml')) return CONTAINER_XML;
+        if (path.includes('content.opf')) return opfWithNotes;
+        if (path.includes('chapter1.xhtml')) return chapterWithNote;
+        if (path.includes('notes.xhtml')) return notesFile;
+        throw new Error(`File not found: ${path}`);
+      });
+
+      const doc = await extractFromEpub(createMockFile('notes.epub'));
+
+      expect(doc.footnotes).toEqual([{ id: 'fn-1', label: '1', content: 'See the original study.' }]);
+      const paragraph = doc.blocks.find(b => b.type === 'paragraph');
+      expect(paragraph).toMatchObject({
+        content: 'This paragraph cites a source and keeps going with enough words to count.',
+        footnoteRefs: ['fn-1'],
+      });
+      expect(doc.plainText).not.toContain('original study');
+    });
+  });
+
   describe('metadata extraction', () => {
     it('extracts all metadata fields', async () => {
       mockLoadText.mockImplementation(async (path: string) => {
@@ -67,6 +67,27 @@ describe('Content Extraction', () => {
       expect(doc.metadata.createdAt).toBeLessThanOrEqual(after);
     });
 
+    it('keeps inline markdown formatting as spans', () => {
+      const doc = extractFromPaste('# The *Title*\n\nUse `npm test` and see [the **docs**](https://example.com).\n\n- plain\n- _styled_ item');
+
+      expect(doc.metadata.title).toBe('The Title');
+      expect(doc.blocks[1]).toMatchObject({
+        content: 'Use npm test and see the docs.',
+        spans: [
+          { text: 'Use ' },
+          { text: 'npm test', marks: ['code'] },
+          { text: ' and see ' },
+          { text: 'the ', href: 'https://example.com' },
+          { text: 'docs', marks: ['strong'], href: 'https://example.com' },
+          { text: '.' },
+        ],
+      });
+      expect(doc.blocks[2]).toMatchObject({
+        items: ['plain', 'styled item'],
+        itemSpans: [[{ text: 'plain' }], [{ text: 'styled', marks: ['em'] }, { text: ' item' }]],
+      });
+    });
+
     it('handles single paragraph text', () => {
       const doc = extractFromPaste('Just one paragraph here.');
       
@@ -553,6 +574,66 @@ describe('Content Extraction', () => {
       expect(result?.plainText).not.toContain('Photo by Someone');
     });
 
+    it('keeps content figures as figure blocks with absolute sources', () => {
+      const html = `
+        <!DOCTYPE html>
+        <html>
+          <head><title>Article</title></head>
+          <body>
+            <article>
+              <h1>Photo Article</h1>
+              <p>The actual story content that matters to readers here, with enough words to count.</p>
+              <figure>
+                <img src="/images/harbour.jpg" alt="The harbour at dawn">
+                <figcaption>Boats leaving the harbour</figcaption>
+              </figure>
+              <p>More content to ensure proper extraction happens and the article is long enough.</p>
+              <p>Even more content for the threshold requirements of the readability parser.</p>
+            </article>
+          </body>
+        </html>
+      `;
+      const doc = createDocument(html);
+      const result = extractContent(doc, 'https://example.com/news/story');
+      
+      const figure = result?.blocks.find(block => block.type === 'figure');
+      expect(figure).toMatchObject({
+        type: 'figure',
+        src: 'https://example.com/images/harbour.jpg',
+        alt: 'The harbour at dawn',
+        caption: 'Boats leaving the harbour',
+      });
+      // Captions are shown with the figure, not read as text
+      expect(result?.plainText).not.toContain('Boats leaving');
+    });
+
+    it('moves footnotes out of the text and references them from blocks', () => {
+      const html = `
+        <!DOCTYPE html>
+        <html>
+          <head><title>Article</title></head>
+          <body>
+            <article>
+              <h1>Annotated Article</h1>
+              <p>The actual story content makes a claim<sup id="fnref1"><a href="#fn1">1</a></sup> worth checking here.</p>
+              <p>More content to ensure proper extraction happens and the article is long enough.</p>
+              <p>Even more content for the threshold requirements of the readability parser.</p>
+              <section class="footnotes">
+                <ol><li id="fn1"><p>Source: the annual report. <a href="#fnref1">↩</a></p></li></ol>
+              </section>
+            </article>
+          </body>
+        </html>
+      `;
+      const doc = createDocument(html);
+      const result = extractContent(doc, 'https://example.com/news/story');
+
+      expect(result?.footnotes).toEqual([{ id: 'fn-1', label: '1', content: 'Source: the annual report.' }]);
+      const paragraph = result?.blocks.find(block => block.type === 'paragraph' && block.content.includes('claim'));
+      expect(paragraph).toMatchObject({ footnoteRefs: ['fn-1'] });
+      expect(result?.plainText).not.toContain('annual report');
+    });
+
     it('removes info boxes and factboxes', () => {
       const html = `
         <!DOCTYPE html>
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+
+// Mock file-utils for hash computation
+vi.mock('@/lib/file-utils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/file-utils')>();
+  return {
+    ...actual,
+    computeFileHash: vi.fn().mockResolvedValue('mock-hash-12345'),
+  };
+});
+
+import { extractFromFb2, Fb2ExtractionError } from '@/lib/fb2-handler';
+
+// fflate only zips Uint8Arrays from the test realm; others are read as folders
+function zip(files: Record<string, string>): Uint8Array {
+  return zipSync(Object.fromEntries(
+    Object.entries(files).map(([name, content]) => [name, new Uint8Array(strToU8(content))])
+  ));
+}
+
+function createMockFile(name: string, content: string | Uint8Array): File {
+  return new File([content], name, { type: 'application/x-fictionbook+xml' });
+}
+
+// Enough words that no chapter reads as a stub
+const TEXT = 'The ship left the harbour at dawn while the town was still asleep and the gulls circled overhead.';
+
+function fb2(body: string, options: { description?: string; extra?: string; encoding?: string } = {}): string {
+  return `<?xml version="1.0" encoding="${options.encoding ?? 'UTF-8'}"?>
+<FictionBook xmlns="http://www.gribuser.ru/xml/fictionbook/2.0" xmlns:l="http://www.w3.org/1999/xlink">
+  <description>
+    ${options.description ?? `<title-info>
+      <author><first-name>Ivan</first-name><middle-name>S.</middle-name><last-name>Petrov</last-name></author>
+      <book-title>The Voyage</book-title>
+      <lang>ru</lang>
+    </title-info>
+    <publish-info><publisher>Harbour Press</publisher><year>1901</year></publish-info>`}
+  </description>
+  <body>${body}</body>
+  ${options.extra ?? ''}
+</FictionBook>`;
+}
+
+const NESTED_BODY = `
+  <title><p>The Voyage</p></title>
+  <epigraph><p>All journeys begin at sea.</p><text-author>Anonymous</text-author></epigraph>
+  <section>
+    <title><p>Part One</p></title>
+    <section id="ch1">
+      <title><p>Chapter 1</p><p>Departure</p></title>
+      <p>${TEXT}</p>
+    </section>
+    <section id="ch2">
+      <title><p>Chapter 2</p></title>
+      <p>${TEXT}</p>
+      <poem><stanza><v>Row, row</v><v>across the bay</v></stanza></poem>
+    </section>
+  </section>
+  <section>
+    <title><p>Part Two</p></title>
+    <p>${TEXT}</p>
+  </section>`;
+
+describe('FB2 Handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('extractFromFb2', () => {
+    it('extracts metadata from the description', async () => {
+      const doc = await extractFromFb2(createMockFile('voyage.fb2', fb2(NESTED_BODY)));
+
+      expect(doc.metadata).toMatchObject({
+        title: 'The Voyage',
+        author: 'Ivan S. Petrov',
+        language: 'ru',
+        publisher: 'Harbour Press',
+        publishedAt: '1901',
+        source: 'fb2',
+        fileName: 'voyage.fb2',
+        fileHash: 'mock-hash-12345',
+      });
+    });
+
+    it('builds chapters and a nested table of contents from sections', async () => {
+      const doc = await extractFromFb2(createMockFile('voyage.fb2', fb2(NESTED_BODY)));
+
+      expect(doc.book?.chapters.map(c => c.title)).toEqual(['Chapter 1 Departure', 'Chapter 2', 'Part Two']);
+      expect(doc.book?.toc.map(t => [t.label, t.depth, t.chapterIndex])).toEqual([
+        ['Part One', 0, 0],
+        ['Chapter 1 Departure', 1, 0],
+        ['Chapter 2', 1, 1],
+        ['Part Two', 0, 2],
+      ]);
+    });
+
+    it('carries the book title, epigraph and part heading into the first chapter', async () => {
+      const doc = await extractFromFb2(createMockFile('voyage.fb2', fb2(NESTED_BODY)));
+      const first = doc.book!.chapters[0];
+
+      expect(first.blocks.map(b => b.type)).toEqual(['heading', 'quote', 'heading', 'heading', 'paragraph']);
+      expect(first.plainText).toContain('All journeys begin at sea.');
+      expect(doc.blocks).toEqual(first.blocks);
+      expect(doc.book!.chapters[1].plainText).toContain('Row, row');
+    });
+
+    it('moves notes into footnotes', async () => {
+      const body = `<section><title><p>Chapter 1</p></title>
+        <p>${TEXT}<a l:href="#n1" type="note">[1]</a></p></section>`;
+      const notes = `<body name="notes"><title><p>Notes</p></title>
+        <section id="n1"><title><p>1</p></title><p>A note about the harbour.</p></section>
+      </body>`;
+
+      const doc = await extractFromFb2(createMockFile('notes.fb2', fb2(body, { extra: notes })));
+
+      expect(doc.footnotes).toEqual([{ id: 'fn-1', label: '1', content: 'A note about the harbour.' }]);
+      expect(doc.blocks[1]).toMatchObject({ type: 'paragraph', footnoteRefs: ['fn-1'] });
+      expect(doc.plainText).not.toContain('Notes');
+    });
+
+    it('inlines embedded images', async () => {
+      const body = `<section><title><p>Chapter 1</p></title>
+        <p>${TEXT}</p><image l:href="#map.png"/></section>`;
+      const extra = '<binary id="map.png" content-type="image/png">iVBORw0KGgo=</binary>';
+
+      const doc = await extractFromFb2(createMockFile('images.fb2', fb2(body, { extra })));
+
+      expect(doc.blocks[2]).toMatchObject({ type: 'figure', src: 'data:image/png;base64,iVBORw0KGgo=' });
+    });
+
+    it('decodes the encoding named in the XML declaration', async () => {
+      // "Глава" in windows-1251
+      const title = new Uint8Array([0xc3, 0xeb, 0xe0, 0xe2, 0xe0]);
+      const [before, after] = fb2(`<section><title><p>TITLE</p></title><p>${TEXT}</p></section>`, { encoding: 'windows-1251' })
+        .split('TITLE');
+      const bytes = new Uint8Array([...strToU8(before), ...title, ...strToU8(after)]);
+
+      const doc = await extractFromFb2(createMockFile('cp1251.fb2', bytes));
+
+      expect(doc.book!.chapters[0].title).toBe('Глава');
+    });
+
+    it('reads zipped FB2 files', async () => {
+      const zipped = zip({ 'voyage.fb2': fb2(NESTED_BODY) });
+
+      const doc = await extractFromFb2(createMockFile('voyage.fb2.zip', zipped));
+
+      expect(doc.metadata.title).toBe('The Voyage');
+      expect(doc.book?.chapters).toHaveLength(3);
+    });
+
+    it('falls back to the filename and a single chapter', async () => {
+      const doc = await extractFromFb2(createMockFile('Untitled Story.fb2', fb2(`<p>${TEXT}</p>`, {
+        description: '<title-info></title-info>',
+      })));
+
+      expect(doc.metadata.title).toBe('Untitled Story');
+      expect(doc.book?.chapters).toHaveLength(1);
+      expect(doc.book?.toc).toEqual([{ id: 'chapter-0', label: 'Chapter 1', chapterIndex: 0, depth: 0 }]);
+    });
+
+    describe('cover thumbnail', () => {
+      beforeEach(() => {
+        // jsdom doesn't decode images or draw on canvases
+        vi.stubGlobal('Image', class {
+          width = 400;
+          height = 600;
+          onload: (() => void) | null = null;
+          set src(_value: string) {
+            setTimeout(() => this.onload?.());
+          }
+        });
+        vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: vi.fn() } as never);
+        vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/jpeg;base64,thumb');
+        URL.createObjectURL = vi.fn(() => 'blob:cover');
+        URL.revokeObjectURL = vi.fn();
+      });
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+      });
+
+      it('uses the embedded cover as the thumbnail', async () => {
+        const description = `<title-info><book-title>Covered</book-title>
+          <coverpage><image l:href="#cover.jpg"/></coverpage></title-info>`;
+        const extra = '<binary id="cover.jpg" content-type="image/jpeg">/9j/4AAQ</binary>';
+
+        const doc = await extractFromFb2(createMockFile('cover.fb2', fb2(`<p>${TEXT}</p>`, { description, extra })));
+
+        expect(doc.metadata.thumbnail).toBe('data:image/jpeg;base64,thumb');
+      });
+    });
+
+    it('throws for files that are not FB2', async () => {
+      await expect(extractFromFb2(createMockFile('broken.fb2', '<html><body>Not a book</body></html>')))
+        .rejects.toMatchObject({ errorType: 'invalid-fb2' });
+      await expect(extractFromFb2(createMockFile('broken.fb2', '<FictionBook><body>')))
+        .rejects.toBeInstanceOf(Fb2ExtractionError);
+    });
+
+    it('throws when an archive holds no FB2 book', async () => {
+      const zipped = zip({ 'readme.txt': 'Hello' });
+      await expect(extractFromFb2(createMockFile('book.fb2.zip', zipped)))
+        .rejects.toMatchObject({ errorType: 'invalid-fb2' });
+    });
+
+    it('throws when there is no readable content', async () => {
+      await expect(extractFromFb2(createMockFile('empty.fb2', fb2('<section><empty-line/></section>'))))
+        .rejects.toMatchObject({ errorType: 'no-content' });
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_INLINE_IMAGE_BYTES,
+  limitInlineSource,
+  resolveFigureSources,
+  resolveWebImageSource,
+} from '@/lib/figure-utils';
+import type { Block } from '@/types';
+
+describe('Figure Utils', () => {
+  describe('limitInlineSource', () => {
+    it('keeps small data URLs and remote URLs', () => {
+      expect(limitInlineSource('data:image/png;base64,iVBORw0KGgo=')).toBe('data:image/png;base64,iVBORw0KGgo=');
+      expect(limitInlineSource('https://example.com/a.png')).toBe('https://example.com/a.png');
+    });
+
+    it('drops data URLs larger than the inline limit', () => {
+      const payload = 'A'.repeat(Math.ceil(MAX_INLINE_IMAGE_BYTES * 4 / 3) + 8);
+      expect(limitInlineSource(`data:image/png;base64,${payload}`)).toBeUndefined();
+    });
+  });
+
+  describe('resolveWebImageSource', () => {
+    it('resolves relative URLs against the page', () => {
+      expect(resolveWebImageSource('../img/a.jpg', 'https://example.com/news/story/')).toBe('https://example.com/news/img/a.jpg');
+    });
+
+    it('rejects non-http protocols', () => {
+      expect(resolveWebImageSource('file:///etc/passwd', 'https://example.com/')).toBeUndefined();
+    });
+  });
+
+  describe('resolveFigureSources', () => {
+    const blocks: Block[] = [
+      { type: 'paragraph', content: 'Text', id: 'block-0' },
+      { type: 'figure', src: 'keep.png', alt: '', id: 'block-1' },
+      { type: 'figure', src: 'missing.png', alt: 'Described', id: 'block-2' },
+      { type: 'figure', src: 'missing.png', alt: '', id: 'block-3' },
+    ];
+
+    it('applies the resolver and keeps figures that still have something to show', async () => {
+      const resolved = await resolveFigureSources(blocks, src =>
+        src === 'keep.png' ? 'data:image/png;base64,AAAA' : undefined
+      );
+      expect(resolved.map(b => b.id)).toEqual(['block-0', 'block-1', 'block-2']);
+      expect(resolved[1]).toMatchObject({ src: 'data:image/png;base64,AAAA' });
+      expect(resolved[2]).toMatchObject({ src: undefined, alt: 'Described' });
+    });
+
+    it('treats resolver errors as a missing source', async () => {
+      const resolved = await resolveFigureSources(blocks.slice(1, 2), async () => {
+        throw new Error('not found');
+      });
+      expect(resolved).toEqual([]);
+    });
+  });
+});
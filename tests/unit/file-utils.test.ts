@@ -108,10 +108,17 @@ describe('File Utils', () => {
 
     it('returns false for unsupported extensions', () => {
       expect(isSupportedFile('image.jpg')).toBe(false);
-      expect(isSupportedFile('document.txt')).toBe(false);
+      expect(isSupportedFile('document.odt')).toBe(false);
       expect(isSupportedFile('archive.zip')).toBe(false);
     });
 
+    it('returns true for text, markdown, html and rtf files', () => {
+      expect(isSupportedFile('notes.txt')).toBe(true);
+      expect(isSupportedFile('README.md')).toBe(true);
+      expect(isSupportedFile('page.html')).toBe(true);
+      expect(isSupportedFile('letter.rtf')).toBe(true);
+    });
+
     it('handles epub with .zip appended by browser', () => {
       expect(isSupportedFile('book.epub.zip')).toBe(true);
     });
@@ -153,7 +160,19 @@ describe('File Utils', () => {
 
     it('returns null for unsupported files', () => {
       expect(getFileType('image.jpg')).toBeNull();
-      expect(getFileType('document.txt')).toBeNull();
+      expect(getFileType('document.odt')).toBeNull();
+    });
+
+    it('returns fb2 for plain and zipped FictionBook files', () => {
+      expect(getFileType('book.fb2')).toBe('fb2');
+      expect(getFileType('book.fb2.zip')).toBe('fb2');
+    });
+
+    it('returns text for plain text and markup files', () => {
+      expect(getFileType('notes.txt')).toBe('text');
+      expect(getFileType('spec.markdown')).toBe('text');
+      expect(getFileType('Saved Page.HTM')).toBe('text');
+      expect(getFileType('letter.rtf')).toBe('text');
     });
 
     it('handles epub with .zip appended', () => {
@@ -249,10 +268,14 @@ describe('File Utils', () => {
       expect(SUPPORTED_EXTENSIONS).toContain('.mobi');
       expect(SUPPORTED_EXTENSIONS).toContain('.azw');
       expect(SUPPORTED_EXTENSIONS).toContain('.azw3');
+      expect(SUPPORTED_EXTENSIONS).toContain('.txt');
+      expect(SUPPORTED_EXTENSIONS).toContain('.md');
+      expect(SUPPORTED_EXTENSIONS).toContain('.html');
+      expect(SUPPORTED_EXTENSIONS).toContain('.rtf');
     });
 
     it('has correct length', () => {
-      expect(SUPPORTED_EXTENSIONS).toHaveLength(6);
+      expect(SUPPORTED_EXTENSIONS).toHaveLength(13);
     });
   });
 });
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFootnoteFlow,
+  createFootnoteRegistry,
+  extractFootnotes,
+  getFootnoteRefs,
+  getReferencedFootnotes,
+  isNoteReference,
+} from '@/lib/footnote-utils';
+import { parseEbookHtml, parseHtmlToBlocks } from '@/lib/html-parser';
+import type { Block, FlowDocument } from '@/types';
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('Footnote Utils', () => {
+  describe('isNoteReference', () => {
+    it('recognizes noteref links and superscript fragment links', () => {
+      const doc = parse(`
+        <a id="a" epub:type="noteref" href="#n1">1</a>
+        <sup><a id="b" href="#fn2">2</a></sup>
+        <a id="c" href="#section-2">Read the next section</a>
+        <a id="d" href="https://example.com/">3</a>
+      `);
+      expect(isNoteReference(doc.getElementById('a')!)).toBe(true);
+      expect(isNoteReference(doc.getElementById('b')!)).toBe(true);
+      expect(isNoteReference(doc.getElementById('c')!)).toBe(false);
+      expect(isNoteReference(doc.getElementById('d')!)).toBe(false);
+    });
+  });
+
+  describe('extractFootnotes', () => {
+    it('moves note bodies out of the text and leaves markers', () => {
+      const doc = parse(`
+        <p>Main text<sup><a href="#fn1" id="ref1">1</a></sup> continues here.</p>
+        <section class="footnotes">
+          <ol><li id="fn1"><p>The note itself. <a href="#ref1">↩</a></p></li></ol>
+        </section>
+      `);
+      const registry = createFootnoteRegistry();
+
+      extractFootnotes(doc, registry);
+
+      expect(registry.footnotes).toEqual([{ id: 'fn-1', label: '1', content: 'The note itself.' }]);
+      expect(doc.querySelector('section')).toBeNull();
+      expect(getFootnoteRefs(doc.body)).toEqual(['fn-1']);
+    });
+
+    it('shares one footnote between repeated references', () => {
+      const doc = parse(`
+        <p>First<a epub:type="noteref" href="#n1">*</a> and again<a epub:type="noteref" href="#n1">*</a>.</p>
+        <aside epub:type="footnote" id="n1">Shared note.</aside>
+      `);
+      const registry = createFootnoteRegistry();
+
+      extractFootnotes(doc, registry);
+
+      expect(registry.footnotes).toHaveLength(1);
+      expect(getFootnoteRefs(doc.body)).toEqual(['fn-1']);
+    });
+
+    it('follows links into other documents', () => {
+      const chapter = parse('<p>Text<a epub:type="noteref" href="notes.xhtml#n1">1</a>.</p>');
+      const notes = parse('<p id="n1"><a href="chapter.xhtml#r1">1.</a> Endnote text.</p><p>Other content.</p>');
+      const registry = createFootnoteRegistry();
+
+      extractFootnotes(chapter, registry, {
+        documentKey: 'chapter.xhtml',
+        resolveDocument: path => (path === 'notes.xhtml' ? { key: path, document: notes } : null),
+      });
+
+      expect(registry.footnotes[0].content).toBe('Endnote text.');
+      expect(notes.getElementById('n1')).toBeNull();
+      expect(notes.body.textContent).toContain('Other content.');
+    });
+
+    it('leaves references without a target untouched', () => {
+      const doc = parse('<p>Text<sup><a href="#missing">1</a></sup></p>');
+      const registry = createFootnoteRegistry();
+
+      extractFootnotes(doc, registry);
+
+      expect(registry.footnotes).toHaveLength(0);
+      expect(doc.body.textContent).toBe('Text1');
+    });
+  });
+
+  describe('parsing markers', () => {
+    const html = `
+      <p>Sentence with a note<sup><a href="#fn1">1</a></sup>.</p>
+      <ol><li id="fn1">Note body.</li></ol>
+    `;
+
+    it('attaches references to blocks and keeps labels out of the text', () => {
+      const doc = parse(html);
+      const registry = createFootnoteRegistry();
+      extractFootnotes(doc, registry);
+
+      const markup = doc.documentElement.outerHTML;
+      for (const blocks of [parseHtmlToBlocks(markup), parseEbookHtml(markup)]) {
+        expect(blocks).toEqual([
+          { type: 'paragraph', content: 'Sentence with a note.', id: 'block-0', footnoteRefs: ['fn-1'] },
+        ]);
+      }
+    });
+  });
+
+  describe('getReferencedFootnotes', () => {
+    it('keeps only notes that blocks still reference', () => {
+      const blocks: Block[] = [{ type: 'paragraph', content: 'Text', id: 'block-0', footnoteRefs: ['fn-2'] }];
+      const footnotes = [
+        { id: 'fn-1', label: '1', content: 'Dropped' },
+        { id: 'fn-2', label: '2', content: 'Kept' },
+      ];
+      expect(getReferencedFootnotes(blocks, footnotes)).toEqual([footnotes[1]]);
+      expect(getReferencedFootnotes([], footnotes)).toBeUndefined();
+    });
+  });
+
+  describe('applyFootnoteFlow', () => {
+    const doc: FlowDocument = {
+      metadata: { title: 'Test', source: 'web', createdAt: 0 },
+      blocks: [
+        { type: 'paragraph', content: 'One two', id: 'block-0', footnoteRefs: ['fn-1'] },
+        { type: 'paragraph', content: 'Three', id: 'block-1' },
+      ],
+      plainText: 'One two Three',
+      footnotes: [{ id: 'fn-1', label: '1', content: 'Note text' }],
+    };
+
+    it('reads notes after the referencing block when included', () => {
+      const included = applyFootnoteFlow(doc, true);
+      expect(included.blocks.map(b => b.id)).toEqual(['block-0', 'block-0-fn-1', 'block-1']);
+      expect(included.plainText).toBe('One two 1 Note text Three');
+    });
+
+    it('restores the original blocks when excluded again', () => {
+      const excluded = applyFootnoteFlow(applyFootnoteFlow(doc, true), false);
+      expect(excluded.blocks).toEqual(doc.blocks);
+      expect(excluded.plainText).toBe(doc.plainText);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseHtmlToBlocks } from '@/lib/html-parser';
+import { parseHtmlToBlocks, parseEbookHtml } from '@/lib/html-parser';
 
 describe('HTML Parser', () => {
   describe('parseHtmlToBlocks', () => {
@@ -163,22 +163,87 @@ describe('HTML Parser', () => {
         expect(blocks[0].type).toBe('paragraph');
       });
 
-      it('converts tables to paragraphs when handleTables is true', () => {
+      it('converts tables to table blocks when handleTables is true', () => {
         const html = `
           <table>
-            <tr><th>Header 1</th><th>Header 2</th></tr>
-            <tr><td>Cell 1</td><td>Cell 2</td></tr>
+            <caption>Prices</caption>
+            <tr><th>Plan</th><th>Price</th></tr>
+            <tr><td>Basic</td><td>$5</td></tr>
+            <tr><td>Pro</td><td>$12</td></tr>
           </table>
         `;
         const blocks = parseHtmlToBlocks(html, { handleTables: true });
-        expect(blocks).toHaveLength(2);
-        expect(blocks.every(b => b.type === 'paragraph')).toBe(true);
-        
-        if (blocks[0].type === 'paragraph') {
-          expect(blocks[0].content).toBe('Header 1 | Header 2');
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0]).toMatchObject({
+          type: 'table',
+          headerRows: [['Plan', 'Price']],
+          rows: [['Basic', '$5'], ['Pro', '$12']],
+          caption: 'Prices',
+        });
+      });
+
+      it('reads thead rows as headers', () => {
+        const html = `
+          <table>
+            <thead><tr><td>Name</td><td>Role</td></tr></thead>
+            <tbody><tr><th>Ada</th><td>Engineer</td></tr></tbody>
+          </table>
+        `;
+        const blocks = parseHtmlToBlocks(html, { handleTables: true });
+        if (blocks[0].type === 'table') {
+          expect(blocks[0].headerRows).toEqual([['Name', 'Role']]);
+          expect(blocks[0].rows).toEqual([['Ada', 'Engineer']]);
         }
-        if (blocks[1].type === 'paragraph') {
-          expect(blocks[1].content).toBe('Cell 1 | Cell 2');
+      });
+
+      it('reads single-column tables as paragraphs', () => {
+        const html = '<table><tr><td>First note</td></tr><tr><td>Second note</td></tr></table>';
+        const blocks = parseHtmlToBlocks(html, { handleTables: true });
+        expect(blocks.map(b => b.type)).toEqual(['paragraph', 'paragraph']);
+      });
+
+      it('parses tables in ebook content', () => {
+        const html = '<html><body><div><p>Intro</p><table><tr><td>A</td><td>1</td></tr><tr><td>B</td><td>2</td></tr></table></div></body></html>';
+        const blocks = parseEbookHtml(html);
+        expect(blocks.map(b => b.type)).toEqual(['paragraph', 'table']);
+      });
+    });
+
+    describe('figures', () => {
+      it('parses figure with image and caption', () => {
+        const html = '<figure><img src="https://example.com/photo.jpg" alt="A lake"><figcaption>Sunrise over the lake</figcaption></figure>';
+        const blocks = parseHtmlToBlocks(html);
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0]).toMatchObject({
+          type: 'figure',
+          src: 'https://example.com/photo.jpg',
+          alt: 'A lake',
+          caption: 'Sunrise over the lake',
+        });
+      });
+
+      it('parses image-only paragraphs as figures', () => {
+        const blocks = parseHtmlToBlocks('<p>Intro</p><p><img src="chart.png" alt="Chart"></p>');
+        expect(blocks.map(b => b.type)).toEqual(['paragraph', 'figure']);
+      });
+
+      it('ignores tiny images such as icons and tracking pixels', () => {
+        const blocks = parseHtmlToBlocks('<p><img src="pixel.gif" width="1" height="1"></p><p>Text</p>');
+        expect(blocks.map(b => b.type)).toEqual(['paragraph']);
+      });
+
+      it('treats a figure without an image as text', () => {
+        const blocks = parseHtmlToBlocks('<figure><blockquote>Pull quote</blockquote></figure>');
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0].type).toBe('quote');
+      });
+
+      it('keeps figures in ebook content', () => {
+        const html = '<html><body><p>Before</p><img src="images/map.png" alt="Map"/><p>After</p></body></html>';
+        const blocks = parseEbookHtml(html);
+        expect(blocks.map(b => b.type)).toEqual(['paragraph', 'figure', 'paragraph']);
+        if (blocks[1].type === 'figure') {
+          expect(blocks[1].src).toBe('images/map.png');
         }
       });
     });
@@ -229,6 +294,51 @@ describe('HTML Parser', () => {
       });
     });
 
+    describe('inline formatting', () => {
+      it('keeps emphasis, code and links as spans matching the content', () => {
+        const html = '<p> Read <em>Moby-Dick</em>, run <code>npm test</code> or see <a href="https://example.com/docs"><strong>the docs</strong></a>. </p>';
+        const [block] = parseHtmlToBlocks(html);
+
+        expect(block).toMatchObject({
+          type: 'paragraph',
+          content: 'Read Moby-Dick, run npm test or see the docs.',
+          spans: [
+            { text: 'Read ' },
+            { text: 'Moby-Dick', marks: ['em'] },
+            { text: ', run ' },
+            { text: 'npm test', marks: ['code'] },
+            { text: ' or see ' },
+            { text: 'the docs', marks: ['strong'], href: 'https://example.com/docs' },
+            { text: '.' },
+          ],
+        });
+      });
+
+      it('leaves plain blocks without spans', () => {
+        const blocks = parseHtmlToBlocks('<h2>Plain <span>title</span></h2><p>Plain <a href="#top">text</a>.</p>');
+        expect(blocks.every(block => !('spans' in block))).toBe(true);
+      });
+
+      it('keeps per-item spans for lists with formatting', () => {
+        const [block] = parseHtmlToBlocks('<ul><li>First <b>bold</b></li><li>Second</li></ul>');
+
+        expect(block).toMatchObject({
+          items: ['First bold', 'Second'],
+          itemSpans: [[{ text: 'First ' }, { text: 'bold', marks: ['strong'] }], [{ text: 'Second' }]],
+        });
+      });
+
+      it('keeps formatting in ebook content', () => {
+        const [block] = parseEbookHtml('<html><body><blockquote>She said <i>never</i>.<br/>Then <a href="chapter2.xhtml">left</a>.</blockquote></body></html>');
+
+        expect(block).toMatchObject({
+          type: 'quote',
+          content: 'She said never.\nThen left.',
+          spans: [{ text: 'She said ' }, { text: 'never', marks: ['em'] }, { text: '.\nThen left.' }],
+        });
+      });
+    });
+
     describe('ID generation', () => {
       it('assigns unique IDs to all blocks', () => {
         const html = '<p>One</p><p>Two</p><p>Three</p>';
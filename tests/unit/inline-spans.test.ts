@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getBlockSpans, getInlineSpans, sliceSpans, trimSpans } from '@/lib/inline-spans';
+import type { InlineSpan } from '@/types';
+
+const SPANS: InlineSpan[] = [
+  { text: 'A ' },
+  { text: 'bold', marks: ['strong'] },
+  { text: ' word' },
+];
+
+function element(html: string): Element {
+  const div = document.createElement('div');
+  div.innerHTML = html;
+  return div;
+}
+
+describe('Inline spans', () => {
+  describe('getInlineSpans', () => {
+    it('merges adjacent runs with the same formatting', () => {
+      expect(getInlineSpans(element('<em>one</em><i> two</i> <b><i>three</i></b>'))).toEqual([
+        { text: 'one two', marks: ['em'] },
+        { text: ' ' },
+        { text: 'three', marks: ['em', 'strong'] },
+      ]);
+    });
+
+    it('drops unsafe link targets', () => {
+      expect(getInlineSpans(element('<a href="javascript:alert(1)">x</a><a href="mailto:a@b.c">y</a>'))).toEqual([
+        { text: 'x' },
+        { text: 'y', href: 'mailto:a@b.c' },
+      ]);
+    });
+  });
+
+  describe('trimSpans', () => {
+    it('trims across runs like String.trim', () => {
+      expect(trimSpans([{ text: '  ' }, { text: ' Hi', marks: ['em'] }, { text: 'there \n' }, { text: ' ' }])).toEqual([
+        { text: 'Hi', marks: ['em'] },
+        { text: 'there' },
+      ]);
+    });
+  });
+
+  describe('sliceSpans', () => {
+    it('returns the runs covering a character range', () => {
+      expect(sliceSpans(SPANS, 1, 4)).toEqual([{ text: ' ' }, { text: 'bo', marks: ['strong'] }]);
+      expect(sliceSpans(SPANS, 2, 6)).toEqual([{ text: 'bold', marks: ['strong'] }]);
+      expect(sliceSpans(SPANS, 3, 3)).toEqual([]);
+    });
+  });
+
+  describe('getBlockSpans', () => {
+    it('ignores spans that no longer match the content', () => {
+      expect(getBlockSpans({ type: 'paragraph', content: 'A bold word', spans: SPANS, id: 'b' })).toBe(SPANS);
+      expect(getBlockSpans({ type: 'paragraph', content: 'A bold word.', spans: SPANS, id: 'b' })).toBeUndefined();
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { CURRENT_STORAGE_VERSION, _testing } from '@/lib/migrations';
 import type { RecentDocument, FlowDocument } from '@/types';
 
-const { migrateV1ToV2, migrateV2ToV3, mapSourceToType, extractSourceLabel } = _testing;
+const { migrateV1ToV2, migrateV2ToV3, migrateV3ToV4, mapSourceToType, extractSourceLabel } = _testing;
 
 describe('Migrations', () => {
   describe('CURRENT_STORAGE_VERSION', () => {
@@ -323,6 +323,39 @@ describe('Migrations', () => {
     });
   });
 
+  describe('migrateV3ToV4', () => {
+    it('stamps existing settings, presets and themes with the last data change', () => {
+      const data = {
+        version: 3,
+        dataUpdatedAt: 5000,
+        settings: { baseWPM: 300, fontSize: 18 },
+        presets: { 'Fast': { baseWPM: 500 } },
+        customThemes: [{ name: 'Night' }],
+      };
+
+      const result = migrateV3ToV4(data);
+
+      expect(result.fieldUpdatedAt).toEqual({
+        settings: { baseWPM: 5000, fontSize: 5000 },
+        presets: { 'Fast': 5000 },
+        customThemes: { 'Night': 5000 },
+      });
+      expect(result.settings).toEqual(data.settings);
+    });
+
+    it('handles storage without user data', () => {
+      const result = migrateV3ToV4({ version: 3 });
+
+      expect(result.fieldUpdatedAt).toEqual({ settings: {}, presets: {}, customThemes: {} });
+    });
+
+    it('keeps timestamps that already exist', () => {
+      const fieldUpdatedAt = { settings: { baseWPM: 1 }, presets: {}, customThemes: {} };
+
+      expect(migrateV3ToV4({ version: 3, fieldUpdatedAt }).fieldUpdatedAt).toBe(fieldUpdatedAt);
+    });
+  });
+
   describe('migration chain', () => {
     it('v1 -> v2 -> v3 migration preserves data', () => {
       const v1Data = {
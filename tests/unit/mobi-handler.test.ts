@@ -153,6 +153,281 @@ function createMockMobiFile(name: string, buffer: ArrayBuffer): File {
   return new File([blob], name, { type: 'application/x-mobipocket-ebook' });
 }
 
+// === KF8 (AZW3) fixtures ===
+
+const encoder = new TextEncoder();
+
+// Enough words that no chapter reads as a stub
+const KF8_TEXT = 'The ship left the harbour at dawn while the town was still asleep and the gulls circled overhead.';
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/** Forward-encoded variable-length number, as used in INDX entries and CNCX strings */
+function varLen(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let rest = value >>> 7; rest > 0; rest >>>= 7) {
+    bytes.unshift(rest & 0x7f);
+  }
+  bytes[bytes.length - 1] |= 0x80;
+  return bytes;
+}
+
+/** Build a PDB file from its records */
+function buildPdb(name: string, records: Uint8Array[]): ArrayBuffer {
+  const listSize = records.length * 8;
+  const buffer = new ArrayBuffer(PDB_HEADER_SIZE + listSize + records.reduce((sum, r) => sum + r.length, 0));
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  bytes.set(encoder.encode(name.slice(0, 31)), 0);
+  bytes.set(encoder.encode('BOOKMOBI'), 60);
+  view.setUint16(76, records.length, false);
+
+  let offset = PDB_HEADER_SIZE + listSize;
+  records.forEach((record, i) => {
+    view.setUint32(PDB_HEADER_SIZE + i * 8, offset, false);
+    bytes.set(record, offset);
+    offset += record.length;
+  });
+  return buffer;
+}
+
+/**
+ * Build an INDX index: a header record with the TAGX table and one data record.
+ * Tags are [tag, values per entry, mask]; entries give values per tag.
+ */
+function buildIndex(
+  tagTable: [number, number, number][],
+  entries: { name: string; tags: Record<number, number[]> }[],
+  stringRecordCount = 0
+): Uint8Array[] {
+  const headerLength = 56;
+  const header = new Uint8Array(headerLength + 12 + (tagTable.length + 1) * 4);
+  header.set(encoder.encode('INDX'), 0);
+  header.set(uint32(headerLength), 4);
+  header.set(uint32(1), 24);
+  header.set(uint32(65001), 28);
+  header.set(uint32(stringRecordCount), 52);
+  header.set(encoder.encode('TAGX'), headerLength);
+  header.set(uint32(12 + (tagTable.length + 1) * 4), headerLength + 4);
+  header.set(uint32(1), headerLength + 8);
+  tagTable.forEach(([tag, valuesPerEntry, mask], i) => {
+    header.set([tag, valuesPerEntry, mask, 0], headerLength + 12 + i * 4);
+  });
+  header.set([0, 0, 0, 1], headerLength + 12 + tagTable.length * 4);
+
+  const entryBytes: number[] = [];
+  const entryOffsets: number[] = [];
+  for (const entry of entries) {
+    entryOffsets.push(headerLength + entryBytes.length);
+    let control = 0;
+    const values: number[] = [];
+    for (const [tag, valuesPerEntry, mask] of tagTable) {
+      const tagValues = entry.tags[tag];
+      if (!tagValues) continue;
+      control |= (tagValues.length / valuesPerEntry) << Math.log2(mask & -mask);
+      values.push(...tagValues.flatMap(varLen));
+    }
+    entryBytes.push(entry.name.length, ...encoder.encode(entry.name), control, ...values);
+  }
+
+  const idxtOffset = headerLength + entryBytes.length;
+  const data = new Uint8Array(idxtOffset + 4 + entries.length * 2);
+  data.set(encoder.encode('INDX'), 0);
+  data.set(uint32(headerLength), 4);
+  data.set(uint32(idxtOffset), 20);
+  data.set(uint32(entries.length), 24);
+  data.set(entryBytes, headerLength);
+  data.set(encoder.encode('IDXT'), idxtOffset);
+  entryOffsets.forEach((offset, i) => data.set([offset >> 8, offset & 0xff], idxtOffset + 4 + i * 2));
+
+  return [header, data];
+}
+
+/** Build a CNCX record, returning the offset of each string */
+function buildStrings(strings: string[]): { record: Uint8Array; offsets: number[] } {
+  const bytes: number[] = [];
+  const offsets = strings.map(value => {
+    const offset = bytes.length;
+    const encoded = encoder.encode(value);
+    bytes.push(...varLen(encoded.length), ...encoded);
+    return offset;
+  });
+  return { record: new Uint8Array(bytes), offsets };
+}
+
+/**
+ * HUFF/CDIC tables where every byte is its own 8-bit code, except 0x01,
+ * which stands for a still-compressed phrase that expands to "<p"
+ */
+function buildHuffCdic(): Uint8Array[] {
+  const huff = new Uint8Array(24 + 256 * 4 + 64 * 4);
+  huff.set(encoder.encode('HUFF'), 0);
+  huff.set(uint32(24), 4);
+  huff.set(uint32(24), 8);
+  huff.set(uint32(24 + 256 * 4), 12);
+  for (let code = 0; code < 256; code++) {
+    // Terminal 8-bit code; phrase index is maxcode - code
+    huff.set(uint32((code * 2) << 8 | 0x80 | 8), 24 + code * 4);
+  }
+
+  const phrases = Array.from({ length: 256 }, (_, i) =>
+    i === 1 ? { data: [0x3c, 0x70], expanded: false } : { data: [i], expanded: true });
+  const offsets: number[] = [];
+  const phraseBytes: number[] = [];
+  for (const phrase of phrases) {
+    offsets.push(512 + phraseBytes.length);
+    const header = phrase.data.length | (phrase.expanded ? 0x8000 : 0);
+    phraseBytes.push(header >> 8, header & 0xff, ...phrase.data);
+  }
+  const cdic = new Uint8Array(16 + 512 + phraseBytes.length);
+  cdic.set(encoder.encode('CDIC'), 0);
+  cdic.set(uint32(16), 4);
+  cdic.set(uint32(256), 8);
+  cdic.set(uint32(8), 12);
+  offsets.forEach((offset, i) => cdic.set([offset >> 8, offset & 0xff], 16 + i * 2));
+  cdic.set(phraseBytes, 16 + 512);
+
+  return [huff, cdic];
+}
+
+interface Kf8Fixture {
+  title?: string;
+  /** Each file's fragments, appended to its body in order */
+  parts: string[][];
+  toc?: { label: string; depth: number; fragment: number }[];
+  huff?: boolean;
+  images?: Uint8Array[];
+}
+
+const KF8_SKELETON = '<?xml version="1.0" encoding="utf-8"?>' +
+  '<html xmlns="http://www.w3.org/1999/xhtml"><head><title>Book</title></head><body aid="0"></body></html>';
+
+/**
+ * Build the records of a KF8 section. Record indexes in its header are
+ * relative to its first record, as in combined MOBI/KF8 files.
+ */
+function buildKf8Records(fixture: Kf8Fixture, exth?: Uint8Array): Uint8Array[] {
+  const { title = 'KF8 Book', parts, toc = [], huff = false, images = [] } = fixture;
+
+  // Each file is stored as its skeleton followed by its fragments
+  const skeletonEntries: { name: string; tags: Record<number, number[]> }[] = [];
+  const fragmentEntries: { name: string; tags: Record<number, number[]> }[] = [];
+  const stored: Uint8Array[] = [];
+  let start = 0;
+  parts.forEach((fragments, i) => {
+    const skeleton = encoder.encode(KF8_SKELETON);
+    let insertAt = start + KF8_SKELETON.indexOf('</body>');
+    let fragmentOffset = 0;
+    for (const fragment of fragments) {
+      const bytes = encoder.encode(fragment);
+      fragmentEntries.push({
+        name: String(insertAt).padStart(10, '0'),
+        tags: { 6: [fragmentOffset, bytes.length] },
+      });
+      insertAt += bytes.length;
+      fragmentOffset += bytes.length;
+      stored.push(bytes);
+    }
+    stored.splice(stored.length - fragments.length, 0, skeleton);
+    skeletonEntries.push({
+      name: `SKEL${String(i).padStart(10, '0')}`,
+      tags: { 1: [fragments.length], 6: [start, skeleton.length] },
+    });
+    start += skeleton.length + fragmentOffset;
+  });
+  const css = encoder.encode('p { margin: 0; }');
+  const markup = concatBytes(stored);
+  const text = concatBytes([markup, css]);
+
+  // Two text records, split mid-text, each with a multibyte byte and a one-byte extra entry
+  const split = Math.floor(text.length / 2);
+  const compress = (bytes: Uint8Array) => {
+    if (!huff) return bytes;
+    const result: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 0x3c && bytes[i + 1] === 0x70) {
+        result.push(0x01);
+        i++;
+      } else {
+        result.push(bytes[i]);
+      }
+    }
+    return new Uint8Array(result);
+  };
+  const textRecords = [text.subarray(0, split), text.subarray(split)]
+    .map(chunk => concatBytes([compress(chunk), new Uint8Array([0x00, 0x81])]));
+
+  const fdst = new Uint8Array([
+    ...encoder.encode('FDST'), ...uint32(12), ...uint32(2),
+    ...uint32(0), ...uint32(markup.length), ...uint32(markup.length), ...uint32(text.length),
+  ]);
+
+  const skeletonIndex = buildIndex([[1, 1, 0x03], [6, 2, 0x0c]], skeletonEntries);
+  const fragmentIndex = buildIndex([[6, 2, 0x01]], fragmentEntries);
+  const labels = buildStrings(toc.map(entry => entry.label));
+  const ncxIndex = [
+    ...buildIndex([[3, 1, 0x01], [4, 1, 0x02], [6, 2, 0x04]], toc.map((entry, i) => ({
+      name: String(i).padStart(3, '0'),
+      tags: { 3: [labels.offsets[i]], 4: [entry.depth], 6: [entry.fragment, 0] },
+    })), 1),
+    labels.record,
+  ];
+  const huffRecords = huff ? buildHuffCdic() : [];
+
+  const fdstIndex = 1 + textRecords.length;
+  const skeletonStart = fdstIndex + 1;
+  const fragmentStart = skeletonStart + skeletonIndex.length;
+  const ncxStart = fragmentStart + fragmentIndex.length;
+  const huffStart = ncxStart + ncxIndex.length;
+  const imageStart = huffStart + huffRecords.length;
+
+  const record0 = new Uint8Array(1024);
+  const view = new DataView(record0.buffer);
+  view.setUint16(0, huff ? 17480 : 1, false);
+  view.setUint32(4, text.length, false);
+  view.setUint16(8, textRecords.length, false);
+  view.setUint16(10, 4096, false);
+  record0.set(encoder.encode(MOBI_MAGIC), 16);
+  view.setUint32(20, 264, false);
+  view.setUint32(24, 2, false);
+  view.setUint32(28, 65001, false);
+  view.setUint32(36, 8, false);
+  const titleBytes = encoder.encode(title);
+  view.setUint32(84, 800, false);
+  view.setUint32(88, titleBytes.length, false);
+  record0.set(titleBytes, 800);
+  view.setUint32(108, images.length > 0 ? imageStart : 0xFFFFFFFF, false);
+  view.setUint32(112, huffStart, false);
+  view.setUint32(116, huffRecords.length, false);
+  view.setUint32(128, exth ? 0x40 : 0, false);
+  view.setUint32(192, fdstIndex, false);
+  view.setUint32(196, 2, false);
+  view.setUint16(242, 0b11, false);
+  view.setUint32(244, toc.length > 0 ? ncxStart : 0xFFFFFFFF, false);
+  view.setUint32(248, fragmentStart, false);
+  view.setUint32(252, skeletonStart, false);
+  if (exth) record0.set(exth, 16 + 264);
+
+  return [record0, ...textRecords, fdst, ...skeletonIndex, ...fragmentIndex, ...ncxIndex, ...huffRecords, ...images];
+}
+
+function buildKf8File(fixture: Kf8Fixture): ArrayBuffer {
+  return buildPdb('KF8 Book', buildKf8Records(fixture));
+}
+
 describe('MOBI Handler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -447,6 +722,27 @@ describe('MOBI Handler', () => {
     });
   });
 
+  describe('footnotes', () => {
+    it('follows filepos note links into popover footnotes', async () => {
+      const template =
+        '<html><body><h1>Chapter 1</h1>' +
+        '<p>The claim needs a source<sup><a filepos=0000000000>1</a></sup> and the text carries on after it.</p>' +
+        '<mbp:pagebreak/>' +
+        '<h1>Notes</h1><p><a filepos=0000000001>1</a> Footnote from the back of the book.</p>' +
+        '</body></html>';
+      // filepos is a byte offset into the text; zero-padding keeps the offset stable
+      const noteOffset = new TextEncoder().encode(template.slice(0, template.lastIndexOf('<p>'))).length;
+      const htmlContent = template.replace('0000000000', String(noteOffset).padStart(10, '0'));
+
+      const doc = await extractFromMobi(createMockMobiFile('notes.mobi', buildMobiFile({ htmlContent })));
+
+      expect(doc.footnotes).toEqual([{ id: 'fn-1', label: '1', content: 'Footnote from the back of the book.' }]);
+      const paragraph = doc.blocks.find(b => b.type === 'paragraph');
+      expect(paragraph).toMatchObject({ footnoteRefs: ['fn-1'] });
+      expect(doc.book?.chapters.some(ch => ch.plainText.includes('back of the book'))).toBe(false);
+    });
+  });
+
   describe('encoding handling', () => {
     it('handles UTF-8 encoded content', async () => {
       const buffer = buildMobiFile({
@@ -461,6 +757,100 @@ describe('MOBI Handler', () => {
     });
   });
 
+  describe('KF8 (AZW3)', () => {
+    const BOOK: Kf8Fixture = {
+      title: 'The Voyage',
+      parts: [
+        [`<h1>Chapter One</h1><p>${KF8_TEXT}</p>`],
+        ['<h1>Chapter Two</h1>', `<p>${KF8_TEXT}</p>`, `<h2>A Storm</h2><p>${KF8_TEXT}</p>`],
+      ],
+      toc: [
+        { label: 'Chapter One', depth: 0, fragment: 0 },
+        { label: 'Chapter Two', depth: 0, fragment: 1 },
+        { label: 'A Storm', depth: 1, fragment: 3 },
+      ],
+    };
+
+    it('rebuilds chapters from the skeleton and fragment indexes', async () => {
+      const doc = await extractFromMobi(createMockMobiFile('voyage.azw3', buildKf8File(BOOK)));
+
+      expect(doc.metadata.title).toBe('The Voyage');
+      expect(doc.book?.chapters.map(c => c.title)).toEqual(['Chapter One', 'Chapter Two']);
+      expect(doc.book?.chapters[1].blocks.map(b => b.type)).toEqual(['heading', 'paragraph', 'heading', 'paragraph']);
+      expect(doc.blocks).toEqual(doc.book?.chapters[0].blocks);
+      // The CSS flow after the markup isn't content
+      expect(doc.book?.chapters.some(c => c.plainText.includes('margin'))).toBe(false);
+    });
+
+    it('builds a nested table of contents from the NCX', async () => {
+      const doc = await extractFromMobi(createMockMobiFile('voyage.azw3', buildKf8File(BOOK)));
+
+      expect(doc.book?.toc).toEqual([
+        { id: 'toc-0', label: 'Chapter One', chapterIndex: 0, depth: 0 },
+        { id: 'toc-1', label: 'Chapter Two', chapterIndex: 1, depth: 0 },
+        { id: 'toc-2', label: 'A Storm', chapterIndex: 1, depth: 1 },
+      ]);
+    });
+
+    it('decompresses HUFF/CDIC text', async () => {
+      const doc = await extractFromMobi(createMockMobiFile('voyage.azw3', buildKf8File({ ...BOOK, huff: true })));
+
+      expect(doc.book?.chapters.map(c => c.title)).toEqual(['Chapter One', 'Chapter Two']);
+      expect(doc.plainText).toContain(KF8_TEXT);
+    });
+
+    it('follows kindle:pos links into footnotes', async () => {
+      const doc = await extractFromMobi(createMockMobiFile('notes.azw3', buildKf8File({
+        parts: [
+          [`<h1>Chapter One</h1><p>${KF8_TEXT}<sup><a href="kindle:pos:fid:0001:off:0000000000">1</a></sup></p>`],
+          ['<aside id="n1" epub:type="footnote" xmlns:epub="http://www.idpf.org/2007/ops">A note about the harbour.</aside>'],
+        ],
+      })));
+
+      expect(doc.footnotes).toEqual([{ id: 'fn-1', label: '1', content: 'A note about the harbour.' }]);
+      expect(doc.blocks[1]).toMatchObject({ type: 'paragraph', footnoteRefs: ['fn-1'] });
+      expect(doc.book?.chapters).toHaveLength(1);
+    });
+
+    it('inlines kindle:embed images', async () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      const doc = await extractFromMobi(createMockMobiFile('images.azw3', buildKf8File({
+        parts: [[`<h1>Chapter One</h1><p>${KF8_TEXT}</p><img src="kindle:embed:0001?mime=image/png"/>`]],
+        images: [png],
+      })));
+
+      expect(doc.blocks.find(b => b.type === 'figure')).toMatchObject({ src: expect.stringMatching(/^data:image\/png;base64,/) });
+    });
+
+    it('reads the KF8 section of a combined MOBI/KF8 file', async () => {
+      // The legacy MOBI section's text, then the KF8 section after a boundary record
+      const legacyText = encoder.encode(`<html><body><p>Legacy text ${KF8_TEXT}</p></body></html>`);
+      const kf8Records = buildKf8Records(BOOK);
+      const exth = new Uint8Array([
+        ...encoder.encode('EXTH'), ...uint32(12 + 12), ...uint32(1),
+        ...uint32(121), ...uint32(12), ...uint32(3),
+      ]);
+      const legacyRecord0 = new Uint8Array(1024);
+      const view = new DataView(legacyRecord0.buffer);
+      view.setUint16(0, 1, false);
+      view.setUint32(4, legacyText.length, false);
+      view.setUint16(8, 1, false);
+      legacyRecord0.set(encoder.encode(MOBI_MAGIC), 16);
+      view.setUint32(20, 232, false);
+      view.setUint32(28, 65001, false);
+      view.setUint32(36, 6, false);
+      view.setUint32(108, 0xFFFFFFFF, false);
+      view.setUint32(128, 0x40, false);
+      legacyRecord0.set(exth, 16 + 232);
+
+      const buffer = buildPdb('Combined', [legacyRecord0, legacyText, encoder.encode('BOUNDARY'), ...kf8Records]);
+      const doc = await extractFromMobi(createMockMobiFile('combined.mobi', buffer));
+
+      expect(doc.book?.chapters.map(c => c.title)).toEqual(['Chapter One', 'Chapter Two']);
+      expect(doc.plainText).not.toContain('Legacy text');
+    });
+  });
+
   describe('file extensions', () => {
     it('handles .mobi extension', async () => {
       const buffer = buildMobiFile({ title: 'MOBI Book' });
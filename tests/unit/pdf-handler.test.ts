@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
 
 // Mock chrome.runtime.getURL before importing the module
 vi.stubGlobal('chrome', {
@@ -25,7 +27,28 @@ vi.mock('pdfjs-dist', () => ({
   }),
 }));
 
-import { extractFromPdf, hasPdfTextLayer } from '@/lib/pdf-handler';
+// Mock the OCR fallback
+const mockRecognizePdfPages = vi.fn();
+
+vi.mock('@/lib/pdf-ocr', () => ({
+  recognizePdfPages: (...args: unknown[]) => mockRecognizePdfPages(...args),
+}));
+
+import { getPlainText } from '@/lib/block-utils';
+import { extractFromPdf, hasPdfTextLayer, createTextLine, PdfExtractionError } from '@/lib/pdf-handler';
+
+// Load a fixture PDF: the text content pdf.js returns for each page
+function mockPdfFixture(name: string) {
+  const fixturePath = path.join(__dirname, '../fixtures/pdf', `${name}.json`);
+  const { pages } = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as { pages: { items: unknown[] }[] };
+  mockGetPage.mockImplementation(async (pageNum: number) => ({
+    getTextContent: async () => pages[pageNum - 1],
+  }));
+  mockGetDocument.mockResolvedValue({
+    numPages: pages.length,
+    getPage: mockGetPage,
+  });
+}
 
 // Create a proper mock File with arrayBuffer method
 function createMockFile(name: string, content: string = 'mock content'): File {
@@ -37,6 +60,7 @@ function createMockFile(name: string, content: string = 'mock content'): File {
 describe('PDF Handler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockRecognizePdfPages.mockResolvedValue([]);
   });
 
   describe('extractFromPdf', () => {
@@ -129,6 +153,68 @@ describe('PDF Handler', () => {
       await expect(extractFromPdf(file)).rejects.toThrow('No text could be extracted');
     });
 
+    it('falls back to OCR for PDF without text layer', async () => {
+      mockGetPage.mockResolvedValue({
+        getTextContent: async () => ({ items: [] }),
+      });
+      mockGetDocument.mockResolvedValue({
+        numPages: 1,
+        getPage: mockGetPage,
+      });
+      mockRecognizePdfPages.mockResolvedValue([[
+        createTextLine('Scanned Title', 20, false),
+        createTextLine('', 0, false),
+        createTextLine('Body text recognized from the page image.', 11, false),
+        createTextLine('It continues on the next line.', 11, false),
+        createTextLine('', 0, false),
+        createTextLine('More body text in a second paragraph.', 11, false),
+      ]]);
+
+      const onOcrProgress = vi.fn();
+      const file = createMockFile('scanned.pdf');
+      const doc = await extractFromPdf(file, { onOcrProgress });
+
+      expect(mockRecognizePdfPages).toHaveBeenCalledWith(
+        expect.objectContaining({ numPages: 1 }),
+        expect.objectContaining({ onOcrProgress })
+      );
+      expect(doc.blocks[0]).toMatchObject({ type: 'heading', content: 'Scanned Title' });
+      expect(doc.blocks[1]).toMatchObject({
+        type: 'paragraph',
+        content: 'Body text recognized from the page image. It continues on the next line.',
+      });
+    });
+
+    it('rejects with cancelled error when OCR is cancelled', async () => {
+      mockGetPage.mockResolvedValue({
+        getTextContent: async () => ({ items: [] }),
+      });
+      mockGetDocument.mockResolvedValue({
+        numPages: 1,
+        getPage: mockGetPage,
+      });
+      mockRecognizePdfPages.mockRejectedValue(new PdfExtractionError('Import cancelled.', 'cancelled'));
+
+      const file = createMockFile('scanned.pdf');
+
+      await expect(extractFromPdf(file)).rejects.toMatchObject({ type: 'cancelled' });
+    });
+
+    it('reports no text layer when OCR fails', async () => {
+      mockGetPage.mockResolvedValue({
+        getTextContent: async () => ({ items: [] }),
+      });
+      mockGetDocument.mockResolvedValue({
+        numPages: 1,
+        getPage: mockGetPage,
+      });
+      mockRecognizePdfPages.mockRejectedValue(new Error('Failed to load OCR engine'));
+
+      const file = createMockFile('scanned.pdf');
+
+      await expect(extractFromPdf(file)).rejects.toMatchObject({ type: 'no-text-layer' });
+    });
+
     it('creates blocks from paragraphs', async () => {
       mockGetTextContent.mockResolvedValue({
         items: [
@@ -243,6 +329,128 @@ describe('PDF Handler', () => {
     });
   });
 
+  describe('layout analysis', () => {
+    it('reads two-column pages column by column', async () => {
+      mockPdfFixture('two-column-paper');
+
+      const doc = await extractFromPdf(createMockFile('paper.pdf'));
+
+      expect(doc.blocks.map(b => [b.type, 'content' in b ? b.content : ''])).toEqual([
+        ['heading', 'Layout Analysis for Scanned Papers'],
+        ['paragraph', 'Left column starts the first paragraph and keeps going with text that ends in the middle of ' +
+          'a word at the bottom, recognition, and then finishes the first paragraph.'],
+        ['paragraph', 'A second paragraph begins in the right column of the first page.'],
+        ['paragraph', 'The second page opens with a paragraph of its own that runs down the left column and on ' +
+          'into the right column, where it ends the page on a word that needs continuation on the last page, ' +
+          'which is set in a single column of text running the full width of the page without any gutter at all.'],
+        ['paragraph', 'It closes with a short final paragraph.'],
+      ]);
+    });
+
+    it('removes running headers and page numbers', async () => {
+      mockPdfFixture('report-with-running-headers');
+
+      const doc = await extractFromPdf(createMockFile('report.pdf'));
+      const blocks = doc.book?.chapters.flatMap(chapter => chapter.blocks) ?? doc.blocks;
+
+      expect(getPlainText(blocks)).not.toContain('Annual Report');
+      expect(getPlainText(blocks)).not.toMatch(/Page \d of 4/);
+      expect(blocks.map(b => [b.type, 'content' in b ? b.content : ''])).toEqual([
+        ['heading', 'Summary'],
+        ['paragraph', 'This report describes the year in review for the reading programme and the results of the ' +
+          'new pacing experiments. Participants improved their reading speed without losing comprehension, ' +
+          'which was measured with short quizzes after each session.'],
+        ['heading', 'Results'],
+        ['paragraph', 'Median reading speed rose by a fifth over the year. The full data tables are published separately.'],
+      ]);
+    });
+
+    it('keeps hyphens that are not split words', async () => {
+      mockGetTextContent.mockResolvedValue({
+        items: [
+          { str: 'A well-known result -', hasEOL: true },
+          { str: 'Another sentence follows.', hasEOL: true },
+        ],
+      });
+      mockGetPage.mockResolvedValue({
+        getTextContent: mockGetTextContent,
+      });
+      mockGetDocument.mockResolvedValue({
+        numPages: 1,
+        getPage: mockGetPage,
+      });
+
+      const doc = await extractFromPdf(createMockFile('test.pdf'));
+
+      expect(doc.plainText).toBe('A well-known result - Another sentence follows.');
+    });
+  });
+
+  describe('table of contents', () => {
+    // One section per page: a large heading followed by body text
+    function mockSections(titles: string[], outline: unknown[] | null) {
+      mockGetPage.mockImplementation(async (pageNum: number) => ({
+        getTextContent: async () => ({
+          items: [
+            { str: titles[pageNum - 1], height: 20, hasEOL: true },
+            { str: `Body text of the ${titles[pageNum - 1].toLowerCase()} section.`, height: 10, hasEOL: true },
+            { str: `The ${titles[pageNum - 1].toLowerCase()} text runs on.`, height: 10, hasEOL: true },
+          ],
+        }),
+      }));
+      mockGetDocument.mockResolvedValue({
+        numPages: titles.length,
+        getPage: mockGetPage,
+        getOutline: async () => outline,
+        getDestination: async (id: string) => (id === 'intro' ? [{ num: 1, gen: 0 }, { name: 'XYZ' }] : null),
+        getPageIndex: async (ref: { num: number }) => ref.num - 1,
+      });
+    }
+
+    it('builds chapters from the PDF outline', async () => {
+      mockSections(['Introduction', 'Background', 'Methods'], [
+        {
+          title: 'Introduction',
+          dest: 'intro',
+          items: [{ title: 'Background', dest: [{ num: 2, gen: 0 }, { name: 'Fit' }], items: [] }],
+        },
+        { title: 'Project website', dest: null, url: 'https://example.com', items: [] },
+        { title: 'Methods', dest: [2, { name: 'Fit' }], items: [] },
+      ]);
+
+      const doc = await extractFromPdf(createMockFile('report.pdf'));
+
+      expect(doc.book?.toc).toEqual([
+        { id: 'toc-0', label: 'Introduction', chapterIndex: 0, depth: 0 },
+        { id: 'toc-1', label: 'Background', chapterIndex: 1, depth: 1 },
+        { id: 'toc-2', label: 'Methods', chapterIndex: 2, depth: 0 },
+      ]);
+      expect(doc.book?.chapters.map(c => c.title)).toEqual(['Introduction', 'Background', 'Methods']);
+      expect(doc.book?.chapters[1].blocks[0]).toMatchObject({ type: 'heading', content: 'Background' });
+      expect(doc.book?.chapters[1].wordCount).toBe(12);
+      // The reader starts in the first chapter
+      expect(doc.blocks).toEqual(doc.book?.chapters[0].blocks);
+    });
+
+    it('falls back to large headings without an outline', async () => {
+      mockSections(['Part One', 'Part Two'], null);
+
+      const doc = await extractFromPdf(createMockFile('report.pdf'));
+
+      expect(doc.book?.toc.map(item => item.label)).toEqual(['Part One', 'Part Two']);
+      expect(doc.book?.chapters[0].plainText).toBe('Part One Body text of the part one section. The part one text runs on.');
+    });
+
+    it('keeps a PDF with a single section as one document', async () => {
+      mockSections(['Only Section'], []);
+
+      const doc = await extractFromPdf(createMockFile('note.pdf'));
+
+      expect(doc.book).toBeUndefined();
+      expect(doc.blocks).toHaveLength(2);
+    });
+  });
+
   describe('hasPdfTextLayer', () => {
     it('returns true for PDF with text', async () => {
       mockGetTextContent.mockResolvedValue({
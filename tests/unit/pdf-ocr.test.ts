@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Page } from 'tesseract.js';
+
+vi.stubGlobal('chrome', {
+  runtime: {
+    getURL: vi.fn((path: string) => `chrome-extension://test/${path}`),
+  },
+});
+
+// Mock the Tesseract worker
+const mockRecognize = vi.fn();
+const mockTerminate = vi.fn();
+const mockCreateWorker = vi.fn();
+
+vi.mock('tesseract.js', () => ({
+  OEM: { LSTM_ONLY: 1 },
+  createWorker: (...args: unknown[]) => mockCreateWorker(...args),
+}));
+
+import { pageToTextLines, recognizePdfPages } from '@/lib/pdf-ocr';
+import type { PDFDocumentProxy } from '@/lib/pdf-handler';
+
+// Build a recognized line; bbox coordinates are in rendered pixels
+function line(text: string, height: number, confidence = 90) {
+  return {
+    text,
+    confidence,
+    bbox: { x0: 0, y0: 0, x1: 500, y1: height },
+    rowAttributes: { rowHeight: height, ascenders: 0, descenders: 0 },
+    words: [],
+    baseline: { x0: 0, y0: 0, x1: 0, y1: 0 },
+  };
+}
+
+function page(paragraphs: ReturnType<typeof line>[][]): Page {
+  return {
+    blocks: [{ paragraphs: paragraphs.map(lines => ({ lines })) }],
+  } as unknown as Page;
+}
+
+function createPdf(numPages: number): PDFDocumentProxy {
+  return {
+    numPages,
+    getPage: vi.fn(async () => ({
+      getTextContent: async () => ({ items: [] }),
+      getViewport: ({ scale }: { scale: number }) => ({ width: 612 * scale, height: 792 * scale }),
+      render: () => ({ promise: Promise.resolve() }),
+    })),
+  };
+}
+
+describe('PDF OCR', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTerminate.mockResolvedValue(undefined);
+    mockCreateWorker.mockResolvedValue({ recognize: mockRecognize, terminate: mockTerminate });
+  });
+
+  describe('pageToTextLines', () => {
+    it('converts row heights to font sizes and separates paragraphs', () => {
+      const lines = pageToTextLines(page([
+        [line('Chapter One', 40)],
+        [line('First line of text', 20), line('second line', 20)],
+      ]), 2);
+
+      expect(lines.map(l => [l.text, l.fontSize, l.isEmptyLine])).toEqual([
+        ['Chapter One', 20, false],
+        ['', 0, true],
+        ['First line of text', 10, false],
+        ['second line', 10, false],
+        ['', 0, true],
+      ]);
+    });
+
+    it('detects list items and skips low-confidence noise', () => {
+      const lines = pageToTextLines(page([
+        [line('• Bullet item', 20), line('~ .,', 20, 12), line('2. Numbered item', 20)],
+      ]), 1);
+
+      expect(lines.filter(l => !l.isEmptyLine).map(l => [l.text, l.isBulletListItem, l.isNumberedListItem])).toEqual([
+        ['• Bullet item', true, false],
+        ['2. Numbered item', false, true],
+      ]);
+    });
+  });
+
+  describe('recognizePdfPages', () => {
+    it('recognizes each page with the bundled engine and reports progress', async () => {
+      mockRecognize.mockResolvedValue({ data: page([[line('Recognized text', 50)]]) });
+      const onOcrProgress = vi.fn();
+
+      const pages = await recognizePdfPages(createPdf(2), { onOcrProgress });
+
+      expect(mockCreateWorker).toHaveBeenCalledWith('eng', 1, expect.objectContaining({
+        workerPath: 'chrome-extension://test/ocr/worker.min.js',
+        langPath: 'chrome-extension://test/ocr',
+      }));
+      expect(onOcrProgress.mock.calls.map(([p]) => p)).toEqual([
+        { page: 1, totalPages: 2 },
+        { page: 2, totalPages: 2 },
+      ]);
+      expect(pages).toHaveLength(2);
+      expect(pages[0][0]).toMatchObject({ text: 'Recognized text' });
+      expect(pages[0][0].fontSize).toBeCloseTo(12);
+      expect(mockTerminate).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops and rejects with a cancelled error when aborted', async () => {
+      const controller = new AbortController();
+      mockRecognize.mockImplementation(async () => {
+        controller.abort();
+        throw new Error('Worker terminated');
+      });
+
+      await expect(recognizePdfPages(createPdf(3), { signal: controller.signal }))
+        .rejects.toMatchObject({ type: 'cancelled' });
+      expect(mockRecognize).toHaveBeenCalledTimes(1);
+      expect(mockTerminate).toHaveBeenCalledTimes(1);
+    });
+  });
+});
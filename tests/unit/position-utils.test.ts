@@ -5,7 +5,10 @@ import {
   rsvpIndexToWordCount,
   wordCountToPacing,
   getTotalWordCount,
+  getFigureWordOffsets,
+  getTableHeaderAtWord,
 } from '@/lib/position-utils';
+import { tokenizeBlocksForRSVP } from '@/lib/tokenizer';
 import type { Block } from '@/types';
 
 describe('Position Utils', () => {
@@ -72,49 +75,59 @@ describe('Position Utils', () => {
   });
 
   describe('wordCountToRsvpIndex', () => {
-    it('returns same value for chunk size 1', () => {
-      expect(wordCountToRsvpIndex(0, 1)).toBe(0);
-      expect(wordCountToRsvpIndex(5, 1)).toBe(5);
-      expect(wordCountToRsvpIndex(100, 1)).toBe(100);
-    });
+    const words = (count: number) => Array.from({ length: count }, (_, i) => `w${i}`).join(' ');
 
-    it('divides by chunk size and floors', () => {
-      expect(wordCountToRsvpIndex(10, 2)).toBe(5);
-      expect(wordCountToRsvpIndex(11, 2)).toBe(5);
-      expect(wordCountToRsvpIndex(12, 2)).toBe(6);
+    it('returns same value for chunk size 1', () => {
+      const tokens = tokenizeBlocksForRSVP([createParagraph(words(101))], 1);
+      expect(wordCountToRsvpIndex(tokens, 0)).toBe(0);
+      expect(wordCountToRsvpIndex(tokens, 5)).toBe(5);
+      expect(wordCountToRsvpIndex(tokens, 100)).toBe(100);
     });
 
-    it('handles chunk size 3', () => {
-      expect(wordCountToRsvpIndex(0, 3)).toBe(0);
-      expect(wordCountToRsvpIndex(1, 3)).toBe(0);
-      expect(wordCountToRsvpIndex(2, 3)).toBe(0);
-      expect(wordCountToRsvpIndex(3, 3)).toBe(1);
-      expect(wordCountToRsvpIndex(8, 3)).toBe(2);
+    it('finds the chunk holding the word', () => {
+      const tokens = tokenizeBlocksForRSVP([createParagraph(words(13))], 2);
+      expect(wordCountToRsvpIndex(tokens, 10)).toBe(5);
+      expect(wordCountToRsvpIndex(tokens, 11)).toBe(5);
+      expect(wordCountToRsvpIndex(tokens, 12)).toBe(6);
     });
 
-    it('handles edge case of chunk size 0', () => {
-      expect(wordCountToRsvpIndex(10, 0)).toBe(0);
+    it('restarts chunks at each block', () => {
+      // Chunks of 3: [w0 w1 w2] [w3 w4] | [w0 w1 w2] [w3]
+      const tokens = tokenizeBlocksForRSVP([createParagraph(words(5)), createParagraph(words(4))], 3);
+      expect(wordCountToRsvpIndex(tokens, 2)).toBe(0);
+      expect(wordCountToRsvpIndex(tokens, 4)).toBe(1);
+      expect(wordCountToRsvpIndex(tokens, 5)).toBe(2);
+      expect(wordCountToRsvpIndex(tokens, 8)).toBe(3);
     });
 
-    it('handles negative chunk size', () => {
-      expect(wordCountToRsvpIndex(10, -1)).toBe(0);
+    it('clamps past the end and handles no tokens', () => {
+      const tokens = tokenizeBlocksForRSVP([createParagraph(words(4))], 1);
+      expect(wordCountToRsvpIndex(tokens, 10)).toBe(3);
+      expect(wordCountToRsvpIndex([], 10)).toBe(0);
     });
   });
 
   describe('rsvpIndexToWordCount', () => {
-    it('returns same value for chunk size 1', () => {
-      expect(rsvpIndexToWordCount(0, 1)).toBe(0);
-      expect(rsvpIndexToWordCount(5, 1)).toBe(5);
-      expect(rsvpIndexToWordCount(100, 1)).toBe(100);
+    it('returns the word count at the start of the token', () => {
+      const blocks = [createParagraph('One two three four five'), createParagraph('Six seven')];
+      expect(rsvpIndexToWordCount(tokenizeBlocksForRSVP(blocks, 1), 5)).toBe(5);
+      expect(rsvpIndexToWordCount(tokenizeBlocksForRSVP(blocks, 2), 2)).toBe(4);
+      expect(rsvpIndexToWordCount(tokenizeBlocksForRSVP(blocks, 2), 3)).toBe(5);
     });
 
-    it('multiplies by chunk size', () => {
-      expect(rsvpIndexToWordCount(5, 2)).toBe(10);
-      expect(rsvpIndexToWordCount(3, 3)).toBe(9);
+    it('counts a heading title card as all of its words', () => {
+      const blocks: Block[] = [
+        { type: 'heading', level: 2, content: 'A three word heading', id: 'h' },
+        createParagraph('Body text'),
+      ];
+      expect(rsvpIndexToWordCount(tokenizeBlocksForRSVP(blocks, 1), 1)).toBe(4);
     });
 
-    it('handles edge case of chunk size 0', () => {
-      expect(rsvpIndexToWordCount(10, 0)).toBe(0);
+    it('handles out-of-range indices', () => {
+      const tokens = tokenizeBlocksForRSVP([createParagraph('One two three')], 1);
+      expect(rsvpIndexToWordCount(tokens, -1)).toBe(0);
+      expect(rsvpIndexToWordCount(tokens, 10)).toBe(2);
+      expect(rsvpIndexToWordCount([], 3)).toBe(0);
     });
   });
 
@@ -186,6 +199,55 @@ describe('Position Utils', () => {
     });
   });
 
+  describe('getFigureWordOffsets', () => {
+    const createFigure = (id: string): Block => ({
+      type: 'figure',
+      src: 'photo.jpg',
+      alt: '',
+      id,
+    });
+
+    it('places figures before the next word and adds no words', () => {
+      const blocks = [
+        createFigure('block-0'),
+        createParagraph('One two three'),  // 3 words
+        createFigure('block-2'),
+        createParagraph('Four five'),      // 2 words
+      ];
+      const offsets = getFigureWordOffsets(blocks);
+      expect(offsets.map(o => [o.figure.id, o.wordCount])).toEqual([
+        ['block-0', 0],
+        ['block-2', 3],
+      ]);
+      expect(getTotalWordCount(blocks)).toBe(5);
+    });
+  });
+
+  describe('tables', () => {
+    const table: Block = {
+      type: 'table',
+      headerRows: [['Name', 'Score']],
+      rows: [['Alice Smith', '10'], ['Bob', '7']],
+      id: 'block-1',
+    };
+
+    it('counts header and body cells as words', () => {
+      const blocks = [createParagraph('One two'), table];
+      // 2 + (Name Score) + (Alice Smith 10) + (Bob 7)
+      expect(getTotalWordCount(blocks)).toBe(9);
+    });
+
+    it('finds the column header for words in body rows', () => {
+      const blocks = [createParagraph('One two'), table];
+      expect(getTableHeaderAtWord(blocks, 0)).toBeUndefined();  // paragraph
+      expect(getTableHeaderAtWord(blocks, 2)).toBeUndefined();  // header row
+      expect(getTableHeaderAtWord(blocks, 5)).toBe('Name');     // "Smith"
+      expect(getTableHeaderAtWord(blocks, 6)).toBe('Score');    // "10"
+      expect(getTableHeaderAtWord(blocks, 8)).toBe('Score');    // "7"
+      expect(getTableHeaderAtWord(blocks, 9)).toBeUndefined();  // past the end
+    });
+  });
+
   describe('round-trip conversions', () => {
     it('pacing -> wordCount -> pacing preserves position', () => {
       const blocks = [
@@ -210,12 +272,35 @@ describe('Position Utils', () => {
       }
     });
 
-    it('rsvpIndex -> wordCount -> rsvpIndex preserves position for chunk size 1', () => {
-      const testIndices = [0, 5, 10, 50, 100];
-      for (const index of testIndices) {
-        const wordCount = rsvpIndexToWordCount(index, 1);
-        const result = wordCountToRsvpIndex(wordCount, 1);
-        expect(result).toBe(index);
+    it('rsvpIndex -> wordCount -> rsvpIndex preserves position', () => {
+      const blocks: Block[] = [
+        { type: 'heading', level: 1, content: 'Chapter one', id: 'h' },
+        createParagraph('One two three four five'),
+        createList(['Item one', 'Item two three']),
+        createParagraph('Six seven'),
+      ];
+      for (const chunkSize of [1, 2, 3]) {
+        const tokens = tokenizeBlocksForRSVP(blocks, chunkSize);
+        for (let index = 0; index < tokens.length; index++) {
+          expect(wordCountToRsvpIndex(tokens, rsvpIndexToWordCount(tokens, index))).toBe(index);
+        }
+      }
+    });
+
+    it('block starts survive pacing -> rsvp -> pacing for any chunk size', () => {
+      const blocks: Block[] = [
+        { type: 'heading', level: 1, content: 'Chapter one', id: 'h' },
+        createParagraph('One two three four five'),
+        createList(['Item one', 'Item two three']),
+        createParagraph('Six seven'),
+      ];
+      for (const chunkSize of [1, 2, 3]) {
+        const tokens = tokenizeBlocksForRSVP(blocks, chunkSize);
+        for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+          const rsvpIndex = wordCountToRsvpIndex(tokens, pacingToWordCount(blocks, blockIndex, 0));
+          expect(tokens[rsvpIndex].blockIndex).toBe(blockIndex);
+          expect(wordCountToPacing(blocks, rsvpIndexToWordCount(tokens, rsvpIndex))).toEqual({ blockIndex, wordIndex: 0 });
+        }
       }
     });
 
@@ -224,23 +309,26 @@ describe('Position Utils', () => {
         createParagraph('One two three four five six'),  // 6 words
         createParagraph('Seven eight nine ten'),         // 4 words
       ];
-      const chunkSize = 2;
+      const tokens = tokenizeBlocksForRSVP(blocks, 2);
 
       // Position at block 0, word 4 (5th word)
       const wordCount = pacingToWordCount(blocks, 0, 4);
       expect(wordCount).toBe(4);
 
       // Convert to RSVP (chunk size 2 means token index 2)
-      const rsvpIndex = wordCountToRsvpIndex(wordCount, chunkSize);
+      const rsvpIndex = wordCountToRsvpIndex(tokens, wordCount);
       expect(rsvpIndex).toBe(2);
 
       // Convert back - should be at word 4 (start of token 2)
-      const backWordCount = rsvpIndexToWordCount(rsvpIndex, chunkSize);
+      const backWordCount = rsvpIndexToWordCount(tokens, rsvpIndex);
       expect(backWordCount).toBe(4);
 
       // Back to pacing
       const result = wordCountToPacing(blocks, backWordCount);
       expect(result).toEqual({ blockIndex: 0, wordIndex: 4 });
+
+      // Mid-chunk positions round back to the chunk start
+      expect(rsvpIndexToWordCount(tokens, wordCountToRsvpIndex(tokens, pacingToWordCount(blocks, 1, 1)))).toBe(6);
     });
   });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { Block, PassageStats } from '@/types';
+import {
+  MAX_SAVED_PASSAGES,
+  recordPassageActivity,
+  mergeReadingDifficulty,
+  getDifficultPassages,
+  getPassageScore,
+} from '@/lib/reading-difficulty';
+
+const block: Block = { type: 'paragraph', content: 'One two three four five six seven eight nine ten.', id: 'p' };
+
+function createPassage(blockIndex: number, overrides: Partial<PassageStats> = {}): PassageStats {
+  return {
+    chapterIndex: 0,
+    blockIndex,
+    preview: `Passage ${blockIndex}`,
+    wordsRead: 10,
+    dwellMs: 2000,
+    regressions: 0,
+    ...overrides,
+  };
+}
+
+describe('Reading difficulty', () => {
+  describe('recordPassageActivity', () => {
+    it('adds dwell time and rewinds to the passage', () => {
+      let passages = recordPassageActivity({}, { chapterIndex: 1, blockIndex: 3 }, block, { dwellMs: 1000 });
+      passages = recordPassageActivity(passages, { chapterIndex: 1, blockIndex: 3 }, block, { regressions: 1 });
+
+      expect(passages).toEqual({
+        '1:3': {
+          chapterIndex: 1,
+          blockIndex: 3,
+          preview: 'One two three four five six seven eight nine ten.',
+          wordsRead: 10,
+          dwellMs: 1000,
+          regressions: 1,
+        },
+      });
+    });
+
+    it('shortens long previews', () => {
+      const long: Block = { type: 'paragraph', content: 'word '.repeat(50), id: 'l' };
+      const { preview } = recordPassageActivity({}, { chapterIndex: 0, blockIndex: 0 }, long, {})['0:0'];
+
+      expect(preview.length).toBeLessThanOrEqual(80);
+      expect(preview.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('getPassageScore', () => {
+    it('adds how much slower than usual the passage was to its rewinds', () => {
+      expect(getPassageScore(createPassage(0, { regressions: 2 }), 200)).toBe(2);
+      expect(getPassageScore(createPassage(0, { dwellMs: 6000 }), 200)).toBe(2);
+      expect(getPassageScore(createPassage(0, { dwellMs: 1000 }), 200)).toBe(0);
+    });
+  });
+
+  describe('mergeReadingDifficulty', () => {
+    it('sums sessions per passage and keeps the totals', () => {
+      const first = mergeReadingDifficulty(undefined, [createPassage(0, { regressions: 1 }), createPassage(1)], 1000);
+      const second = mergeReadingDifficulty(first, [createPassage(0, { regressions: 2 })], 2000);
+
+      expect(second.passages).toEqual([createPassage(0, { wordsRead: 20, dwellMs: 4000, regressions: 3 })]);
+      expect(second).toMatchObject({ dwellMs: 6000, wordsRead: 30, regressions: 3, updatedAt: 2000 });
+    });
+
+    it('keeps the hardest passages first, up to the limit', () => {
+      const session = Array.from({ length: MAX_SAVED_PASSAGES + 5 }, (_, i) => createPassage(i, { regressions: i + 1 }));
+      const { passages } = mergeReadingDifficulty(undefined, session, 0);
+
+      expect(passages).toHaveLength(MAX_SAVED_PASSAGES);
+      expect(passages[0].blockIndex).toBe(MAX_SAVED_PASSAGES + 4);
+    });
+  });
+
+  describe('getDifficultPassages', () => {
+    it('lists passages with rewinds or long dwell times', () => {
+      const difficulty = mergeReadingDifficulty(undefined, [
+        createPassage(0, { regressions: 1 }),
+        createPassage(1, { dwellMs: 12000 }),
+        createPassage(2, { dwellMs: 2500 }),
+        createPassage(3),
+      ], 0);
+
+      expect(getDifficultPassages(difficulty).map(passage => passage.blockIndex)).toEqual([1, 0]);
+      expect(getDifficultPassages(difficulty, 1)).toHaveLength(1);
+      expect(getDifficultPassages(null)).toEqual([]);
+    });
+  });
+});
@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   addRecent,
   updateLastOpened,
+  updateArchiveItem,
+  recordReadingDifficulty,
+  flushPendingArchiveWrites,
   removeRecent,
   clearRecents,
   queryRecents,
@@ -15,7 +18,7 @@ import {
   MAX_ARCHIVE_ITEMS,
   MAX_PASTE_CONTENT_SIZE,
 } from '@/lib/recents-service';
-import type { ArchiveItem, DocumentMetadata } from '@/types';
+import type { ArchiveItem, DocumentMetadata, PassageStats } from '@/types';
 
 // Helper to set up chrome.storage.local mock data
 function setMockStorage(data: Record<string, unknown>) {
@@ -237,6 +240,66 @@ describe('Recents Service', () => {
     });
   });
 
+  describe('reading session writes', () => {
+    const passage: PassageStats = {
+      chapterIndex: 0,
+      blockIndex: 2,
+      preview: 'A hard passage',
+      wordsRead: 40,
+      dwellMs: 12000,
+      regressions: 3,
+    };
+    let store: Record<string, unknown>;
+
+    beforeEach(() => {
+      store = {
+        archiveItems: [{ id: 'item-1', type: 'web', title: 'Article', sourceLabel: 'a.com', createdAt: 1000, lastOpenedAt: 1000 }],
+        version: 2,
+      };
+      vi.mocked(chrome.storage.local.get).mockImplementation((_keys, callback) => {
+        // A copy, like chrome.storage returns
+        (callback as (result: Record<string, unknown>) => void)(structuredClone(store));
+      });
+      vi.mocked(chrome.storage.local.set).mockImplementation((data, callback) => {
+        Object.assign(store, data);
+        if (callback) callback();
+      });
+    });
+
+    const savedItem = () => (store.archiveItems as ArchiveItem[])[0];
+
+    it('keeps both the speed profile and the reading difficulty saved on pause', async () => {
+      vi.useRealTimers();
+
+      await Promise.all([
+        updateArchiveItem('item-1', { speedProfile: { wpm: 420, updatedAt: 5000 } }),
+        recordReadingDifficulty('item-1', [passage]),
+      ]);
+
+      expect(savedItem().speedProfile).toEqual({ wpm: 420, updatedAt: 5000 });
+      expect(savedItem().readingDifficulty?.passages).toEqual([passage]);
+    });
+
+    it('adds an unfinished session to the unload flush', async () => {
+      const position = { blockIndex: 2, charOffset: 0, timestamp: 5000 };
+      const pending = updateLastOpened('item-1', position);
+      await vi.advanceTimersByTimeAsync(0);
+
+      await flushPendingArchiveWrites({ itemId: 'item-1', passages: [passage] });
+      await pending;
+
+      expect(chrome.storage.local.set).toHaveBeenCalledTimes(1);
+      expect(savedItem().lastPosition).toEqual(position);
+      expect(savedItem().readingDifficulty?.passages).toEqual([passage]);
+    });
+
+    it('saves an unfinished session on unload without other pending writes', async () => {
+      expect(await flushPendingArchiveWrites({ itemId: 'item-1', passages: [passage] })).toBe(true);
+
+      expect(savedItem().readingDifficulty?.passages).toEqual([passage]);
+    });
+  });
+
   describe('removeRecent', () => {
     it('removes item by id', async () => {
       const items: ArchiveItem[] = [
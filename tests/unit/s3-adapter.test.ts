@@ -0,0 +1,278 @@
+/**
+ * S3 Adapter Tests
+ *
+ * Runs the adapter against a small in-memory S3 (MinIO-like) server behind a stubbed fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import type { EncryptedBlob, S3Credentials } from '@/lib/sync/types';
+import { S3Adapter, S3Error, parseListObjects } from '@/lib/sync/providers/s3-adapter';
+
+const CREDENTIALS: S3Credentials = {
+  endpoint: 'http://localhost:9000/',
+  region: '',
+  bucket: 'flowreader',
+  accessKeyId: 'minioadmin',
+  secretAccessKey: 'minio-secret',
+};
+
+/**
+ * Minimal S3 server: one bucket, path-style URLs, ETags, conditional PUTs and
+ * paged ListObjectsV2. Checks that requests are signed for the right key and region.
+ */
+class StandInServer {
+  objects = new Map<string, { body: string; etag: string }>();
+  pageSize = 1000;
+  private revision = 0;
+
+  handle = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    const headers = new Headers(init.headers);
+
+    const authorization = headers.get('Authorization') ?? '';
+    if (!authorization.startsWith('AWS4-HMAC-SHA256 Credential=minioadmin/')
+      || !authorization.includes('/us-east-1/s3/aws4_request')
+      || !headers.get('x-amz-date')
+      || !headers.get('x-amz-content-sha256')) {
+      return new Response('<Error><Code>AccessDenied</Code><Message>Access Denied.</Message></Error>', { status: 403 });
+    }
+
+    const [, bucket, ...keyParts] = url.pathname.split('/');
+    if (bucket !== 'flowreader') {
+      return new Response('<Error><Code>NoSuchBucket</Code></Error>', { status: 404 });
+    }
+    const key = keyParts.map(decodeURIComponent).join('/');
+
+    if (!key) {
+      if (method === 'HEAD') return new Response(null, { status: 200 });
+      return this.list(url.searchParams);
+    }
+
+    const existing = this.objects.get(key);
+    switch (method) {
+      case 'PUT': {
+        const ifMatch = headers.get('If-Match');
+        const ifNoneMatch = headers.get('If-None-Match');
+        if ((ifMatch && ifMatch !== existing?.etag) || (ifNoneMatch === '*' && existing)) {
+          return new Response('<Error><Code>PreconditionFailed</Code></Error>', { status: 412 });
+        }
+        const body = typeof init.body === 'string'
+          ? init.body
+          : new TextDecoder().decode(init.body as ArrayBuffer);
+        const etag = `"rev-${++this.revision}"`;
+        this.objects.set(key, { body, etag });
+        return new Response(null, { status: 200, headers: { ETag: etag } });
+      }
+      case 'GET':
+      case 'HEAD':
+        if (!existing) return new Response(null, { status: 404 });
+        return new Response(method === 'HEAD' ? null : existing.body, {
+          status: 200,
+          headers: {
+            ETag: existing.etag,
+            'Last-Modified': 'Fri, 02 Jan 2026 03:04:05 GMT',
+            'Content-Length': String(existing.body.length),
+          },
+        });
+      case 'DELETE':
+        this.objects.delete(key);
+        return new Response(null, { status: 204 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  private list(params: URLSearchParams): Response {
+    const prefix = params.get('prefix') ?? '';
+    const keys = [...this.objects.keys()].filter(key => key.startsWith(prefix)).sort();
+    const start = Number(params.get('continuation-token') ?? 0);
+    const page = keys.slice(start, start + this.pageSize);
+    const next = start + this.pageSize;
+    const truncated = next < keys.length;
+
+    return new Response(
+      `<?xml version="1.0" encoding="UTF-8"?>
+      <ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+        <IsTruncated>${truncated}</IsTruncated>
+        ${page.map(key => `<Contents><Key>${key.replace(/&/g, '&amp;')}</Key></Contents>`).join('')}
+        ${truncated ? `<NextContinuationToken>${next}</NextContinuationToken>` : ''}
+      </ListBucketResult>`,
+      { status: 200 }
+    );
+  }
+}
+
+const BLOB: EncryptedBlob = {
+  version: 1,
+  algorithm: 'AES-GCM',
+  salt: 'c2FsdA==',
+  iv: 'aXY=',
+  ciphertext: 'Y2lwaGVydGV4dA==',
+  encryptedAt: 1000,
+};
+
+function toBlob(text: string): Blob {
+  // jsdom's Blob has no arrayBuffer()
+  return new NodeBlob([text]) as unknown as Blob;
+}
+
+describe('S3Adapter', () => {
+  let server: StandInServer;
+  let adapter: S3Adapter;
+  let storage: Record<string, unknown>;
+
+  beforeEach(() => {
+    storage = {};
+    vi.mocked(chrome.storage.local.get).mockImplementation((keys, callback) => {
+      const result = Object.fromEntries((keys as string[]).filter(k => k in storage).map(k => [k, storage[k]]));
+      (callback as (result: Record<string, unknown>) => void)(result);
+    });
+    vi.mocked(chrome.storage.local.set).mockImplementation((items, callback) => {
+      Object.assign(storage, items);
+      if (callback) callback();
+    });
+    chrome.storage.local.remove = vi.fn((keys: string[], callback?: () => void) => {
+      for (const key of keys) delete storage[key];
+      if (callback) callback();
+    }) as unknown as typeof chrome.storage.local.remove;
+
+    server = new StandInServer();
+    vi.spyOn(globalThis, 'fetch').mockImplementation(server.handle);
+    adapter = new S3Adapter();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('connect', () => {
+    it('checks the bucket and stores normalized credentials', async () => {
+      await adapter.connect(CREDENTIALS);
+
+      expect(await adapter.isConnected()).toBe(true);
+      expect(storage.s3Credentials).toMatchObject({
+        endpoint: 'http://localhost:9000',
+        region: 'us-east-1',
+      });
+      expect(vi.mocked(fetch).mock.calls[0][0]).toBe('http://localhost:9000/flowreader');
+    });
+
+    it('rejects wrong keys', async () => {
+      const error = await adapter
+        .connect({ ...CREDENTIALS, accessKeyId: 'someone-else' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.operation).toBe('auth');
+      expect(await adapter.isConnected()).toBe(false);
+    });
+
+    it('rejects a missing bucket', async () => {
+      const error = await adapter.connect({ ...CREDENTIALS, bucket: 'nope' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.message).toContain('"nope" not found');
+    });
+  });
+
+  describe('state object', () => {
+    beforeEach(async () => {
+      await adapter.connect(CREDENTIALS);
+    });
+
+    it('round-trips the state with its ETag', async () => {
+      expect(await adapter.getRemoteMetadata()).toEqual({ exists: false, updatedAt: 0, size: 0 });
+
+      const result = await adapter.upload(BLOB);
+      expect(result).toMatchObject({ success: true, etag: '"rev-1"' });
+      expect(server.objects.has('flowreader/flowreader_state.enc')).toBe(true);
+
+      expect(await adapter.download()).toEqual(BLOB);
+      expect(await adapter.getRemoteMetadata()).toMatchObject({
+        exists: true,
+        etag: '"rev-1"',
+        updatedAt: Date.parse('2026-01-02T03:04:05Z'),
+      });
+    });
+
+    it('refuses to create the state when another device just created it', async () => {
+      server.objects.set('flowreader/flowreader_state.enc', { body: '{}', etag: '"other"' });
+
+      const result = await adapter.upload(BLOB, { expectedEtag: null });
+
+      expect(result).toMatchObject({ success: false, conflict: true });
+      expect(server.objects.get('flowreader/flowreader_state.enc')?.etag).toBe('"other"');
+    });
+
+    it('refuses to overwrite a state another device changed since it was read', async () => {
+      const { etag } = await adapter.upload(BLOB);
+      expect((await new S3Adapter().upload({ ...BLOB, encryptedAt: 2000 }, { expectedEtag: etag })).success).toBe(true);
+
+      const result = await adapter.upload({ ...BLOB, encryptedAt: 3000 }, { expectedEtag: etag });
+      expect(result).toMatchObject({ success: false, conflict: true });
+
+      const { etag: latest } = await adapter.getRemoteMetadata();
+      expect((await adapter.upload({ ...BLOB, encryptedAt: 3000 }, { expectedEtag: latest })).success).toBe(true);
+    });
+
+    it('fails uploads without credentials', async () => {
+      await adapter.disconnect();
+
+      expect(await adapter.upload(BLOB)).toMatchObject({ success: false, error: 'Not authenticated' });
+    });
+  });
+
+  describe('content files', () => {
+    beforeEach(async () => {
+      await adapter.connect(CREDENTIALS);
+    });
+
+    it('stores content files by object name and lists them across pages', async () => {
+      server.pageSize = 2;
+      await adapter.ensureContentFolder();
+      for (const name of ['a.json', 'b.json', 'c d.json']) {
+        expect((await adapter.uploadContentFile(name, toBlob(`{"${name}":1}`))).success).toBe(true);
+      }
+      await adapter.upload(BLOB);
+
+      expect(server.objects.has('flowreader/content/c d.json')).toBe(true);
+      expect(await adapter.listContentFiles()).toEqual(['a.json', 'b.json', 'c d.json']);
+    });
+
+    it('downloads and deletes content files', async () => {
+      await adapter.uploadContentFile('a.json', toBlob('{"a":1}'));
+
+      const blob = await adapter.downloadContentFile('a.json');
+      expect(await blob?.text()).toBe('{"a":1}');
+
+      await adapter.deleteContentFile('a.json');
+      expect(await adapter.listContentFiles()).toEqual([]);
+      expect(await adapter.downloadContentFile('a.json')).toBeNull();
+    });
+  });
+
+  it('forgets the credentials on disconnect', async () => {
+    await adapter.connect(CREDENTIALS);
+    await adapter.disconnect();
+
+    expect(await adapter.isConnected()).toBe(false);
+    expect(storage.s3Credentials).toBeUndefined();
+  });
+});
+
+describe('parseListObjects', () => {
+  it('reads keys and the continuation token of a truncated listing', () => {
+    const xml = `<ListBucketResult><IsTruncated>true</IsTruncated>
+      <Contents><Key>content/a&amp;b.json</Key></Contents>
+      <NextContinuationToken>abc=</NextContinuationToken></ListBucketResult>`;
+
+    expect(parseListObjects(xml)).toEqual({ keys: ['content/a&b.json'], nextContinuationToken: 'abc=' });
+  });
+
+  it('ignores the token of a complete listing', () => {
+    expect(parseListObjects('<ListBucketResult><IsTruncated>false</IsTruncated></ListBucketResult>'))
+      .toEqual({ keys: [], nextContinuationToken: undefined });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { Block } from '@/types';
+import { tokenizeIntoWords } from '@/lib/tokenizer';
+import {
+  SPEECH_BASE_WPM,
+  wpmToSpeechRate,
+  pickVoice,
+  findTokenAtChar,
+  getHeadingPauseMs,
+} from '@/lib/speech';
+
+function createVoice(lang: string, overrides?: Partial<SpeechSynthesisVoice>): SpeechSynthesisVoice {
+  return {
+    voiceURI: `voice-${lang}`,
+    name: `Voice ${lang}`,
+    lang,
+    localService: true,
+    default: false,
+    ...overrides,
+  };
+}
+
+describe('Speech', () => {
+  describe('wpmToSpeechRate', () => {
+    it('speaks at normal rate at the base speed', () => {
+      expect(wpmToSpeechRate(SPEECH_BASE_WPM)).toBe(1);
+      expect(wpmToSpeechRate(SPEECH_BASE_WPM * 2)).toBe(2);
+    });
+
+    it('clamps to the rates voices handle', () => {
+      expect(wpmToSpeechRate(50)).toBe(0.5);
+      expect(wpmToSpeechRate(1000)).toBe(3);
+    });
+  });
+
+  describe('pickVoice', () => {
+    const voices = [
+      createVoice('en-US', { default: true }),
+      createVoice('en-GB', { localService: false }),
+      createVoice('en-GB', { voiceURI: 'local-en-GB' }),
+      createVoice('de-DE'),
+    ];
+
+    it('prefers an exact, on-device match', () => {
+      expect(pickVoice(voices, 'en-GB')?.voiceURI).toBe('local-en-GB');
+      expect(pickVoice(voices, 'en_gb')?.voiceURI).toBe('local-en-GB');
+    });
+
+    it('falls back to a voice of the same language', () => {
+      expect(pickVoice(voices, 'de')?.lang).toBe('de-DE');
+      expect(pickVoice(voices, 'en-AU')?.lang).toBe('en-US');
+    });
+
+    it('leaves the default voice without a match or language', () => {
+      expect(pickVoice(voices, 'fr')).toBeUndefined();
+      expect(pickVoice(voices, undefined)).toBeUndefined();
+    });
+  });
+
+  describe('findTokenAtChar', () => {
+    const words = tokenizeIntoWords('The quick brown fox');
+
+    it('finds the word a boundary points into', () => {
+      expect(findTokenAtChar(words, 0)).toBe(0);
+      expect(findTokenAtChar(words, 4)).toBe(1);
+      expect(findTokenAtChar(words, 12)).toBe(2);
+      expect(findTokenAtChar(words, 100)).toBe(3);
+    });
+
+    it('returns -1 before the first token', () => {
+      expect(findTokenAtChar(tokenizeIntoWords('  indented'), 0)).toBe(-1);
+    });
+  });
+
+  describe('getHeadingPauseMs', () => {
+    const heading: Block = { type: 'heading', level: 2, content: 'Four words long here', id: 'h' };
+    const paragraph: Block = { type: 'paragraph', content: 'Four words long here', id: 'p' };
+
+    it('adds the extra time pacing gives headings', () => {
+      // 4 words at 240 WPM take 1s; a 1.5x pause adds half of that
+      expect(getHeadingPauseMs(heading, heading.content, 240, 1.5)).toBe(500);
+    });
+
+    it('adds nothing for other blocks or without a pause', () => {
+      expect(getHeadingPauseMs(paragraph, paragraph.content, 240, 1.5)).toBe(0);
+      expect(getHeadingPauseMs(heading, heading.content, 240, 1)).toBe(0);
+    });
+  });
+});
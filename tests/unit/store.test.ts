@@ -21,6 +21,7 @@ vi.mock('@/lib/recents-service', () => ({
   shouldCacheDocument: vi.fn().mockReturnValue(false),
   calculateProgress: vi.fn().mockReturnValue({ percent: 0, label: '0%' }),
   updateLastOpened: vi.fn().mockResolvedValue(undefined),
+  recordReadingDifficulty: vi.fn().mockResolvedValue(null),
 }));
 
 // Import store after mocks are set up
@@ -507,6 +508,246 @@ describe('Reader Store', () => {
     });
   });
 
+  describe('RSVP navigation', () => {
+    const createRsvpDocument = (): FlowDocument => ({
+      metadata: { title: 'Test', source: 'web', createdAt: Date.now() },
+      blocks: [
+        { type: 'heading', level: 2, content: 'Short title', id: 'h1' },
+        { type: 'paragraph', content: 'One two. Three four five', id: 'p1' },
+        { type: 'list', ordered: false, items: ['Six seven', 'Eight'], id: 'l1' },
+      ],
+      plainText: 'Short title One two. Three four five Six seven Eight',
+    });
+
+    it('replays the current sentence without leaving its block', () => {
+      // Tokens: [Short title] One two. Three four five | Six seven | Eight
+      useReaderStore.setState({
+        document: createRsvpDocument(),
+        settings: { ...DEFAULT_SETTINGS, activeMode: 'rsvp', rsvpChunkSize: 1 },
+        currentRsvpIndex: 4,  // "four"
+      });
+      useReaderStore.getState().rsvpReplaySentence();
+      expect(useReaderStore.getState().currentRsvpIndex).toBe(3);  // "Three"
+
+      useReaderStore.setState({ currentRsvpIndex: 7 });  // "seven"
+      useReaderStore.getState().rsvpReplaySentence();
+      expect(useReaderStore.getState().currentRsvpIndex).toBe(6);  // "Six", not the paragraph
+
+      useReaderStore.setState({ currentRsvpIndex: 1 });  // first word after the heading
+      useReaderStore.getState().rsvpReplaySentence();
+      expect(useReaderStore.getState().currentRsvpIndex).toBe(0);  // the title card
+    });
+
+    it('keeps the same word when the chunk size changes', () => {
+      useReaderStore.setState({
+        document: createRsvpDocument(),
+        settings: { ...DEFAULT_SETTINGS, activeMode: 'rsvp', rsvpChunkSize: 1 },
+        currentRsvpIndex: 6,  // "Six"
+      });
+      useReaderStore.getState().updateSettings({ rsvpChunkSize: 2 });
+      // Tokens: [Short title] [One two.] [Three four] [five] [Six seven] [Eight]
+      expect(useReaderStore.getState().currentRsvpIndex).toBe(4);
+    });
+
+    it('reads on into the next chapter of a book', () => {
+      const chapters = [
+        { title: 'One', blocks: [{ type: 'paragraph' as const, content: 'First chapter', id: 'c1' }], plainText: 'First chapter', wordCount: 2 },
+        { title: 'Two', blocks: [{ type: 'paragraph' as const, content: 'Second chapter', id: 'c2' }], plainText: 'Second chapter', wordCount: 2 },
+      ];
+      useReaderStore.setState({
+        document: {
+          metadata: { title: 'Book', source: 'epub', createdAt: Date.now() },
+          blocks: chapters[0].blocks,
+          plainText: chapters[0].plainText,
+          book: { title: 'Book', chapters },
+        } as FlowDocument,
+        currentChapterIndex: 0,
+        currentRsvpIndex: 1,
+        rsvpTokenCount: 2,
+        isCompletionOpen: false,
+      });
+
+      useReaderStore.getState().rsvpAdvance();
+
+      const state = useReaderStore.getState();
+      expect(state.currentChapterIndex).toBe(1);
+      expect(state.currentRsvpIndex).toBe(0);
+      expect(state.document?.blocks[0].id).toBe('c2');
+    });
+  });
+
+  describe('adaptive speed', () => {
+    const adaptiveSettings = { ...DEFAULT_SETTINGS, adaptiveWPM: true, adaptiveMinWPM: 200, adaptiveMaxWPM: 400 };
+
+    beforeEach(() => {
+      useReaderStore.setState({
+        document: createTestDocument(),
+        settings: adaptiveSettings,
+        currentWPM: 300,
+        currentChapterIndex: 0,
+        currentWordIndex: 5,
+        isPlaying: true,
+        playStartTime: Date.now(),
+        archiveItemId: null,
+        adaptiveSpeed: { regressions: [], smoothMs: 0 },
+        speedTrace: [],
+      });
+    });
+
+    it('slows down after repeated rewinds and traces the change', () => {
+      const { prevWord } = useReaderStore.getState();
+      prevWord();
+      prevWord();
+      expect(useReaderStore.getState().currentWPM).toBe(300);
+
+      prevWord();
+      const state = useReaderStore.getState();
+      expect(state.currentWPM).toBe(270);
+      expect(state.currentWordIndex).toBe(2);
+      expect(state.speedTrace.map(point => [point.reason, point.wpm])).toEqual([['regression', 270]]);
+    });
+
+    it('speeds up after a smooth stretch of reading', () => {
+      const intervalMs = adaptiveSettings.rampInterval * 1000;
+      useReaderStore.getState().adaptiveSpeedTick(intervalMs - 1000);
+      expect(useReaderStore.getState().currentWPM).toBe(300);
+
+      useReaderStore.getState().adaptiveSpeedTick(1000);
+      expect(useReaderStore.getState().currentWPM).toBe(300 + adaptiveSettings.rampStep);
+    });
+
+    it('starts over from a manual speed change', () => {
+      const { prevWord, setWPM } = useReaderStore.getState();
+      prevWord();
+      prevWord();
+      setWPM(350);
+      prevWord();
+
+      const state = useReaderStore.getState();
+      expect(state.currentWPM).toBe(350);
+      expect(state.speedTrace.map(point => point.reason)).toEqual(['manual']);
+    });
+
+    it('leaves the speed alone when turned off', () => {
+      useReaderStore.setState({ settings: DEFAULT_SETTINGS });
+      const { prevWord, adaptiveSpeedTick } = useReaderStore.getState();
+      prevWord();
+      prevWord();
+      prevWord();
+      adaptiveSpeedTick(DEFAULT_SETTINGS.rampInterval * 1000);
+
+      expect(useReaderStore.getState().currentWPM).toBe(300);
+    });
+
+    it('ignores stepping back while paused', () => {
+      useReaderStore.setState({ isPlaying: false, playStartTime: null });
+      const { prevWord } = useReaderStore.getState();
+      prevWord();
+      prevWord();
+      prevWord();
+
+      const state = useReaderStore.getState();
+      expect(state.currentWordIndex).toBe(2);
+      expect(state.currentWPM).toBe(300);
+      expect(state.adaptiveSpeed.regressions).toEqual([]);
+    });
+
+    it('begins a new trace each time playback starts', () => {
+      useReaderStore.setState({ isPlaying: false, playStartTime: null });
+      useReaderStore.getState().setPlaying(true);
+
+      const [start] = useReaderStore.getState().speedTrace;
+      expect(start).toMatchObject({ reason: 'start', wpm: 300, elapsedMs: 0, chapterIndex: 0 });
+
+      useReaderStore.getState().setPlaying(false);
+      expect(useReaderStore.getState().speedTrace).toEqual([]);
+    });
+  });
+
+  describe('re-read tracking', () => {
+    beforeEach(() => {
+      useReaderStore.setState({
+        document: createTestDocument(),
+        settings: DEFAULT_SETTINGS,
+        currentChapterIndex: 0,
+        currentBlockIndex: 1,
+        currentWordIndex: 1,
+        currentRsvpIndex: 0,
+        isPlaying: true,
+        playStartTime: Date.now(),
+        archiveItemId: null,
+        sessionPassages: {},
+        readingDifficulty: null,
+        isNotesPanelOpen: false,
+      });
+    });
+
+    it('counts rewinds on the passage rewound to', () => {
+      const { prevWord, prevBlock } = useReaderStore.getState();
+      prevWord();
+      prevBlock();
+
+      const { sessionPassages } = useReaderStore.getState();
+      expect(sessionPassages['0:1']).toMatchObject({ blockIndex: 1, regressions: 1, preview: 'Second paragraph.' });
+      expect(sessionPassages['0:0']).toMatchObject({ blockIndex: 0, regressions: 1 });
+    });
+
+    it('finds the passage from the current token in RSVP', () => {
+      useReaderStore.setState({
+        settings: { ...DEFAULT_SETTINGS, activeMode: 'rsvp' },
+        currentRsvpIndex: 5,
+      });
+      useReaderStore.getState().trackDwell(1000);
+      useReaderStore.getState().rsvpRetreat();
+
+      // Two words per block: tokens 4 and 5 are the third block
+      expect(useReaderStore.getState().sessionPassages['0:2']).toMatchObject({ dwellMs: 1000, regressions: 1 });
+    });
+
+    it('only counts dwell time and rewinds while playing', () => {
+      useReaderStore.getState().trackDwell(1000);
+      useReaderStore.setState({ isPlaying: false });
+      useReaderStore.getState().trackDwell(1000);
+      useReaderStore.getState().prevWord();
+
+      expect(useReaderStore.getState().sessionPassages['0:1']).toMatchObject({ dwellMs: 1000, regressions: 0 });
+    });
+
+    it('adds the session to the reading difficulty when pausing', () => {
+      const { prevWord, setPlaying } = useReaderStore.getState();
+      prevWord();
+      setPlaying(false);
+
+      const state = useReaderStore.getState();
+      expect(state.sessionPassages).toEqual({});
+      expect(state.readingDifficulty?.regressions).toBe(1);
+      expect(state.readingDifficulty?.passages.map(passage => passage.blockIndex)).toEqual([1]);
+    });
+
+    it('saves the unfinished session when the document changes', async () => {
+      const { recordReadingDifficulty } = await import('@/lib/recents-service');
+      useReaderStore.setState({ archiveItemId: 'item-1' });
+      useReaderStore.getState().trackDwell(1000);
+      useReaderStore.getState().setDocument(createTestDocument());
+
+      expect(vi.mocked(recordReadingDifficulty)).toHaveBeenCalledWith('item-1', [
+        expect.objectContaining({ blockIndex: 1, dwellMs: 1000 }),
+      ]);
+      expect(useReaderStore.getState().sessionPassages).toEqual({});
+    });
+
+    it('navigates to a passage and closes the notes panel', () => {
+      useReaderStore.setState({ isNotesPanelOpen: true, currentBlockIndex: 0, currentWordIndex: 1 });
+      useReaderStore.getState().navigateToPassage({ chapterIndex: 0, blockIndex: 2 });
+
+      const state = useReaderStore.getState();
+      expect(state.currentBlockIndex).toBe(2);
+      expect(state.currentWordIndex).toBe(0);
+      expect(state.currentRsvpIndex).toBe(4);
+      expect(state.isNotesPanelOpen).toBe(false);
+    });
+  });
+
   describe('restorePosition', () => {
     // Helper to create a book document with multiple chapters
     const createBookDocument = (): FlowDocument => ({
@@ -6,9 +6,30 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
 import { storageFacade } from '@/lib/storage-facade';
 import { saveSettings, savePosition, resetSettings, completeOnboarding, dismissExitConfirmation } from '@/lib/storage';
+import { syncService } from '@/lib/sync/sync-service';
+import { unicodeToBase64, base64ToUnicode } from '@/lib/encoding';
+import {
+  SYNC_SCHEMA_VERSION,
+  SYNC_SECTION_NAMES,
+  splitState,
+  hashSection,
+  getSectionFileName,
+  type SyncRootDocument,
+  type SyncSectionRefs,
+} from '@/lib/sync/sections';
+import { DEFAULT_SYNC_SCOPE } from '@/lib/sync/sync-scope';
 import { DEFAULT_SETTINGS } from '@/types';
+import type {
+  SyncProvider,
+  EncryptedBlob,
+  UploadOptions,
+  UploadResult,
+  SyncStateDocument,
+  SyncEvent,
+} from '@/lib/sync/types';
 
 // Helper to set up chrome.storage.local mock data
 function setMockStorage(data: Record<string, unknown>) {
@@ -52,6 +73,32 @@ describe('Sync Flow Integration', () => {
       );
     });
 
+    it('updateSettings stamps only the settings that changed', async () => {
+      await storageFacade.updateSettings({ baseWPM: 400, fontSize: DEFAULT_SETTINGS.fontSize });
+
+      const written = vi.mocked(chrome.storage.local.set).mock.calls[0][0] as Record<string, unknown>;
+      const timestamps = written.fieldUpdatedAt as { settings: Record<string, number> };
+      expect(Object.keys(timestamps.settings)).toEqual(['baseWPM']);
+    });
+
+    it('updatePresets keeps a timestamp for removed presets', async () => {
+      vi.mocked(chrome.storage.local.get).mockImplementation((_keys, callback) => {
+        (callback as (result: Record<string, unknown>) => void)({
+          version: 4,
+          settings: DEFAULT_SETTINGS,
+          presets: { 'Old': { baseWPM: 200 }, 'Kept': { baseWPM: 300 } },
+          fieldUpdatedAt: { settings: {}, presets: { 'Old': 1000, 'Kept': 1000 }, customThemes: {} },
+        });
+      });
+
+      await storageFacade.updatePresets({ 'Kept': { baseWPM: 300 } });
+
+      const written = vi.mocked(chrome.storage.local.set).mock.calls[0][0] as Record<string, unknown>;
+      const timestamps = written.fieldUpdatedAt as { presets: Record<string, number> };
+      expect(timestamps.presets['Kept']).toBe(1000);
+      expect(timestamps.presets['Old']).toBeGreaterThan(1000);
+    });
+
     it('updatePositions writes positions to chrome.storage', async () => {
       const position = { blockIndex: 10, charOffset: 0, timestamp: Date.now() };
       await storageFacade.updatePositions({ 'test-key': position });
@@ -229,7 +276,7 @@ describe('Sync Flow Integration', () => {
       expect(syncState.customThemes).toHaveLength(1);
       expect(syncState.onboardingCompleted).toBe(true);
       expect(syncState.deviceId).toBeDefined();
-      expect(syncState.schemaVersion).toBe(3);
+      expect(syncState.schemaVersion).toBe(4);
       expect(syncState.updatedAt).toBeGreaterThan(0);
     });
 
@@ -403,4 +450,473 @@ describe('Sync Flow Integration', () => {
       );
     });
   });
+
+  describe('optimistic concurrency', () => {
+    /** Unencrypted sync file, as syncService writes it */
+    function plainBlob(state: SyncStateDocument): EncryptedBlob {
+      return {
+        version: 1,
+        algorithm: 'AES-GCM',
+        salt: 'UNENCRYPTED',
+        iv: 'PLAIN',
+        ciphertext: unicodeToBase64(JSON.stringify(state)),
+        encryptedAt: Date.now(),
+      };
+    }
+
+    function readBlob(blob: EncryptedBlob): SyncStateDocument {
+      return JSON.parse(base64ToUnicode(blob.ciphertext));
+    }
+
+    /** Remote whose uploads fail if the etag moved on, like the real providers */
+    class InMemoryProvider implements SyncProvider {
+      readonly name = 'In-memory';
+      readonly providerType = 'folder' as const;
+      readonly needsAuth = false;
+
+      remote: { blob: EncryptedBlob; etag: string } | null = null;
+      uploads: UploadOptions[] = [];
+      files = new Map<string, string>();
+      /** Runs before each upload is checked, to let "another device" write first */
+      beforeUpload: (() => void) | null = null;
+      private revision = 0;
+
+      write(blob: EncryptedBlob): string {
+        const etag = `v${++this.revision}`;
+        this.remote = { blob, etag };
+        return etag;
+      }
+
+      async upload(blob: EncryptedBlob, options: UploadOptions = {}): Promise<UploadResult> {
+        this.uploads.push(options);
+        this.beforeUpload?.();
+        if (options.expectedEtag !== undefined && options.expectedEtag !== (this.remote?.etag ?? null)) {
+          return { success: false, conflict: true, updatedAt: Date.now(), error: 'conflict' };
+        }
+        return { success: true, updatedAt: Date.now(), etag: this.write(blob) };
+      }
+
+      async download() {
+        return this.remote?.blob ?? null;
+      }
+
+      async getRemoteMetadata() {
+        return this.remote
+          ? { exists: true, updatedAt: 0, size: 1, etag: this.remote.etag }
+          : { exists: false, updatedAt: 0, size: 0 };
+      }
+
+      async listContentFiles() { return [...this.files.keys()]; }
+
+      async uploadContentFile(filename: string, data: Blob) {
+        this.files.set(filename, await data.text());
+        return { success: true, updatedAt: Date.now() };
+      }
+
+      async downloadContentFile(filename: string) {
+        const text = this.files.get(filename);
+        return text === undefined ? null : new NodeBlob([text]) as unknown as Blob;
+      }
+
+      async deleteContentFile(filename: string) { this.files.delete(filename); }
+      async ensureContentFolder() {}
+      async isConnected() { return true; }
+      async disconnect() {}
+    }
+
+    let store: Record<string, unknown>;
+    let provider: InMemoryProvider;
+
+    async function remoteState(changes: Partial<SyncStateDocument>): Promise<EncryptedBlob> {
+      const local = await storageFacade.getStateForSync();
+      return plainBlob({ ...local, deviceId: 'other-device', updatedAt: 1000, ...changes });
+    }
+
+    /** Write a state the way another device would: section files, then the root */
+    async function writeSectionedRemote(state: SyncStateDocument): Promise<void> {
+      const { root, sections } = splitState(state);
+      const refs = {} as SyncSectionRefs;
+      for (const name of SYNC_SECTION_NAMES) {
+        const hash = await hashSection(sections[name]);
+        provider.files.set(getSectionFileName(name, hash), JSON.stringify(plainBlob(sections[name] as SyncStateDocument)));
+        refs[name] = { hash, updatedAt: state.updatedAt };
+      }
+      provider.write(plainBlob({ ...root, sections: refs } as unknown as SyncStateDocument));
+    }
+
+    /** The remote root and the state assembled from its section files */
+    function readRemote(): { root: SyncRootDocument; state: SyncStateDocument } {
+      const root = readBlob(provider.remote!.blob) as unknown as SyncRootDocument;
+      const state = { ...root } as unknown as SyncStateDocument;
+      for (const name of SYNC_SECTION_NAMES) {
+        const file = provider.files.get(getSectionFileName(name, root.sections[name].hash))!;
+        Object.assign(state, readBlob(JSON.parse(file)));
+      }
+      return { root, state };
+    }
+
+    function sectionFiles(): string[] {
+      return [...provider.files.keys()].filter(name => name.startsWith('section-')).sort();
+    }
+
+    beforeEach(() => {
+      store = {
+        version: 3,
+        settings: DEFAULT_SETTINGS,
+        presets: {},
+        positions: {},
+        archiveItems: [],
+        customThemes: [],
+        dataUpdatedAt: 2000,
+        syncConfig: {
+          enabled: true,
+          provider: 'folder',
+          encryptionSalt: null,
+          encryptionEnabled: false,
+          lastSyncTime: null,
+          lastSyncError: null,
+        },
+      };
+      const read = (keys: string | string[] | null) => keys === null
+        ? { ...store }
+        : Object.fromEntries([keys].flat().filter(key => key in store).map(key => [key, store[key]]));
+      vi.mocked(chrome.storage.local.get).mockImplementation(((keys: string | string[] | null, callback?: (result: Record<string, unknown>) => void) => {
+        if (!callback) return Promise.resolve(read(keys));
+        callback(read(keys));
+      }) as typeof chrome.storage.local.get);
+      vi.mocked(chrome.storage.local.set).mockImplementation((data, callback) => {
+        Object.assign(store, data);
+        if (callback) callback();
+      });
+
+      provider = new InMemoryProvider();
+      syncService.setProvider(provider);
+    });
+
+    it('only creates the remote state if none exists yet', async () => {
+      const result = await syncService.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(provider.uploads).toEqual([{ expectedEtag: null }]);
+    });
+
+    it('uploads conditionally on the etag seen before downloading', async () => {
+      provider.write(await remoteState({}));
+
+      const result = await syncService.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(provider.uploads).toEqual([{ expectedEtag: 'v1' }]);
+    });
+
+    it('merges again when another device uploads in between', async () => {
+      const position = { blockIndex: 4, charOffset: 0, timestamp: 1500 };
+      provider.write(await remoteState({}));
+      const lateBlob = await remoteState({ positions: { 'doc-late': position }, updatedAt: 1500 });
+      provider.beforeUpload = () => {
+        provider.beforeUpload = null;
+        provider.write(lateBlob);
+      };
+
+      const result = await syncService.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(provider.uploads).toEqual([{ expectedEtag: 'v1' }, { expectedEtag: 'v2' }]);
+      expect(readRemote().state.positions['doc-late']).toEqual(position);
+      expect((store.positions as Record<string, unknown>)['doc-late']).toEqual(position);
+    });
+
+    it('gives up after repeated conflicts and reports them', async () => {
+      provider.write(await remoteState({}));
+      const blob = provider.remote!.blob;
+      provider.beforeUpload = () => provider.write(blob);
+      const events: SyncEvent[] = [];
+      const unsubscribe = syncService.onEvent(event => events.push(event));
+
+      const result = await syncService.syncNow();
+      unsubscribe();
+
+      expect(result.success).toBe(false);
+      expect(provider.uploads).toHaveLength(3);
+      expect(events).toContainEqual(expect.objectContaining({
+        type: 'conflict-detected',
+        data: { type: 'remote-state', resolution: 'unresolved' },
+      }));
+      expect(events.at(-1)?.type).toBe('sync-failed');
+    });
+
+    it('logs the conflicts of a kept merge for review', async () => {
+      store.settings = { ...DEFAULT_SETTINGS, baseWPM: 450 };
+      provider.write(await remoteState({ settings: { ...DEFAULT_SETTINGS, baseWPM: 300 }, updatedAt: 3000 }));
+
+      const result = await syncService.syncNow();
+
+      expect(result.success).toBe(true);
+      expect(store.syncConflictLog).toEqual([expect.objectContaining({
+        status: 'open',
+        conflict: expect.objectContaining({ type: 'settings', itemId: 'baseWPM', resolution: 'remote-wins' }),
+      })]);
+    });
+
+    describe('sections', () => {
+      it('stores the state as a root referencing one file per section', async () => {
+        await syncService.syncNow();
+
+        const { root, state } = readRemote();
+        expect(root).not.toHaveProperty('archiveItems');
+        expect(Object.keys(root.sections).sort()).toEqual([...SYNC_SECTION_NAMES].sort());
+        expect(sectionFiles()).toHaveLength(SYNC_SECTION_NAMES.length);
+        expect(state.settings).toEqual(DEFAULT_SETTINGS);
+      });
+
+      it('uploads only the sections that changed and prunes the replaced ones', async () => {
+        // As stamped by the v4 migration
+        store.fieldUpdatedAt = {
+          settings: Object.fromEntries(Object.keys(DEFAULT_SETTINGS).map(key => [key, 2000])),
+          presets: {},
+          customThemes: {},
+        };
+        await syncService.syncNow();
+        const before = sectionFiles();
+        const positionsFile = before.find(name => name.startsWith('section-positions-'));
+
+        store.positions = { 'doc-1': { blockIndex: 7, charOffset: 0, timestamp: 2500 } };
+        store.dataUpdatedAt = 3000;
+        const uploadFile = vi.spyOn(provider, 'uploadContentFile');
+        await syncService.syncNow();
+
+        const sectionUploads = uploadFile.mock.calls.map(([name]) => name).filter(name => name.startsWith('section-'));
+        expect(sectionUploads).toEqual([expect.stringMatching(/^section-positions-/)]);
+        expect(sectionFiles()).not.toContain(positionsFile);
+        expect(sectionFiles()).toHaveLength(SYNC_SECTION_NAMES.length);
+        expect(readRemote().state.positions['doc-1']).toMatchObject({ blockIndex: 7 });
+      });
+
+      it('downloads only the sections that differ from the local state', async () => {
+        const local = await storageFacade.getStateForSync();
+        const position = { blockIndex: 3, charOffset: 0, timestamp: 2500 };
+        await writeSectionedRemote({
+          ...local,
+          deviceId: 'other-device',
+          updatedAt: 3000,
+          positions: { 'doc-remote': position },
+        });
+        const downloadFile = vi.spyOn(provider, 'downloadContentFile');
+
+        const result = await syncService.syncNow();
+
+        expect(result.success).toBe(true);
+        expect(downloadFile.mock.calls.map(([name]) => name)).toEqual([expect.stringMatching(/^section-positions-/)]);
+        expect((store.positions as Record<string, unknown>)['doc-remote']).toEqual(position);
+      });
+
+      it('reads a single-file remote and replaces it with a sectioned one', async () => {
+        const position = { blockIndex: 5, charOffset: 0, timestamp: 2500 };
+        provider.write(await remoteState({ positions: { 'doc-old': position }, updatedAt: 3000 }));
+
+        const result = await syncService.syncNow();
+
+        expect(result.success).toBe(true);
+        expect((store.positions as Record<string, unknown>)['doc-old']).toEqual(position);
+        expect(readRemote().root.sections).toBeDefined();
+        expect(readRemote().state.positions['doc-old']).toEqual(position);
+      });
+
+      it('marks the sectioned root with a schema version older clients lack', async () => {
+        await syncService.syncNow();
+
+        expect(readRemote().root.schemaVersion).toBe(SYNC_SCHEMA_VERSION);
+      });
+
+      it('refuses a remote written by a newer schema', async () => {
+        const position = { blockIndex: 5, charOffset: 0, timestamp: 2500 };
+        provider.write(await remoteState({
+          schemaVersion: SYNC_SCHEMA_VERSION + 1,
+          positions: { 'doc-new': position },
+          updatedAt: 3000,
+        }));
+
+        const result = await syncService.syncNow();
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/newer version/);
+        expect(provider.uploads).toHaveLength(0);
+        expect(store.positions).toEqual({});
+      });
+    });
+
+    describe('history', () => {
+      const item = (id: string) => ({
+        id,
+        type: 'web',
+        title: `Article ${id}`,
+        sourceLabel: 'example.com',
+        url: `https://example.com/${id}`,
+        createdAt: 1,
+        lastOpenedAt: 1,
+      });
+
+      /** Sync once with item-a, then again after replacing it with item-b */
+      async function syncTwice(): Promise<number> {
+        store.archiveItems = [item('item-a')];
+        await syncService.syncNow();
+        const [first] = await syncService.getSnapshots();
+
+        store.archiveItems = [item('item-b')];
+        store.deletedItems = { 'item-a': 2500 };
+        store.dataUpdatedAt = 3000;
+        await syncService.syncNow();
+
+        return first.createdAt;
+      }
+
+      it('keeps a snapshot of each uploaded state, locally and remotely', async () => {
+        await syncTwice();
+
+        const snapshots = await syncService.getSnapshots();
+        expect(snapshots).toHaveLength(2);
+        expect(snapshots.every(snapshot => snapshot.location === 'local')).toBe(true);
+        expect([...provider.files.keys()].filter(name => name.startsWith('history-')).sort()).toEqual(
+          snapshots.map(snapshot => `history-${snapshot.createdAt}.enc`).sort()
+        );
+      });
+
+      it('previews a remote snapshot not kept on this device', async () => {
+        const createdAt = await syncTwice();
+        store.syncHistory = [];
+
+        const diff = await syncService.previewSnapshot(createdAt);
+
+        expect(diff.archiveItems.added.map(entry => entry.id)).toEqual(['item-a']);
+        expect(diff.archiveItems.removed.map(entry => entry.id)).toEqual(['item-b']);
+      });
+
+      it('restores a snapshot as a new revision', async () => {
+        const createdAt = await syncTwice();
+        const etag = provider.remote!.etag;
+
+        const result = await syncService.restoreSnapshot(createdAt);
+
+        expect(result.success).toBe(true);
+        expect(provider.uploads.at(-1)).toEqual({ expectedEtag: etag });
+        const remote = readRemote().state;
+        expect(remote.archiveItems.map(entry => entry.id)).toEqual(['item-a']);
+        expect(remote.deletedItems).toHaveProperty('item-b');
+        expect(remote.deletedItems).not.toHaveProperty('item-a');
+        expect((store.archiveItems as Array<{ id: string }>).map(entry => entry.id)).toEqual(['item-a']);
+        expect((await syncService.getSnapshots())[0].createdAt).toBe(remote.updatedAt);
+      });
+    });
+
+    describe('selective sync', () => {
+      const item = (id: string) => ({
+        id,
+        type: 'web',
+        title: `Article ${id}`,
+        sourceLabel: 'example.com',
+        url: `https://example.com/${id}`,
+        createdAt: 1,
+        lastOpenedAt: 1,
+      });
+
+      beforeEach(async () => {
+        await syncService.setSyncScope({
+          ...DEFAULT_SYNC_SCOPE,
+          categories: { ...DEFAULT_SYNC_SCOPE.categories, archive: false },
+        });
+      });
+
+      it('leaves excluded data on both sides as it was', async () => {
+        store.archiveItems = [item('item-local')];
+        const local = await storageFacade.getStateForSync();
+        const position = { blockIndex: 4, charOffset: 0, timestamp: 2500 };
+        await writeSectionedRemote({
+          ...local,
+          deviceId: 'other-device',
+          updatedAt: 3000,
+          archiveItems: [item('item-remote')] as SyncStateDocument['archiveItems'],
+          positions: { 'doc-remote': position },
+        });
+
+        const result = await syncService.syncNow();
+
+        expect(result.success).toBe(true);
+        const remote = readRemote().state;
+        expect(remote.archiveItems.map(entry => entry.id)).toEqual(['item-remote']);
+        expect(remote.deletedItems ?? {}).toEqual({});
+        expect((store.archiveItems as Array<{ id: string }>).map(entry => entry.id)).toEqual(['item-local']);
+        expect((store.positions as Record<string, unknown>)['doc-remote']).toEqual(position);
+      });
+
+      it('uploads only the categories in scope', async () => {
+        store.archiveItems = [item('item-local')];
+
+        await syncService.syncNow();
+
+        expect(readRemote().state.archiveItems).toEqual([]);
+        expect(readRemote().state.deletedItems ?? {}).toEqual({});
+      });
+
+      it('restores only the categories in scope', async () => {
+        store.positions = { 'doc-1': { blockIndex: 1, charOffset: 0, timestamp: 1500 } };
+        await syncService.syncNow();
+        const [snapshot] = await syncService.getSnapshots();
+        const synced = readRemote().state;
+        await writeSectionedRemote({
+          ...synced,
+          deviceId: 'other-device',
+          updatedAt: 3000,
+          archiveItems: [item('item-remote')] as SyncStateDocument['archiveItems'],
+          positions: { ...synced.positions, 'doc-2': { blockIndex: 2, charOffset: 0, timestamp: 2500 } },
+        });
+
+        const diff = await syncService.previewSnapshot(snapshot.createdAt);
+        const result = await syncService.restoreSnapshot(snapshot.createdAt);
+
+        expect(diff.archiveItems).toEqual({ added: [], removed: [] });
+        expect(result.success).toBe(true);
+        const remote = readRemote().state;
+        expect(remote.archiveItems.map(entry => entry.id)).toEqual(['item-remote']);
+        expect(remote.deletedItems ?? {}).toEqual({});
+        expect(Object.keys(remote.positions)).toEqual(['doc-1']);
+      });
+    });
+
+    describe('content limits', () => {
+      it('takes an item out of content sync on every device', async () => {
+        const local = await storageFacade.getStateForSync();
+        const manifestItem = {
+          fileHash: 'hash-big',
+          archiveItemId: 'item-big',
+          type: 'pdf' as const,
+          title: 'Big textbook',
+          compressedSize: 50_000_000,
+          originalSize: 200_000_000,
+          syncedAt: 1000,
+          checksum: 'checksum',
+        };
+        await writeSectionedRemote({
+          ...local,
+          deviceId: 'other-device',
+          contentManifest: { version: 1, items: { 'hash-big': manifestItem } },
+        });
+        provider.files.set('hash-big.enc', 'content');
+        const sectionsBefore = sectionFiles();
+
+        const result = await syncService.stopSyncingContent('item-big');
+
+        expect(result.success).toBe(true);
+        expect(await syncService.getContentManifest()).toEqual({
+          version: 1,
+          items: {},
+          excludedItemIds: ['item-big'],
+        });
+        expect(provider.files.has('hash-big.enc')).toBe(false);
+        expect(sectionFiles()).toEqual(sectionsBefore);
+
+        await syncService.resumeSyncingContent(['item-big']);
+        expect((await syncService.getContentManifest())?.excludedItemIds).toEqual([]);
+      });
+    });
+  });
 });
@@ -0,0 +1,208 @@
+/**
+ * Sync History Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_SETTINGS } from '@/types';
+import type { Annotation } from '@/types';
+import type { SyncStateDocument, SyncArchiveItem } from '@/lib/sync/types';
+import {
+  saveLocalSnapshot,
+  getLocalSnapshots,
+  getSnapshotFileName,
+  parseSnapshotFileName,
+  getSnapshotFilesToPrune,
+  listSnapshots,
+  diffSnapshot,
+  buildRestoredState,
+  MAX_SYNC_SNAPSHOTS,
+  MAX_LOCAL_SNAPSHOT_BYTES,
+} from '@/lib/sync/sync-history';
+import { DEFAULT_SYNC_SCOPE } from '@/lib/sync/sync-scope';
+
+function createState(overrides?: Partial<SyncStateDocument>): SyncStateDocument {
+  return {
+    schemaVersion: 4,
+    updatedAt: 1000,
+    deviceId: 'device-1',
+    settings: { ...DEFAULT_SETTINGS },
+    presets: {},
+    customThemes: [],
+    archiveItems: [],
+    positions: {},
+    collections: [],
+    annotations: {},
+    onboardingCompleted: true,
+    exitConfirmationDismissed: false,
+    ...overrides,
+  };
+}
+
+function createItem(id: string): SyncArchiveItem {
+  return {
+    id,
+    type: 'web',
+    title: `Article ${id}`,
+    sourceLabel: 'example.com',
+    url: `https://example.com/${id}`,
+    createdAt: 1,
+    lastOpenedAt: 1,
+  };
+}
+
+function createAnnotation(id: string): Annotation {
+  return {
+    id,
+    type: 'highlight',
+    color: 'yellow',
+    anchor: { blockId: 'b1', startWordIndex: 0, endBlockId: 'b1', endWordIndex: 3, textContent: `text ${id}` },
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+describe('sync-history', () => {
+  describe('local snapshots', () => {
+    let store: Record<string, unknown>;
+
+    beforeEach(() => {
+      store = {};
+      vi.mocked(chrome.storage.local.get).mockImplementation((keys, callback) => {
+        const result = Object.fromEntries((keys as string[]).filter(k => k in store).map(k => [k, store[k]]));
+        (callback as (result: Record<string, unknown>) => void)(result);
+      });
+      vi.mocked(chrome.storage.local.set).mockImplementation((data, callback) => {
+        Object.assign(store, data);
+        if (callback) callback();
+      });
+    });
+
+    it('keeps the newest snapshots without the content manifest', async () => {
+      for (let i = 1; i <= MAX_SYNC_SNAPSHOTS + 2; i++) {
+        await saveLocalSnapshot(createState({ updatedAt: i * 1000, contentManifest: { version: 1, items: {} } }));
+      }
+
+      const snapshots = await getLocalSnapshots();
+      expect(snapshots).toHaveLength(MAX_SYNC_SNAPSHOTS);
+      expect(snapshots[0].createdAt).toBe((MAX_SYNC_SNAPSHOTS + 2) * 1000);
+      expect(snapshots[0].state.contentManifest).toBeUndefined();
+    });
+
+    it('drops the oldest snapshots once they outgrow the local budget', async () => {
+      const largeItems = Array.from({ length: 4 }, (_, i) => ({
+        ...createItem(`item-${i}`),
+        pasteContent: 'x'.repeat(MAX_LOCAL_SNAPSHOT_BYTES / 10),
+      }));
+      for (let i = 1; i <= MAX_SYNC_SNAPSHOTS; i++) {
+        await saveLocalSnapshot(createState({ updatedAt: i * 1000, archiveItems: largeItems }));
+      }
+
+      const snapshots = await getLocalSnapshots();
+      expect(snapshots.map(snapshot => snapshot.createdAt)).toEqual([5000, 4000]);
+    });
+
+    it('saves a state only once', async () => {
+      await saveLocalSnapshot(createState());
+      await saveLocalSnapshot(createState());
+
+      expect(await getLocalSnapshots()).toHaveLength(1);
+    });
+  });
+
+  describe('snapshot files', () => {
+    it('round-trips the snapshot time through the file name', () => {
+      expect(parseSnapshotFileName(getSnapshotFileName(1234))).toBe(1234);
+      expect(parseSnapshotFileName('0a1b2c3d.enc')).toBeNull();
+    });
+
+    it('prunes only the oldest snapshot files', () => {
+      const files = ['0a1b2c3d.enc', ...Array.from({ length: MAX_SYNC_SNAPSHOTS + 2 }, (_, i) => getSnapshotFileName(i + 1))];
+
+      expect(getSnapshotFilesToPrune(files)).toEqual([getSnapshotFileName(2), getSnapshotFileName(1)]);
+    });
+
+    it('lists local and remote snapshots once each, newest first', () => {
+      const local = [{ createdAt: 2000, deviceId: 'device-1', state: createState() }];
+      const remote = [getSnapshotFileName(3000), getSnapshotFileName(2000), 'content.enc'];
+
+      expect(listSnapshots(local, remote)).toEqual([
+        { createdAt: 3000, location: 'remote' },
+        { createdAt: 2000, deviceId: 'device-1', location: 'local' },
+      ]);
+    });
+  });
+
+  describe('diffSnapshot', () => {
+    it('lists what a restore brings back and takes away', () => {
+      const current = createState({
+        archiveItems: [createItem('kept'), createItem('new')],
+        annotations: { doc: [createAnnotation('a1')] },
+        collections: [],
+      });
+      const snapshot = createState({
+        archiveItems: [createItem('kept'), createItem('lost')],
+        annotations: { doc: [createAnnotation('a1'), createAnnotation('a2')] },
+        collections: [{ id: 'c1', name: 'Later', createdAt: 1, updatedAt: 1 }],
+      });
+
+      const diff = diffSnapshot(current, snapshot);
+
+      expect(diff.archiveItems.added.map(item => item.id)).toEqual(['lost']);
+      expect(diff.archiveItems.removed.map(item => item.id)).toEqual(['new']);
+      expect(diff.annotations.added.map(annotation => annotation.id)).toEqual(['a2']);
+      expect(diff.annotations.removed).toEqual([]);
+      expect(diff.collections.added.map(collection => collection.name)).toEqual(['Later']);
+    });
+  });
+
+  describe('buildRestoredState', () => {
+    it('makes the snapshot a new revision that wins the next merge', () => {
+      const current = createState({
+        updatedAt: 5000,
+        presets: { 'Fast': { baseWPM: 500 } },
+        contentManifest: { version: 1, items: {} },
+      });
+      const snapshot = createState({ updatedAt: 2000, settings: { ...DEFAULT_SETTINGS, baseWPM: 320 } });
+
+      const restored = buildRestoredState(current, snapshot, 'device-2', 9000);
+
+      expect(restored).toMatchObject({ updatedAt: 9000, deviceId: 'device-2', presets: {} });
+      expect(restored.settings.baseWPM).toBe(320);
+      expect(restored.fieldUpdatedAt?.settings.baseWPM).toBe(9000);
+      expect(restored.fieldUpdatedAt?.presets).toEqual({ 'Fast': 9000 });
+      expect(restored.contentManifest).toBe(current.contentManifest);
+    });
+
+    it('tombstones removed items and revives deleted ones', () => {
+      const current = createState({
+        archiveItems: [createItem('new')],
+        deletedItems: { 'lost': 3000, 'url:https://example.com/lost': 3000, 'other': 3000 },
+      });
+      const snapshot = createState({ archiveItems: [createItem('lost')] });
+
+      const restored = buildRestoredState(current, snapshot, 'device-1', 9000);
+
+      expect(restored.deletedItems).toEqual({
+        'other': 3000,
+        'new': 9000,
+        'url:https://example.com/new': 9000,
+      });
+    });
+
+    it('keeps the current data of categories outside the scope', () => {
+      const current = createState({
+        archiveItems: [createItem('remote')],
+        deletedItems: { 'gone': 3000 },
+        positions: { doc: { blockIndex: 9, charOffset: 0, timestamp: 3000 } },
+      });
+      const snapshot = createState({ positions: { doc: { blockIndex: 2, charOffset: 0, timestamp: 1000 } } });
+      const scope = { ...DEFAULT_SYNC_SCOPE, categories: { ...DEFAULT_SYNC_SCOPE.categories, archive: false } };
+
+      const restored = buildRestoredState(current, snapshot, 'device-1', 9000, scope);
+
+      expect(restored.archiveItems).toBe(current.archiveItems);
+      expect(restored.deletedItems).toEqual({ 'gone': 3000 });
+      expect(restored.positions.doc.blockIndex).toBe(2);
+    });
+  });
+});
@@ -6,8 +6,10 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mergeStates } from '@/lib/sync/merge';
-import type { SyncStateDocument, SyncArchiveItem } from '@/lib/sync/types';
-import { DEFAULT_SETTINGS } from '@/types';
+import { DEFAULT_SYNC_SCOPE, limitStateToScope } from '@/lib/sync/sync-scope';
+import type { SyncStateDocument, SyncArchiveItem, SyncScope, SyncCategory } from '@/lib/sync/types';
+import { DEFAULT_SETTINGS, DEFAULT_READING_STATS } from '@/types';
+import type { FieldTimestamps, ComprehensionScore } from '@/types';
 
 // Create a base SyncStateDocument for testing
 function createBaseStateDocument(overrides?: Partial<SyncStateDocument>): SyncStateDocument {
@@ -348,6 +350,126 @@ describe('Merge Module', () => {
       });
     });
 
+    describe('per-key merging', () => {
+      const theme = {
+        name: 'Shared Theme',
+        backgroundColor: '#ffffff',
+        textColor: '#000000',
+        linkColor: '#0066cc',
+        selectionColor: '#b3d4fc',
+        highlightColor: '#ffff00',
+      };
+
+      function timestamps(overrides: Partial<FieldTimestamps>): FieldTimestamps {
+        return { settings: {}, presets: {}, customThemes: {}, ...overrides };
+      }
+
+      it('keeps settings changed on different devices', () => {
+        const localState = createBaseStateDocument({
+          updatedAt: 3000,
+          settings: { ...DEFAULT_SETTINGS, fontSize: 24 },
+          fieldUpdatedAt: timestamps({ settings: { fontSize: 3000, baseWPM: 1000 } }),
+        });
+        const remoteState = createBaseStateDocument({
+          updatedAt: 2000,
+          settings: { ...DEFAULT_SETTINGS, baseWPM: 420 },
+          fieldUpdatedAt: timestamps({ settings: { fontSize: 1000, baseWPM: 2000 } }),
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local');
+
+        expect(result.merged.settings.fontSize).toBe(24);
+        expect(result.merged.settings.baseWPM).toBe(420);
+        expect(result.merged.fieldUpdatedAt?.settings).toMatchObject({ fontSize: 3000, baseWPM: 2000 });
+      });
+
+      it('reports each differing setting as its own conflict', () => {
+        const localState = createBaseStateDocument({
+          updatedAt: 3000,
+          settings: { ...DEFAULT_SETTINGS, fontSize: 24 },
+          fieldUpdatedAt: timestamps({ settings: { fontSize: 3000, baseWPM: 1000 } }),
+        });
+        const remoteState = createBaseStateDocument({
+          updatedAt: 2000,
+          settings: { ...DEFAULT_SETTINGS, baseWPM: 420 },
+          fieldUpdatedAt: timestamps({ settings: { fontSize: 1000, baseWPM: 2000 } }),
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local');
+
+        const settingsConflicts = result.conflicts.filter(c => c.type === 'settings');
+        expect(settingsConflicts).toEqual(expect.arrayContaining([
+          expect.objectContaining({ itemId: 'fontSize', localValue: 24, resolution: 'local-wins' }),
+          expect.objectContaining({ itemId: 'baseWPM', remoteValue: 420, resolution: 'remote-wins' }),
+        ]));
+        expect(settingsConflicts).toHaveLength(2);
+      });
+
+      it('uses the state time for settings of a state without timestamps', () => {
+        const localState = createBaseStateDocument({
+          updatedAt: 3000,
+          settings: { ...DEFAULT_SETTINGS, baseWPM: 250 },
+          fieldUpdatedAt: timestamps({ settings: { baseWPM: 1000 } }),
+        });
+        const remoteState = createBaseStateDocument({
+          updatedAt: 2000,
+          settings: { ...DEFAULT_SETTINGS, baseWPM: 350 },
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local');
+
+        expect(result.merged.settings.baseWPM).toBe(350);
+      });
+
+      it('deletes a preset removed after the other device last changed it', () => {
+        const localState = createBaseStateDocument({
+          presets: { 'Kept': { baseWPM: 300 } },
+          fieldUpdatedAt: timestamps({ presets: { 'Removed': 2000, 'Kept': 1000 } }),
+        });
+        const remoteState = createBaseStateDocument({
+          presets: { 'Removed': { baseWPM: 200 }, 'Kept': { baseWPM: 300 } },
+          fieldUpdatedAt: timestamps({ presets: { 'Removed': 1000, 'Kept': 1000 } }),
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local');
+
+        expect(Object.keys(result.merged.presets)).toEqual(['Kept']);
+        expect(result.merged.fieldUpdatedAt?.presets['Removed']).toBe(2000);
+      });
+
+      it('keeps a preset edited after the other device removed it', () => {
+        const localState = createBaseStateDocument({
+          presets: {},
+          fieldUpdatedAt: timestamps({ presets: { 'Edited': 1000 } }),
+        });
+        const remoteState = createBaseStateDocument({
+          presets: { 'Edited': { baseWPM: 500 } },
+          fieldUpdatedAt: timestamps({ presets: { 'Edited': 2000 } }),
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local');
+
+        expect(result.merged.presets['Edited']).toEqual({ baseWPM: 500 });
+      });
+
+      it('keeps the newer version of a theme even when its state is older', () => {
+        const localState = createBaseStateDocument({
+          updatedAt: 3000,
+          customThemes: [theme],
+          fieldUpdatedAt: timestamps({ customThemes: { 'Shared Theme': 1000 } }),
+        });
+        const remoteState = createBaseStateDocument({
+          updatedAt: 2000,
+          customThemes: [{ ...theme, backgroundColor: '#123456' }],
+          fieldUpdatedAt: timestamps({ customThemes: { 'Shared Theme': 2000 } }),
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local');
+
+        expect(result.merged.customThemes).toEqual([{ ...theme, backgroundColor: '#123456' }]);
+      });
+    });
+
     describe('preset merging', () => {
       it('takes union of presets', () => {
         const localState = createBaseStateDocument({
@@ -475,5 +597,110 @@ describe('Merge Module', () => {
         expect(result.hasChanges).toBe(true);
       });
     });
+
+    describe('reading stats merging', () => {
+      const createScore = (timestamp: number, correct: number): ComprehensionScore => ({
+        timestamp,
+        date: '2026-01-01',
+        documentId: 'doc-1',
+        wpm: 300,
+        correct,
+        total: 4,
+      });
+
+      it('keeps comprehension scores from both devices once each', () => {
+        const localState = createBaseStateDocument({
+          readingStats: { ...DEFAULT_READING_STATS, comprehensionScores: [createScore(1, 3), createScore(3, 4)] },
+        });
+        const remoteState = createBaseStateDocument({
+          readingStats: { ...DEFAULT_READING_STATS, comprehensionScores: [createScore(2, 1), createScore(3, 4)] },
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-1');
+
+        expect(result.merged.readingStats?.comprehensionScores?.map(score => score.timestamp)).toEqual([1, 2, 3]);
+      });
+
+      it('merges stats saved before comprehension scores existed', () => {
+        const { comprehensionScores: _, ...olderStats } = DEFAULT_READING_STATS;
+        const localState = createBaseStateDocument({ readingStats: olderStats });
+        const remoteState = createBaseStateDocument({
+          readingStats: { ...DEFAULT_READING_STATS, comprehensionScores: [createScore(1, 2)] },
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-1');
+
+        expect(result.merged.readingStats?.comprehensionScores).toHaveLength(1);
+      });
+    });
+
+    describe('selective sync', () => {
+      function scopeWithout(...categories: SyncCategory[]): SyncScope {
+        return {
+          ...DEFAULT_SYNC_SCOPE,
+          categories: {
+            ...DEFAULT_SYNC_SCOPE.categories,
+            ...Object.fromEntries(categories.map(category => [category, false])),
+          },
+        };
+      }
+
+      it('keeps remote archive items when the archive is excluded', () => {
+        const scope = scopeWithout('archive');
+        const localState = limitStateToScope(createBaseStateDocument({
+          updatedAt: 2000,
+          archiveItems: [createArchiveItem('item-local', 1500)],
+        }), scope);
+        const remoteState = createBaseStateDocument({
+          updatedAt: 1000,
+          archiveItems: [createArchiveItem('item-1', 900), createArchiveItem('item-2', 950)],
+          deletedItems: { 'item-old': 500 },
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local', scope);
+
+        expect(result.merged.archiveItems.map(item => item.id)).toEqual(['item-1', 'item-2']);
+        expect(result.merged.deletedItems).toEqual({ 'item-old': 500 });
+        expect(result.conflicts).toEqual([]);
+        expect(result.hasChanges).toBe(false);
+      });
+
+      it('keeps remote settings without conflicts when settings are excluded', () => {
+        const scope = scopeWithout('settings');
+        const localState = limitStateToScope(createBaseStateDocument({
+          updatedAt: 2000,
+          settings: { ...DEFAULT_SETTINGS, fontSize: 30 },
+          fieldUpdatedAt: { settings: { fontSize: 2000 } },
+        }), scope);
+        const remoteState = createBaseStateDocument({
+          updatedAt: 1000,
+          settings: { ...DEFAULT_SETTINGS, fontSize: 18 },
+          fieldUpdatedAt: { settings: { fontSize: 1000 } },
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local', scope);
+
+        expect(result.merged.settings.fontSize).toBe(18);
+        expect(result.merged.fieldUpdatedAt?.settings?.fontSize).toBe(1000);
+        expect(result.conflicts).toEqual([]);
+      });
+
+      it('still merges the categories in scope', () => {
+        const scope = scopeWithout('archive');
+        const localState = limitStateToScope(createBaseStateDocument({
+          updatedAt: 2000,
+          positions: { 'doc-1': { blockIndex: 5, charOffset: 0, timestamp: 2000 } },
+        }), scope);
+        const remoteState = createBaseStateDocument({
+          updatedAt: 1000,
+          positions: { 'doc-2': { blockIndex: 1, charOffset: 0, timestamp: 1000 } },
+        });
+
+        const result = mergeStates(localState, remoteState, 'device-local', scope);
+
+        expect(Object.keys(result.merged.positions).sort()).toEqual(['doc-1', 'doc-2']);
+        expect(result.hasChanges).toBe(true);
+      });
+    });
   });
 });
@@ -0,0 +1,86 @@
+/**
+ * Sync Sections Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS } from '@/types';
+import type { SyncStateDocument } from '@/lib/sync/types';
+import {
+  SYNC_SECTION_NAMES,
+  splitState,
+  assembleState,
+  hashSection,
+  isSectionedRoot,
+  getSectionFileName,
+  getSectionFilesToPrune,
+  type SyncSectionRefs,
+} from '@/lib/sync/sections';
+
+function createState(overrides?: Partial<SyncStateDocument>): SyncStateDocument {
+  return {
+    schemaVersion: 4,
+    updatedAt: 1000,
+    deviceId: 'device-1',
+    settings: { ...DEFAULT_SETTINGS },
+    presets: {},
+    customThemes: [],
+    archiveItems: [],
+    positions: { 'doc-1': { blockIndex: 2, charOffset: 0, timestamp: 900 } },
+    collections: [],
+    annotations: {},
+    deletedItems: { 'item-9': 800 },
+    contentManifest: { version: 1, items: {} },
+    onboardingCompleted: true,
+    exitConfirmationDismissed: false,
+    ...overrides,
+  };
+}
+
+function createRefs(hashes: string[]): SyncSectionRefs {
+  return Object.fromEntries(
+    SYNC_SECTION_NAMES.map((name, index) => [name, { hash: hashes[index], updatedAt: 1000 }])
+  ) as SyncSectionRefs;
+}
+
+describe('sync sections', () => {
+  it('keeps only the document metadata in the root', () => {
+    const { root, sections } = splitState(createState());
+
+    expect(Object.keys(root).sort()).toEqual([
+      'contentManifest',
+      'deviceId',
+      'exitConfirmationDismissed',
+      'onboardingCompleted',
+      'schemaVersion',
+      'updatedAt',
+    ]);
+    expect(sections.archive).toEqual({ archiveItems: [], deletedItems: { 'item-9': 800 } });
+    expect(sections.stats).toEqual({});
+  });
+
+  it('reassembles a split state', () => {
+    const state = createState();
+    const { root, sections } = splitState(state);
+    const sectionedRoot = { ...root, sections: createRefs(SYNC_SECTION_NAMES.map(() => 'hash')) };
+
+    expect(isSectionedRoot(sectionedRoot)).toBe(true);
+    expect(isSectionedRoot(state)).toBe(false);
+    expect(assembleState(sectionedRoot, sections)).toEqual(state);
+  });
+
+  it('hashes sections by their contents', async () => {
+    const a = splitState(createState()).sections;
+    const b = splitState(createState({ updatedAt: 2000, positions: {} })).sections;
+
+    expect(await hashSection(a.settings)).toBe(await hashSection(b.settings));
+    expect(await hashSection(a.positions)).not.toBe(await hashSection(b.positions));
+    expect(await hashSection(a.positions)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('prunes only the files of sections the new root replaced', () => {
+    const replaced = createRefs(['s1', 'a1', 'p1', 'n1', 't1', 'c1']);
+    const current = createRefs(['s1', 'a1', 'p2', 'n1', 't1', 'c1']);
+
+    expect(getSectionFilesToPrune(replaced, current)).toEqual([getSectionFileName('positions', 'p1')]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock file-utils for hash computation
+vi.mock('@/lib/file-utils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/file-utils')>();
+  return {
+    ...actual,
+    computeFileHash: vi.fn().mockResolvedValue('mock-hash-12345'),
+  };
+});
+
+import { extractFromTextFile, getTextFormat, rtfToText } from '@/lib/text-handler';
+
+function createFile(name: string, content: string): File {
+  return new File([content], name, { type: 'text/plain' });
+}
+
+describe('Text Handler', () => {
+  describe('getTextFormat', () => {
+    it('detects the format from the extension', () => {
+      expect(getTextFormat('notes.md')).toBe('markdown');
+      expect(getTextFormat('notes.MARKDOWN')).toBe('markdown');
+      expect(getTextFormat('page.htm')).toBe('html');
+      expect(getTextFormat('letter.rtf')).toBe('rtf');
+      expect(getTextFormat('notes.txt')).toBe('plain');
+    });
+  });
+
+  describe('rtfToText', () => {
+    it('keeps paragraph text and drops formatting and header tables', () => {
+      const rtf = String.raw`{\rtf1\ansi\deff0{\fonttbl{\f0 Times New Roman;}}{\colortbl;\red0\green0\blue0;}
+{\*\generator Writer;}\f0\fs24 {\b Heading}\par
+First paragraph with \i italic\i0  text.\par
+Second \{braced\} paragraph.\par}`;
+
+      expect(rtfToText(rtf)).toBe('Heading\n\nFirst paragraph with italic text.\n\nSecond {braced} paragraph.');
+    });
+
+    it('decodes hex and unicode escapes', () => {
+      const rtf = String.raw`{\rtf1\ansi Caf\'e9 \u8212? na\uc2\u239 ??ve\par}`;
+      expect(rtfToText(rtf)).toBe('Café — naïve');
+    });
+  });
+
+  describe('extractFromTextFile', () => {
+    it('splits plain text into paragraphs', async () => {
+      const doc = await extractFromTextFile(createFile('notes.txt', 'First paragraph.\r\n\r\nSecond paragraph.'));
+
+      expect(doc.metadata.source).toBe('text');
+      expect(doc.metadata.title).toBe('notes');
+      expect(doc.metadata.fileHash).toBe('mock-hash-12345');
+      expect(doc.blocks.map(b => b.type === 'paragraph' && b.content)).toEqual(['First paragraph.', 'Second paragraph.']);
+    });
+
+    it('parses markdown and takes the title from the first heading', async () => {
+      const doc = await extractFromTextFile(createFile('spec.md', '# Sync Spec\n\nSome **bold** text.\n\n- one\n- two'));
+
+      expect(doc.metadata.title).toBe('Sync Spec');
+      expect(doc.blocks.map(b => b.type)).toEqual(['heading', 'paragraph', 'list']);
+      expect(doc.plainText).toContain('Some bold text.');
+    });
+
+    it('cleans saved html pages', async () => {
+      const html = `<html><head><title>Saved page</title></head><body>
+        <nav><a href="/">Home</a></nav>
+        <h1>Article Title</h1>
+        <p>The article body explains how the sync service merges reading positions from several devices.</p>
+        <img src="page_files/photo.jpg" width="600" height="400">
+      </body></html>`;
+      const doc = await extractFromTextFile(createFile('page.html', html));
+
+      expect(doc.metadata.title).toBe('Article Title');
+      expect(doc.plainText).toContain('The article body explains');
+      expect(doc.plainText).not.toContain('Home');
+      expect(doc.blocks.some(b => b.type === 'figure')).toBe(false);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
+import type { Block } from '@/types';
 import {
   tokenizeForRSVP,
+  tokenizeBlocksForRSVP,
   calculateTokenDuration,
   findORP,
   getWordCount,
@@ -57,6 +59,50 @@ describe('RSVP Tokenizer', () => {
     });
   });
 
+  describe('tokenizeBlocksForRSVP', () => {
+    const blocks: Block[] = [
+      { type: 'heading', level: 2, content: 'Getting started', id: 'h' },
+      { type: 'paragraph', content: 'One two three', id: 'p' },
+      { type: 'list', ordered: false, items: ['Apples', 'Pears and plums'], id: 'l' },
+      { type: 'figure', alt: 'Chart', id: 'f' },
+      { type: 'table', headerRows: [['Name', 'Score']], rows: [['Ada', '10']], id: 't' },
+    ];
+
+    it('shows headings whole as title cards', () => {
+      const [heading, first] = tokenizeBlocksForRSVP(blocks, 1);
+      expect(heading).toMatchObject({ text: 'Getting started', isTitleCard: true, wordCount: 2, blockIndex: 0 });
+      expect(first).toMatchObject({ text: 'One', isTitleCard: false, wordOffset: 2, blockIndex: 1 });
+    });
+
+    it('never chunks across blocks, list items or table rows', () => {
+      const tokens = tokenizeBlocksForRSVP(blocks, 2);
+      expect(tokens.map((t) => t.text)).toEqual([
+        'Getting started', 'One two', 'three', 'Apples', 'Pears and', 'plums', 'Name Score', 'Ada 10',
+      ]);
+      expect(tokens.map((t) => t.blockIndex)).toEqual([0, 1, 1, 2, 2, 2, 4, 4]);
+    });
+
+    it('pauses by block type, but not after the last words', () => {
+      const tokens = tokenizeBlocksForRSVP(blocks, 1);
+      const byText = (text: string) => tokens.find((t) => t.text === text)!;
+
+      expect(byText('three').pauseMultiplier).toBe(3.0);
+      expect(byText('three').isEndOfParagraph).toBe(true);
+      expect(byText('Apples').pauseMultiplier).toBe(2.0);
+      expect(byText('Apples').isEndOfParagraph).toBe(false);
+      expect(byText('Score').pauseMultiplier).toBe(2.0);
+      expect(byText('10').pauseMultiplier).toBe(1.0);
+      expect(byText('10').isEndOfParagraph).toBe(false);
+    });
+
+    it('ends a sentence at every block, item and row end', () => {
+      const tokens = tokenizeBlocksForRSVP(blocks, 1);
+      expect(tokens.filter((t) => t.isEndOfSentence).map((t) => t.text)).toEqual(
+        ['Getting started', 'three', 'Apples', 'plums', 'Score', '10']
+      );
+    });
+  });
+
   describe('calculateTokenDuration', () => {
     it('calculates base duration from WPM', () => {
       const token = { text: 'word', pauseMultiplier: 1, isEndOfSentence: false, isEndOfParagraph: false };
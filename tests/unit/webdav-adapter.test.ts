@@ -0,0 +1,288 @@
+/**
+ * WebDAV Adapter Tests
+ *
+ * Runs the adapter against a small in-memory WebDAV server behind a stubbed fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { EncryptedBlob, WebDavCredentials } from '@/lib/sync/types';
+
+const storage = new Map<string, unknown>();
+
+vi.mock('@/lib/chrome-storage', () => ({
+  getOne: vi.fn(async (key: string) => storage.get(key)),
+  setOne: vi.fn(async (key: string, value: unknown) => { storage.set(key, value); }),
+  remove: vi.fn(async (key: string) => { storage.delete(key); }),
+}));
+
+import { WebDavAdapter, WebDavError, parseMultistatus } from '@/lib/sync/providers/webdav-adapter';
+
+const ROOT = 'https://cloud.example.com/remote.php/dav/files/alice/';
+
+const CREDENTIALS: WebDavCredentials = {
+  serverUrl: ROOT.slice(0, -1),
+  username: 'alice',
+  password: 'app-secret',
+  authType: 'app-password',
+};
+
+/**
+ * Minimal WebDAV server: folders and files keyed by path, with ETags and
+ * Basic auth. Responds like Nextcloud (d: prefix, 207 multistatus).
+ */
+class StandInServer {
+  folders = new Set<string>([new URL(ROOT).pathname]);
+  files = new Map<string, { body: string; etag: string; modified: Date }>();
+  sendPutEtag = true;
+  private revision = 0;
+
+  handle = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const path = decodeURIComponent(url.pathname);
+    const method = init.method ?? 'GET';
+
+    const headers = new Headers(init.headers);
+    if (headers.get('Authorization') !== `Basic ${btoa('alice:app-secret')}`) {
+      return new Response('', { status: 401 });
+    }
+
+    const parent = path.replace(/[^/]+\/?$/, '');
+    switch (method) {
+      case 'PROPFIND': {
+        if (!this.folders.has(path)) return new Response('', { status: 404 });
+        const children = headers.get('Depth') === '1'
+          ? [...this.folders, ...this.files.keys()].filter(p => p !== path && p.replace(/[^/]+\/?$/, '') === path)
+          : [];
+        const entries = [path, ...children].map(p => `
+          <d:response>
+            <d:href>${encodeURI(p).replace(/&/g, '&amp;')}</d:href>
+            <d:propstat><d:prop><d:resourcetype>${this.folders.has(p) ? '<d:collection/>' : ''}</d:resourcetype></d:prop></d:propstat>
+          </d:response>`);
+        return new Response(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${entries.join('')}</d:multistatus>`, { status: 207 });
+      }
+      case 'MKCOL':
+        if (this.folders.has(path)) return new Response('', { status: 405 });
+        if (!this.folders.has(parent)) return new Response('', { status: 409 });
+        this.folders.add(path);
+        return new Response(null, { status: 201 });
+      case 'PUT': {
+        if (!this.folders.has(parent)) return new Response('', { status: 409 });
+        const current = this.files.get(path);
+        const ifMatch = headers.get('If-Match');
+        if ((ifMatch && ifMatch !== current?.etag) || (headers.get('If-None-Match') === '*' && current)) {
+          return new Response('', { status: 412 });
+        }
+        const body = typeof init.body === 'string' ? init.body : await (init.body as Blob).text();
+        const etag = `"rev-${++this.revision}"`;
+        this.files.set(path, { body, etag, modified: new Date('2026-01-02T03:04:05Z') });
+        return new Response(null, { status: 201, headers: this.sendPutEtag ? { ETag: etag } : {} });
+      }
+      case 'GET':
+      case 'HEAD': {
+        const file = this.files.get(path);
+        if (!file) return new Response(null, { status: 404 });
+        const fileHeaders = {
+          ETag: file.etag,
+          'Last-Modified': file.modified.toUTCString(),
+          'Content-Length': String(file.body.length),
+        };
+        return new Response(method === 'HEAD' ? null : file.body, { status: 200, headers: fileHeaders });
+      }
+      case 'DELETE':
+        if (!this.files.delete(path)) return new Response(null, { status: 404 });
+        return new Response(null, { status: 204 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+}
+
+const BLOB: EncryptedBlob = {
+  version: 1,
+  algorithm: 'AES-GCM',
+  salt: 'c2FsdA==',
+  iv: 'aXY=',
+  ciphertext: 'Y2lwaGVydGV4dA==',
+  encryptedAt: 1000,
+};
+
+describe('WebDavAdapter', () => {
+  let server: StandInServer;
+  let adapter: WebDavAdapter;
+
+  beforeEach(() => {
+    storage.clear();
+    server = new StandInServer();
+    vi.stubGlobal('fetch', vi.fn(server.handle));
+    adapter = new WebDavAdapter();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('connect', () => {
+    it('verifies the login, creates the sync folder and stores the credentials', async () => {
+      await adapter.connect(CREDENTIALS);
+
+      expect(server.folders.has('/remote.php/dav/files/alice/FlowReader/')).toBe(true);
+      expect(await adapter.isConnected()).toBe(true);
+      expect(await adapter.getAccount()).toEqual({
+        serverUrl: ROOT,
+        username: 'alice',
+        authType: 'app-password',
+      });
+    });
+
+    it('keeps an existing sync folder', async () => {
+      server.folders.add('/remote.php/dav/files/alice/FlowReader/');
+      await expect(adapter.connect(CREDENTIALS)).resolves.toBeUndefined();
+    });
+
+    it('suggests an app password when an account password is rejected', async () => {
+      const error = await adapter
+        .connect({ ...CREDENTIALS, password: 'wrong', authType: 'password' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(WebDavError);
+      expect(error.operation).toBe('auth');
+      expect(error.message).toMatch(/app password/);
+      expect(await adapter.isConnected()).toBe(false);
+    });
+
+    it('rejects a URL that is not a WebDAV folder', async () => {
+      const error = await adapter
+        .connect({ ...CREDENTIALS, serverUrl: 'https://cloud.example.com/nowhere' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(WebDavError);
+      expect(error.operation).toBe('connect');
+      expect(error.status).toBe(404);
+    });
+  });
+
+  describe('state file', () => {
+    beforeEach(async () => {
+      await adapter.connect(CREDENTIALS);
+    });
+
+    it('reports a missing state file', async () => {
+      expect(await adapter.getRemoteMetadata()).toEqual({ exists: false, updatedAt: 0, size: 0 });
+      expect(await adapter.download()).toBeNull();
+    });
+
+    it('round-trips the state and reports its ETag', async () => {
+      const result = await adapter.upload(BLOB);
+
+      expect(result.success).toBe(true);
+      expect(result.etag).toBe('"rev-1"');
+      expect(await adapter.download()).toEqual(BLOB);
+
+      const metadata = await adapter.getRemoteMetadata();
+      expect(metadata).toMatchObject({
+        exists: true,
+        etag: '"rev-1"',
+        updatedAt: Date.parse('2026-01-02T03:04:05Z'),
+      });
+      expect(metadata.size).toBeGreaterThan(0);
+    });
+
+    it('changes the ETag on every upload', async () => {
+      await adapter.upload(BLOB);
+      await adapter.upload({ ...BLOB, encryptedAt: 2000 });
+
+      expect((await adapter.getRemoteMetadata()).etag).toBe('"rev-2"');
+    });
+
+    it('only overwrites the ETag it expects', async () => {
+      const { etag } = await adapter.upload(BLOB);
+      await adapter.upload({ ...BLOB, encryptedAt: 2000 }, { expectedEtag: etag });
+
+      expect(await adapter.upload(BLOB, { expectedEtag: etag })).toMatchObject({ success: false, conflict: true });
+      expect(await adapter.upload(BLOB, { expectedEtag: null })).toMatchObject({ success: false, conflict: true });
+      expect((await adapter.download())?.encryptedAt).toBe(2000);
+    });
+
+    it('reads the ETag back when the server omits it on PUT', async () => {
+      server.sendPutEtag = false;
+
+      const result = await adapter.upload(BLOB);
+
+      expect(result.etag).toBe('"rev-1"');
+    });
+
+    it('fails uploads without credentials', async () => {
+      await adapter.disconnect();
+
+      const result = await adapter.upload(BLOB);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Not authenticated');
+    });
+  });
+
+  describe('content files', () => {
+    beforeEach(async () => {
+      await adapter.connect(CREDENTIALS);
+    });
+
+    it('creates the content folder on first upload and lists files', async () => {
+      await adapter.uploadContentFile('doc-1.json', new Blob(['{"a":1}']));
+      await adapter.uploadContentFile('my notes.json', new Blob(['{"b":2}']));
+
+      expect(server.folders.has('/remote.php/dav/files/alice/FlowReader/content/')).toBe(true);
+      expect((await adapter.listContentFiles()).sort()).toEqual(['doc-1.json', 'my notes.json']);
+    });
+
+    it('downloads and deletes content files', async () => {
+      await adapter.ensureContentFolder();
+      await adapter.uploadContentFile('doc-1.json', new Blob(['{"a":1}']));
+
+      const blob = await adapter.downloadContentFile('doc-1.json');
+      expect(await blob?.text()).toBe('{"a":1}');
+
+      await adapter.deleteContentFile('doc-1.json');
+      expect(await adapter.listContentFiles()).toEqual([]);
+      expect(await adapter.downloadContentFile('doc-1.json')).toBeNull();
+    });
+
+    it('ignores deleting a missing file', async () => {
+      await expect(adapter.deleteContentFile('missing.json')).resolves.toBeUndefined();
+    });
+
+    it('lists nothing before the content folder exists', async () => {
+      expect(await adapter.listContentFiles()).toEqual([]);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('forgets the credentials', async () => {
+      await adapter.connect(CREDENTIALS);
+      await adapter.disconnect();
+
+      expect(await adapter.isConnected()).toBe(false);
+      expect(await new WebDavAdapter().isConnected()).toBe(false);
+    });
+  });
+});
+
+describe('parseMultistatus', () => {
+  it('reads entries regardless of namespace prefix', () => {
+    const xml = `<?xml version="1.0"?>
+      <D:multistatus xmlns:D="DAV:">
+        <D:response><D:href>/dav/content/</D:href><D:propstat><D:prop><D:resourcetype><D:collection/></D:resourcetype></D:prop></D:propstat></D:response>
+        <D:response><D:href>/dav/content/a%20b.json</D:href><D:propstat><D:prop><D:resourcetype/></D:prop></D:propstat></D:response>
+      </D:multistatus>`;
+
+    expect(parseMultistatus(xml)).toEqual([
+      { href: '/dav/content/', isCollection: true },
+      { href: '/dav/content/a%20b.json', isCollection: false },
+    ]);
+  });
+
+  it('decodes XML entities in hrefs', () => {
+    const xml = '<multistatus xmlns="DAV:"><response><href>/a/b&amp;c.json</href></response></multistatus>';
+
+    expect(parseMultistatus(xml)).toEqual([{ href: '/a/b&c.json', isCollection: false }]);
+  });
+});
@@ -1,17 +1,46 @@
 /// <reference types="vitest" />
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { crx } from '@crxjs/vite-plugin';
+import { readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import manifest from './src/manifest.json';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
+// OCR engine files, loaded at runtime from ocr/ by src/lib/pdf-ocr.ts
+const OCR_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  // LSTM-only cores; the worker picks one based on SIMD support
+  'tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'tesseract-core-relaxedsimd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+// Bundle the OCR engine so scanned PDFs can be read offline
+function ocrAssets(): Plugin {
+  return {
+    name: 'flowreader-ocr-assets',
+    apply: 'build',
+    generateBundle() {
+      for (const [fileName, modulePath] of Object.entries(OCR_ASSETS)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `ocr/${fileName}`,
+          source: readFileSync(resolve(__dirname, 'node_modules', modulePath)),
+        });
+      }
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
     crx({ manifest }),
+    ocrAssets(),
   ],
   resolve: {
     alias: {
@@ -48,6 +77,10 @@ export default defineConfig({
                 id.includes('xmlbuilder')) {
               return 'docx';
             }
+            // Tesseract OCR client (only used for scanned PDFs)
+            if (id.includes('tesseract')) {
+              return 'ocr';
+            }
             // fflate for compression (used by epub/mobi handlers)
             if (id.includes('fflate')) {
               return 'compression';